@@ -1,11 +1,26 @@
 import React from 'react';
+import { AdminPage } from './admin/AdminPage';
+import { AnalyticsPage } from './analytics/AnalyticsPage';
+import { ControlGrid } from './controls/ControlGrid';
+import { routeHref, useRoute } from './useRoute';
 
 function App() {
+  const route = useRoute();
   return (
     <div style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif' }}>
       <h1>Home Automation User Control Dashboard</h1>
-      <p>Placeholder UI - Milestone 1</p>
-      <p>This is a minimal placeholder. UI features will be implemented in later milestones.</p>
+      <nav style={{ display: 'flex', gap: '1rem', marginBottom: '1.5rem' }}>
+        <a href={routeHref({ page: 'controls' })}>Controls</a>
+        <a href={routeHref({ page: 'analytics' })}>Analytics</a>
+        <a href={routeHref({ page: 'admin' })}>Admin</a>
+      </nav>
+      {route.page === 'analytics' ? (
+        <AnalyticsPage controlId={route.controlId} />
+      ) : route.page === 'admin' ? (
+        <AdminPage />
+      ) : (
+        <ControlGrid />
+      )}
     </div>
   );
 }
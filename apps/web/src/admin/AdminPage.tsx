@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../../../convex/_generated/api';
+import { ControlAdminRow } from './ControlAdminRow';
+import { CreateControlForm } from './CreateControlForm';
+
+/**
+ * Control administration: adding controls, renaming their states and
+ * retiring or restoring them. Changes that would alter the meaning of
+ * recorded states are refused by the server.
+ */
+export function AdminPage() {
+  const controls = useQuery(api.controls.listControls);
+  const models = useQuery(api.models.listModels);
+  const [showRetired, setShowRetired] = useState(false);
+
+  const shown = controls?.filter((control) => showRetired || control.retiredAtMs === null);
+  return (
+    <div>
+      <h2>New control</h2>
+      <CreateControlForm models={models ?? []} />
+
+      <h2>Controls</h2>
+      <label>
+        <input
+          type="checkbox"
+          checked={showRetired}
+          onChange={(event) => setShowRetired(event.target.checked)}
+        />{' '}
+        Show retired controls
+      </label>
+      {shown === undefined ? (
+        <p>Loading controls…</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', marginTop: '1rem' }}>
+          {shown.map((control) => (
+            <ControlAdminRow key={control.controlId} {...control} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { findDefinitionIncompatibility, type ControlDefinition, type ControlId } from '@core';
+import { api } from '../../../../convex/_generated/api';
+import { routeHref } from '../useRoute';
+import { LabelsEditor } from './LabelsEditor';
+import {
+  definitionError,
+  definitionLabels,
+  relabelDefinition,
+  type DefinitionArg,
+  type InputLabels,
+} from './definitions';
+
+interface ControlAdminRowProps {
+  readonly controlId: ControlId;
+  readonly definition: ControlDefinition;
+  readonly retiredAtMs: number | null;
+}
+
+/**
+ * One control in the admin page: its labels, editable in place, and whether
+ * it is retired.
+ */
+export function ControlAdminRow({ controlId, definition, retiredAtMs }: ControlAdminRowProps) {
+  const updateDefinition = useMutation(api.controls.updateControlDefinition);
+  const retire = useMutation(api.controls.retireControl);
+  const restore = useMutation(api.controls.restoreControl);
+  const [inputs, setInputs] = useState<InputLabels[]>(() => definitionLabels(definition));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow edits saved elsewhere
+  const saved = JSON.stringify(definition);
+  useEffect(() => setInputs(definitionLabels(definition)), [saved]);
+
+  const edited = relabelDefinition(definition, inputs);
+  const changed = JSON.stringify(edited) !== saved;
+  const problem =
+    definitionError(edited) ?? findDefinitionIncompatibility(definition, edited) ?? null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <section
+      style={{ border: '1px solid #ccc', borderRadius: '0.5rem', padding: '1rem' }}
+      aria-label={controlId}
+    >
+      <header style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+        <h2 style={{ margin: 0, fontSize: '1.1rem' }}>
+          {controlId} <span style={{ color: '#666', fontWeight: 400 }}>({definition.kind})</span>
+        </h2>
+        <span style={{ color: '#666' }}>
+          {retiredAtMs === null
+            ? 'In use'
+            : `Retired ${new Date(retiredAtMs).toLocaleDateString()}`}{' '}
+          · <a href={routeHref({ page: 'analytics', controlId })}>Analytics</a>
+        </span>
+      </header>
+      <div style={{ marginTop: '0.75rem' }}>
+        <LabelsEditor inputs={inputs} onChange={setInputs} />
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+        <button
+          disabled={!changed || problem !== null}
+          onClick={() =>
+            run(() => updateDefinition({ controlId, definition: edited as DefinitionArg }))
+          }
+        >
+          Save labels
+        </button>
+        <button disabled={!changed} onClick={() => setInputs(definitionLabels(definition))}>
+          Reset
+        </button>
+        {retiredAtMs === null ? (
+          <button
+            onClick={() => {
+              if (window.confirm(`Retire ${controlId}? Its history is kept.`)) {
+                void run(() => retire({ controlId }));
+              }
+            }}
+          >
+            Retire
+          </button>
+        ) : (
+          <button onClick={() => run(() => restore({ controlId }))}>Restore</button>
+        )}
+      </div>
+      {changed && problem !== null && <p style={{ color: '#b00020' }}>{problem}</p>}
+      {error !== null && <p style={{ color: '#b00020', marginBottom: 0 }}>{error}</p>}
+    </section>
+  );
+}
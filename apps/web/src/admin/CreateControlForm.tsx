@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import type { ControlId, ModelDefinition, ModelId } from '@core';
+import { api } from '../../../../convex/_generated/api';
+import { definitionError, draftDefinition, type DefinitionArg } from './definitions';
+
+type DraftKind = 'radiobutton' | 'slider' | 'json';
+
+interface CreateControlFormProps {
+  readonly models: readonly ModelDefinition[];
+}
+
+/**
+ * Form for adding a control: a radiobutton or slider from a list of labels,
+ * or any definition (e.g. a compound control) as JSON.
+ */
+export function CreateControlForm({ models }: CreateControlFormProps) {
+  const createControl = useMutation(api.controls.createControl);
+  const [controlId, setControlId] = useState('');
+  const [kind, setKind] = useState<DraftKind>('radiobutton');
+  const [text, setText] = useState('');
+  const [modelId, setModelId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  let definition: unknown;
+  let problem: string | null;
+  if (kind === 'json') {
+    try {
+      definition = JSON.parse(text);
+      problem = definitionError(definition);
+    } catch {
+      problem = 'Definition is not valid JSON';
+    }
+  } else {
+    const labels = text
+      .split('\n')
+      .map((label) => label.trim())
+      .filter((label) => label !== '');
+    definition = draftDefinition(kind, labels);
+    problem = definitionError(definition);
+  }
+  if (controlId.trim() === '') {
+    problem = 'Enter a control id';
+  } else if (modelId === '') {
+    problem = 'Choose the model that automates the control';
+  }
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await createControl({
+        controlId: controlId.trim() as ControlId,
+        definition: definition as DefinitionArg,
+        modelId: modelId as ModelId,
+      });
+      setControlId('');
+      setText('');
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxWidth: '30rem' }}
+    >
+      <label>
+        Control id{' '}
+        <input value={controlId} onChange={(event) => setControlId(event.target.value)} />
+      </label>
+      <label>
+        Kind{' '}
+        <select value={kind} onChange={(event) => setKind(event.target.value as DraftKind)}>
+          <option value="radiobutton">Radiobutton</option>
+          <option value="slider">Slider (default thresholds)</option>
+          <option value="json">Other (JSON definition)</option>
+        </select>
+      </label>
+      <label>
+        {kind === 'json'
+          ? 'Definition'
+          : kind === 'slider'
+            ? 'Labels, one per line (optional, 6 states)'
+            : 'Options, one per line (2–10)'}
+        <textarea
+          value={text}
+          rows={kind === 'json' ? 8 : 5}
+          style={{
+            display: 'block',
+            width: '100%',
+            fontFamily: kind === 'json' ? 'monospace' : undefined,
+          }}
+          onChange={(event) => setText(event.target.value)}
+        />
+      </label>
+      <label>
+        Model{' '}
+        <select value={modelId} onChange={(event) => setModelId(event.target.value)}>
+          <option value="" disabled>
+            Choose a model
+          </option>
+          {models.map((model) => (
+            <option key={model.modelId} value={model.modelId}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <button type="submit" disabled={problem !== null}>
+          Create control
+        </button>
+      </div>
+      {problem !== null && <p style={{ color: '#666', margin: 0 }}>{problem}</p>}
+      {error !== null && <p style={{ color: '#b00020', margin: 0 }}>{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { InputLabels } from './definitions';
+
+interface LabelsEditorProps {
+  readonly inputs: readonly InputLabels[];
+  readonly onChange: (inputs: InputLabels[]) => void;
+}
+
+/**
+ * Text fields for the state labels of each input, and for the dimension names
+ * of compound controls. The number of states is fixed.
+ */
+export function LabelsEditor({ inputs, onChange }: LabelsEditorProps) {
+  const update = (k: number, input: InputLabels) =>
+    onChange(inputs.map((previous, j) => (j === k ? input : previous)));
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {inputs.map((input, k) => (
+        <div key={k} style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+          {input.name !== undefined && (
+            <input
+              aria-label={`Dimension ${k + 1} name`}
+              value={input.name}
+              style={{ fontWeight: 500 }}
+              onChange={(event) => update(k, { ...input, name: event.target.value })}
+            />
+          )}
+          {input.labels.map((label, state) => (
+            <input
+              key={state}
+              aria-label={`State ${state} label`}
+              placeholder={`State ${state}`}
+              value={label}
+              size={10}
+              onChange={(event) =>
+                update(k, {
+                  ...input,
+                  labels: input.labels.map((previous, j) =>
+                    j === state ? event.target.value : previous
+                  ),
+                })
+              }
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
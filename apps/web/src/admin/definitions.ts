@@ -0,0 +1,97 @@
+import {
+  controlDefinitionSchema,
+  getStateCount,
+  type ControlDefinition,
+  type SimpleControlDefinition,
+} from '@core';
+import type { FunctionArgs } from 'convex/server';
+import type { api } from '../../../../convex/_generated/api';
+import { controlInputs } from '../controls/values';
+
+/**
+ * Drafting and relabeling control definitions in the admin forms. Labels are
+ * edited per input (one for radiobuttons and sliders, one per dimension for
+ * compound controls); a slider whose labels are all left blank keeps its
+ * "State N" fallbacks.
+ */
+
+/**
+ * A definition as the control mutations take it (their validators type
+ * arrays as mutable).
+ */
+export type DefinitionArg = FunctionArgs<typeof api.controls.createControl>['definition'];
+
+/**
+ * Editable names of one input: the dimension name (compound controls only)
+ * and one label per state.
+ */
+export interface InputLabels {
+  readonly name?: string;
+  readonly labels: readonly string[];
+}
+
+/**
+ * Current labels of every input of a control, blank where a slider has none.
+ */
+export function definitionLabels(definition: ControlDefinition): InputLabels[] {
+  return controlInputs(definition).map(({ name, definition: input }) => ({
+    name,
+    labels: input.labels ?? Array.from({ length: getStateCount(input) }, () => ''),
+  }));
+}
+
+/**
+ * `definition` with the labels (and dimension names) replaced.
+ */
+export function relabelDefinition(
+  definition: ControlDefinition,
+  inputs: readonly InputLabels[]
+): ControlDefinition {
+  if (definition.kind !== 'compound') {
+    return relabelSimple(definition, inputs[0].labels);
+  }
+  return {
+    kind: 'compound',
+    dimensions: definition.dimensions.map((dimension, k) => ({
+      name: inputs[k].name ?? dimension.name,
+      control: relabelSimple(dimension.control, inputs[k].labels),
+    })),
+  };
+}
+
+function relabelSimple(
+  definition: SimpleControlDefinition,
+  labels: readonly string[]
+): SimpleControlDefinition {
+  if (definition.kind === 'radiobutton') {
+    return { ...definition, labels };
+  }
+  const { labels: _previous, ...slider } = definition;
+  return labels.every((label) => label.trim() === '') ? slider : { ...slider, labels };
+}
+
+/**
+ * A new radiobutton with one state per label, or a default slider with
+ * optional labels.
+ */
+export function draftDefinition(
+  kind: 'radiobutton' | 'slider',
+  labels: readonly string[]
+): ControlDefinition {
+  return kind === 'radiobutton'
+    ? { kind, numStates: labels.length, labels }
+    : relabelSimple({ kind }, labels);
+}
+
+/**
+ * Why a definition is invalid (the first problem found), or `null` if it is
+ * valid.
+ */
+export function definitionError(definition: unknown): string | null {
+  const result = controlDefinitionSchema.safeParse(definition);
+  if (result.success) {
+    return null;
+  }
+  const [issue] = result.error.issues;
+  return issue.path.length === 0 ? issue.message : `${issue.path.join('.')}: ${issue.message}`;
+}
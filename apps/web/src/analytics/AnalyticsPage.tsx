@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { CLOCK_IDS, type ClockId, type HeatmapView, type ModelId } from '@core';
+import { api } from '../../../../convex/_generated/api';
+import { routeHref } from '../useRoute';
+import { Heatmap, type HeatmapMode } from './Heatmap';
+import { stateColor } from './colors';
+
+const CLOCK_NAMES: Record<ClockId, string> = {
+  local: 'Local time',
+  utc: 'UTC',
+  meanSolar: 'Mean solar time',
+  apparentSolar: 'Apparent solar time',
+  unequalHours: 'Unequal hours',
+};
+
+interface AnalyticsPageProps {
+  readonly controlId?: string;
+}
+
+/**
+ * Per-control analytics: the five clocks' heatmaps side by side, to compare
+ * which clock explains the household's behaviour best.
+ */
+export function AnalyticsPage({ controlId }: AnalyticsPageProps) {
+  const controls = useQuery(api.controls.listControls);
+  const models = useQuery(api.models.listModels);
+  const [modelId, setModelId] = useState<ModelId | ''>('');
+  const [view, setView] = useState<HeatmapView>('week');
+  const [mode, setMode] = useState<HeatmapMode>('preference');
+  const selected = controls?.find((control) => control.controlId === controlId);
+
+  const heatmap = useQuery(
+    api.inferenceQueries.getPreferenceHeatmap,
+    selected === undefined
+      ? 'skip'
+      : {
+          controlId: selected.controlId,
+          modelId: modelId === '' ? undefined : modelId,
+          view,
+        }
+  );
+
+  return (
+    <div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', marginBottom: '1rem' }}>
+        <label>
+          Control{' '}
+          <select
+            value={controlId ?? ''}
+            onChange={(event) => {
+              window.location.hash = routeHref({
+                page: 'analytics',
+                controlId: event.target.value,
+              });
+            }}
+          >
+            <option value="" disabled>
+              Choose a control
+            </option>
+            {controls?.map((control) => (
+              <option key={control.controlId} value={control.controlId}>
+                {control.controlId}
+                {control.retiredAtMs !== null && ' (retired)'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Model{' '}
+          <select
+            value={modelId}
+            onChange={(event) => setModelId(event.target.value as ModelId | '')}
+          >
+            <option value="">All models</option>
+            {models
+              ?.filter(
+                (model) =>
+                  selected === undefined || model.controlIds.includes(selected.controlId)
+              )
+              .map((model) => (
+                <option key={model.modelId} value={model.modelId}>
+                  {model.name}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label>
+          View{' '}
+          <select value={view} onChange={(event) => setView(event.target.value as HeatmapView)}>
+            <option value="week">Time of week</option>
+            <option value="day">Time of day (folded)</option>
+          </select>
+        </label>
+        <label>
+          Show{' '}
+          <select value={mode} onChange={(event) => setMode(event.target.value as HeatmapMode)}>
+            <option value="preference">Inferred preference</option>
+            <option value="occupancy">Raw occupancy</option>
+          </select>
+        </label>
+      </div>
+
+      {selected === undefined ? (
+        <p>{controls === undefined ? 'Loading controls…' : 'Choose a control.'}</p>
+      ) : heatmap === undefined ? (
+        <p>Computing heatmaps…</p>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+            {heatmap.labels.map((label, state) => (
+              <span key={state}>
+                <span style={{ color: stateColor(state) }}>■</span> {label}
+              </span>
+            ))}
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2rem' }}>
+            {CLOCK_IDS.map((clockId) => (
+              <Heatmap
+                key={clockId}
+                title={CLOCK_NAMES[clockId]}
+                cells={heatmap.clocks[clockId]}
+                view={heatmap.view}
+                mode={mode}
+                labels={heatmap.labels}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  BUCKETS_PER_DAY,
+  WEEKDAY_NAMES,
+  createBucketId,
+  formatBucketLabel,
+  type HeatmapCell,
+  type HeatmapView,
+} from '@core';
+import { distributionColor, stateColor } from './colors';
+
+/**
+ * Which distribution the cells show.
+ */
+export type HeatmapMode = 'occupancy' | 'preference';
+
+const CELL_WIDTH = 2;
+const WEEK_ROW_HEIGHT = 14;
+const DAY_ROW_HEIGHT = 56;
+const LABEL_WIDTH = 36;
+
+interface HeatmapProps {
+  readonly title: string;
+  readonly cells: readonly HeatmapCell[];
+  readonly view: HeatmapView;
+  readonly mode: HeatmapMode;
+  readonly labels: readonly string[];
+}
+
+/**
+ * Time-of-week (7 × 288) or time-of-day (1 × 288) heatmap of one clock.
+ * Hovering a cell shows its distribution with the raw holding time and
+ * transition counts behind it.
+ */
+export function Heatmap({ title, cells, view, mode, labels }: HeatmapProps) {
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const rows = view === 'week' ? WEEKDAY_NAMES.length : 1;
+  const rowHeight = view === 'week' ? WEEK_ROW_HEIGHT : DAY_ROW_HEIGHT;
+
+  useEffect(() => {
+    const context = canvas.current?.getContext('2d');
+    if (!context) {
+      return;
+    }
+    context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+    cells.forEach((cell, index) => {
+      context.fillStyle = distributionColor(
+        mode === 'occupancy' ? cell.occupancy : cell.preference
+      );
+      context.fillRect(
+        (index % BUCKETS_PER_DAY) * CELL_WIDTH,
+        Math.floor(index / BUCKETS_PER_DAY) * rowHeight,
+        CELL_WIDTH,
+        rowHeight
+      );
+    });
+  }, [cells, mode, rowHeight]);
+
+  const onMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const column = Math.floor((event.clientX - bounds.left) / CELL_WIDTH);
+    const row = Math.floor((event.clientY - bounds.top) / rowHeight);
+    const index = row * BUCKETS_PER_DAY + column;
+    setHovered(index >= 0 && index < cells.length ? index : null);
+  };
+
+  return (
+    <figure style={{ margin: 0 }}>
+      <figcaption style={{ fontWeight: 500, marginBottom: '0.25rem' }}>{title}</figcaption>
+      <div style={{ display: 'flex' }}>
+        <div style={{ width: LABEL_WIDTH, fontSize: '0.7rem' }}>
+          {view === 'week' &&
+            WEEKDAY_NAMES.map((name) => (
+              <div
+                key={name}
+                style={{ height: WEEK_ROW_HEIGHT, lineHeight: `${WEEK_ROW_HEIGHT}px` }}
+              >
+                {name.slice(0, 3)}
+              </div>
+            ))}
+        </div>
+        <canvas
+          ref={canvas}
+          width={BUCKETS_PER_DAY * CELL_WIDTH}
+          height={rows * rowHeight}
+          onMouseMove={onMouseMove}
+          onMouseLeave={() => setHovered(null)}
+        />
+      </div>
+      <div
+        style={{
+          marginLeft: LABEL_WIDTH,
+          width: BUCKETS_PER_DAY * CELL_WIDTH,
+          display: 'flex',
+          justifyContent: 'space-between',
+          fontSize: '0.7rem',
+        }}
+      >
+        {[0, 6, 12, 18, 24].map((hour) => (
+          <span key={hour}>{String(hour).padStart(2, '0')}:00</span>
+        ))}
+      </div>
+      {hovered !== null && (
+        <CellDetails
+          label={cellLabel(hovered, view)}
+          cell={cells[hovered]}
+          mode={mode}
+          labels={labels}
+        />
+      )}
+    </figure>
+  );
+}
+
+function cellLabel(index: number, view: HeatmapView): string {
+  const label = formatBucketLabel(createBucketId(index));
+  return view === 'week' ? label : label.slice(label.indexOf(' ') + 1);
+}
+
+interface CellDetailsProps {
+  readonly label: string;
+  readonly cell: HeatmapCell;
+  readonly mode: HeatmapMode;
+  readonly labels: readonly string[];
+}
+
+function CellDetails({ label, cell, mode, labels }: CellDetailsProps) {
+  const distribution = mode === 'occupancy' ? cell.occupancy : cell.preference;
+  return (
+    <div style={{ fontSize: '0.8rem', marginTop: '0.5rem' }}>
+      <div style={{ fontWeight: 500 }}>{label}</div>
+      <table>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left' }}>State</th>
+            <th>{mode === 'occupancy' ? 'Occupancy' : 'Preference'}</th>
+            <th>Held</th>
+          </tr>
+        </thead>
+        <tbody>
+          {labels.map((stateLabel, state) => (
+            <tr key={state}>
+              <td style={{ color: stateColor(state) }}>{stateLabel}</td>
+              <td style={{ textAlign: 'right' }}>
+                {distribution === null ? '–' : `${(distribution[state] * 100).toFixed(1)}%`}
+              </td>
+              <td style={{ textAlign: 'right' }}>{formatHoldMs(cell.holdMs[state])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div>
+        Transitions:{' '}
+        {cell.transitions.length === 0
+          ? 'none'
+          : cell.transitions
+              .map(({ fromState, toState, count }) =>
+                `${labels[fromState]} → ${labels[toState]}: ${count}`
+              )
+              .join(', ')}
+      </div>
+    </div>
+  );
+}
+
+function formatHoldMs(ms: number): string {
+  const minutes = ms / 60000;
+  return minutes < 60 ? `${minutes.toFixed(1)} min` : `${(minutes / 60).toFixed(1)} h`;
+}
@@ -0,0 +1,28 @@
+/**
+ * Distinct hues for up to ten states (the most a control may have).
+ */
+const STATE_HUES = [210, 30, 120, 0, 270, 180, 60, 330, 90, 240];
+
+/**
+ * Color of a state at a given strength in [0, 1] (e.g. its probability).
+ */
+export function stateColor(state: number, strength = 1): string {
+  return `hsla(${STATE_HUES[state % STATE_HUES.length]}, 70%, 45%, ${strength})`;
+}
+
+/**
+ * Color of a heatmap cell: the hue of the most likely state, as opaque as
+ * that state is likely. Cells without a distribution are light grey.
+ */
+export function distributionColor(distribution: readonly number[] | null): string {
+  if (distribution === null) {
+    return '#eee';
+  }
+  let mode = 0;
+  distribution.forEach((p, state) => {
+    if (p > distribution[mode]) {
+      mode = state;
+    }
+  });
+  return stateColor(mode, distribution[mode]);
+}
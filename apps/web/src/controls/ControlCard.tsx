@@ -0,0 +1,76 @@
+import React from 'react';
+import type {
+  ControlDefinition,
+  ControlId,
+  ControlRuntime,
+  SliderBoundaryPolicy,
+} from '@core';
+import { routeHref } from '../useRoute';
+import { RadiobuttonInput } from './RadiobuttonInput';
+import { SliderInput } from './SliderInput';
+import { useControlEditor } from './useControlEditor';
+import { controlInputs } from './values';
+
+interface ControlCardProps {
+  readonly controlId: ControlId;
+  readonly definition: ControlDefinition;
+  readonly runtime: ControlRuntime;
+  /**
+   * Display name of the active model.
+   */
+  readonly modelName: string;
+  readonly policy: SliderBoundaryPolicy;
+}
+
+/**
+ * One control with its inputs (one per dimension for compound controls) and
+ * the model currently active for it.
+ */
+export function ControlCard({
+  controlId,
+  definition,
+  runtime,
+  modelName,
+  policy,
+}: ControlCardProps) {
+  const { values, error, change, hold, release } = useControlEditor(controlId, definition, runtime);
+  return (
+    <section
+      style={{ border: '1px solid #ccc', borderRadius: '0.5rem', padding: '1rem' }}
+      aria-label={controlId}
+    >
+      <header style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+        <h2 style={{ margin: 0, fontSize: '1.1rem' }}>{controlId}</h2>
+        <span style={{ color: '#666' }} title={runtime.activeModelId}>
+          Model: {modelName} · <a href={routeHref({ page: 'analytics', controlId })}>Analytics</a>
+        </span>
+      </header>
+      {controlInputs(definition).map((input, k) => {
+        const value = values[k];
+        return (
+          <div key={k} style={{ marginTop: '0.75rem' }}>
+            {input.name !== undefined && <div style={{ fontWeight: 500 }}>{input.name}</div>}
+            {input.definition.kind === 'radiobutton' && value.kind === 'radiobutton' ? (
+              <RadiobuttonInput
+                name={`${controlId}/${k}`}
+                definition={input.definition}
+                state={value.newState}
+                onChange={(newState) => change(k, { kind: 'radiobutton', newState })}
+              />
+            ) : input.definition.kind === 'slider' && value.kind === 'slider' ? (
+              <SliderInput
+                definition={input.definition}
+                value01={value.newValue01}
+                policy={policy}
+                onChange={(newValue01) => change(k, { kind: 'slider', newValue01 })}
+                onPress={hold}
+                onRelease={release}
+              />
+            ) : null}
+          </div>
+        );
+      })}
+      {error !== null && <p style={{ color: '#b00020', marginBottom: 0 }}>{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useQuery } from 'convex/react';
+import { DEFAULT_SLIDER_BOUNDARY_POLICY } from '@core';
+import { api } from '../../../../convex/_generated/api';
+import { ControlCard } from './ControlCard';
+
+/**
+ * Every control, live: runtime state arrives through the Convex
+ * subscription, so changes from other clients (Node-RED, Home Assistant,
+ * models) show up immediately.
+ */
+export function ControlGrid() {
+  const controls = useQuery(api.controls.listControlStates);
+  const models = useQuery(api.models.listModels);
+  const config = useQuery(api.config.getConfig);
+
+  if (controls === undefined) {
+    return <p>Loading controls…</p>;
+  }
+  if (controls.length === 0) {
+    return <p>No controls yet.</p>;
+  }
+  const modelNames = new Map(models?.map((model) => [model.modelId, model.name]));
+  return (
+    <div
+      style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(20rem, 1fr))',
+        gap: '1rem',
+      }}
+    >
+      {controls.map(({ controlId, definition, runtime }) => (
+        <ControlCard
+          key={controlId}
+          controlId={controlId}
+          definition={definition}
+          runtime={runtime}
+          modelName={modelNames.get(runtime.activeModelId) ?? runtime.activeModelId}
+          policy={config?.sliderBoundaryPolicy ?? DEFAULT_SLIDER_BOUNDARY_POLICY}
+        />
+      ))}
+    </div>
+  );
+}
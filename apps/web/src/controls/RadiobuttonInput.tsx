@@ -0,0 +1,30 @@
+import React from 'react';
+import { getStateLabels, type RadiobuttonDefinition } from '@core';
+
+interface RadiobuttonInputProps {
+  readonly name: string;
+  readonly definition: RadiobuttonDefinition;
+  readonly state: number;
+  readonly onChange: (state: number) => void;
+}
+
+/**
+ * One radio button per state, labelled from the definition.
+ */
+export function RadiobuttonInput({ name, definition, state, onChange }: RadiobuttonInputProps) {
+  return (
+    <div role="radiogroup" style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem' }}>
+      {getStateLabels(definition).map((label, k) => (
+        <label key={k} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+          <input
+            type="radio"
+            name={name}
+            checked={state === k}
+            onChange={() => onChange(k)}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  createSliderValue01,
+  discretizeSlider,
+  getSliderThresholds,
+  getStateLabels,
+  type SliderBoundaryPolicy,
+  type SliderDefinition,
+  type SliderValue01,
+} from '@core';
+
+/**
+ * Resolution of the range input.
+ */
+const SLIDER_STEP = 0.01;
+
+interface SliderInputProps {
+  readonly definition: SliderDefinition;
+  readonly value01: SliderValue01;
+  /**
+   * Boundary policy the label's state is derived with.
+   */
+  readonly policy: SliderBoundaryPolicy;
+  readonly onChange: (value01: SliderValue01) => void;
+  /**
+   * Called when the user takes hold of the slider with the pointer.
+   */
+  readonly onPress: () => void;
+  /**
+   * Called when the user lets go of the slider. Keyboard changes have no
+   * release.
+   */
+  readonly onRelease: () => void;
+}
+
+/**
+ * Range input over [0, 1] with the label of the state the value falls in.
+ */
+export function SliderInput({
+  definition,
+  value01,
+  policy,
+  onChange,
+  onPress,
+  onRelease,
+}: SliderInputProps) {
+  const state = discretizeSlider(value01, policy, getSliderThresholds(definition));
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={SLIDER_STEP}
+        value={value01}
+        onChange={(event) => onChange(createSliderValue01(Number(event.target.value)))}
+        onPointerDown={onPress}
+        onPointerUp={onRelease}
+        onPointerCancel={onRelease}
+        style={{ flex: 1 }}
+      />
+      <span style={{ minWidth: '8rem' }}>
+        {getStateLabels(definition)[state]} ({Math.round(value01 * 100)}%)
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for the commit quiet-time timer.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { createCommitDebounce } from './commitDebounce';
+
+const DELAY_MS = 1500;
+
+describe('createCommitDebounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('commits keyboard changes once, after the quiet time only', () => {
+    const commit = vi.fn();
+    const debounce = createCommitDebounce(commit, DELAY_MS);
+
+    // Arrow key presses: each change restarts the quiet time
+    debounce.change();
+    vi.advanceTimersByTime(DELAY_MS - 1);
+    debounce.change();
+    vi.advanceTimersByTime(DELAY_MS - 1);
+    expect(commit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not commit while the pointer holds the input', () => {
+    const commit = vi.fn();
+    const debounce = createCommitDebounce(commit, DELAY_MS);
+
+    debounce.hold();
+    debounce.change();
+    vi.advanceTimersByTime(2 * DELAY_MS);
+    debounce.change();
+    vi.advanceTimersByTime(2 * DELAY_MS);
+    expect(commit).not.toHaveBeenCalled();
+
+    // The release commits (through the caller), so no timer is left running
+    debounce.release();
+    vi.advanceTimersByTime(2 * DELAY_MS);
+    expect(commit).not.toHaveBeenCalled();
+  });
+
+  it('stops a running quiet time when the pointer takes hold', () => {
+    const commit = vi.fn();
+    const debounce = createCommitDebounce(commit, DELAY_MS);
+
+    debounce.change();
+    debounce.hold();
+    vi.advanceTimersByTime(2 * DELAY_MS);
+    expect(commit).not.toHaveBeenCalled();
+  });
+
+  it('debounces changes again after the release', () => {
+    const commit = vi.fn();
+    const debounce = createCommitDebounce(commit, DELAY_MS);
+
+    debounce.hold();
+    debounce.release();
+    debounce.change();
+    vi.advanceTimersByTime(DELAY_MS);
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+});
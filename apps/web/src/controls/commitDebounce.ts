@@ -0,0 +1,54 @@
+/**
+ * Quiet-time timer behind a control's commit. Every change restarts it, and
+ * the commit runs once it expires. While the user holds the input with the
+ * pointer, changes do not start it: the release commits instead.
+ */
+export interface CommitDebounce {
+  /**
+   * Restarts the quiet time after a change, unless the input is held.
+   */
+  readonly change: () => void;
+  /**
+   * Marks the input as held (pointer down) and stops the quiet time.
+   */
+  readonly hold: () => void;
+  /**
+   * Marks the input as no longer held and stops the quiet time; the caller
+   * commits.
+   */
+  readonly release: () => void;
+  /**
+   * Stops the quiet time without committing.
+   */
+  readonly cancel: () => void;
+}
+
+/**
+ * Creates the quiet-time timer that calls `commit` after `delayMs` without
+ * changes.
+ */
+export function createCommitDebounce(commit: () => void, delayMs: number): CommitDebounce {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isHeld = false;
+  const cancel = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+  return {
+    change: () => {
+      cancel();
+      if (!isHeld) {
+        timer = setTimeout(commit, delayMs);
+      }
+    },
+    hold: () => {
+      isHeld = true;
+      cancel();
+    },
+    release: () => {
+      isHeld = false;
+      cancel();
+    },
+    cancel,
+  };
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMutation } from 'convex/react';
+import type { ControlDefinition, ControlId, ControlRuntime } from '@core';
+import { api } from '../../../../convex/_generated/api';
+import { createCommitDebounce } from './commitDebounce';
+import { buildInputRequest, runtimeInputValues, type InputValue } from './values';
+
+/**
+ * Quiet time after the last change before it is committed, for inputs that
+ * have no release (radio buttons, keyboard use of sliders).
+ */
+const COMMIT_DEBOUNCE_MS = 1500;
+
+/**
+ * A change not yet committed.
+ */
+interface PendingEdit {
+  readonly values: InputValue[];
+  readonly changedAtMs: number;
+  readonly fromDiscreteState: number;
+}
+
+/**
+ * Edits one control. Every change is sent right away as an uncommitted
+ * update, so other clients follow along; the final value is committed once,
+ * on `release()` of an input held with the pointer (`hold()`, e.g. a slider
+ * drag) or after `COMMIT_DEBOUNCE_MS` without further changes. The quiet time
+ * does not run while the input is held. Only the committed update counts for
+ * analytics.
+ *
+ * While a change is pending, `values` shows the local edit rather than the
+ * runtime state, so the input does not jump back while updates round-trip.
+ * The commit carries the time of the last change and the committed state the
+ * edit started from, so the server checks them rather than its own view.
+ */
+export function useControlEditor(
+  controlId: ControlId,
+  definition: ControlDefinition,
+  runtime: ControlRuntime
+) {
+  const setControlValue = useMutation(api.controls.setControlValue);
+  const [draft, setDraft] = useState<InputValue[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pending = useRef<PendingEdit | null>(null);
+  const commitLater = useRef(() => {});
+  const [debounce] = useState(() =>
+    createCommitDebounce(() => commitLater.current(), COMMIT_DEBOUNCE_MS)
+  );
+  const latest = useRef({ controlId, definition, runtime });
+  latest.current = { controlId, definition, runtime };
+
+  const send = useCallback(
+    async (values: InputValue[], committed?: Omit<PendingEdit, 'values'>) => {
+      const { controlId, definition } = latest.current;
+      const request = buildInputRequest(controlId, definition, values, committed !== undefined);
+      try {
+        await setControlValue(
+          committed === undefined
+            ? request
+            : {
+                ...request,
+                tsMs: committed.changedAtMs,
+                fromDiscreteState: committed.fromDiscreteState,
+              }
+        );
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [setControlValue]
+  );
+
+  const commit = useCallback(() => {
+    debounce.cancel();
+    const edit = pending.current;
+    if (edit === null) {
+      return;
+    }
+    pending.current = null;
+    const { values, ...committed } = edit;
+    void send(values, committed).finally(() =>
+      setDraft((current) => (current === values ? null : current))
+    );
+  }, [send, debounce]);
+  commitLater.current = commit;
+
+  const release = useCallback(() => {
+    debounce.release();
+    commit();
+  }, [debounce, commit]);
+
+  const change = useCallback(
+    (index: number, value: InputValue) => {
+      const { definition, runtime } = latest.current;
+      const values = [...(pending.current?.values ?? runtimeInputValues(definition, runtime))];
+      values[index] = value;
+      pending.current = {
+        values,
+        changedAtMs: Date.now(),
+        fromDiscreteState:
+          pending.current?.fromDiscreteState ?? runtime.lastCommittedDiscreteState,
+      };
+      setDraft(values);
+      void send(values);
+      debounce.change();
+    },
+    [send, debounce]
+  );
+
+  // Commit a pending change when the control leaves the screen
+  useEffect(() => commit, [commit]);
+
+  return {
+    values: draft ?? runtimeInputValues(definition, runtime),
+    error,
+    change,
+    hold: debounce.hold,
+    release,
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  createSliderValue01,
+  decodeCompoundState,
+  getSliderThresholds,
+  getStateCenter,
+  type CompoundDimensionRequest,
+  type ControlDefinition,
+  type ControlId,
+  type ControlRuntime,
+  type SetControlValueRequest,
+  type SimpleControlDefinition,
+  type SliderValue01,
+} from '@core';
+
+/**
+ * Editing model of the dashboard: every control is a list of simple inputs
+ * (one for radiobuttons and sliders, one per dimension for compound
+ * controls), each holding a radiobutton state or a slider value.
+ */
+
+/**
+ * Value of one input.
+ */
+export type InputValue = CompoundDimensionRequest;
+
+/**
+ * One input of a control. `name` is set for the dimensions of compound
+ * controls.
+ */
+export interface ControlInput {
+  readonly name?: string;
+  readonly definition: SimpleControlDefinition;
+}
+
+/**
+ * The inputs a control is edited with.
+ */
+export function controlInputs(definition: ControlDefinition): ControlInput[] {
+  return definition.kind === 'compound'
+    ? definition.dimensions.map(({ name, control }) => ({ name, definition: control }))
+    : [{ definition }];
+}
+
+/**
+ * Current input values of a control, from its runtime state.
+ */
+export function runtimeInputValues(
+  definition: ControlDefinition,
+  runtime: ControlRuntime
+): InputValue[] {
+  if (definition.kind !== 'compound') {
+    return [simpleValue(definition, runtime.currentDiscreteState, runtime.currentValue01)];
+  }
+  const states = decodeCompoundState(definition, runtime.currentDiscreteState);
+  return definition.dimensions.map(({ control }, k) =>
+    simpleValue(
+      control,
+      runtime.currentDimensions?.[k]?.discreteState ?? states[k],
+      runtime.currentDimensions?.[k]?.value01
+    )
+  );
+}
+
+function simpleValue(
+  definition: SimpleControlDefinition,
+  state: number,
+  value01: SliderValue01 | undefined
+): InputValue {
+  if (definition.kind === 'radiobutton') {
+    return { kind: 'radiobutton', newState: state };
+  }
+  return {
+    kind: 'slider',
+    newValue01:
+      value01 ?? createSliderValue01(getStateCenter(state, getSliderThresholds(definition))),
+  };
+}
+
+/**
+ * Builds the user-initiated request that sets a control to the input values.
+ */
+export function buildInputRequest(
+  controlId: ControlId,
+  definition: ControlDefinition,
+  values: readonly InputValue[],
+  isCommitted: boolean
+): SetControlValueRequest {
+  const common = { controlId, initiator: 'user' as const, isCommitted };
+  if (definition.kind === 'compound') {
+    return { ...common, kind: 'compound', newValues: [...values] };
+  }
+  return { ...common, ...values[0] };
+}
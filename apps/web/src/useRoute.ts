@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Pages of the dashboard, addressed by URL hash so they can be bookmarked:
+ * `#/` for the controls, `#/analytics/<controlId>` for a control's
+ * analytics and `#/admin` for control administration.
+ */
+export type Route =
+  | { readonly page: 'controls' }
+  | { readonly page: 'analytics'; readonly controlId?: string }
+  | { readonly page: 'admin' };
+
+export function parseRoute(hash: string): Route {
+  const [page, controlId] = hash.replace(/^#\/?/, '').split('/');
+  if (page === 'analytics') {
+    return { page, controlId: controlId ? decodeURIComponent(controlId) : undefined };
+  }
+  if (page === 'admin') {
+    return { page };
+  }
+  return { page: 'controls' };
+}
+
+export function routeHref(route: Route): string {
+  if (route.page === 'analytics') {
+    return route.controlId === undefined
+      ? '#/analytics'
+      : `#/analytics/${encodeURIComponent(route.controlId)}`;
+  }
+  if (route.page === 'admin') {
+    return '#/admin';
+  }
+  return '#/';
+}
+
+/**
+ * The current route, following hash changes.
+ */
+export function useRoute(): Route {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+  return route;
+}
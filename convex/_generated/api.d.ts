@@ -1,13 +1,10 @@
-/* prettier-ignore-start */
-
 /* eslint-disable */
 /**
  * Generated `api` utility.
  *
- * THIS CODE IS AUTOGENERATED, DO NOT EDIT.
- *
- * To update this file, run `npx convex dev`.
+ * THIS CODE IS AUTOMATICALLY GENERATED.
  *
+ * To regenerate, run `npx convex dev`.
  * @module
  */
 
@@ -16,7 +13,27 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
-import type * as schema from "../schema";
+import type * as aggregates from "../aggregates.js";
+import type * as automation from "../automation.js";
+import type * as config from "../config.js";
+import type * as controls from "../controls.js";
+import type * as crons from "../crons.js";
+import type * as evaluationQueries from "../evaluationQueries.js";
+import type * as inferenceQueries from "../inferenceQueries.js";
+import type * as lib_aggregates from "../lib/aggregates.js";
+import type * as lib_config from "../lib/config.js";
+import type * as lib_controlValues from "../lib/controlValues.js";
+import type * as lib_controls from "../lib/controls.js";
+import type * as lib_evaluation from "../lib/evaluation.js";
+import type * as lib_models from "../lib/models.js";
+import type * as lib_rebuilds from "../lib/rebuilds.js";
+import type * as lib_remaps from "../lib/remaps.js";
+import type * as lib_zodToConvex from "../lib/zodToConvex.js";
+import type * as models from "../models.js";
+import type * as quarantine from "../quarantine.js";
+import type * as rebuild from "../rebuild.js";
+import type * as retention from "../retention.js";
+import type * as sliderPolicy from "../sliderPolicy.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -27,7 +44,27 @@ import type * as schema from "../schema";
  * ```
  */
 declare const fullApi: ApiFromModules<{
-  schema: typeof schema;
+  aggregates: typeof aggregates;
+  automation: typeof automation;
+  config: typeof config;
+  controls: typeof controls;
+  crons: typeof crons;
+  evaluationQueries: typeof evaluationQueries;
+  inferenceQueries: typeof inferenceQueries;
+  "lib/aggregates": typeof lib_aggregates;
+  "lib/config": typeof lib_config;
+  "lib/controlValues": typeof lib_controlValues;
+  "lib/controls": typeof lib_controls;
+  "lib/evaluation": typeof lib_evaluation;
+  "lib/models": typeof lib_models;
+  "lib/rebuilds": typeof lib_rebuilds;
+  "lib/remaps": typeof lib_remaps;
+  "lib/zodToConvex": typeof lib_zodToConvex;
+  models: typeof models;
+  quarantine: typeof quarantine;
+  rebuild: typeof rebuild;
+  retention: typeof retention;
+  sliderPolicy: typeof sliderPolicy;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -37,5 +74,3 @@ export declare const internal: FilterApi<
   typeof fullApi,
   FunctionReference<any, "internal">
 >;
-
-/* prettier-ignore-end */
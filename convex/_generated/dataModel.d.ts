@@ -1,22 +1,60 @@
-/* prettier-ignore-start */
-
 /* eslint-disable */
 /**
- * Generated `dataModel` utility.
- *
- * THIS CODE IS AUTOGENERATED, DO NOT EDIT.
+ * Generated data model types.
  *
- * To update this file, run `npx convex dev`.
+ * THIS CODE IS AUTOMATICALLY GENERATED.
  *
+ * To regenerate, run `npx convex dev`.
  * @module
  */
 
-import type { GenericDataModel } from "convex/server";
+import type {
+  DataModelFromSchemaDefinition,
+  DocumentByName,
+  TableNamesInDataModel,
+  SystemTableNames,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+import schema from "../schema.js";
 
 /**
- * The data model is empty for now.
- * Schema will be defined in Milestone 6.
+ * The names of all of your Convex tables.
  */
-export type DataModel = GenericDataModel<DocumentTypes, "id">;
+export type TableNames = TableNamesInDataModel<DataModel>;
 
-/* prettier-ignore-end */
+/**
+ * The type of a document stored in Convex.
+ *
+ * @typeParam TableName - A string literal type of the table name (like "users").
+ */
+export type Doc<TableName extends TableNames> = DocumentByName<
+  DataModel,
+  TableName
+>;
+
+/**
+ * An identifier for a document in Convex.
+ *
+ * Convex documents are uniquely identified by their `Id`, which is accessible
+ * on the `_id` field. To learn more, see [Document IDs](https://docs.convex.dev/using/document-ids).
+ *
+ * Documents can be loaded using `db.get(tableName, id)` in query and mutation functions.
+ *
+ * IDs are just strings at runtime, but this type can be used to distinguish them from other
+ * strings when type checking.
+ *
+ * @typeParam TableName - A string literal type of the table name (like "users").
+ */
+export type Id<TableName extends TableNames | SystemTableNames> =
+  GenericId<TableName>;
+
+/**
+ * A type describing your Convex data model.
+ *
+ * This type includes information about what tables you have, the type of
+ * documents stored in those tables, and the indexes defined on them.
+ *
+ * This type is used to parameterize methods like `queryGeneric` and
+ * `mutationGeneric` to make them type-safe.
+ */
+export type DataModel = DataModelFromSchemaDefinition<typeof schema>;
@@ -0,0 +1,25 @@
+import { v } from 'convex/values';
+import { aggregateBucketDeltaSchema, controlIdSchema } from '@core';
+import { internalMutation } from './_generated/server';
+import { addBucketDeltas, loadActiveGeneration } from './lib/aggregates';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Writes a chunk of a committed change's aggregate buckets that did not fit
+ * in the commit's own transaction (see `applyCommitAnalytics`). A chunk for
+ * a generation that is no longer active is dropped: the rebuild that replaced
+ * it replayed the same commit from the log.
+ */
+export const applyBucketDeltas = internalMutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    generation: v.float64(),
+    deltas: v.array(zodToConvex(aggregateBucketDeltaSchema)),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    if ((await loadActiveGeneration(ctx, args.controlId)) !== args.generation) {
+      return;
+    }
+    await addBucketDeltas(ctx, args.controlId, args.generation, args.deltas);
+  },
+});
@@ -0,0 +1,315 @@
+import {
+  DAY_MS,
+  buildStateRequest,
+  clockEvaluationMetricNameSchema,
+  clockIdSchema,
+  controlIdSchema,
+  defersToUser,
+  estimateClockPreference,
+  findFiredScheduleRule,
+  findPreferredState,
+  followPreference,
+  getOverrideCooldownMs,
+  getStateCount,
+  type ClockEvaluationMetricName,
+  type ClockId,
+  type ControlDefinition,
+  type ControlId,
+  type ControlRuntime,
+  type PreferenceFollowingSettings,
+  type SetControlValueRequest,
+  type SystemConfig,
+} from '@core';
+import { internal } from './_generated/api';
+import type { Doc } from './_generated/dataModel';
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  type MutationCtx,
+} from './_generated/server';
+import { loadSingleClockBucketStats } from './lib/aggregates';
+import { loadConfig } from './lib/config';
+import { applyControlValue } from './lib/controlValues';
+import { loadControl, loadControlDefinition, loadRetiredControlIds } from './lib/controls';
+import { runClockEvaluation } from './lib/evaluation';
+import { loadLatestModel } from './lib/models';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Built-in model runtime: drives controls whose active model has a built-in
+ * behavior, by issuing model-initiated committed changes through the same
+ * path as every other client. Model-initiated changes never count as
+ * transitions, so the models do not feed their own actions back into the
+ * preference estimates.
+ */
+
+/**
+ * Longest stretch of missed time a run catches up on (e.g. after downtime).
+ * Only the last rule that fired in it is applied.
+ */
+const MAX_CATCH_UP_MS = DAY_MS;
+
+/**
+ * A control in use whose active model follows the preference, ranked by the
+ * model's metric.
+ */
+interface PreferenceControl {
+  readonly controlId: ControlId;
+  readonly metric: ClockEvaluationMetricName;
+}
+
+/**
+ * Evaluates the active model of each control that is not retired and applies
+ * its decision, in one scheduled `runControlModel` per control.
+ *
+ * - schedule: sets the control to the state of the last rule that fired
+ *   since the previous run, unless it is already in that state. Users may
+ *   override a scheduled state at any time; the schedule only acts again at
+ *   its next firing.
+ * - preference: follows the aggregated stationary preference at the current
+ *   time on the clock last ranked best (see `rankClocks`), or on the model's
+ *   own clock until a ranking exists. After a user's committed change, it
+ *   leaves the control alone until the model's cooldown has passed or it
+ *   comes to prefer a different state.
+ */
+export const runModels = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<void> => {
+    const retired = await loadRetiredControlIds(ctx);
+    const runtimes = await ctx.db.query('controlRuntime').collect();
+    for (const runtime of runtimes) {
+      if (!retired.has(runtime.controlId)) {
+        await ctx.scheduler.runAfter(0, internal.automation.runControlModel, {
+          controlId: runtime.controlId,
+        });
+      }
+    }
+  },
+});
+
+/**
+ * Runs the active model of one control (see `runModels`). Each control runs
+ * in its own mutation, so a control whose model fails rolls back only its own
+ * changes and does not hold up the others.
+ */
+export const runControlModel = internalMutation({
+  args: { controlId: zodToConvex(controlIdSchema) },
+  handler: async (ctx, args): Promise<void> => {
+    const nowMs = Date.now();
+    const runtime = await ctx.db
+      .query('controlRuntime')
+      .withIndex('by_controlId', (q) => q.eq('controlId', args.controlId))
+      .unique();
+    if (runtime === null || (await loadControl(ctx, args.controlId)).retiredAtMs !== undefined) {
+      return;
+    }
+    const cursor = await ctx.db
+      .query('automationCursors')
+      .withIndex('by_controlId', (q) => q.eq('controlId', args.controlId))
+      .unique();
+    if (cursor === null) {
+      await ctx.db.insert('automationCursors', {
+        controlId: args.controlId,
+        evaluatedThroughMs: nowMs,
+      });
+      return;
+    }
+    await ctx.db.patch(cursor._id, { evaluatedThroughMs: nowMs });
+    await runActiveModel(ctx, runtime, cursor, nowMs, await loadConfig(ctx));
+  },
+});
+
+/**
+ * Evaluates one control's active model since its cursor and applies its
+ * decision (see `runModels`).
+ */
+async function runActiveModel(
+  ctx: MutationCtx,
+  runtime: ControlRuntime,
+  cursor: Doc<'automationCursors'>,
+  nowMs: number,
+  config: SystemConfig
+): Promise<void> {
+  const model = await loadLatestModel(ctx, runtime.activeModelId);
+  if (model?.behavior === undefined || !model.controlIds.includes(runtime.controlId)) {
+    return;
+  }
+  const { behavior } = model;
+  const definition = await loadControlDefinition(ctx, runtime.controlId);
+  let request: SetControlValueRequest | undefined;
+  if (behavior.kind === 'schedule') {
+    const fired = findFiredScheduleRule(
+      behavior.rules,
+      Math.max(cursor.evaluatedThroughMs, nowMs - MAX_CATCH_UP_MS),
+      nowMs,
+      config
+    );
+    if (fired !== undefined && fired.state !== runtime.currentDiscreteState) {
+      request = buildStateRequest(definition, runtime.controlId, fired.state, 'model', true);
+    }
+  } else {
+    const ranking = await ctx.db
+      .query('clockRankings')
+      .withIndex('by_control_metric', (q) =>
+        q.eq('controlId', runtime.controlId).eq('metric', behavior.metric)
+      )
+      .unique();
+    request = await followPreferenceAt(
+      ctx,
+      runtime,
+      cursor,
+      definition,
+      ranking?.bestClockId ?? model.clockId,
+      behavior,
+      nowMs,
+      config
+    );
+  }
+  if (request !== undefined) {
+    await applyControlValue(ctx, request);
+  }
+}
+
+/**
+ * Follows the preference on `clockId`, unless the model defers to the user's
+ * last committed change (see `defersToUser`). The state the model preferred
+ * when it first saw that change is recorded on the cursor.
+ */
+async function followPreferenceAt(
+  ctx: MutationCtx,
+  runtime: ControlRuntime,
+  cursor: Doc<'automationCursors'>,
+  definition: ControlDefinition,
+  clockId: ClockId,
+  settings: PreferenceFollowingSettings,
+  nowMs: number,
+  config: SystemConfig
+): Promise<SetControlValueRequest | undefined> {
+  const stats = await loadSingleClockBucketStats(
+    ctx,
+    runtime.controlId,
+    clockId,
+    getStateCount(definition)
+  );
+  const preference = estimateClockPreference(definition, clockId, stats, nowMs, config, config);
+  if (!preference.defined) {
+    return undefined;
+  }
+  const distribution = preference.states.map((state) => state.probability);
+
+  const lastUserCommit = await ctx.db
+    .query('committedChangeEvents')
+    .withIndex('by_control_ts', (q) =>
+      q.eq('controlId', runtime.controlId).gt('tsMs', nowMs - getOverrideCooldownMs(settings))
+    )
+    .order('desc')
+    .filter((q) => q.eq(q.field('initiator'), 'user'))
+    .first();
+  if (lastUserCommit !== null) {
+    const preferredState = findPreferredState(distribution, settings);
+    let override = cursor.override;
+    if (override?.committedAtMs !== lastUserCommit.tsMs) {
+      override = { committedAtMs: lastUserCommit.tsMs, preferredState };
+      await ctx.db.patch(cursor._id, { override });
+    }
+    if (defersToUser(override, preferredState, nowMs, settings)) {
+      return undefined;
+    }
+  }
+  return followPreference(
+    definition,
+    runtime.controlId,
+    distribution,
+    { discreteState: runtime.currentDiscreteState, value01: runtime.currentValue01 },
+    settings
+  );
+}
+
+/**
+ * Re-ranks the clocks of every control in use whose active model follows the
+ * preference, by that model's metric, and records the best one. Clocks
+ * without any scored data are not recorded, so the previous ranking (or the
+ * model's own clock) stays in use until the backtest has something to score.
+ *
+ * Backtests replay a control's whole log, so each control is ranked in an
+ * action of its own; a control whose backtest fails keeps its previous
+ * ranking and does not hold up the others.
+ */
+export const rankClocks = internalAction({
+  args: {},
+  handler: async (ctx): Promise<void> => {
+    const controls = await ctx.runQuery(internal.automation.listPreferenceControls, {});
+    for (const { controlId, metric } of controls) {
+      await ctx.scheduler.runAfter(0, internal.automation.rankControlClocks, {
+        controlId,
+        metric,
+      });
+    }
+  },
+});
+
+/**
+ * Re-ranks the clocks of one control by `metric` (see `rankClocks`).
+ */
+export const rankControlClocks = internalAction({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    metric: zodToConvex(clockEvaluationMetricNameSchema),
+  },
+  handler: async (ctx, { controlId, metric }): Promise<void> => {
+    const report = await runClockEvaluation(ctx, controlId, metric);
+    const best = report.aggregate.clocks[0];
+    if (best === undefined || best.units === 0) {
+      return;
+    }
+    await ctx.runMutation(internal.automation.recordClockRanking, {
+      controlId,
+      metric,
+      bestClockId: best.clockId,
+    });
+  },
+});
+
+/**
+ * Controls in use, with the metric of their active model, whose active model
+ * follows the preference.
+ */
+export const listPreferenceControls = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<PreferenceControl[]> => {
+    const retired = await loadRetiredControlIds(ctx);
+    const runtimes = await ctx.db.query('controlRuntime').collect();
+    const controls: PreferenceControl[] = [];
+    for (const runtime of runtimes) {
+      const model = await loadLatestModel(ctx, runtime.activeModelId);
+      if (!retired.has(runtime.controlId) && model?.behavior?.kind === 'preference') {
+        controls.push({ controlId: runtime.controlId, metric: model.behavior.metric });
+      }
+    }
+    return controls;
+  },
+});
+
+/**
+ * Records the best-ranked clock of a control under a metric.
+ */
+export const recordClockRanking = internalMutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    metric: zodToConvex(clockEvaluationMetricNameSchema),
+    bestClockId: zodToConvex(clockIdSchema),
+  },
+  handler: async (ctx, { controlId, metric, bestClockId }): Promise<void> => {
+    const row = await ctx.db
+      .query('clockRankings')
+      .withIndex('by_control_metric', (q) => q.eq('controlId', controlId).eq('metric', metric))
+      .unique();
+    const rankedAtMs = Date.now();
+    if (row === null) {
+      await ctx.db.insert('clockRankings', { controlId, metric, bestClockId, rankedAtMs });
+    } else {
+      await ctx.db.patch(row._id, { bestClockId, rankedAtMs });
+    }
+  },
+});
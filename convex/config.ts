@@ -0,0 +1,41 @@
+import { checkConfigReplacement, systemConfigSchema } from '@core';
+import { mutation, query } from './_generated/server';
+import { toConvexValue, zodToConvexObject } from './lib/zodToConvex';
+
+/**
+ * Returns the system configuration, or null if it has not been set.
+ */
+export const getConfig = query({
+  args: {},
+  handler: async (ctx) => {
+    const row = await ctx.db.query('config').first();
+    if (row === null) {
+      return null;
+    }
+    const { _id, _creationTime, ...config } = row;
+    return config;
+  },
+});
+
+/**
+ * Sets the system configuration (location, slider boundary policy, KDE and
+ * damping settings), replacing the singleton row if it exists. Once set, the
+ * slider boundary policy only changes through `changeSliderBoundaryPolicy`
+ * (see `sliderPolicy.ts`), which also rebuilds the affected aggregates.
+ *
+ * @throws Error if the request changes the slider boundary policy
+ */
+export const setConfig = mutation({
+  args: zodToConvexObject(systemConfigSchema),
+  handler: async (ctx, args) => {
+    const next = systemConfigSchema.parse(args);
+    const existing = await ctx.db.query('config').first();
+    if (existing === null) {
+      await ctx.db.insert('config', toConvexValue(next));
+    } else {
+      const { _id, _creationTime, ...current } = existing;
+      checkConfigReplacement(systemConfigSchema.parse(current), next);
+      await ctx.db.replace(existing._id, toConvexValue(next));
+    }
+  },
+});
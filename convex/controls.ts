@@ -0,0 +1,295 @@
+import { v } from 'convex/values';
+import {
+  assertDefinitionKeepsHistory,
+  assertScheduleFitsControl,
+  buildStateRequest,
+  controlDefinitionSchema,
+  controlIdSchema,
+  controlRuntimeSchema,
+  discreteStateSchema,
+  modelIdSchema,
+  modelDefinitionSchema,
+  resolveControlValue,
+  setControlValueRequestSchema,
+  validateStateRemap,
+  type ControlId,
+} from '@core';
+import { mutation, query, type QueryCtx } from './_generated/server';
+import { loadConfig } from './lib/config';
+import { applyControlValue } from './lib/controlValues';
+import { loadControl } from './lib/controls';
+import { loadLatestModel } from './lib/models';
+import {
+  DEFAULT_BATCH_SIZE,
+  loadPendingRebuild,
+  startControlRebuild,
+  type RebuildStart,
+} from './lib/rebuilds';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Sets a control's value. Every client (dashboard, Node-RED, models) uses this
+ * mutation so that all paths behave identically.
+ *
+ * The current value is always updated. Only committed changes
+ * (`isCommitted: true`) are logged and drive analytics: they close the holding
+ * interval of the previous committed state and, iff `initiator === 'user'`
+ * and the discrete state changed, count a transition.
+ *
+ * Clients that know when a change happened and which committed state they
+ * changed from send `tsMs` and `fromDiscreteState`; otherwise server time and
+ * the last committed state are used. Committed changes pass the integrity
+ * guard first. A change that fails it (e.g. a timestamp ahead of the server
+ * clock, a stale from-state or an unregistered model) is quarantined with its
+ * reason code instead of being logged and ingested; the runtime still moves
+ * to the new state, at server time, so ingestion resumes from there. Only the
+ * first `maxGapHours` of a holding interval are counted.
+ *
+ * All validation happens before the first write, so an invalid request leaves
+ * no partial updates.
+ */
+export const setControlValue = mutation({
+  args: zodToConvex(setControlValueRequestSchema),
+  handler: async (ctx, args) => applyControlValue(ctx, setControlValueRequestSchema.parse(args)),
+});
+
+/**
+ * Lists every control that is not retired with its definition and runtime
+ * state, ordered by control id. Clients subscribe to this query to follow
+ * value changes from every other client.
+ */
+export const listControlStates = query({
+  args: {},
+  handler: async (ctx) => {
+    const controls = await ctx.db.query('controls').collect();
+    const states = [];
+    for (const control of controls) {
+      if (control.retiredAtMs !== undefined) {
+        continue;
+      }
+      const runtime = await ctx.db
+        .query('controlRuntime')
+        .withIndex('by_controlId', (q) => q.eq('controlId', control.controlId))
+        .unique();
+      if (runtime === null) {
+        continue;
+      }
+      const { _id, _creationTime, ...fields } = runtime;
+      states.push({
+        controlId: control.controlId,
+        definition: controlDefinitionSchema.parse(control.definition),
+        runtime: controlRuntimeSchema.parse(fields),
+      });
+    }
+    return states.sort((a, b) => a.controlId.localeCompare(b.controlId));
+  },
+});
+
+/**
+ * Lists every control, retired ones included, with its definition and when it
+ * was retired (`null` if it is in use), ordered by control id.
+ */
+export const listControls = query({
+  args: {},
+  handler: async (ctx) => {
+    const controls = await ctx.db.query('controls').collect();
+    return controls
+      .map((control) => ({
+        controlId: control.controlId,
+        definition: controlDefinitionSchema.parse(control.definition),
+        retiredAtMs: control.retiredAtMs ?? null,
+      }))
+      .sort((a, b) => a.controlId.localeCompare(b.controlId));
+  },
+});
+
+/**
+ * Creates a control, in `initialState` (state 0 by default) as of now and
+ * automated by `modelId`. The model must be registered; if it does not list
+ * the control yet, a new version of it that does is registered.
+ *
+ * @throws Error if the control already exists (retired controls included),
+ *   the definition is invalid, the initial state does not exist on it, or the
+ *   model is unknown or its schedule does not fit the control
+ */
+export const createControl = mutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    definition: zodToConvex(controlDefinitionSchema),
+    modelId: zodToConvex(modelIdSchema),
+    initialState: v.optional(v.float64()),
+  },
+  handler: async (ctx, args) => {
+    const definition = controlDefinitionSchema.parse(args.definition);
+    const existing = await ctx.db
+      .query('controls')
+      .withIndex('by_controlId', (q) => q.eq('controlId', args.controlId))
+      .unique();
+    if (existing !== null) {
+      throw new Error(`Control ${args.controlId} already exists`);
+    }
+    const initialState = discreteStateSchema(definition).parse(args.initialState ?? 0);
+    const model = await loadLatestModel(ctx, args.modelId);
+    if (model === null) {
+      throw new Error(`Unknown model: ${args.modelId}`);
+    }
+    if (model.behavior?.kind === 'schedule') {
+      assertScheduleFitsControl(model.behavior.rules, definition);
+    }
+    const config = await loadConfig(ctx);
+    const resolved = resolveControlValue(
+      definition,
+      buildStateRequest(definition, args.controlId, initialState, 'user', true),
+      config.sliderBoundaryPolicy
+    );
+    const nowMs = Date.now();
+    const runtime = controlRuntimeSchema.parse({
+      controlId: args.controlId,
+      kind: definition.kind,
+      activeModelId: args.modelId,
+      currentDiscreteState: resolved.discreteState,
+      currentValue01: resolved.value01,
+      currentDimensions: resolved.dimensions,
+      lastUpdatedAtMs: nowMs,
+      lastCommittedAtMs: nowMs,
+      lastCommittedDiscreteState: resolved.discreteState,
+    });
+
+    if (!model.controlIds.includes(args.controlId)) {
+      await ctx.db.insert('models', {
+        ...model,
+        controlIds: [...model.controlIds, args.controlId],
+        version: model.version + 1,
+      });
+    }
+    await ctx.db.insert('controls', { controlId: args.controlId, definition: args.definition });
+    await ctx.db.insert('controlRuntime', runtime);
+    return { createdAtMs: nowMs };
+  },
+});
+
+/**
+ * Replaces a control's definition, e.g. to rename its states. Only changes
+ * that keep recorded states meaningful are accepted (see
+ * `findDefinitionIncompatibility`): labels and dimension names may change,
+ * the state space may not. Radiobutton options are added, reordered, merged
+ * or dropped with `remapControlStates` instead.
+ *
+ * @throws Error if the control is unknown or has a state remapping pending,
+ *   the definition is invalid or it would invalidate the control's history
+ */
+export const updateControlDefinition = mutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    definition: zodToConvex(controlDefinitionSchema),
+  },
+  handler: async (ctx, args) => {
+    const control = await loadControl(ctx, args.controlId);
+    if ((await loadPendingRebuild(ctx, args.controlId))?.remap !== undefined) {
+      throw new Error(`Control ${args.controlId} has a state remapping pending`);
+    }
+    const definition = controlDefinitionSchema.parse(args.definition);
+    assertDefinitionKeepsHistory(controlDefinitionSchema.parse(control.definition), definition);
+    await ctx.db.patch(control._id, { definition: args.definition });
+  },
+});
+
+/**
+ * Changes a radiobutton's options and remaps its history to them. `mapping`
+ * gives the new state of each old state, or `null` to drop it; several old
+ * states may map to one new state to merge them (see `remap.ts` in core for
+ * how merges and drops are replayed).
+ *
+ * The remapping runs as a rebuild: batch by batch, the committed events are
+ * rewritten in the log and replayed into a new aggregate generation, so
+ * `holdMs` and `transCounts` are recomputed for every clock, bucket and model
+ * from the rewritten log. When the rebuild swaps in its generation, the
+ * control switches to `definition` and its runtime state and quarantined
+ * events are remapped, all in one transaction. Follow its progress with
+ * `getRebuildStatus`.
+ *
+ * Model schedules are not remapped; each schedule applying to the control
+ * must already fit the new definition.
+ *
+ * @throws Error if the control is unknown or not a radiobutton, the mapping
+ *   does not fit the definitions, a schedule does not fit the new definition
+ *   or the control already has a rebuild pending
+ */
+export const remapControlStates = mutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    definition: zodToConvex(controlDefinitionSchema),
+    mapping: v.array(v.union(v.float64(), v.null())),
+    batchSize: v.optional(v.float64()),
+  },
+  handler: async (ctx, args): Promise<RebuildStart> => {
+    const control = await loadControl(ctx, args.controlId);
+    const remap = validateStateRemap(
+      controlDefinitionSchema.parse(control.definition),
+      controlDefinitionSchema.parse(args.definition),
+      args.mapping
+    );
+    for (const modelId of await loadModelIdsForControl(ctx, args.controlId)) {
+      const model = await loadLatestModel(ctx, modelId);
+      if (model?.behavior?.kind === 'schedule' && model.controlIds.includes(args.controlId)) {
+        assertScheduleFitsControl(model.behavior.rules, remap.definition);
+      }
+    }
+    return startControlRebuild(ctx, args.controlId, {
+      dryRun: false,
+      batchSize: args.batchSize ?? DEFAULT_BATCH_SIZE,
+      remap,
+    });
+  },
+});
+
+/**
+ * Ids of the models any version of which applies to a control.
+ */
+async function loadModelIdsForControl(ctx: QueryCtx, controlId: ControlId) {
+  const rows = await ctx.db.query('models').collect();
+  return new Set(
+    rows
+      .map((row) => modelDefinitionSchema.parse(row))
+      .filter((model) => model.controlIds.includes(controlId))
+      .map((model) => model.modelId)
+  );
+}
+
+/**
+ * Retires a control: it disappears from the dashboard and bridges, rejects
+ * value changes and is no longer automated, but its definition, event log
+ * and aggregates are kept, so its analytics stay available. Retiring a
+ * retired control is a no-op.
+ *
+ * @throws Error if the control is unknown
+ */
+export const retireControl = mutation({
+  args: { controlId: zodToConvex(controlIdSchema) },
+  handler: async (ctx, args) => {
+    const control = await loadControl(ctx, args.controlId);
+    if (control.retiredAtMs !== undefined) {
+      return { retiredAtMs: control.retiredAtMs };
+    }
+    const retiredAtMs = Date.now();
+    await ctx.db.patch(control._id, { retiredAtMs });
+    return { retiredAtMs };
+  },
+});
+
+/**
+ * Puts a retired control back in use. Its next committed change closes the
+ * holding interval that was open when it was retired, counted up to the
+ * configured maximum gap like any other long hold.
+ *
+ * @throws Error if the control is unknown
+ */
+export const restoreControl = mutation({
+  args: { controlId: zodToConvex(controlIdSchema) },
+  handler: async (ctx, args) => {
+    const control = await loadControl(ctx, args.controlId);
+    if (control.retiredAtMs !== undefined) {
+      await ctx.db.patch(control._id, { retiredAtMs: undefined });
+    }
+  },
+});
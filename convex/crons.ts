@@ -0,0 +1,33 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+/**
+ * Scheduled maintenance jobs.
+ */
+const crons = cronJobs();
+
+/**
+ * Daily quarter rollover: retires aggregates of quarters that fell out of the
+ * retention window. Running daily keeps the configured rollover delay accurate
+ * to the day without depending on when a quarter starts in the local zone.
+ */
+crons.daily(
+  'retire expired quarters',
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.retention.retireExpiredQuarters
+);
+
+/**
+ * Built-in model runtime. Schedule rules have minute resolution, so a
+ * once-a-minute run applies each firing within a minute of its time.
+ */
+crons.interval('run built-in models', { minutes: 1 }, internal.automation.runModels);
+
+/**
+ * Daily clock ranking for preference-following models. The ranking moves
+ * slowly as history accumulates, so a daily backtest keeps it current without
+ * running one on every model run.
+ */
+crons.daily('rank clocks', { hourUTC: 3, minuteUTC: 30 }, internal.automation.rankClocks);
+
+export default crons;
@@ -0,0 +1,76 @@
+import { v } from 'convex/values';
+import type { PaginationResult } from 'convex/server';
+import { clockEvaluationMetricNameSchema, controlIdSchema } from '@core';
+import type { Doc } from './_generated/dataModel';
+import { action, internalQuery } from './_generated/server';
+import {
+  EVENT_PAGE_SIZE,
+  loadEvaluationContext,
+  runClockEvaluation,
+  type ClockEvaluationContext,
+} from './lib/evaluation';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Ranks the five clocks for a control by how well each predicts the user,
+ * via a rolling-origin backtest over the committed event log. Returns one
+ * ranking for all models together and one per model, each clock with a
+ * mean score and confidence interval. Slider events are re-derived under
+ * the configured boundary policy first.
+ *
+ * The backtest replays the whole log once per fold, so it runs in an action
+ * rather than in a query.
+ */
+export const getClockEvaluation = action({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    metric: zodToConvex(clockEvaluationMetricNameSchema),
+    folds: v.optional(v.float64()),
+    confidenceLevel: v.optional(v.float64()),
+  },
+  handler: async (ctx, args) => ({
+    controlId: args.controlId,
+    metric: args.metric,
+    ...(await runClockEvaluation(
+      ctx,
+      args.controlId,
+      args.metric,
+      args.folds,
+      args.confidenceLevel
+    )),
+  }),
+});
+
+/**
+ * Configuration, definition and model activations of a control for a clock
+ * backtest.
+ */
+export const loadClockEvaluationContext = internalQuery({
+  args: { controlId: zodToConvex(controlIdSchema) },
+  handler: async (ctx, args): Promise<ClockEvaluationContext> =>
+    loadEvaluationContext(ctx, args.controlId),
+});
+
+/**
+ * One page of a control's committed event log, oldest first.
+ */
+export const loadEventPage = internalQuery({
+  args: { controlId: zodToConvex(controlIdSchema), cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args): Promise<PaginationResult<Doc<'committedChangeEvents'>>> =>
+    ctx.db
+      .query('committedChangeEvents')
+      .withIndex('by_control_ts', (q) => q.eq('controlId', args.controlId))
+      .paginate({ numItems: EVENT_PAGE_SIZE, cursor: args.cursor }),
+});
+
+/**
+ * One page of a control's quarantined events, oldest first.
+ */
+export const loadQuarantinedPage = internalQuery({
+  args: { controlId: zodToConvex(controlIdSchema), cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args): Promise<PaginationResult<Doc<'quarantinedEvents'>>> =>
+    ctx.db
+      .query('quarantinedEvents')
+      .withIndex('by_control_quarantinedAt', (q) => q.eq('controlId', args.controlId))
+      .paginate({ numItems: EVENT_PAGE_SIZE, cursor: args.cursor }),
+});
@@ -0,0 +1,273 @@
+import { v } from 'convex/values';
+import {
+  CLOCK_IDS,
+  buildClockBucketStats,
+  buildConvergenceReport,
+  buildPreferenceHeatmap,
+  controlIdSchema,
+  divergenceMetricSchema,
+  estimateClockPreferences,
+  estimateMarginalPreferences,
+  getStateCount,
+  getStateLabels,
+  heatmapViewSchema,
+  kdeSettingsSchema,
+  modelIdSchema,
+  quarterSelectionSchema,
+  smoothAtTimestamp,
+  type ClockBucketStats,
+  type ClockId,
+  type HeatmapCell,
+  type QuarterSelection,
+  type SufficientStats,
+} from '@core';
+import { query } from './_generated/server';
+import { loadClockBucketStats, loadControlStats } from './lib/aggregates';
+import { loadConfig } from './lib/config';
+import { loadControlDefinition } from './lib/controls';
+import { zodToConvex, zodToConvexObject } from './lib/zodToConvex';
+
+/**
+ * Default sampling step of the convergence report: hourly (every 12th bucket).
+ */
+const DEFAULT_CONVERGENCE_STEP_BUCKETS = 12;
+
+/**
+ * Default kernel-weighted transition count for a model's estimate at a bucket
+ * to count as data-sufficient in the convergence report.
+ */
+const DEFAULT_MIN_EFFECTIVE_TRANSITIONS = 5;
+
+/**
+ * Optional quarter filter shared by the queries below: only aggregates of the
+ * selected quarters are read (e.g. `{ quartersOfYear: [1] }` for winter, or
+ * `{ quarterKeys: ['2024-Q3'] }`). Omit to read every retained quarter.
+ */
+const quartersArg = v.optional(zodToConvexObject(quarterSelectionSchema));
+
+function parseQuarters(quarters: unknown): QuarterSelection | undefined {
+  return quarters === undefined ? undefined : quarterSelectionSchema.parse(quarters);
+}
+
+/**
+ * KDE-smoothed sufficient statistics of a control at a timestamp, for all
+ * clocks. Clocks whose time-of-day is undefined at `tsMs` map to null.
+ *
+ * `kde` overrides the configured KDE settings for this call, so different
+ * kernels and bandwidths can be compared on the same data.
+ */
+export const getSmoothedStatsAtTimestamp = query({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    modelId: v.optional(zodToConvex(modelIdSchema)),
+    tsMs: v.float64(),
+    kde: v.optional(zodToConvexObject(kdeSettingsSchema)),
+    quarters: quartersArg,
+  },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    const definition = await loadControlDefinition(ctx, args.controlId);
+    const kde = args.kde === undefined ? config.kde : kdeSettingsSchema.parse(args.kde);
+    const stats = await loadClockBucketStats(
+      ctx,
+      args.controlId,
+      getStateCount(definition),
+      args.modelId,
+      parseQuarters(args.quarters)
+    );
+
+    const smoothed = smoothAtTimestamp(stats, args.tsMs, config, kde);
+    const clocks = {} as Record<ClockId, SufficientStats | null>;
+    for (const clockId of CLOCK_IDS) {
+      clocks[clockId] = smoothed[clockId] ?? null;
+    }
+    return { tsMs: args.tsMs, kde, clocks };
+  },
+});
+
+/**
+ * Stationary preference distributions of a control at a timestamp, for all
+ * clocks in one response.
+ *
+ * - `aggregate`: control-wide estimate from statistics summed across models
+ * - `models`: one estimate per model (only `modelId` if given, otherwise every
+ *   model with recorded data)
+ *
+ * Clocks whose time-of-day is undefined at `tsMs` are returned as
+ * `{ defined: false }`. Each state carries its label from the control definition.
+ * Compound controls are estimated as one CTMC over their joint states (see
+ * `getMarginalPreferenceAtTimestamp` for per-dimension estimates).
+ */
+export const getPreferenceAtTimestamp = query({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    modelId: v.optional(zodToConvex(modelIdSchema)),
+    tsMs: v.float64(),
+    quarters: quartersArg,
+  },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    const definition = await loadControlDefinition(ctx, args.controlId);
+    const numStates = getStateCount(definition);
+    const { aggregate, byModel } = await loadControlStats(
+      ctx,
+      args.controlId,
+      numStates,
+      parseQuarters(args.quarters)
+    );
+
+    const estimate = (stats: Record<ClockId, ClockBucketStats>) =>
+      estimateClockPreferences(definition, stats, args.tsMs, config, config);
+
+    const modelIds = args.modelId === undefined ? [...byModel.keys()] : [args.modelId];
+    const empty = {} as Record<ClockId, ClockBucketStats>;
+    for (const clockId of CLOCK_IDS) {
+      empty[clockId] = buildClockBucketStats(numStates, [], []);
+    }
+
+    return {
+      controlId: args.controlId,
+      tsMs: args.tsMs,
+      labels: getStateLabels(definition),
+      aggregate: estimate(aggregate),
+      models: modelIds.map((modelId) => ({
+        modelId,
+        clocks: estimate(byModel.get(modelId) ?? empty),
+      })),
+    };
+  },
+});
+
+/**
+ * Per-dimension preference distributions of a compound control at a
+ * timestamp. Each dimension is estimated as its own CTMC from the joint
+ * statistics projected onto it (whereas `getPreferenceAtTimestamp` treats the
+ * joint state as one CTMC). Same `aggregate` / `models` split as
+ * `getPreferenceAtTimestamp`, once per dimension.
+ */
+export const getMarginalPreferenceAtTimestamp = query({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    modelId: v.optional(zodToConvex(modelIdSchema)),
+    tsMs: v.float64(),
+    quarters: quartersArg,
+  },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    const definition = await loadControlDefinition(ctx, args.controlId);
+    if (definition.kind !== 'compound') {
+      throw new Error(`Control ${args.controlId} is not a compound control`);
+    }
+    const numStates = getStateCount(definition);
+    const { aggregate, byModel } = await loadControlStats(
+      ctx,
+      args.controlId,
+      numStates,
+      parseQuarters(args.quarters)
+    );
+
+    const estimate = (stats: Record<ClockId, ClockBucketStats>) =>
+      estimateMarginalPreferences(definition, stats, args.tsMs, config, config);
+
+    const modelIds = args.modelId === undefined ? [...byModel.keys()] : [args.modelId];
+    const empty = {} as Record<ClockId, ClockBucketStats>;
+    for (const clockId of CLOCK_IDS) {
+      empty[clockId] = buildClockBucketStats(numStates, [], []);
+    }
+    const aggregatePreferences = estimate(aggregate);
+    const modelPreferences = modelIds.map((modelId) => ({
+      modelId,
+      dimensions: estimate(byModel.get(modelId) ?? empty),
+    }));
+
+    return {
+      controlId: args.controlId,
+      tsMs: args.tsMs,
+      dimensions: definition.dimensions.map(({ name, control }, k) => ({
+        name,
+        labels: getStateLabels(control),
+        aggregate: aggregatePreferences[k].clocks,
+        models: modelPreferences.map(({ modelId, dimensions }) => ({
+          modelId,
+          clocks: dimensions[k].clocks,
+        })),
+      })),
+    };
+  },
+});
+
+/**
+ * Per-model convergence report for a control: divergence between each pair of
+ * models' stationary distributions, and between each model and the aggregate,
+ * for every clock across the week, with a data-sufficiency indicator per
+ * model and bucket.
+ */
+export const getConvergenceReport = query({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    metric: zodToConvex(divergenceMetricSchema),
+    stepBuckets: v.optional(v.float64()),
+    minEffectiveTransitions: v.optional(v.float64()),
+    quarters: quartersArg,
+  },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    const definition = await loadControlDefinition(ctx, args.controlId);
+    const { aggregate, byModel } = await loadControlStats(
+      ctx,
+      args.controlId,
+      getStateCount(definition),
+      parseQuarters(args.quarters)
+    );
+    return {
+      controlId: args.controlId,
+      ...buildConvergenceReport({
+        aggregate,
+        byModel,
+        settings: config,
+        metric: args.metric,
+        stepBuckets: args.stepBuckets ?? DEFAULT_CONVERGENCE_STEP_BUCKETS,
+        minEffectiveTransitions: args.minEffectiveTransitions ?? DEFAULT_MIN_EFFECTIVE_TRANSITIONS,
+      }),
+    };
+  },
+});
+
+/**
+ * Preference heatmaps of a control for all clocks: per bucket, the raw
+ * holding time and transition counts, the observed occupancy and the
+ * inferred stationary preference. `view: 'week'` returns 2016 cells per
+ * clock, `view: 'day'` folds the week onto 288 time-of-day cells.
+ *
+ * Reads one model's data if `modelId` is given, otherwise the aggregate.
+ */
+export const getPreferenceHeatmap = query({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    modelId: v.optional(zodToConvex(modelIdSchema)),
+    view: zodToConvex(heatmapViewSchema),
+    quarters: quartersArg,
+  },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    const definition = await loadControlDefinition(ctx, args.controlId);
+    const stats = await loadClockBucketStats(
+      ctx,
+      args.controlId,
+      getStateCount(definition),
+      args.modelId,
+      parseQuarters(args.quarters)
+    );
+
+    const clocks = {} as Record<ClockId, HeatmapCell[]>;
+    for (const clockId of CLOCK_IDS) {
+      clocks[clockId] = buildPreferenceHeatmap(stats[clockId], config, args.view);
+    }
+    return {
+      controlId: args.controlId,
+      view: args.view,
+      labels: getStateLabels(definition),
+      clocks,
+    };
+  },
+});
@@ -0,0 +1,378 @@
+import {
+  CLOCK_IDS,
+  addBucketCounts,
+  buildClockBucketStats,
+  commitAnalyticsEntries,
+  matchesQuarterSelection,
+  packBucketDeltas,
+  pairBucketEntries,
+  unpackBuckets,
+  type AggregateBucketDelta,
+  type AggregateBucketKey,
+  type AggregateEntries,
+  type BucketCounts,
+  type ClockBucketStats,
+  type ClockId,
+  type CommitAnalytics,
+  type ControlId,
+  type ModelId,
+  type PairedRow,
+  type QuarterKey,
+  type QuarterSelection,
+} from '@core';
+import { internal } from '../_generated/api';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { toConvexValue, type ConvexValue } from './zodToConvex';
+
+/**
+ * Reads and upserts the analytics aggregates (`aggregateBuckets`). Each
+ * document packs one bucket's holding-time vector and transition counts and
+ * is keyed by its full `by_key` index (control, generation, model, clock,
+ * bucket, quarter); deltas are accumulated in place. Readers and live
+ * ingestion only touch the control's active generation; rebuilds write a new
+ * one alongside.
+ */
+
+/**
+ * Aggregate buckets upserted per mutation. A longer holding interval writes
+ * the rest in scheduled follow-up mutations (chunks of the same size), so
+ * ingestion stays within Convex's per-transaction limits.
+ */
+export const MAX_BUCKET_WRITES = 500;
+
+type BucketKey = AggregateBucketKey & { controlId: ControlId; generation: number };
+
+/**
+ * Returns the aggregate generation a control currently reads and writes
+ * (0 until the first rebuild is swapped in).
+ */
+export async function loadActiveGeneration(ctx: QueryCtx, controlId: ControlId): Promise<number> {
+  const row = await ctx.db
+    .query('aggregateGenerations')
+    .withIndex('by_controlId', (q) => q.eq('controlId', controlId))
+    .unique();
+  return row?.generation ?? 0;
+}
+
+/**
+ * Makes `generation` the control's active aggregate generation.
+ */
+export async function setActiveGeneration(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  generation: number
+): Promise<void> {
+  const row = await ctx.db
+    .query('aggregateGenerations')
+    .withIndex('by_controlId', (q) => q.eq('controlId', controlId))
+    .unique();
+  if (row === null) {
+    await ctx.db.insert('aggregateGenerations', { controlId, generation });
+  } else {
+    await ctx.db.patch(row._id, { generation });
+  }
+}
+
+/**
+ * Applies the holding time and (optional) transition derived from one
+ * committed change to the control's active generation, each under its own
+ * model and quarter. Buckets beyond `MAX_BUCKET_WRITES` are written by
+ * scheduled follow-ups (see `applyBucketDeltas` in `aggregates.ts`).
+ */
+export async function applyCommitAnalytics(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  analytics: CommitAnalytics
+): Promise<void> {
+  const generation = await loadActiveGeneration(ctx, controlId);
+  const chunks = await addBucketDeltas(
+    ctx,
+    controlId,
+    generation,
+    packBucketDeltas(commitAnalyticsEntries(analytics))
+  );
+  for (const deltas of chunks) {
+    await ctx.scheduler.runAfter(0, internal.aggregates.applyBucketDeltas, {
+      controlId,
+      generation,
+      deltas,
+    });
+  }
+}
+
+/**
+ * Adds aggregate entries (e.g. replayed ones) to one generation of a control,
+ * up to `MAX_BUCKET_WRITES` buckets.
+ *
+ * @returns The buckets left over, in chunks for follow-up mutations
+ */
+export async function applyAggregateEntries(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  generation: number,
+  entries: AggregateEntries
+): Promise<ConvexValue<AggregateBucketDelta>[][]> {
+  return addBucketDeltas(ctx, controlId, generation, packBucketDeltas(entries));
+}
+
+/**
+ * Adds bucket deltas to one generation of a control, up to
+ * `MAX_BUCKET_WRITES` of them.
+ *
+ * @returns The deltas left over, in chunks of at most `MAX_BUCKET_WRITES`
+ */
+export async function addBucketDeltas(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  generation: number,
+  deltas: readonly AggregateBucketDelta[]
+): Promise<ConvexValue<AggregateBucketDelta>[][]> {
+  for (const { holdMs, transCounts, ...key } of deltas.slice(0, MAX_BUCKET_WRITES)) {
+    const bucketKey = { controlId, generation, ...key };
+    const existing = await findBucket(ctx, bucketKey);
+    if (existing === null) {
+      await ctx.db.insert('aggregateBuckets', {
+        ...bucketKey,
+        ...toConvexValue(addBucketCounts(undefined, { holdMs, transCounts })),
+      });
+    } else {
+      await ctx.db.patch(
+        existing._id,
+        toConvexValue(addBucketCounts(existing, { holdMs, transCounts }))
+      );
+    }
+  }
+  const chunks: ConvexValue<AggregateBucketDelta>[][] = [];
+  for (let start = MAX_BUCKET_WRITES; start < deltas.length; start += MAX_BUCKET_WRITES) {
+    chunks.push(toConvexValue(deltas.slice(start, start + MAX_BUCKET_WRITES)));
+  }
+  return chunks;
+}
+
+async function findBucket(ctx: QueryCtx, key: BucketKey) {
+  return await ctx.db
+    .query('aggregateBuckets')
+    .withIndex('by_key', (q) =>
+      q
+        .eq('controlId', key.controlId)
+        .eq('generation', key.generation)
+        .eq('modelId', key.modelId)
+        .eq('clockId', key.clockId)
+        .eq('bucketId', key.bucketId)
+        .eq('quarterKey', key.quarterKey)
+    )
+    .unique();
+}
+
+/**
+ * A page of one aggregate table's entries of one generation, each paired
+ * with the value of the entry sharing its key in another generation.
+ */
+export interface PairedRowPage {
+  readonly rows: PairedRow[];
+  readonly continueCursor: string;
+  readonly isDone: boolean;
+}
+
+/**
+ * Pairs the entries of `table` in the next page of a control's buckets of
+ * `generation` with those of `otherGeneration`, for an incremental diff (see
+ * `addPairedRows` in core).
+ */
+export async function pairGenerationRows(
+  ctx: QueryCtx,
+  table: keyof BucketCounts,
+  controlId: ControlId,
+  generation: number,
+  otherGeneration: number,
+  page: { numItems: number; cursor: string | null }
+): Promise<PairedRowPage> {
+  const result = await ctx.db
+    .query('aggregateBuckets')
+    .withIndex('by_key', (q) => q.eq('controlId', controlId).eq('generation', generation))
+    .paginate(page);
+  const rows: PairedRow[] = [];
+  for (const bucket of result.page) {
+    const other = await findBucket(ctx, { ...bucket, generation: otherGeneration });
+    rows.push(...pairBucketEntries(table, bucket, other ?? undefined));
+  }
+  return { rows, continueCursor: result.continueCursor, isDone: result.isDone };
+}
+
+/**
+ * Deletes up to `limit` aggregate buckets of one generation of a control.
+ *
+ * @returns The number of buckets deleted
+ */
+export async function deleteGenerationRows(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  generation: number,
+  limit: number
+): Promise<number> {
+  const buckets = await ctx.db
+    .query('aggregateBuckets')
+    .withIndex('by_key', (q) => q.eq('controlId', controlId).eq('generation', generation))
+    .take(limit);
+  for (const bucket of buckets) {
+    await ctx.db.delete(bucket._id);
+  }
+  return buckets.length;
+}
+
+/**
+ * Keeps the buckets of the selected quarters (all buckets without a
+ * selection).
+ */
+function inQuarters<T extends { quarterKey: QuarterKey }>(
+  buckets: T[],
+  quarters: QuarterSelection | undefined
+): T[] {
+  return quarters === undefined
+    ? buckets
+    : buckets.filter((bucket) => matchesQuarterSelection(bucket.quarterKey, quarters));
+}
+
+/**
+ * Loads the entries of a control's buckets of one generation and clock (of
+ * one model only, with `modelId`).
+ */
+async function loadClockEntries(
+  ctx: QueryCtx,
+  controlId: ControlId,
+  generation: number,
+  clockId: ClockId,
+  quarters: QuarterSelection | undefined,
+  modelId?: ModelId
+): Promise<AggregateEntries> {
+  const buckets =
+    modelId === undefined
+      ? await ctx.db
+          .query('aggregateBuckets')
+          .withIndex('by_control_clock_bucket', (q) =>
+            q.eq('controlId', controlId).eq('generation', generation).eq('clockId', clockId)
+          )
+          .collect()
+      : await ctx.db
+          .query('aggregateBuckets')
+          .withIndex('by_key', (q) =>
+            q
+              .eq('controlId', controlId)
+              .eq('generation', generation)
+              .eq('modelId', modelId)
+              .eq('clockId', clockId)
+          )
+          .collect();
+  return unpackBuckets(inQuarters(buckets, quarters));
+}
+
+/**
+ * Loads raw per-bucket statistics of a control for every clock.
+ * With `modelId`, only that model's buckets are read; without it, buckets of
+ * all models are summed (the aggregated view). With `quarters`, only buckets
+ * of the selected quarters are summed.
+ */
+export async function loadClockBucketStats(
+  ctx: QueryCtx,
+  controlId: ControlId,
+  numStates: number,
+  modelId?: ModelId,
+  quarters?: QuarterSelection
+): Promise<Record<ClockId, ClockBucketStats>> {
+  const generation = await loadActiveGeneration(ctx, controlId);
+  const result = {} as Record<ClockId, ClockBucketStats>;
+  for (const clockId of CLOCK_IDS) {
+    result[clockId] = await loadBucketStatsOfClock(
+      ctx,
+      controlId,
+      generation,
+      clockId,
+      numStates,
+      modelId,
+      quarters
+    );
+  }
+  return result;
+}
+
+/**
+ * Loads raw per-bucket statistics of a control for one clock, summed over
+ * all models and quarters.
+ */
+export async function loadSingleClockBucketStats(
+  ctx: QueryCtx,
+  controlId: ControlId,
+  clockId: ClockId,
+  numStates: number
+): Promise<ClockBucketStats> {
+  const generation = await loadActiveGeneration(ctx, controlId);
+  return loadBucketStatsOfClock(ctx, controlId, generation, clockId, numStates);
+}
+
+async function loadBucketStatsOfClock(
+  ctx: QueryCtx,
+  controlId: ControlId,
+  generation: number,
+  clockId: ClockId,
+  numStates: number,
+  modelId?: ModelId,
+  quarters?: QuarterSelection
+): Promise<ClockBucketStats> {
+  const entries = await loadClockEntries(ctx, controlId, generation, clockId, quarters, modelId);
+  return buildClockBucketStats(numStates, entries.holdMs, entries.transCounts);
+}
+
+/**
+ * Raw per-bucket statistics of a control for every clock: the aggregate over
+ * all models plus one entry per model that has any data.
+ */
+export interface ControlStats {
+  readonly aggregate: Record<ClockId, ClockBucketStats>;
+  readonly byModel: ReadonlyMap<ModelId, Record<ClockId, ClockBucketStats>>;
+}
+
+/**
+ * Loads all aggregate buckets of a control (of the selected quarters, if
+ * given) once and groups them per model.
+ */
+export async function loadControlStats(
+  ctx: QueryCtx,
+  controlId: ControlId,
+  numStates: number,
+  quarters?: QuarterSelection
+): Promise<ControlStats> {
+  const generation = await loadActiveGeneration(ctx, controlId);
+  const aggregate = {} as Record<ClockId, ClockBucketStats>;
+  const byModel = new Map<ModelId, Record<ClockId, ClockBucketStats>>();
+  for (const clockId of CLOCK_IDS) {
+    const { holdMs: holdRows, transCounts: transRows } = await loadClockEntries(
+      ctx,
+      controlId,
+      generation,
+      clockId,
+      quarters
+    );
+    aggregate[clockId] = buildClockBucketStats(numStates, holdRows, transRows);
+
+    const modelIds = new Set([...holdRows, ...transRows].map((row) => row.modelId));
+    for (const modelId of modelIds) {
+      let clocks = byModel.get(modelId);
+      if (clocks === undefined) {
+        clocks = {} as Record<ClockId, ClockBucketStats>;
+        byModel.set(modelId, clocks);
+      }
+      clocks[clockId] = buildClockBucketStats(
+        numStates,
+        holdRows.filter((row) => row.modelId === modelId),
+        transRows.filter((row) => row.modelId === modelId)
+      );
+    }
+  }
+  // A model may lack buckets on clocks that were undefined whenever it was active.
+  for (const clocks of byModel.values()) {
+    for (const clockId of CLOCK_IDS) {
+      clocks[clockId] ??= buildClockBucketStats(numStates, [], []);
+    }
+  }
+  return { aggregate, byModel };
+}
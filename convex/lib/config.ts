@@ -0,0 +1,19 @@
+import { systemConfigSchema, type SystemConfig } from '@core';
+import type { QueryCtx } from '../_generated/server';
+
+/**
+ * Loads the singleton system configuration.
+ *
+ * Policies such as the slider boundary policy have no silent defaults, so
+ * functions that depend on them fail until the config has been set.
+ *
+ * @throws Error if the config has not been set
+ */
+export async function loadConfig(ctx: QueryCtx): Promise<SystemConfig> {
+  const row = await ctx.db.query('config').first();
+  if (row === null) {
+    throw new Error('System config has not been set');
+  }
+  const { _id, _creationTime, ...config } = row;
+  return systemConfigSchema.parse(config);
+}
@@ -0,0 +1,115 @@
+import {
+  checkCommitIntegrity,
+  deriveCommitAnalytics,
+  getMaxHoldMs,
+  resolveControlValue,
+  type CommittedChangeEvent,
+  type SetControlValueRequest,
+} from '@core';
+import type { MutationCtx } from '../_generated/server';
+import { applyCommitAnalytics } from './aggregates';
+import { loadConfig } from './config';
+import { loadActiveControlDefinition } from './controls';
+import { loadActivations, loadKnownModelIds } from './models';
+
+/**
+ * Sets a control's value (see `setControlValue` in `controls.ts` for the
+ * rules). Shared by the public mutation and the built-in model runtime so
+ * both paths behave identically.
+ *
+ * @throws Error if the control is unknown or retired, or the request does not
+ *   fit it
+ */
+export async function applyControlValue(ctx: MutationCtx, request: SetControlValueRequest) {
+  const definition = await loadActiveControlDefinition(ctx, request.controlId);
+  const runtime = await ctx.db
+    .query('controlRuntime')
+    .withIndex('by_controlId', (q) => q.eq('controlId', request.controlId))
+    .unique();
+  if (runtime === null) {
+    throw new Error(`Missing runtime state for control: ${request.controlId}`);
+  }
+  const config = await loadConfig(ctx);
+
+  const resolved = resolveControlValue(definition, request, config.sliderBoundaryPolicy);
+  const nowMs = Date.now();
+  const tsMs = request.tsMs ?? nowMs;
+
+  if (!request.isCommitted) {
+    await ctx.db.patch(runtime._id, {
+      currentDiscreteState: resolved.discreteState,
+      currentValue01: resolved.value01,
+      currentDimensions: resolved.dimensions,
+      lastUpdatedAtMs: nowMs,
+    });
+    return { tsMs, discreteState: resolved.discreteState, isCommitted: false };
+  }
+
+  // The client's time and from-state are checked against the server's record
+  const event: CommittedChangeEvent = {
+    controlId: request.controlId,
+    tsMs,
+    fromDiscreteState: request.fromDiscreteState ?? runtime.lastCommittedDiscreteState,
+    toDiscreteState: resolved.discreteState,
+    initiator: request.initiator,
+    activeModelId: runtime.activeModelId,
+    value01: resolved.value01,
+    dimensions: resolved.dimensions,
+  };
+  const previous = {
+    previousCommittedAtMs: runtime.lastCommittedAtMs,
+    previousState: runtime.lastCommittedDiscreteState,
+    event,
+    location: config,
+  };
+  const violation = checkCommitIntegrity({
+    ...previous,
+    definition,
+    knownModelIds: await loadKnownModelIds(ctx),
+    nowMs,
+    settings: config.integrity,
+  });
+  const committedRuntime = {
+    currentDiscreteState: resolved.discreteState,
+    currentValue01: resolved.value01,
+    currentDimensions: resolved.dimensions,
+    lastUpdatedAtMs: nowMs,
+    lastCommittedAtMs: tsMs,
+    lastCommittedDiscreteState: resolved.discreteState,
+  };
+
+  if (violation !== undefined) {
+    // Ingestion resumes from server time, which a bad timestamp cannot move
+    // (see `toQuarantineMarker`)
+    await ctx.db.patch(runtime._id, { ...committedRuntime, lastCommittedAtMs: nowMs });
+    await ctx.db.insert('quarantinedEvents', {
+      ...event,
+      previousCommittedAtMs: runtime.lastCommittedAtMs,
+      previousDiscreteState: runtime.lastCommittedDiscreteState,
+      reason: violation.reason,
+      message: violation.message,
+      quarantinedAtMs: nowMs,
+    });
+    return {
+      tsMs,
+      discreteState: resolved.discreteState,
+      isCommitted: true,
+      quarantineReason: violation.reason,
+    };
+  }
+
+  const analytics = deriveCommitAnalytics({
+    ...previous,
+    activations: await loadActivations(ctx, request.controlId, runtime.lastCommittedAtMs),
+    maxHoldMs: getMaxHoldMs(config.integrity),
+  });
+  await ctx.db.patch(runtime._id, committedRuntime);
+  await ctx.db.insert('committedChangeEvents', event);
+  await applyCommitAnalytics(ctx, request.controlId, analytics);
+  return {
+    tsMs,
+    discreteState: resolved.discreteState,
+    isCommitted: true,
+    quarantineReason: null,
+  };
+}
@@ -0,0 +1,56 @@
+import { controlDefinitionSchema, type ControlDefinition, type ControlId } from '@core';
+import type { Doc } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+
+/**
+ * Loads a control's row.
+ *
+ * @throws Error if the control does not exist
+ */
+export async function loadControl(ctx: QueryCtx, controlId: ControlId): Promise<Doc<'controls'>> {
+  const control = await ctx.db
+    .query('controls')
+    .withIndex('by_controlId', (q) => q.eq('controlId', controlId))
+    .unique();
+  if (control === null) {
+    throw new Error(`Unknown control: ${controlId}`);
+  }
+  return control;
+}
+
+/**
+ * Loads and validates a control definition. Retired controls are included,
+ * so their history stays readable.
+ *
+ * @throws Error if the control does not exist
+ */
+export async function loadControlDefinition(
+  ctx: QueryCtx,
+  controlId: ControlId
+): Promise<ControlDefinition> {
+  return controlDefinitionSchema.parse((await loadControl(ctx, controlId)).definition);
+}
+
+/**
+ * Loads and validates the definition of a control that accepts changes.
+ *
+ * @throws Error if the control does not exist or is retired
+ */
+export async function loadActiveControlDefinition(
+  ctx: QueryCtx,
+  controlId: ControlId
+): Promise<ControlDefinition> {
+  const control = await loadControl(ctx, controlId);
+  if (control.retiredAtMs !== undefined) {
+    throw new Error(`Control ${controlId} is retired`);
+  }
+  return controlDefinitionSchema.parse(control.definition);
+}
+
+/**
+ * Loads the ids of all retired controls.
+ */
+export async function loadRetiredControlIds(ctx: QueryCtx): Promise<Set<ControlId>> {
+  const rows = await ctx.db.query('controls').collect();
+  return new Set(rows.filter((row) => row.retiredAtMs !== undefined).map((row) => row.controlId));
+}
@@ -0,0 +1,142 @@
+import type { PaginationResult } from 'convex/server';
+import {
+  evaluateClocks,
+  getMaxHoldMs,
+  getStateCount,
+  rederiveEvents,
+  toQuarantineMarker,
+  type ClockEvaluationMetricName,
+  type ClockEvaluationReport,
+  type CommittedChangeEvent,
+  type ControlDefinition,
+  type ControlId,
+  type ModelActivation,
+  type QuarantinedEvent,
+  type SystemConfig,
+} from '@core';
+import { internal } from '../_generated/api';
+import type { ActionCtx, QueryCtx } from '../_generated/server';
+import { loadConfig } from './config';
+import { loadControlDefinition } from './controls';
+import { loadActivations } from './models';
+
+/**
+ * Default number of rolling origins in a clock backtest.
+ */
+export const DEFAULT_FOLDS = 4;
+
+/**
+ * Default two-sided confidence level for clock scores.
+ */
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+/**
+ * Committed events read per query when an action loads a control's log.
+ */
+export const EVENT_PAGE_SIZE = 1000;
+
+/**
+ * Everything a clock backtest needs besides the event log.
+ */
+export interface ClockEvaluationContext {
+  readonly config: SystemConfig;
+  readonly definition: ControlDefinition;
+  readonly activations: ModelActivation[];
+}
+
+/**
+ * Loads the configuration, definition and model activations of a control
+ * for a clock backtest.
+ */
+export async function loadEvaluationContext(
+  ctx: QueryCtx,
+  controlId: ControlId
+): Promise<ClockEvaluationContext> {
+  return {
+    config: await loadConfig(ctx),
+    definition: await loadControlDefinition(ctx, controlId),
+    activations: await loadActivations(ctx, controlId),
+  };
+}
+
+/**
+ * Runs the rolling-origin clock backtest over a control's committed event
+ * log in an action, which reads the log page by page (see
+ * `evaluationQueries.ts`) rather than in a single query. Quarantined events
+ * break the history and long holds are cut as in live ingestion. Slider
+ * events are re-derived under the configured boundary policy first.
+ */
+export async function runClockEvaluation(
+  ctx: ActionCtx,
+  controlId: ControlId,
+  metric: ClockEvaluationMetricName,
+  folds: number = DEFAULT_FOLDS,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): Promise<ClockEvaluationReport> {
+  const context = await ctx.runQuery(internal.evaluationQueries.loadClockEvaluationContext, {
+    controlId,
+  });
+  const events = await loadAllPages((cursor) =>
+    ctx.runQuery(internal.evaluationQueries.loadEventPage, { controlId, cursor })
+  );
+  const quarantined = await loadAllPages<QuarantinedEvent>((cursor) =>
+    ctx.runQuery(internal.evaluationQueries.loadQuarantinedPage, { controlId, cursor })
+  );
+  return evaluateLoggedClocks(
+    context,
+    events,
+    quarantined.map(toQuarantineMarker),
+    metric,
+    folds,
+    confidenceLevel
+  );
+}
+
+async function loadAllPages<T>(
+  loadPage: (cursor: string | null) => Promise<PaginationResult<T>>
+): Promise<T[]> {
+  const rows: T[] = [];
+  let cursor: string | null = null;
+  for (;;) {
+    const page = await loadPage(cursor);
+    rows.push(...page.page);
+    if (page.isDone) {
+      return rows;
+    }
+    cursor = page.continueCursor;
+  }
+}
+
+function evaluateLoggedClocks(
+  { config, definition, activations }: ClockEvaluationContext,
+  events: readonly CommittedChangeEvent[],
+  quarantined: readonly CommittedChangeEvent[],
+  metric: ClockEvaluationMetricName,
+  folds: number,
+  confidenceLevel: number
+): ClockEvaluationReport {
+  // Quarantined events are re-derived in log order with the logged ones, as
+  // replay does, so an event continuing from one continues from its
+  // re-derived state. Stable sorting puts them first at equal timestamps.
+  const ordered = [
+    ...quarantined.map((event) => ({ event, isQuarantined: true })),
+    ...events.map((event) => ({ event, isQuarantined: false })),
+  ].sort((a, b) => a.event.tsMs - b.event.tsMs);
+  const rederived = rederiveEvents(
+    ordered.map(({ event }) => event),
+    config.sliderBoundaryPolicy,
+    definition
+  );
+  return evaluateClocks({
+    events: rederived.filter((_, k) => !ordered[k].isQuarantined),
+    quarantined: rederived.filter((_, k) => ordered[k].isQuarantined),
+    activations,
+    maxHoldMs: getMaxHoldMs(config.integrity),
+    numStates: getStateCount(definition),
+    location: config,
+    settings: config,
+    metric,
+    folds,
+    confidenceLevel,
+  });
+}
@@ -0,0 +1,72 @@
+import {
+  modelDefinitionSchema,
+  type ControlId,
+  type ModelActivation,
+  type ModelDefinition,
+  type ModelId,
+} from '@core';
+import type { QueryCtx } from '../_generated/server';
+
+/**
+ * Loads the ids of all registered models.
+ */
+export async function loadKnownModelIds(ctx: QueryCtx): Promise<Set<ModelId>> {
+  const rows = await ctx.db.query('models').collect();
+  return new Set(rows.map((row) => row.modelId));
+}
+
+/**
+ * Loads the latest version of a model, or `null` if it is not registered.
+ */
+export async function loadLatestModel(
+  ctx: QueryCtx,
+  modelId: ModelId
+): Promise<ModelDefinition | null> {
+  const row = await ctx.db
+    .query('models')
+    .withIndex('by_modelId_version', (q) => q.eq('modelId', modelId))
+    .order('desc')
+    .first();
+  return row === null ? null : modelDefinitionSchema.parse(row);
+}
+
+/**
+ * Loads a control's model activations in ascending time order. With
+ * `sinceMs`, only the activation in force at that time and later ones are
+ * loaded, which is all that attributing time from `sinceMs` on needs.
+ */
+export async function loadActivations(
+  ctx: QueryCtx,
+  controlId: ControlId,
+  sinceMs?: number
+): Promise<ModelActivation[]> {
+  const later = await ctx.db
+    .query('modelActivations')
+    .withIndex('by_control_activatedAt', (q) =>
+      sinceMs === undefined
+        ? q.eq('controlId', controlId)
+        : q.eq('controlId', controlId).gt('activatedAtMs', sinceMs)
+    )
+    .collect();
+  if (sinceMs === undefined) {
+    return later.map(toActivation);
+  }
+  const inForce = await ctx.db
+    .query('modelActivations')
+    .withIndex('by_control_activatedAt', (q) =>
+      q.eq('controlId', controlId).lte('activatedAtMs', sinceMs)
+    )
+    .order('desc')
+    .first();
+  return [...(inForce === null ? [] : [inForce]), ...later].map(toActivation);
+}
+
+function toActivation({
+  controlId,
+  modelId,
+  previousModelId,
+  version,
+  activatedAtMs,
+}: ModelActivation): ModelActivation {
+  return { controlId, modelId, previousModelId, version, activatedAtMs };
+}
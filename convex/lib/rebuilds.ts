@@ -0,0 +1,104 @@
+import type { ControlId, StateRemap } from '@core';
+import { internal } from '../_generated/api';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { loadActiveGeneration } from './aggregates';
+
+/**
+ * Default number of committed events replayed per rebuild batch. Each event
+ * writes up to a few hundred aggregate buckets for long holding intervals.
+ */
+export const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Options for starting a rebuild.
+ */
+export interface RebuildOptions {
+  /**
+   * Stop before swapping so the result can be diffed first.
+   */
+  readonly dryRun: boolean;
+  /**
+   * Committed events replayed per batch.
+   */
+  readonly batchSize: number;
+  /**
+   * State remapping to apply to the log and the control (see `remap.ts` in
+   * core). Cannot be combined with a dry run.
+   */
+  readonly remap?: StateRemap;
+}
+
+/**
+ * A started rebuild and the generation it writes.
+ */
+export interface RebuildStart {
+  readonly rebuildId: Id<'rebuilds'>;
+  readonly generation: number;
+}
+
+/**
+ * Loads a control's rebuild that is running or awaiting review, if any.
+ */
+export async function loadPendingRebuild(
+  ctx: QueryCtx,
+  controlId: ControlId
+): Promise<Doc<'rebuilds'> | null> {
+  const jobs = await ctx.db
+    .query('rebuilds')
+    .withIndex('by_control_startedAt', (q) => q.eq('controlId', controlId))
+    .collect();
+  return jobs.find((job) => job.status === 'running' || job.status === 'ready') ?? null;
+}
+
+/**
+ * Creates a rebuild job for a control and schedules its first batch.
+ *
+ * @throws Error if the batch size is invalid, a remap is requested as a dry
+ *   run, or the control already has a rebuild running or awaiting review
+ */
+export async function startControlRebuild(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  { dryRun, batchSize, remap }: RebuildOptions
+): Promise<RebuildStart> {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Batch size must be a positive integer, got ${batchSize}`);
+  }
+  if (dryRun && remap !== undefined) {
+    throw new Error('A state remapping rewrites the event log and cannot be a dry run');
+  }
+  const pending = await loadPendingRebuild(ctx, controlId);
+  if (pending !== null) {
+    throw new Error(`Control ${controlId} already has a rebuild (${pending._id}) pending`);
+  }
+  const jobs = await ctx.db
+    .query('rebuilds')
+    .withIndex('by_control_startedAt', (q) => q.eq('controlId', controlId))
+    .collect();
+  const generation =
+    Math.max(await loadActiveGeneration(ctx, controlId), ...jobs.map((job) => job.generation)) + 1;
+
+  const rebuildId = await ctx.db.insert('rebuilds', {
+    controlId,
+    generation,
+    status: 'running',
+    dryRun,
+    batchSize,
+    cursor: null,
+    anchor: null,
+    processedEvents: 0,
+    ...(remap === undefined
+      ? {}
+      : {
+          remap: {
+            mapping: [...remap.mapping],
+            definition: { ...remap.definition, labels: [...remap.definition.labels] },
+          },
+        }),
+    startedAtMs: Date.now(),
+    finishedAtMs: null,
+  });
+  await ctx.scheduler.runAfter(0, internal.rebuild.processRebuildBatch, { rebuildId });
+  return { rebuildId, generation };
+}
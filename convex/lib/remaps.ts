@@ -0,0 +1,106 @@
+import {
+  remapEvents,
+  remapState,
+  type CommittedChangeEvent,
+  type ControlId,
+  type DiscreteState,
+  type StateRemap,
+  type StateRemapping,
+} from '@core';
+import type { Doc } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+
+/**
+ * Writes for state remappings, which run as rebuilds (see `remapControlStates`
+ * in `controls.ts`): each batch of the log is rewritten before it is
+ * replayed, and the control itself is switched over together with the swap.
+ */
+
+/**
+ * Rewrites a batch of a control's logged events in place under `mapping`:
+ * remapped events are patched, events entering a dropped state are deleted.
+ *
+ * @param previousState - Remapped to-state of the last kept event before the
+ *   batch, if any
+ * @returns The kept events as remapped, in log order
+ */
+export async function rewriteLoggedEvents(
+  ctx: MutationCtx,
+  events: readonly Doc<'committedChangeEvents'>[],
+  mapping: StateRemapping,
+  previousState: DiscreteState | undefined
+): Promise<CommittedChangeEvent[]> {
+  const remapped = remapEvents(events, mapping, previousState);
+  const kept: CommittedChangeEvent[] = [];
+  for (const [k, event] of events.entries()) {
+    const rewritten = remapped[k];
+    if (rewritten === undefined) {
+      await ctx.db.delete(event._id);
+      continue;
+    }
+    const { fromDiscreteState, toDiscreteState } = rewritten;
+    if (
+      fromDiscreteState !== event.fromDiscreteState ||
+      toDiscreteState !== event.toDiscreteState
+    ) {
+      await ctx.db.patch(event._id, { fromDiscreteState, toDiscreteState });
+    }
+    kept.push(rewritten);
+  }
+  return kept;
+}
+
+/**
+ * Switches a control to the remapped definition: replaces the definition,
+ * remaps the runtime state and the control's quarantined events. A runtime in
+ * a dropped state falls back to the last kept logged state, as replay does.
+ *
+ * @param lastState - Remapped to-state of the last kept logged event, if any
+ */
+export async function switchToRemappedDefinition(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  { mapping, definition }: StateRemap,
+  lastState: DiscreteState | undefined
+): Promise<void> {
+  const control = await ctx.db
+    .query('controls')
+    .withIndex('by_controlId', (q) => q.eq('controlId', controlId))
+    .unique();
+  if (control !== null) {
+    await ctx.db.patch(control._id, {
+      definition: { ...definition, labels: [...definition.labels] },
+    });
+  }
+
+  const runtime = await ctx.db
+    .query('controlRuntime')
+    .withIndex('by_controlId', (q) => q.eq('controlId', controlId))
+    .unique();
+  if (runtime !== null) {
+    const lastCommittedDiscreteState =
+      remapState(mapping, runtime.lastCommittedDiscreteState) ?? lastState ?? 0;
+    await ctx.db.patch(runtime._id, {
+      lastCommittedDiscreteState,
+      currentDiscreteState:
+        remapState(mapping, runtime.currentDiscreteState) ?? lastCommittedDiscreteState,
+    });
+  }
+
+  const quarantined = await ctx.db
+    .query('quarantinedEvents')
+    .withIndex('by_control_quarantinedAt', (q) => q.eq('controlId', controlId))
+    .collect();
+  const remapped = remapEvents(quarantined, mapping);
+  for (const [k, event] of quarantined.entries()) {
+    const rewritten = remapped[k];
+    if (rewritten === undefined) {
+      await ctx.db.delete(event._id);
+    } else {
+      await ctx.db.patch(event._id, {
+        fromDiscreteState: rewritten.fromDiscreteState,
+        toDiscreteState: rewritten.toDiscreteState,
+      });
+    }
+  }
+}
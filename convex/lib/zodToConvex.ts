@@ -0,0 +1,120 @@
+import { v, type GenericValidator, type VObject, type Validator } from 'convex/values';
+import type { z } from 'zod';
+
+/**
+ * Converts core Zod schemas into Convex validators.
+ *
+ * The core package owns the canonical shapes (control definitions, runtime
+ * state, events, aggregates, config); tables and function arguments derive
+ * their validators from those schemas so the two cannot drift apart.
+ *
+ * Refinements and transforms (ZodEffects) cannot be expressed in Convex
+ * validators: the converter validates the underlying shape only, and the
+ * full Zod schema must still be applied in code before writing.
+ */
+
+/**
+ * Document value type as stored by Convex: readonly modifiers removed and
+ * interfaces flattened into plain object types (branded primitives are kept).
+ */
+export type ConvexValue<T> = T extends string | number | boolean | bigint | null | undefined
+  ? T
+  : T extends readonly (infer U)[]
+    ? ConvexValue<U>[]
+    : { -readonly [K in keyof T]: ConvexValue<T[K]> };
+
+/**
+ * Views a parsed core value as a Convex document value. The runtime value is
+ * unchanged; only `readonly` modifiers are dropped from the type.
+ */
+export function toConvexValue<T>(value: T): ConvexValue<T> {
+  return value as ConvexValue<T>;
+}
+
+/**
+ * Converts any supported Zod schema into a Convex validator.
+ */
+export function zodToConvex<Z extends z.ZodTypeAny>(
+  schema: Z
+): Validator<ConvexValue<z.output<Z>>, 'required', never> {
+  return convert(schema) as Validator<ConvexValue<z.output<Z>>, 'required', never>;
+}
+
+/**
+ * Converts a Zod object schema (possibly wrapped in refinements) into a Convex
+ * object validator, suitable for `defineTable` and indexes on top-level fields.
+ */
+export function zodToConvexObject<T extends object>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): VObject<ConvexValue<T>, Record<string, GenericValidator>, 'required', Extract<keyof T, string>> {
+  const validator = convert(schema);
+  if (validator.kind !== 'object') {
+    throw new Error('zodToConvexObject requires a Zod object schema');
+  }
+  return validator as unknown as VObject<
+    ConvexValue<T>,
+    Record<string, GenericValidator>,
+    'required',
+    Extract<keyof T, string>
+  >;
+}
+
+/**
+ * Recursive conversion on Zod's runtime type names (independent of which
+ * copy of Zod created the schema).
+ */
+function convert(schema: z.ZodTypeAny): Validator<any, 'required', any> {
+  const def = schema._def;
+  switch (def.typeName) {
+    case 'ZodString':
+      return v.string();
+    case 'ZodNumber':
+      return v.float64();
+    case 'ZodBoolean':
+      return v.boolean();
+    case 'ZodNull':
+      return v.null();
+    case 'ZodAny':
+    case 'ZodUnknown':
+      return v.any();
+    case 'ZodLiteral':
+      return v.literal(def.value);
+    case 'ZodEnum': {
+      const literals = (def.values as string[]).map((value) => v.literal(value));
+      return literals.length === 1 ? literals[0] : v.union(...literals);
+    }
+    case 'ZodArray':
+      return v.array(convert(def.type));
+    case 'ZodRecord':
+      return v.record(v.string(), convert(def.valueType));
+    case 'ZodObject': {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const fields: Record<string, GenericValidator> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        fields[key] =
+          field._def.typeName === 'ZodOptional'
+            ? v.optional(convert(field._def.innerType))
+            : convert(field);
+      }
+      return v.object(fields);
+    }
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion': {
+      const options = Array.from(def.options as Iterable<z.ZodTypeAny>, convert);
+      return options.length === 1 ? options[0] : v.union(...options);
+    }
+    case 'ZodNullable':
+      return v.union(convert(def.innerType), v.null());
+    case 'ZodEffects':
+      return convert(def.schema);
+    case 'ZodBranded':
+      return convert(def.type);
+    case 'ZodReadonly':
+    case 'ZodDefault':
+      return convert(def.innerType);
+    case 'ZodOptional':
+      throw new Error('Optional schemas are only supported as object fields');
+    default:
+      throw new Error(`Unsupported Zod type for Convex validator: ${def.typeName}`);
+  }
+}
@@ -0,0 +1,149 @@
+import { v } from 'convex/values';
+import {
+  assertScheduleFitsControl,
+  clockIdSchema,
+  controlIdSchema,
+  modelBehaviorSchema,
+  modelDefinitionSchema,
+  modelIdSchema,
+  type ModelDefinition,
+} from '@core';
+import { mutation, query } from './_generated/server';
+import { loadControlDefinition } from './lib/controls';
+import { loadActivations, loadLatestModel } from './lib/models';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Registers a model, or a new version of it when its definition changed, so
+ * that committed changes attributed to it pass the integrity guard.
+ * Registering an unchanged definition is a no-op. Earlier versions are kept.
+ *
+ * A model with a built-in `behavior` is driven by the system itself while it
+ * is active (see `automation.ts`); a schedule's states must exist on every
+ * control the model applies to.
+ *
+ * @returns The model's current version
+ */
+export const registerModel = mutation({
+  args: {
+    modelId: zodToConvex(modelIdSchema),
+    name: v.string(),
+    description: v.string(),
+    clockId: zodToConvex(clockIdSchema),
+    controlIds: v.array(zodToConvex(controlIdSchema)),
+    behavior: v.optional(zodToConvex(modelBehaviorSchema)),
+  },
+  handler: async (ctx, args) => {
+    const latest = await loadLatestModel(ctx, args.modelId);
+    const definition = modelDefinitionSchema.parse({
+      ...args,
+      version: (latest?.version ?? 0) + 1,
+    });
+    if (latest !== null && sameDefinition(latest, definition)) {
+      return { version: latest.version };
+    }
+    for (const controlId of definition.controlIds) {
+      const control = await loadControlDefinition(ctx, controlId);
+      if (definition.behavior?.kind === 'schedule') {
+        assertScheduleFitsControl(definition.behavior.rules, control);
+      }
+    }
+    await ctx.db.insert('models', definition);
+    return { version: definition.version };
+  },
+});
+
+function sameDefinition(a: ModelDefinition, b: ModelDefinition): boolean {
+  return (
+    a.name === b.name &&
+    a.description === b.description &&
+    a.clockId === b.clockId &&
+    JSON.stringify(a.behavior) === JSON.stringify(b.behavior) &&
+    a.controlIds.length === b.controlIds.length &&
+    a.controlIds.every((controlId, k) => controlId === b.controlIds[k])
+  );
+}
+
+/**
+ * Lists the latest version of every registered model.
+ */
+export const listModels = query({
+  args: {},
+  handler: async (ctx) => {
+    const rows = await ctx.db.query('models').collect();
+    const latest = new Map<string, ModelDefinition>();
+    for (const row of rows) {
+      const definition = modelDefinitionSchema.parse(row);
+      if ((latest.get(definition.modelId)?.version ?? 0) < definition.version) {
+        latest.set(definition.modelId, definition);
+      }
+    }
+    return [...latest.values()].sort((a, b) => a.modelId.localeCompare(b.modelId));
+  },
+});
+
+/**
+ * Lists every version of one model, oldest first.
+ */
+export const getModelHistory = query({
+  args: { modelId: zodToConvex(modelIdSchema) },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query('models')
+      .withIndex('by_modelId_version', (q) => q.eq('modelId', args.modelId))
+      .collect();
+    return rows.map((row) => modelDefinitionSchema.parse(row));
+  },
+});
+
+/**
+ * Makes a model the active one for a control from now on. Later committed
+ * changes are attributed to it, and holding time is attributed to it from the
+ * moment of activation, even mid-interval. Activating the model that is
+ * already active is a no-op.
+ *
+ * @throws Error if the model is not registered or does not apply to the control
+ */
+export const activateModel = mutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    modelId: zodToConvex(modelIdSchema),
+  },
+  handler: async (ctx, args) => {
+    const model = await loadLatestModel(ctx, args.modelId);
+    if (model === null) {
+      throw new Error(`Unknown model: ${args.modelId}`);
+    }
+    if (!model.controlIds.includes(args.controlId)) {
+      throw new Error(`Model ${args.modelId} does not apply to control ${args.controlId}`);
+    }
+    const runtime = await ctx.db
+      .query('controlRuntime')
+      .withIndex('by_controlId', (q) => q.eq('controlId', args.controlId))
+      .unique();
+    if (runtime === null) {
+      throw new Error(`Missing runtime state for control: ${args.controlId}`);
+    }
+    if (runtime.activeModelId === args.modelId) {
+      return { activatedAtMs: null };
+    }
+    const activatedAtMs = Date.now();
+    await ctx.db.insert('modelActivations', {
+      controlId: args.controlId,
+      modelId: args.modelId,
+      previousModelId: runtime.activeModelId,
+      version: model.version,
+      activatedAtMs,
+    });
+    await ctx.db.patch(runtime._id, { activeModelId: args.modelId });
+    return { activatedAtMs };
+  },
+});
+
+/**
+ * Lists a control's model activations, oldest first.
+ */
+export const listActivations = query({
+  args: { controlId: zodToConvex(controlIdSchema) },
+  handler: async (ctx, args) => loadActivations(ctx, args.controlId),
+});
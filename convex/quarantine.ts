@@ -0,0 +1,46 @@
+import { v } from 'convex/values';
+import { controlIdSchema, integrityReasonSchema } from '@core';
+import { query } from './_generated/server';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Default number of quarantined events returned per review query.
+ */
+const DEFAULT_REVIEW_LIMIT = 100;
+
+/**
+ * Lists quarantined committed changes for review, newest first, optionally
+ * filtered by control or by reason code.
+ */
+export const listQuarantinedEvents = query({
+  args: {
+    controlId: v.optional(zodToConvex(controlIdSchema)),
+    reason: v.optional(zodToConvex(integrityReasonSchema)),
+    limit: v.optional(v.float64()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_REVIEW_LIMIT;
+    const { controlId, reason } = args;
+    if (controlId !== undefined) {
+      const rows = ctx.db
+        .query('quarantinedEvents')
+        .withIndex('by_control_quarantinedAt', (q) => q.eq('controlId', controlId))
+        .order('desc');
+      return reason === undefined
+        ? await rows.take(limit)
+        : await rows.filter((q) => q.eq(q.field('reason'), reason)).take(limit);
+    }
+    if (reason !== undefined) {
+      return await ctx.db
+        .query('quarantinedEvents')
+        .withIndex('by_reason_quarantinedAt', (q) => q.eq('reason', reason))
+        .order('desc')
+        .take(limit);
+    }
+    return await ctx.db
+      .query('quarantinedEvents')
+      .withIndex('by_quarantinedAt')
+      .order('desc')
+      .take(limit);
+  },
+});
@@ -0,0 +1,450 @@
+import { v } from 'convex/values';
+import {
+  EMPTY_ROW_DIFF,
+  addPairedRows,
+  aggregateBucketDeltaSchema,
+  controlIdSchema,
+  getMaxHoldMs,
+  oldestRetainedQuarter,
+  remapEvents,
+  replayEventBatch,
+  toQuarantineMarker,
+  type CommittedChangeEvent,
+  type ControlId,
+  type RebuildDiffPhase,
+} from '@core';
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import { internalMutation, mutation, query, type MutationCtx } from './_generated/server';
+import {
+  addBucketDeltas,
+  applyAggregateEntries,
+  deleteGenerationRows,
+  loadActiveGeneration,
+  pairGenerationRows,
+  setActiveGeneration,
+} from './lib/aggregates';
+import { loadConfig } from './lib/config';
+import { loadControlDefinition } from './lib/controls';
+import { loadActivations } from './lib/models';
+import { DEFAULT_BATCH_SIZE, startControlRebuild, type RebuildStart } from './lib/rebuilds';
+import { rewriteLoggedEvents, switchToRemappedDefinition } from './lib/remaps';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Rebuilds a control's aggregates from scratch by replaying its append-only
+ * committed-change log, e.g. after changing the location or fixing a clock
+ * mapper.
+ *
+ * A rebuild writes a new aggregate generation next to the active one, one
+ * batch of events per mutation. The batch that reaches the end of the log
+ * also switches the control to the new generation, in the same transaction,
+ * so readers see either the old or the new aggregates and no commit can slip
+ * in between. A dry run stops before the switch so the result can be diffed
+ * against the current aggregates first; the diff is computed in batches too
+ * and stored on the rebuild. A batch whose aggregate buckets do not fit in
+ * one transaction writes the rest in follow-up mutations, and the switch
+ * waits until all of them have landed.
+ *
+ * A rebuild may also carry a state remapping (see `remapControlStates` in
+ * `controls.ts`): each batch is then rewritten in the log before it is
+ * replayed, and the control switches to the remapped definition in the same
+ * transaction as the swap. Until then it keeps its old definition, so events
+ * committed meanwhile are logged under the old states and rewritten when the
+ * rebuild reaches them.
+ *
+ * Quarantined events are replayed as breaks in the log, as live ingestion
+ * moved the control's runtime to them (see `replayEventBatch`).
+ */
+
+/**
+ * Aggregate buckets deleted per cleanup run.
+ */
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Aggregate buckets compared per diff batch. Each bucket also reads its
+ * counterpart in the other generation.
+ */
+const DIFF_BATCH_SIZE = 250;
+
+/**
+ * Delay before a rebuild that reached the end of the log checks again
+ * whether its follow-up writes have landed.
+ */
+const PENDING_WRITES_RETRY_MS = 1000;
+
+/**
+ * Diff phases in order, each followed by the next.
+ */
+const DIFF_PHASES: readonly RebuildDiffPhase[] = [
+  'currentHoldMs',
+  'rebuiltHoldMs',
+  'currentTransCounts',
+  'rebuiltTransCounts',
+  'done',
+];
+
+/**
+ * Starts a rebuild of one control's aggregates. Fails if the control already
+ * has a rebuild in progress or awaiting review.
+ */
+export const startRebuild = mutation({
+  args: {
+    controlId: zodToConvex(controlIdSchema),
+    dryRun: v.optional(v.boolean()),
+    batchSize: v.optional(v.float64()),
+  },
+  handler: async (ctx, args): Promise<RebuildStart> => {
+    await loadControlDefinition(ctx, args.controlId);
+    return startControlRebuild(ctx, args.controlId, {
+      dryRun: args.dryRun ?? false,
+      batchSize: args.batchSize ?? DEFAULT_BATCH_SIZE,
+    });
+  },
+});
+
+/**
+ * Replays the next batch of a running rebuild and schedules the following
+ * one, or finishes the rebuild when the log is exhausted.
+ */
+export const processRebuildBatch = internalMutation({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args): Promise<void> => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null || job.status !== 'running') {
+      return;
+    }
+    const config = await loadConfig(ctx);
+    const definition = await loadControlDefinition(ctx, job.controlId);
+    const page = await ctx.db
+      .query('committedChangeEvents')
+      .withIndex('by_control_ts', (q) => q.eq('controlId', job.controlId))
+      .paginate({ numItems: job.batchSize, cursor: job.cursor });
+
+    const events =
+      job.remap === undefined
+        ? page.page
+        : await rewriteLoggedEvents(ctx, page.page, job.remap.mapping, job.anchor?.toDiscreteState);
+    const quarantined = await loadQuarantinedMarkers(
+      ctx,
+      job,
+      page.isDone ? undefined : page.page.at(-1)?.tsMs
+    );
+    const { delta, anchor } = replayEventBatch({
+      events,
+      anchor: job.anchor ?? undefined,
+      quarantined,
+      location: config,
+      sliderBoundaryPolicy: config.sliderBoundaryPolicy,
+      definition: job.remap?.definition ?? definition,
+      activations: await loadActivations(ctx, job.controlId, job.anchor?.tsMs),
+      maxHoldMs: getMaxHoldMs(config.integrity),
+      oldestQuarter: oldestRetainedQuarter(Date.now(), config.timezone, config.retention),
+    });
+    const chunks = await applyAggregateEntries(ctx, job.controlId, job.generation, delta);
+    for (const deltas of chunks) {
+      await ctx.scheduler.runAfter(0, internal.rebuild.applyRebuildDeltas, {
+        rebuildId: job._id,
+        deltas,
+      });
+    }
+
+    const progress = {
+      cursor: page.continueCursor,
+      anchor: anchor ?? null,
+      processedEvents: job.processedEvents + page.page.length,
+      pendingWrites: (job.pendingWrites ?? 0) + chunks.length,
+    };
+    if (!page.isDone || progress.pendingWrites > 0) {
+      await ctx.db.patch(job._id, progress);
+      await ctx.scheduler.runAfter(
+        page.isDone ? PENDING_WRITES_RETRY_MS : 0,
+        internal.rebuild.processRebuildBatch,
+        args
+      );
+      return;
+    }
+    if (job.dryRun) {
+      await ctx.db.patch(job._id, { ...progress, status: 'ready', finishedAtMs: Date.now() });
+      await startRebuildDiff(ctx, job._id, job.controlId);
+      return;
+    }
+    if (job.remap !== undefined) {
+      await switchToRemappedDefinition(ctx, job.controlId, job.remap, anchor?.toDiscreteState);
+    }
+    const previousGeneration = await loadActiveGeneration(ctx, job.controlId);
+    await setActiveGeneration(ctx, job.controlId, job.generation);
+    await ctx.db.patch(job._id, { ...progress, status: 'swapped', finishedAtMs: Date.now() });
+    await scheduleGenerationCleanup(ctx, job.controlId, previousGeneration);
+  },
+});
+
+/**
+ * Writes a chunk of a replayed batch's aggregate buckets that did not fit in
+ * the batch's own transaction. The rebuild only finishes once every chunk has
+ * landed; chunks of a rebuild that was discarded are dropped.
+ */
+export const applyRebuildDeltas = internalMutation({
+  args: {
+    rebuildId: v.id('rebuilds'),
+    deltas: v.array(zodToConvex(aggregateBucketDeltaSchema)),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null || job.status !== 'running') {
+      return;
+    }
+    await addBucketDeltas(ctx, job.controlId, job.generation, args.deltas);
+    await ctx.db.patch(job._id, { pendingWrites: Math.max((job.pendingWrites ?? 0) - 1, 0) });
+  },
+});
+
+/**
+ * Loads a rebuild batch's quarantined events: those after the job's anchor
+ * and up to `untilMs` (unbounded for the last batch), as markers ascending by
+ * quarantine time (see `toQuarantineMarker`) and remapped if the job remaps
+ * states.
+ */
+async function loadQuarantinedMarkers(
+  ctx: MutationCtx,
+  job: Doc<'rebuilds'>,
+  untilMs: number | undefined
+): Promise<CommittedChangeEvent[]> {
+  const afterMs = job.anchor?.tsMs;
+  const rows = await ctx.db
+    .query('quarantinedEvents')
+    .withIndex('by_control_quarantinedAt', (q) => {
+      const control = q.eq('controlId', job.controlId);
+      const after = afterMs === undefined ? control : control.gt('quarantinedAtMs', afterMs);
+      return untilMs === undefined ? after : after.lte('quarantinedAtMs', untilMs);
+    })
+    .collect();
+  const markers = rows.map(toQuarantineMarker);
+  if (job.remap === undefined) {
+    return markers;
+  }
+  // A quarantined event entering a dropped state was never chosen, as in the log
+  return remapEvents(markers, job.remap.mapping).filter(
+    (event): event is CommittedChangeEvent => event !== undefined
+  );
+}
+
+/**
+ * Swaps in the result of a finished dry run. Events committed since the dry
+ * run finished are replayed first, so the swap is still atomic with the end
+ * of the log.
+ */
+export const applyRebuild = mutation({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null || job.status !== 'ready') {
+      throw new Error(`Rebuild ${args.rebuildId} is not ready to apply`);
+    }
+    await ctx.db.patch(job._id, { status: 'running', dryRun: false, finishedAtMs: null });
+    await ctx.scheduler.runAfter(0, internal.rebuild.processRebuildBatch, args);
+  },
+});
+
+/**
+ * Abandons a running or finished dry-run rebuild and deletes its generation.
+ * State remappings cannot be abandoned.
+ */
+export const discardRebuild = mutation({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null || (job.status !== 'running' && job.status !== 'ready')) {
+      throw new Error(`Rebuild ${args.rebuildId} cannot be discarded`);
+    }
+    if (job.remap !== undefined) {
+      throw new Error(
+        `Rebuild ${args.rebuildId} remaps states and has already rewritten part of the log`
+      );
+    }
+    await ctx.db.patch(job._id, { status: 'discarded', finishedAtMs: Date.now() });
+    await scheduleGenerationCleanup(ctx, job.controlId, job.generation);
+  },
+});
+
+/**
+ * Deletes one batch of an inactive generation's rows and schedules the next.
+ * The active generation is never deleted.
+ */
+export const deleteGeneration = internalMutation({
+  args: { controlId: zodToConvex(controlIdSchema), generation: v.float64() },
+  handler: async (ctx, args): Promise<void> => {
+    if ((await loadActiveGeneration(ctx, args.controlId)) === args.generation) {
+      return;
+    }
+    const deleted = await deleteGenerationRows(
+      ctx,
+      args.controlId,
+      args.generation,
+      DELETE_BATCH_SIZE
+    );
+    if (deleted === DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.rebuild.deleteGeneration, args);
+    }
+  },
+});
+
+async function scheduleGenerationCleanup(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  generation: number
+): Promise<void> {
+  await ctx.scheduler.runAfter(0, internal.rebuild.deleteGeneration, { controlId, generation });
+}
+
+/**
+ * Status and progress of a rebuild. `fraction` is the share of the control's
+ * logged time span replayed so far (1 once the rebuild has finished).
+ */
+export const getRebuildStatus = query({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null) {
+      return null;
+    }
+    const byTs = () =>
+      ctx.db
+        .query('committedChangeEvents')
+        .withIndex('by_control_ts', (q) => q.eq('controlId', job.controlId));
+    const first = await byTs().order('asc').first();
+    const last = await byTs().order('desc').first();
+
+    let fraction = 0;
+    if (job.status !== 'running') {
+      fraction = 1;
+    } else if (job.anchor !== null && first !== null && last !== null) {
+      const spanMs = last.tsMs - first.tsMs;
+      fraction = spanMs > 0 ? (job.anchor.tsMs - first.tsMs) / spanMs : 1;
+    }
+    return {
+      rebuildId: job._id,
+      controlId: job.controlId,
+      generation: job.generation,
+      status: job.status,
+      dryRun: job.dryRun,
+      remapsStates: job.remap !== undefined,
+      processedEvents: job.processedEvents,
+      replayedThroughMs: job.anchor?.tsMs ?? null,
+      fraction,
+      startedAtMs: job.startedAtMs,
+      finishedAtMs: job.finishedAtMs,
+    };
+  },
+});
+
+/**
+ * Recomputes the diff of a finished dry run, e.g. after commits have changed
+ * the active aggregates since it was computed.
+ */
+export const refreshRebuildDiff = mutation({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null || job.status !== 'ready') {
+      throw new Error(`Rebuild ${args.rebuildId} is not ready to diff`);
+    }
+    await startRebuildDiff(ctx, job._id, job.controlId);
+  },
+});
+
+/**
+ * Compares the next page of aggregate rows of a ready dry run with the active
+ * generation and schedules the following page, until every row of both
+ * generations has been compared.
+ */
+export const processRebuildDiffBatch = internalMutation({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args): Promise<void> => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null || job.status !== 'ready' || job.diff === undefined) {
+      return;
+    }
+    const { diff } = job;
+    if (diff.phase === 'done') {
+      return;
+    }
+    const side = diff.phase.startsWith('current') ? 'current' : 'rebuilt';
+    const table = diff.phase.endsWith('HoldMs') ? 'holdMs' : 'transCounts';
+    const [generation, otherGeneration] =
+      side === 'current'
+        ? [diff.activeGeneration, job.generation]
+        : [job.generation, diff.activeGeneration];
+    const page = await pairGenerationRows(ctx, table, job.controlId, generation, otherGeneration, {
+      numItems: DIFF_BATCH_SIZE,
+      cursor: diff.cursor,
+    });
+
+    const phase = page.isDone ? DIFF_PHASES[DIFF_PHASES.indexOf(diff.phase) + 1] : diff.phase;
+    await ctx.db.patch(job._id, {
+      diff: {
+        ...diff,
+        [table]: addPairedRows(diff[table], side, page.rows),
+        phase,
+        cursor: page.isDone ? null : page.continueCursor,
+        finishedAtMs: phase === 'done' ? Date.now() : null,
+      },
+    });
+    if (phase !== 'done') {
+      await ctx.scheduler.runAfter(0, internal.rebuild.processRebuildDiffBatch, args);
+    }
+  },
+});
+
+/**
+ * Starts (or restarts) the diff of a ready dry run against the control's
+ * active generation.
+ */
+async function startRebuildDiff(
+  ctx: MutationCtx,
+  rebuildId: Id<'rebuilds'>,
+  controlId: ControlId
+): Promise<void> {
+  await ctx.db.patch(rebuildId, {
+    diff: {
+      activeGeneration: await loadActiveGeneration(ctx, controlId),
+      phase: DIFF_PHASES[0],
+      cursor: null,
+      holdMs: EMPTY_ROW_DIFF,
+      transCounts: EMPTY_ROW_DIFF,
+      startedAtMs: Date.now(),
+      finishedAtMs: null,
+    },
+  });
+  await ctx.scheduler.runAfter(0, internal.rebuild.processRebuildDiffBatch, { rebuildId });
+}
+
+/**
+ * Row-level diff between a control's active aggregates and a dry run's
+ * generation, as computed in batches once the dry run was ready. `complete`
+ * is false while the diff is still being computed; its counts are partial
+ * until then. Commits made during the diff may be counted in part.
+ */
+export const getRebuildDiff = query({
+  args: { rebuildId: v.id('rebuilds') },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.rebuildId);
+    if (job === null) {
+      throw new Error(`Unknown rebuild: ${args.rebuildId}`);
+    }
+    if (job.diff === undefined) {
+      throw new Error(`Rebuild ${args.rebuildId} has not been diffed`);
+    }
+    return {
+      controlId: job.controlId,
+      status: job.status,
+      activeGeneration: job.diff.activeGeneration,
+      rebuiltGeneration: job.generation,
+      complete: job.diff.phase === 'done',
+      diffedAtMs: job.diff.finishedAtMs,
+      holdMs: job.diff.holdMs,
+      transCounts: job.diff.transCounts,
+    };
+  },
+});
@@ -0,0 +1,93 @@
+import {
+  offsetQuarterKey,
+  oldestRetainedQuarter,
+  quarterKeyAt,
+  type QuarterKey,
+} from '@core';
+import { internal } from './_generated/api';
+import { internalMutation, mutation, query, type MutationCtx } from './_generated/server';
+import { loadConfig } from './lib/config';
+
+/**
+ * Aggregate buckets deleted per rollover run. A run that hits the limit
+ * schedules a follow-up run, so each transaction stays within Convex write
+ * limits.
+ */
+const RETIRE_BATCH_SIZE = 500;
+
+/**
+ * Outcome of one rollover run.
+ */
+interface RolloverResult {
+  /**
+   * Oldest retained quarter; rows of earlier quarters are retired.
+   */
+  readonly oldestRetainedQuarter: QuarterKey;
+  readonly deletedRows: number;
+  /**
+   * Whether a follow-up run was scheduled for the remaining rows.
+   */
+  readonly continued: boolean;
+}
+
+/**
+ * Deletes up to one batch of aggregate buckets from quarters that fell out of
+ * the retention window, and schedules the next batch if more may remain.
+ * New data lands in the current quarter's partition as it is ingested, so
+ * retiring expired quarters is all the rollover has to do.
+ */
+async function rollover(ctx: MutationCtx): Promise<RolloverResult> {
+  const config = await loadConfig(ctx);
+  const cutoff = oldestRetainedQuarter(Date.now(), config.timezone, config.retention);
+
+  const buckets = await ctx.db
+    .query('aggregateBuckets')
+    .withIndex('by_quarter', (q) => q.lt('quarterKey', cutoff))
+    .take(RETIRE_BATCH_SIZE);
+  for (const bucket of buckets) {
+    await ctx.db.delete(bucket._id);
+  }
+
+  const deletedRows = buckets.length;
+  const continued = deletedRows === RETIRE_BATCH_SIZE;
+  if (continued) {
+    await ctx.scheduler.runAfter(0, internal.retention.retireExpiredQuarters, {});
+  }
+  return { oldestRetainedQuarter: cutoff, deletedRows, continued };
+}
+
+/**
+ * Scheduled quarter rollover (see `crons.ts`).
+ */
+export const retireExpiredQuarters = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<RolloverResult> => rollover(ctx),
+});
+
+/**
+ * Manually triggers the quarter rollover, e.g. right after shortening the
+ * retention window.
+ */
+export const runQuarterRollover = mutation({
+  args: {},
+  handler: async (ctx): Promise<RolloverResult> => rollover(ctx),
+});
+
+/**
+ * Current quarter and the quarters retained under the configured retention
+ * settings, oldest first. These are the quarter keys queries can select.
+ */
+export const getRetentionStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const config = await loadConfig(ctx);
+    const nowMs = Date.now();
+    const currentQuarter = quarterKeyAt(nowMs, config.timezone);
+    const oldest = oldestRetainedQuarter(nowMs, config.timezone, config.retention);
+    const retainedQuarters: QuarterKey[] = [];
+    for (let key = oldest; key <= currentQuarter; key = offsetQuarterKey(key, 1)) {
+      retainedQuarters.push(key);
+    }
+    return { currentQuarter, retainedQuarters, retention: config.retention };
+  },
+});
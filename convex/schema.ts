@@ -1,9 +1,141 @@
-import { defineSchema } from 'convex/server';
+import { defineSchema, defineTable } from 'convex/server';
+import { v } from 'convex/values';
+import {
+  systemConfigSchema,
+  controlIdSchema,
+  controlDefinitionSchema,
+  modelDefinitionSchema,
+  modelActivationSchema,
+  controlRuntimeSchema,
+  committedChangeEventSchema,
+  aggregateBucketSchema,
+  quarantinedEventSchema,
+  rebuildJobSchema,
+  clockIdSchema,
+  clockEvaluationMetricNameSchema,
+} from '@core';
+import { zodToConvex, zodToConvexObject } from './lib/zodToConvex';
 
 /**
  * Convex database schema.
- * 
- * This is a minimal schema for Milestone 1.
- * Full schema will be implemented in Milestone 6.
+ *
+ * Document validators are derived from the core Zod schemas (see
+ * `lib/zodToConvex.ts`); refinements such as label counts and discrete state
+ * ranges are enforced by the mutations, which parse with the full Zod schemas.
  */
-export default defineSchema({});
+export default defineSchema({
+  /**
+   * Global configuration (singleton).
+   * Exactly one row is expected; mutations read the first row and update it
+   * in place rather than inserting a second one.
+   */
+  config: defineTable(zodToConvexObject(systemConfigSchema)),
+
+  /**
+   * Control definitions, one row per control. Retired controls (with
+   * `retiredAtMs`) keep their row and history but no longer accept changes.
+   */
+  controls: defineTable({
+    controlId: zodToConvex(controlIdSchema),
+    definition: zodToConvex(controlDefinitionSchema),
+    retiredAtMs: v.optional(v.float64()),
+  }).index('by_controlId', ['controlId']),
+
+  /**
+   * Registered automation models, one row per version (append-only).
+   * Committed changes attributed to any other model are quarantined rather
+   * than ingested.
+   */
+  models: defineTable(zodToConvexObject(modelDefinitionSchema)).index('by_modelId_version', [
+    'modelId',
+    'version',
+  ]),
+
+  /**
+   * Append-only history of which model was active for each control and since
+   * when.
+   */
+  modelActivations: defineTable(zodToConvexObject(modelActivationSchema)).index(
+    'by_control_activatedAt',
+    ['controlId', 'activatedAtMs']
+  ),
+
+  /**
+   * Per-control runtime state (current values and last committed state).
+   */
+  controlRuntime: defineTable(zodToConvexObject(controlRuntimeSchema)).index(
+    'by_controlId',
+    ['controlId']
+  ),
+
+  /**
+   * Append-only log of committed changes (the only changes that drive analytics).
+   */
+  committedChangeEvents: defineTable(zodToConvexObject(committedChangeEventSchema)).index(
+    'by_control_ts',
+    ['controlId', 'tsMs']
+  ),
+
+  /**
+   * Committed changes that failed the integrity guard, kept for review
+   * instead of being logged and ingested.
+   */
+  quarantinedEvents: defineTable(zodToConvexObject(quarantinedEventSchema))
+    .index('by_control_quarantinedAt', ['controlId', 'quarantinedAtMs'])
+    .index('by_reason_quarantinedAt', ['reason', 'quarantinedAtMs'])
+    .index('by_quarantinedAt', ['quarantinedAtMs']),
+
+  /**
+   * Active aggregate generation per control (absent means generation 0).
+   * Swapping in a rebuilt generation is a single write to this table.
+   */
+  aggregateGenerations: defineTable({
+    controlId: zodToConvex(controlIdSchema),
+    generation: v.float64(),
+  }).index('by_controlId', ['controlId']),
+
+  /**
+   * How far the built-in model runtime has evaluated each control's active
+   * model. The next run evaluates from here, so no scheduled firing is missed
+   * or repeated. `override` is the user's last committed change a
+   * preference-following model has seen, which it defers to for a while.
+   */
+  automationCursors: defineTable({
+    controlId: zodToConvex(controlIdSchema),
+    evaluatedThroughMs: v.float64(),
+    override: v.optional(
+      v.object({ committedAtMs: v.float64(), preferredState: v.union(v.float64(), v.null()) })
+    ),
+  }).index('by_controlId', ['controlId']),
+
+  /**
+   * Best-ranked clock per control and evaluation metric, refreshed daily for
+   * controls whose active model follows the inferred preference (a backtest
+   * is too costly to run on every model run).
+   */
+  clockRankings: defineTable({
+    controlId: zodToConvex(controlIdSchema),
+    metric: zodToConvex(clockEvaluationMetricNameSchema),
+    bestClockId: zodToConvex(clockIdSchema),
+    rankedAtMs: v.float64(),
+  }).index('by_control_metric', ['controlId', 'metric']),
+
+  /**
+   * Aggregate rebuild jobs (event-log replays into a new generation).
+   */
+  rebuilds: defineTable(zodToConvexObject(rebuildJobSchema)).index('by_control_startedAt', [
+    'controlId',
+    'startedAtMs',
+  ]),
+
+  /**
+   * Accumulated holding time per state and user-initiated transition counts
+   * per (from, to) pair, one document per (control, generation, model, clock,
+   * bucket, quarter). `by_quarter` serves the retention rollover, which
+   * retires whole quarters.
+   */
+  aggregateBuckets: defineTable(zodToConvexObject(aggregateBucketSchema))
+    .index('by_key', ['controlId', 'generation', 'modelId', 'clockId', 'bucketId', 'quarterKey'])
+    .index('by_control_clock_bucket', ['controlId', 'generation', 'clockId', 'bucketId'])
+    .index('by_quarter', ['quarterKey']),
+});
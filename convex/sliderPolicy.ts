@@ -0,0 +1,162 @@
+import {
+  controlDefinitionSchema,
+  sliderBoundaryPolicySchema,
+  rederiveValue,
+  summarizeSliderPolicyImpact,
+  usesSliderValues,
+  type ControlDefinition,
+  type ControlId,
+  type SliderBoundaryPolicy,
+} from '@core';
+import { mutation, query, type MutationCtx, type QueryCtx } from './_generated/server';
+import { loadConfig } from './lib/config';
+import { DEFAULT_BATCH_SIZE, startControlRebuild, type RebuildStart } from './lib/rebuilds';
+import { zodToConvex } from './lib/zodToConvex';
+
+/**
+ * Changing the slider boundary policy. Every committed slider event stores its
+ * raw `value01`, so historical discrete states can be re-derived under a new
+ * policy: the preview reports how many events would move, and the change
+ * rebuilds the aggregates of every control with slider values (sliders and
+ * compound controls with a slider dimension) under the new policy. Their live
+ * runtime states are re-derived in the same transaction, and later commits
+ * are discretized with the new policy.
+ */
+
+/**
+ * Lists all controls with slider values, with their definitions.
+ */
+async function loadSliderControls(
+  ctx: QueryCtx
+): Promise<{ controlId: ControlId; definition: ControlDefinition }[]> {
+  const sliders = [];
+  for (const control of await ctx.db.query('controls').collect()) {
+    const definition = controlDefinitionSchema.parse(control.definition);
+    if (usesSliderValues(definition)) {
+      sliders.push({ controlId: control.controlId, definition });
+    }
+  }
+  return sliders;
+}
+
+/**
+ * Previews re-deriving the committed events of every control with slider
+ * values under `policy`: per control, how many events move to a different
+ * state and how many transitions appear or disappear.
+ */
+export const previewSliderBoundaryPolicy = query({
+  args: { policy: zodToConvex(sliderBoundaryPolicySchema) },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    const controls = [];
+    for (const { controlId, definition } of await loadSliderControls(ctx)) {
+      const events = await ctx.db
+        .query('committedChangeEvents')
+        .withIndex('by_control_ts', (q) => q.eq('controlId', controlId))
+        .collect();
+      controls.push({
+        controlId,
+        ...summarizeSliderPolicyImpact(events, args.policy, definition),
+      });
+    }
+    return { currentPolicy: config.sliderBoundaryPolicy, policy: args.policy, controls };
+  },
+});
+
+/**
+ * Switches the configured slider boundary policy, re-derives the runtime
+ * state of every control with slider values and starts a rebuild of each so
+ * their aggregates follow the re-derived states.
+ *
+ * @throws Error if such a control already has a rebuild pending
+ */
+export const changeSliderBoundaryPolicy = mutation({
+  args: { policy: zodToConvex(sliderBoundaryPolicySchema) },
+  handler: async (ctx, args) => {
+    const config = await loadConfig(ctx);
+    if (config.sliderBoundaryPolicy === args.policy) {
+      return { rebuilds: [] };
+    }
+    const row = await ctx.db.query('config').first();
+    if (row !== null) {
+      await ctx.db.patch(row._id, { sliderBoundaryPolicy: args.policy });
+    }
+    const rebuilds: (RebuildStart & { controlId: ControlId })[] = [];
+    for (const { controlId, definition } of await loadSliderControls(ctx)) {
+      await rederiveRuntime(ctx, controlId, definition, args.policy);
+      const started = await startControlRebuild(ctx, controlId, {
+        dryRun: false,
+        batchSize: DEFAULT_BATCH_SIZE,
+      });
+      rebuilds.push({ controlId, ...started });
+    }
+    return { rebuilds };
+  },
+});
+
+/**
+ * Re-derives a control's runtime states under `policy`: the current state
+ * from the current slider values, and the last committed state from the
+ * values of the last commit (logged or quarantined, as live ingestion moved
+ * to either), so the next commit continues from the state the rebuild
+ * replays to.
+ */
+async function rederiveRuntime(
+  ctx: MutationCtx,
+  controlId: ControlId,
+  definition: ControlDefinition,
+  policy: SliderBoundaryPolicy
+): Promise<void> {
+  const runtime = await ctx.db
+    .query('controlRuntime')
+    .withIndex('by_controlId', (q) => q.eq('controlId', controlId))
+    .unique();
+  if (runtime === null) {
+    return;
+  }
+  const current = rederiveValue(
+    {
+      discreteState: runtime.currentDiscreteState,
+      value01: runtime.currentValue01,
+      dimensions: runtime.currentDimensions,
+    },
+    policy,
+    definition
+  );
+
+  let lastCommittedDiscreteState = runtime.lastCommittedDiscreteState;
+  if (runtime.lastUpdatedAtMs === runtime.lastCommittedAtMs) {
+    // The current value is the committed one
+    lastCommittedDiscreteState = current.discreteState;
+  } else {
+    const logged = await ctx.db
+      .query('committedChangeEvents')
+      .withIndex('by_control_ts', (q) => q.eq('controlId', controlId))
+      .order('desc')
+      .first();
+    const quarantined = await ctx.db
+      .query('quarantinedEvents')
+      .withIndex('by_control_quarantinedAt', (q) => q.eq('controlId', controlId))
+      .order('desc')
+      .first();
+    const lastCommit =
+      [logged, quarantined].find((event) => event?.tsMs === runtime.lastCommittedAtMs) ?? null;
+    if (lastCommit !== null) {
+      lastCommittedDiscreteState = rederiveValue(
+        {
+          discreteState: lastCommit.toDiscreteState,
+          value01: lastCommit.value01,
+          dimensions: lastCommit.dimensions,
+        },
+        policy,
+        definition
+      ).discreteState;
+    }
+  }
+
+  await ctx.db.patch(runtime._id, {
+    currentDiscreteState: current.discreteState,
+    currentDimensions: current.dimensions,
+    lastCommittedDiscreteState,
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Tests for per-clock bucket boundary search.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findNextBucketBoundary } from './boundaries.js';
+import { mapTimestampToBucket } from './mapping.js';
+import { CLOCK_IDS, type ClockLocation } from './types.js';
+
+const stockholm: ClockLocation = {
+  timezone: 'Europe/Stockholm',
+  latitude: 59.3293,
+  longitude: 18.0686,
+};
+
+describe('findNextBucketBoundary', () => {
+  it('returns the first instant of the next bucket on every clock', () => {
+    const starts = [
+      Date.UTC(2024, 0, 1, 12, 0, 0, 1),
+      Date.UTC(2024, 5, 21, 3, 17, 42, 123),
+      Date.UTC(2024, 9, 27, 0, 58),
+    ];
+    for (const clockId of CLOCK_IDS) {
+      for (const ts of starts) {
+        const boundary = findNextBucketBoundary(clockId, ts, stockholm);
+        const current = mapTimestampToBucket(clockId, ts, stockholm);
+        expect(boundary).toBeGreaterThan(ts);
+        expect(mapTimestampToBucket(clockId, boundary - 1, stockholm)).toBe(current);
+        expect(mapTimestampToBucket(clockId, boundary, stockholm)).not.toBe(current);
+      }
+    }
+  });
+
+  it('stops at DST transitions in local time', () => {
+    // Europe/Stockholm falls back at 2024-10-27 01:00 UTC
+    const ts = Date.UTC(2024, 9, 27, 0, 58);
+    expect(findNextBucketBoundary('local', ts, stockholm)).toBe(Date.UTC(2024, 9, 27, 1, 0));
+  });
+
+  it('never changes for solar clocks at a pole', () => {
+    const pole = { ...stockholm, latitude: -90 };
+    expect(findNextBucketBoundary('meanSolar', 0, pole)).toBe(Infinity);
+    expect(findNextBucketBoundary('apparentSolar', 0, pole)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Bucket boundary search per clock.
+ * Finds the next real instant at which a clock's bucket (or its definedness) changes,
+ * so holding intervals can be split exactly at each clock's bucket boundaries.
+ */
+
+import { BUCKET_MS, DAY_MS } from '../time/index.js';
+import type { ClockId, ClockLocation } from './types.js';
+import { getTimezoneOffsetMs } from './local.js';
+import {
+  equationOfTimeMs,
+  getSunEvents,
+  isAtPole,
+  meanSolarDayIndex,
+  meanSolarOffsetMs,
+} from './solar.js';
+import { getUnequalHoursSegment, unequalHoursClockMs } from './unequalHours.js';
+
+/**
+ * Returns the smallest whole-millisecond timestamp after `tsMs` at which the
+ * clock may map to a different bucket than at `tsMs` (or switch between
+ * defined and undefined). Every instant in `[tsMs, result)` maps to the same
+ * bucket as `tsMs`, or is undefined if `tsMs` is.
+ *
+ * While a clock is undefined the result may be an intermediate checkpoint
+ * (at most about a day ahead) rather than the exact instant it becomes
+ * defined again; callers should re-check from there. Returns `Infinity` when
+ * the clock can never change (solar clocks at a pole).
+ *
+ * @param clockId - Clock to search on
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param location - Clock location (timezone, latitude, longitude)
+ */
+export function findNextBucketBoundary(
+  clockId: ClockId,
+  tsMs: number,
+  location: ClockLocation
+): number {
+  switch (clockId) {
+    case 'utc':
+      return nextFixedOffsetBoundary(tsMs, 0);
+    case 'meanSolar':
+      if (isAtPole(location.latitude)) {
+        return Infinity;
+      }
+      return nextFixedOffsetBoundary(tsMs, meanSolarOffsetMs(location.longitude));
+    case 'local':
+      return nextLocalBoundary(tsMs, location.timezone);
+    case 'apparentSolar':
+      if (isAtPole(location.latitude)) {
+        return Infinity;
+      }
+      return nextApparentSolarBoundary(tsMs, location.longitude);
+    case 'unequalHours':
+      return nextUnequalHoursBoundary(tsMs, location);
+  }
+}
+
+/**
+ * Next boundary for a clock that is UTC shifted by a constant offset.
+ * Bucket edges fall on multiples of BUCKET_MS in clock time (weeks start on a bucket edge).
+ */
+function nextFixedOffsetBoundary(tsMs: number, offsetMs: number): number {
+  const nextEdge = (Math.floor((tsMs + offsetMs) / BUCKET_MS) + 1) * BUCKET_MS;
+  return Math.max(Math.ceil(nextEdge - offsetMs), Math.floor(tsMs) + 1);
+}
+
+/**
+ * Next boundary for local time: the next bucket edge under the current UTC
+ * offset, or the DST transition if one happens first (a transition always
+ * changes the bucket, skipping or repeating labels).
+ */
+function nextLocalBoundary(tsMs: number, timezone: string): number {
+  const offsetMs = getTimezoneOffsetMs(tsMs, timezone);
+  const candidate = nextFixedOffsetBoundary(tsMs, offsetMs);
+  if (getTimezoneOffsetMs(candidate - 1, timezone) === offsetMs) {
+    return candidate;
+  }
+  // Binary search for the first instant with a different offset.
+  // Transitions are at least hours apart, so there is at most one in range.
+  let lo = Math.floor(tsMs) + 1;
+  let hi = candidate - 1;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (getTimezoneOffsetMs(mid, timezone) === offsetMs) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Next boundary for apparent solar time.
+ * Clock time is t + longitude offset + EoT(t); EoT changes by under a minute
+ * per day, so fixed-point iteration converges in a few steps.
+ */
+function nextApparentSolarBoundary(tsMs: number, longitude: number): number {
+  const lonOffsetMs = meanSolarOffsetMs(longitude);
+  const clockMs = (t: number) => t + lonOffsetMs + equationOfTimeMs(t);
+  const bucketAt = (t: number) => Math.floor(clockMs(t) / BUCKET_MS);
+
+  const current = bucketAt(tsMs);
+  const targetClockMs = (current + 1) * BUCKET_MS;
+  let t = tsMs;
+  for (let i = 0; i < 4; i++) {
+    t = targetClockMs - lonOffsetMs - equationOfTimeMs(t);
+  }
+  return nudgeToBoundary(Math.ceil(t), tsMs, (c) => bucketAt(c) !== current);
+}
+
+/**
+ * Next boundary for unequal hours: the next bucket edge within the current
+ * day/night segment, or the segment end (sunrise/sunset) if that comes first.
+ * While undefined, returns the next sun event within the following days (or a
+ * checkpoint a day ahead during long polar day/night).
+ */
+function nextUnequalHoursBoundary(tsMs: number, location: ClockLocation): number {
+  const segment = getUnequalHoursSegment(tsMs, location);
+  const floorTs = Math.floor(tsMs);
+
+  if (segment === undefined) {
+    const day = meanSolarDayIndex(tsMs, location.longitude);
+    for (let d = day; d <= day + 1; d++) {
+      const events = getSunEvents(d, location.latitude, location.longitude);
+      if (events === undefined) {
+        continue;
+      }
+      for (const eventMs of [events.sunriseMs, events.sunsetMs]) {
+        if (eventMs > tsMs) {
+          return Math.max(Math.ceil(eventMs), floorTs + 1);
+        }
+      }
+    }
+    return floorTs + DAY_MS;
+  }
+
+  const segmentLengthClockMs = DAY_MS / 2;
+  const clockMs = unequalHoursClockMs(segment, tsMs);
+  const nextEdge = (Math.floor(clockMs / BUCKET_MS) + 1) * BUCKET_MS;
+  if (nextEdge >= segment.startClockMs + segmentLengthClockMs) {
+    return Math.max(Math.ceil(segment.endMs), floorTs + 1);
+  }
+  const fraction = (nextEdge - segment.startClockMs) / segmentLengthClockMs;
+  const edgeMs = segment.startMs + fraction * (segment.endMs - segment.startMs);
+  const current = Math.floor(clockMs / BUCKET_MS);
+  return nudgeToBoundary(Math.ceil(edgeMs), tsMs, (c) => {
+    if (c >= segment.endMs) {
+      return true;
+    }
+    return Math.floor(unequalHoursClockMs(segment, c) / BUCKET_MS) !== current;
+  });
+}
+
+/**
+ * Corrects a computed boundary for floating-point error so that it is the
+ * first whole millisecond after `tsMs` for which `changed` holds.
+ */
+function nudgeToBoundary(
+  candidate: number,
+  tsMs: number,
+  changed: (t: number) => boolean
+): number {
+  const minimum = Math.floor(tsMs) + 1;
+  let result = Math.max(candidate, minimum);
+  while (!changed(result)) {
+    result++;
+  }
+  while (result - 1 >= minimum && changed(result - 1)) {
+    result--;
+  }
+  return result;
+}
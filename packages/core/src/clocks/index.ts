@@ -0,0 +1,31 @@
+/**
+ * Clocks module public exports.
+ * Maps real timestamps onto the five parallel time-of-week coordinate systems.
+ */
+
+// Types
+export type { ClockId, ClockLocation } from './types.js';
+export { CLOCK_IDS } from './types.js';
+
+// Timestamp mapping
+export {
+  mapTimestampToBucket,
+  mapTimestampToWeekPosition,
+} from './mapping.js';
+export { findNextBucketBoundary } from './boundaries.js';
+
+// Clock internals (local offsets, solar terms, unequal-hours segments)
+export { getTimezoneOffsetMs, isValidTimezone } from './local.js';
+export type { SunEvents } from './solar.js';
+export {
+  equationOfTimeMs,
+  solarDeclinationDeg,
+  getSunEvents,
+  meanSolarDayIndex,
+  meanSolarOffsetMs,
+} from './solar.js';
+export type { UnequalHoursSegment } from './unequalHours.js';
+export { getUnequalHoursSegment } from './unequalHours.js';
+
+// Validation schemas
+export { clockIdSchema, clockLocationSchema } from './validation.js';
@@ -0,0 +1,39 @@
+/**
+ * Tests for local time zone support.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTimezoneOffsetMs, isValidTimezone } from './local.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getTimezoneOffsetMs', () => {
+  it('returns zero for UTC', () => {
+    expect(getTimezoneOffsetMs(Date.UTC(2024, 0, 1), 'UTC')).toBe(0);
+  });
+
+  it('follows DST rules', () => {
+    expect(getTimezoneOffsetMs(Date.UTC(2024, 0, 15), 'America/New_York')).toBe(-5 * HOUR_MS);
+    expect(getTimezoneOffsetMs(Date.UTC(2024, 6, 15), 'America/New_York')).toBe(-4 * HOUR_MS);
+  });
+
+  it('switches exactly at the transition instant', () => {
+    // Europe/Stockholm, 2024-03-31 01:00 UTC
+    expect(getTimezoneOffsetMs(Date.UTC(2024, 2, 31, 0, 59, 59, 999), 'Europe/Stockholm')).toBe(HOUR_MS);
+    expect(getTimezoneOffsetMs(Date.UTC(2024, 2, 31, 1, 0), 'Europe/Stockholm')).toBe(2 * HOUR_MS);
+  });
+
+  it('handles non-hour offsets', () => {
+    expect(getTimezoneOffsetMs(Date.UTC(2024, 0, 1), 'Asia/Kathmandu')).toBe(5.75 * HOUR_MS);
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('accepts IANA zones', () => {
+    expect(isValidTimezone('Europe/Stockholm')).toBe(true);
+  });
+
+  it('rejects unknown zones', () => {
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
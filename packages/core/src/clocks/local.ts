@@ -0,0 +1,71 @@
+/**
+ * Local (statutory/civil) time support.
+ * Uses the runtime's IANA time zone database via Intl, so no network access is needed.
+ */
+
+/**
+ * Cached formatters per time zone (constructing Intl.DateTimeFormat is expensive).
+ */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns whether `timezone` is an IANA time zone known to the runtime.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the UTC offset of `timezone` at the instant `tsMs`, in milliseconds
+ * (local wall-clock time minus UTC). Follows DST rules of the zone.
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param timezone - IANA time zone name
+ */
+export function getTimezoneOffsetMs(tsMs: number, timezone: string): number {
+  const wholeSecondMs = Math.floor(tsMs / 1000) * 1000;
+  const parts = getFormatter(timezone).formatToParts(new Date(wholeSecondMs));
+  const get = (type: Intl.DateTimeFormatPartTypes): number => {
+    const part = parts.find((p) => p.type === type);
+    if (part === undefined) {
+      throw new Error(`Missing ${type} when formatting time in ${timezone}`);
+    }
+    return Number(part.value);
+  };
+  const wallMs = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return wallMs - wholeSecondMs;
+}
+
+/**
+ * Gets (or creates) the cached formatter for a time zone.
+ * Throws a RangeError for unknown time zones.
+ */
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (formatter === undefined) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
@@ -0,0 +1,168 @@
+/**
+ * Tests for timestamp → bucket mapping on the five clocks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapTimestampToBucket, mapTimestampToWeekPosition } from './mapping.js';
+import { CLOCK_IDS, type ClockLocation } from './types.js';
+import { toBucketId, formatBucketLabel, DAY_MS } from '../time/index.js';
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+const newYork: ClockLocation = {
+  timezone: 'America/New_York',
+  latitude: 40.7128,
+  longitude: -74.006,
+};
+
+const tromso: ClockLocation = {
+  timezone: 'Europe/Oslo',
+  latitude: 69.6496,
+  longitude: 18.956,
+};
+
+describe('mapTimestampToBucket', () => {
+  describe('utc', () => {
+    it('maps Monday 00:00 UTC to bucket 0', () => {
+      // 2024-01-01 was a Monday
+      expect(mapTimestampToBucket('utc', Date.UTC(2024, 0, 1, 0, 0), london)).toBe(0);
+    });
+
+    it('maps Sunday 23:59 UTC to bucket 2015', () => {
+      expect(mapTimestampToBucket('utc', Date.UTC(2024, 0, 7, 23, 59), london)).toBe(2015);
+    });
+
+    it('maps the Unix epoch (a Thursday) correctly', () => {
+      expect(mapTimestampToBucket('utc', 0, london)).toBe(toBucketId(3, 0, 0));
+    });
+  });
+
+  describe('local', () => {
+    it('applies the time zone offset', () => {
+      // 2024-06-21 12:00 UTC is 13:00 BST (Friday)
+      const bucket = mapTimestampToBucket('local', Date.UTC(2024, 5, 21, 12, 0), london);
+      expect(formatBucketLabel(bucket!)).toBe('Friday 13:00–13:05');
+    });
+
+    it('skips labels when clocks spring forward', () => {
+      // New York, 2024-03-10: 02:00 EST → 03:00 EDT at 07:00 UTC
+      const before = mapTimestampToBucket('local', Date.UTC(2024, 2, 10, 6, 59), newYork);
+      const after = mapTimestampToBucket('local', Date.UTC(2024, 2, 10, 7, 0), newYork);
+      expect(formatBucketLabel(before!)).toBe('Sunday 01:55–02:00');
+      expect(formatBucketLabel(after!)).toBe('Sunday 03:00–03:05');
+    });
+
+    it('repeats labels when clocks fall back', () => {
+      // New York, 2024-11-03: 02:00 EDT → 01:00 EST at 06:00 UTC
+      const first = mapTimestampToBucket('local', Date.UTC(2024, 10, 3, 5, 30), newYork);
+      const second = mapTimestampToBucket('local', Date.UTC(2024, 10, 3, 6, 30), newYork);
+      expect(formatBucketLabel(first!)).toBe('Sunday 01:30–01:35');
+      expect(second).toBe(first);
+    });
+  });
+
+  describe('meanSolar', () => {
+    it('offsets UTC by 4 minutes per degree of longitude', () => {
+      // 15°E is exactly one hour ahead of UTC
+      const location = { ...london, longitude: 15 };
+      const bucket = mapTimestampToBucket('meanSolar', Date.UTC(2024, 0, 1, 12, 0), location);
+      expect(formatBucketLabel(bucket!)).toBe('Monday 13:00–13:05');
+    });
+
+    it('wraps across the week boundary', () => {
+      const location = { ...london, longitude: -15 };
+      const bucket = mapTimestampToBucket('meanSolar', Date.UTC(2024, 0, 1, 0, 30), location);
+      expect(formatBucketLabel(bucket!)).toBe('Sunday 23:30–23:35');
+    });
+  });
+
+  describe('apparentSolar', () => {
+    it('runs ahead of mean solar time in early November', () => {
+      // Equation of time is about +16.4 minutes on November 3
+      const location = { ...london, longitude: 0 };
+      const ts = Date.UTC(2024, 10, 4, 12, 0);
+      const mean = mapTimestampToWeekPosition('meanSolar', ts, location)!;
+      const apparent = mapTimestampToWeekPosition('apparentSolar', ts, location)!;
+      expect((apparent - mean) / 60000).toBeCloseTo(16.4, 0);
+    });
+
+    it('runs behind mean solar time in mid February', () => {
+      const location = { ...london, longitude: 0 };
+      const ts = Date.UTC(2024, 1, 12, 12, 0);
+      const mean = mapTimestampToWeekPosition('meanSolar', ts, location)!;
+      const apparent = mapTimestampToWeekPosition('apparentSolar', ts, location)!;
+      expect((apparent - mean) / 60000).toBeCloseTo(-14.2, 0);
+    });
+  });
+
+  describe('unequalHours', () => {
+    it('maps sunrise to 06:00 and sunset to 18:00', () => {
+      // London 2024-06-21: sunrise ≈ 03:43 UTC, sunset ≈ 20:21 UTC
+      const sunrise = mapTimestampToBucket('unequalHours', Date.UTC(2024, 5, 21, 3, 44), london);
+      const sunset = mapTimestampToBucket('unequalHours', Date.UTC(2024, 5, 21, 20, 22), london);
+      expect(formatBucketLabel(sunrise!)).toBe('Friday 06:00–06:05');
+      expect(formatBucketLabel(sunset!)).toBe('Friday 18:00–18:05');
+    });
+
+    it('stretches daylight hours in summer', () => {
+      // Two real hours after sunrise is less than two unequal hours later in June
+      const ts = Date.UTC(2024, 5, 21, 5, 43);
+      const position = mapTimestampToWeekPosition('unequalHours', ts, london)!;
+      const hoursIntoDay = (position % DAY_MS) / 3600000;
+      expect(hoursIntoDay).toBeGreaterThan(7.3);
+      expect(hoursIntoDay).toBeLessThan(7.5);
+    });
+
+    it('assigns the part of the night after midnight to the next day', () => {
+      // 01:00 UTC on Saturday 2024-06-22 is after unequal-hours midnight
+      const bucket = mapTimestampToBucket('unequalHours', Date.UTC(2024, 5, 22, 1, 0), london);
+      expect(formatBucketLabel(bucket!).startsWith('Saturday 0')).toBe(true);
+    });
+
+    it('is undefined during polar night', () => {
+      expect(mapTimestampToBucket('unequalHours', Date.UTC(2024, 11, 21, 12, 0), tromso)).toBeUndefined();
+    });
+
+    it('is undefined during midnight sun', () => {
+      expect(mapTimestampToBucket('unequalHours', Date.UTC(2024, 5, 21, 0, 0), tromso)).toBeUndefined();
+    });
+
+    it('is defined again once sunrise and sunset return', () => {
+      expect(mapTimestampToBucket('unequalHours', Date.UTC(2024, 2, 21, 12, 0), tromso)).toBeDefined();
+    });
+  });
+
+  describe('at the poles', () => {
+    const northPole: ClockLocation = { timezone: 'UTC', latitude: 90, longitude: 0 };
+
+    it('treats the solar clocks as undefined', () => {
+      const ts = Date.UTC(2024, 2, 21, 12, 0);
+      expect(mapTimestampToBucket('meanSolar', ts, northPole)).toBeUndefined();
+      expect(mapTimestampToBucket('apparentSolar', ts, northPole)).toBeUndefined();
+      expect(mapTimestampToBucket('unequalHours', ts, northPole)).toBeUndefined();
+    });
+
+    it('keeps UTC and local time defined', () => {
+      const ts = Date.UTC(2024, 2, 21, 12, 0);
+      expect(mapTimestampToBucket('utc', ts, northPole)).toBeDefined();
+      expect(mapTimestampToBucket('local', ts, northPole)).toBeDefined();
+    });
+  });
+
+  it('is deterministic for every clock', () => {
+    const ts = Date.UTC(2024, 3, 15, 9, 17, 42);
+    for (const clockId of CLOCK_IDS) {
+      expect(mapTimestampToBucket(clockId, ts, london)).toBe(
+        mapTimestampToBucket(clockId, ts, london)
+      );
+    }
+  });
+
+  it('rejects non-finite timestamps', () => {
+    expect(() => mapTimestampToBucket('utc', Number.NaN, london)).toThrow();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Timestamp → time-of-week mapping for each of the five clocks.
+ * All clocks share the same bucket labels; only the mapping from real time differs.
+ */
+
+import {
+  DAY_MS,
+  bucketAtWeekPosition,
+  wrapWeekMs,
+  type BucketId,
+} from '../time/index.js';
+import type { ClockId, ClockLocation } from './types.js';
+import { getTimezoneOffsetMs } from './local.js';
+import { equationOfTimeMs, isAtPole, meanSolarOffsetMs } from './solar.js';
+import { getUnequalHoursSegment, unequalHoursClockMs } from './unequalHours.js';
+
+/**
+ * Offset from Unix epoch day 0 to the preceding Monday 00:00.
+ * 1970-01-01 was a Thursday, i.e. 3 days into its week.
+ */
+const EPOCH_WEEK_OFFSET_MS = 3 * DAY_MS;
+
+/**
+ * Maps a real timestamp to a continuous time-of-week position on a clock.
+ *
+ * Returns `undefined` when the clock has no defined time-of-day:
+ * - `unequalHours`: the sun does not both rise and set (polar day/night, poles)
+ * - `meanSolar` / `apparentSolar`: exactly at a pole
+ *
+ * @param clockId - Clock to map onto
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param location - Clock location (timezone, latitude, longitude)
+ * @returns Milliseconds since Monday 00:00 on that clock, in [0, WEEK_MS), or undefined
+ */
+export function mapTimestampToWeekPosition(
+  clockId: ClockId,
+  tsMs: number,
+  location: ClockLocation
+): number | undefined {
+  if (!Number.isFinite(tsMs)) {
+    throw new Error(`Invalid timestamp: ${tsMs}`);
+  }
+  switch (clockId) {
+    case 'utc':
+      return weekPositionFromEpochMs(tsMs);
+    case 'local':
+      return weekPositionFromEpochMs(tsMs + getTimezoneOffsetMs(tsMs, location.timezone));
+    case 'meanSolar':
+      if (isAtPole(location.latitude)) {
+        return undefined;
+      }
+      return weekPositionFromEpochMs(tsMs + meanSolarOffsetMs(location.longitude));
+    case 'apparentSolar':
+      if (isAtPole(location.latitude)) {
+        return undefined;
+      }
+      return weekPositionFromEpochMs(
+        tsMs + meanSolarOffsetMs(location.longitude) + equationOfTimeMs(tsMs)
+      );
+    case 'unequalHours': {
+      const segment = getUnequalHoursSegment(tsMs, location);
+      if (segment === undefined) {
+        return undefined;
+      }
+      return weekPositionFromEpochMs(segment.day * DAY_MS + unequalHoursClockMs(segment, tsMs));
+    }
+  }
+}
+
+/**
+ * Maps a real timestamp to the time-of-week bucket containing it on a clock.
+ * Returns `undefined` when the clock has no defined time-of-day (see
+ * `mapTimestampToWeekPosition`); such data is not counted for that clock.
+ *
+ * @param clockId - Clock to map onto
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param location - Clock location (timezone, latitude, longitude)
+ */
+export function mapTimestampToBucket(
+  clockId: ClockId,
+  tsMs: number,
+  location: ClockLocation
+): BucketId | undefined {
+  const position = mapTimestampToWeekPosition(clockId, tsMs, location);
+  return position === undefined ? undefined : bucketAtWeekPosition(position);
+}
+
+/**
+ * Converts "clock milliseconds since the Unix epoch" (a timestamp already
+ * shifted into the clock's time scale) into a time-of-week position.
+ */
+export function weekPositionFromEpochMs(clockEpochMs: number): number {
+  return wrapWeekMs(clockEpochMs + EPOCH_WEEK_OFFSET_MS);
+}
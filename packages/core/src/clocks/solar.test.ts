@@ -0,0 +1,57 @@
+/**
+ * Tests for solar position calculations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  equationOfTimeMs,
+  getSunEvents,
+  meanSolarDayIndex,
+  meanSolarOffsetMs,
+  solarDeclinationDeg,
+} from './solar.js';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('meanSolarOffsetMs', () => {
+  it('is 4 minutes per degree, east positive', () => {
+    expect(meanSolarOffsetMs(15)).toBe(60 * MINUTE_MS);
+    expect(meanSolarOffsetMs(-1)).toBe(-4 * MINUTE_MS);
+  });
+});
+
+describe('equationOfTimeMs', () => {
+  it('matches known extremes within a minute', () => {
+    expect(equationOfTimeMs(Date.UTC(2024, 10, 3, 12)) / MINUTE_MS).toBeCloseTo(16.4, 0);
+    expect(equationOfTimeMs(Date.UTC(2024, 1, 11, 12)) / MINUTE_MS).toBeCloseTo(-14.2, 0);
+  });
+});
+
+describe('solarDeclinationDeg', () => {
+  it('is near the tropics at the solstices', () => {
+    expect(solarDeclinationDeg(Date.UTC(2024, 5, 20, 21))).toBeCloseTo(23.44, 1);
+    expect(solarDeclinationDeg(Date.UTC(2024, 11, 21, 9))).toBeCloseTo(-23.44, 1);
+  });
+});
+
+describe('getSunEvents', () => {
+  it('computes London midsummer sunrise and sunset within a few minutes', () => {
+    const day = meanSolarDayIndex(Date.UTC(2024, 5, 21, 12), -0.1276);
+    const events = getSunEvents(day, 51.5074, -0.1276)!;
+    expect(Math.abs(events.sunriseMs - Date.UTC(2024, 5, 21, 3, 43))).toBeLessThan(3 * MINUTE_MS);
+    expect(Math.abs(events.sunsetMs - Date.UTC(2024, 5, 21, 20, 21))).toBeLessThan(3 * MINUTE_MS);
+  });
+
+  it('returns undefined during polar night and midnight sun', () => {
+    const winter = meanSolarDayIndex(Date.UTC(2024, 11, 21, 12), 18.956);
+    const summer = meanSolarDayIndex(Date.UTC(2024, 5, 21, 12), 18.956);
+    expect(getSunEvents(winter, 69.6496, 18.956)).toBeUndefined();
+    expect(getSunEvents(summer, 69.6496, 18.956)).toBeUndefined();
+  });
+
+  it('returns undefined at the poles', () => {
+    const day = meanSolarDayIndex(Date.UTC(2024, 2, 21, 12), 0);
+    expect(getSunEvents(day, 90, 0)).toBeUndefined();
+    expect(getSunEvents(day, -90, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Solar position calculations for the solar clocks.
+ * Implements the NOAA solar calculator equations (equation of time, declination,
+ * sunrise/sunset), computed offline with no external data.
+ */
+
+import { DAY_MS } from '../time/index.js';
+
+/**
+ * Milliseconds of mean solar time offset per degree of longitude (4 minutes).
+ */
+export const MS_PER_DEGREE_LONGITUDE = 4 * 60 * 1000;
+
+/**
+ * Solar zenith angle at sunrise/sunset in degrees
+ * (90° plus atmospheric refraction and the solar disc radius).
+ */
+const SUNRISE_ZENITH_DEG = 90.833;
+
+/**
+ * Sunrise and sunset instants for one mean solar day.
+ */
+export interface SunEvents {
+  /**
+   * Mean solar day index (days since 1970-01-01 in mean solar time).
+   */
+  readonly day: number;
+  readonly sunriseMs: number;
+  readonly sunsetMs: number;
+}
+
+/**
+ * Returns whether a latitude is exactly at a pole, where the solar clocks are
+ * treated as undefined (MANUAL.md "Undefined time-of-day cases").
+ */
+export function isAtPole(latitude: number): boolean {
+  return Math.abs(latitude) >= 90;
+}
+
+/**
+ * Mean solar time offset from UTC for a longitude, in milliseconds.
+ * Mean solar time = UTC + longitude × 4 minutes (east positive).
+ */
+export function meanSolarOffsetMs(longitude: number): number {
+  return longitude * MS_PER_DEGREE_LONGITUDE;
+}
+
+/**
+ * Equation of time at an instant, in milliseconds.
+ * Apparent solar time = mean solar time + equation of time.
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ */
+export function equationOfTimeMs(tsMs: number): number {
+  return computeSolarTerms(tsMs).equationOfTimeMinutes * 60 * 1000;
+}
+
+/**
+ * Solar declination at an instant, in degrees.
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ */
+export function solarDeclinationDeg(tsMs: number): number {
+  return computeSolarTerms(tsMs).declinationDeg;
+}
+
+/**
+ * Returns the mean solar day index containing an instant.
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param longitude - Longitude in degrees (east positive)
+ */
+export function meanSolarDayIndex(tsMs: number, longitude: number): number {
+  return Math.floor((tsMs + meanSolarOffsetMs(longitude)) / DAY_MS);
+}
+
+/**
+ * Computes sunrise and sunset for a mean solar day.
+ * Returns `undefined` when the sun does not rise or does not set that day
+ * (polar day/night) or at the poles.
+ *
+ * @param day - Mean solar day index (see `meanSolarDayIndex`)
+ * @param latitude - Latitude in degrees (north positive)
+ * @param longitude - Longitude in degrees (east positive)
+ */
+export function getSunEvents(
+  day: number,
+  latitude: number,
+  longitude: number
+): SunEvents | undefined {
+  if (isAtPole(latitude)) {
+    return undefined;
+  }
+  const meanNoonMs = day * DAY_MS + DAY_MS / 2 - meanSolarOffsetMs(longitude);
+
+  // Evaluate each event at the solar terms of its own approximate instant;
+  // one refinement step is well below a second of error.
+  let sunriseMs = meanNoonMs - DAY_MS / 4;
+  let sunsetMs = meanNoonMs + DAY_MS / 4;
+  for (let i = 0; i < 2; i++) {
+    const rise = solveEvent(sunriseMs, meanNoonMs, latitude, -1);
+    const set = solveEvent(sunsetMs, meanNoonMs, latitude, 1);
+    if (rise === undefined || set === undefined) {
+      return undefined;
+    }
+    sunriseMs = rise;
+    sunsetMs = set;
+  }
+  return { day, sunriseMs, sunsetMs };
+}
+
+/**
+ * Solves for sunrise (sign -1) or sunset (sign +1) using solar terms evaluated at `approxMs`.
+ */
+function solveEvent(
+  approxMs: number,
+  meanNoonMs: number,
+  latitude: number,
+  sign: -1 | 1
+): number | undefined {
+  const { declinationDeg, equationOfTimeMinutes } = computeSolarTerms(approxMs);
+  const phi = toRadians(latitude);
+  const delta = toRadians(declinationDeg);
+  const cosHourAngle =
+    Math.cos(toRadians(SUNRISE_ZENITH_DEG)) / (Math.cos(phi) * Math.cos(delta)) -
+    Math.tan(phi) * Math.tan(delta);
+  if (!(cosHourAngle >= -1 && cosHourAngle <= 1)) {
+    return undefined;
+  }
+  const hourAngleDeg = toDegrees(Math.acos(cosHourAngle));
+  const solarNoonMs = meanNoonMs - equationOfTimeMinutes * 60 * 1000;
+  return solarNoonMs + sign * hourAngleDeg * MS_PER_DEGREE_LONGITUDE;
+}
+
+/**
+ * NOAA solar terms at an instant.
+ */
+function computeSolarTerms(tsMs: number): {
+  declinationDeg: number;
+  equationOfTimeMinutes: number;
+} {
+  const julianDay = tsMs / DAY_MS + 2440587.5;
+  const t = (julianDay - 2451545) / 36525;
+
+  const meanLongitude = mod(280.46646 + t * (36000.76983 + t * 0.0003032), 360);
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const m = toRadians(meanAnomaly);
+  const equationOfCenter =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+  const trueLongitude = meanLongitude + equationOfCenter;
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = trueLongitude - 0.00569 - 0.00478 * Math.sin(omega);
+
+  const meanObliquity =
+    23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(omega);
+
+  const declinationDeg = toDegrees(
+    Math.asin(Math.sin(toRadians(obliquity)) * Math.sin(toRadians(apparentLongitude)))
+  );
+
+  const y = Math.tan(toRadians(obliquity / 2)) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTimeMinutes =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(m) +
+        4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+  return { declinationDeg, equationOfTimeMinutes };
+}
+
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI;
+}
+
+function mod(value: number, modulus: number): number {
+  const result = value % modulus;
+  return result < 0 ? result + modulus : result;
+}
@@ -0,0 +1,45 @@
+/**
+ * Core types for the five clocks.
+ * Each clock is an alternative time-of-week coordinate system (see MANUAL.md "The five clocks").
+ */
+
+/**
+ * Identifier of one of the five clocks.
+ * - `local`: statutory/civil time (IANA time zone + DST rules)
+ * - `utc`: Coordinated Universal Time
+ * - `meanSolar`: mean solar time (longitude-based)
+ * - `apparentSolar`: apparent solar time (mean solar + equation of time)
+ * - `unequalHours`: temporal hours (sunrise = 06:00, sunset = 18:00)
+ */
+export type ClockId = 'local' | 'utc' | 'meanSolar' | 'apparentSolar' | 'unequalHours';
+
+/**
+ * All clock ids, in canonical order.
+ * Analytics responses always include every clock keyed by ClockId.
+ */
+export const CLOCK_IDS: readonly ClockId[] = [
+  'local',
+  'utc',
+  'meanSolar',
+  'apparentSolar',
+  'unequalHours',
+] as const;
+
+/**
+ * Location settings used to map timestamps onto the clocks.
+ * A single global location is configured for the whole system.
+ */
+export interface ClockLocation {
+  /**
+   * IANA time zone name for local time (e.g. "Europe/Stockholm").
+   */
+  readonly timezone: string;
+  /**
+   * Latitude in degrees, in [-90, 90] (north positive).
+   */
+  readonly latitude: number;
+  /**
+   * Longitude in degrees, in [-180, 180] (east positive).
+   */
+  readonly longitude: number;
+}
@@ -0,0 +1,109 @@
+/**
+ * Unequal hours (temporal hours) clock.
+ * Sunrise is always 06:00 and sunset is always 18:00; daylight and night are each
+ * divided into 12 equal hours, so the real length of a bucket varies with date and latitude.
+ */
+
+import { DAY_MS } from '../time/index.js';
+import type { ClockLocation } from './types.js';
+import { getSunEvents, meanSolarDayIndex, type SunEvents } from './solar.js';
+
+/**
+ * Clock time at sunrise (06:00) in milliseconds into the day.
+ */
+const SUNRISE_CLOCK_MS = DAY_MS / 4;
+
+/**
+ * Clock time at sunset (18:00) in milliseconds into the day.
+ */
+const SUNSET_CLOCK_MS = (3 * DAY_MS) / 4;
+
+/**
+ * A stretch of real time (sunrise→sunset or sunset→next sunrise) over which the
+ * unequal-hours clock runs at a constant rate.
+ */
+export interface UnequalHoursSegment {
+  readonly kind: 'day' | 'night';
+  /**
+   * Real timestamp where the segment starts (sunrise or sunset).
+   */
+  readonly startMs: number;
+  /**
+   * Real timestamp where the segment ends (sunset or next sunrise), exclusive.
+   */
+  readonly endMs: number;
+  /**
+   * Clock time at `startMs`, in milliseconds since 00:00 of the mean solar day
+   * the segment starts on (06:00 for day segments, 18:00 for night segments).
+   */
+  readonly startClockMs: number;
+  /**
+   * Mean solar day index the segment starts on.
+   * Weekdays for unequal hours follow the mean solar date.
+   */
+  readonly day: number;
+}
+
+/**
+ * Finds the unequal-hours segment containing `tsMs`.
+ * Returns `undefined` when unequal-hours time-of-day is undefined, i.e. when the
+ * sun does not both rise and set around `tsMs` (polar day/night, poles).
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param location - Clock location (latitude/longitude are used)
+ */
+export function getUnequalHoursSegment(
+  tsMs: number,
+  location: ClockLocation
+): UnequalHoursSegment | undefined {
+  const day = meanSolarDayIndex(tsMs, location.longitude);
+  const events = new Map<number, SunEvents | undefined>();
+  const eventsFor = (d: number): SunEvents | undefined => {
+    if (!events.has(d)) {
+      events.set(d, getSunEvents(d, location.latitude, location.longitude));
+    }
+    return events.get(d);
+  };
+
+  for (let d = day - 1; d <= day + 1; d++) {
+    const today = eventsFor(d);
+    if (today === undefined) {
+      continue;
+    }
+    if (tsMs >= today.sunriseMs && tsMs < today.sunsetMs) {
+      return {
+        kind: 'day',
+        startMs: today.sunriseMs,
+        endMs: today.sunsetMs,
+        startClockMs: SUNRISE_CLOCK_MS,
+        day: d,
+      };
+    }
+    if (tsMs >= today.sunsetMs) {
+      const tomorrow = eventsFor(d + 1);
+      if (tomorrow !== undefined && tsMs < tomorrow.sunriseMs) {
+        return {
+          kind: 'night',
+          startMs: today.sunsetMs,
+          endMs: tomorrow.sunriseMs,
+          startClockMs: SUNSET_CLOCK_MS,
+          day: d,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Clock position within a segment, in milliseconds since 00:00 of the
+ * segment's start day (may exceed one day for the part of the night after midnight).
+ *
+ * @param segment - Segment containing `tsMs`
+ * @param tsMs - Unix timestamp in milliseconds
+ */
+export function unequalHoursClockMs(segment: UnequalHoursSegment, tsMs: number): number {
+  const fraction = (tsMs - segment.startMs) / (segment.endMs - segment.startMs);
+  return segment.startClockMs + fraction * (DAY_MS / 2);
+}
+
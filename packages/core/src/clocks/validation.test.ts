@@ -0,0 +1,35 @@
+/**
+ * Tests for clock validation schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { clockIdSchema, clockLocationSchema } from './validation.js';
+
+describe('clockIdSchema', () => {
+  it('accepts the five clock ids', () => {
+    for (const id of ['local', 'utc', 'meanSolar', 'apparentSolar', 'unequalHours']) {
+      expect(clockIdSchema.parse(id)).toBe(id);
+    }
+  });
+
+  it('rejects unknown clocks', () => {
+    expect(() => clockIdSchema.parse('sidereal')).toThrow();
+  });
+});
+
+describe('clockLocationSchema', () => {
+  const valid = { timezone: 'Europe/Stockholm', latitude: 59.33, longitude: 18.07 };
+
+  it('accepts a valid location', () => {
+    expect(clockLocationSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(() => clockLocationSchema.parse({ ...valid, timezone: 'Nowhere/Town' })).toThrow();
+  });
+
+  it('rejects out-of-range coordinates', () => {
+    expect(() => clockLocationSchema.parse({ ...valid, latitude: 91 })).toThrow();
+    expect(() => clockLocationSchema.parse({ ...valid, longitude: -181 })).toThrow();
+  });
+});
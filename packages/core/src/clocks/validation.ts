@@ -0,0 +1,29 @@
+/**
+ * Zod validation schemas for clock types.
+ */
+
+import { z } from 'zod';
+import { isValidTimezone } from './local.js';
+
+/**
+ * Schema for ClockId.
+ */
+export const clockIdSchema = z.enum([
+  'local',
+  'utc',
+  'meanSolar',
+  'apparentSolar',
+  'unequalHours',
+]);
+
+/**
+ * Schema for ClockLocation.
+ * Validates that the time zone is a known IANA zone and that coordinates are in range.
+ */
+export const clockLocationSchema = z.object({
+  timezone: z.string().min(1).refine(isValidTimezone, {
+    message: 'timezone must be a valid IANA time zone',
+  }),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
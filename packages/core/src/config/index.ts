@@ -0,0 +1,33 @@
+/**
+ * Config module public exports.
+ * Global system configuration shared by Convex and the inference pipeline.
+ */
+
+// Types
+export type {
+  KdeKernel,
+  KdeSettings,
+  RateEstimatorName,
+  CtmcSettings,
+  TeleportPrior,
+  DampingSettings,
+  RetentionSettings,
+  IntegritySettings,
+  SystemConfig,
+} from './types.js';
+
+// Validation schemas
+export {
+  kdeKernelSchema,
+  kdeSettingsSchema,
+  rateEstimatorNameSchema,
+  ctmcSettingsSchema,
+  teleportPriorSchema,
+  dampingSettingsSchema,
+  retentionSettingsSchema,
+  integritySettingsSchema,
+  systemConfigSchema,
+} from './validation.js';
+
+// Replacement rules
+export { checkConfigReplacement } from './update.js';
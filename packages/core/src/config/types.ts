@@ -0,0 +1,126 @@
+/**
+ * System configuration types.
+ * MANUAL.md leaves KDE bandwidth and damping TBD, so every inference knob is
+ * stored in configuration rather than hardcoded.
+ */
+
+import type { SliderBoundaryPolicy } from '../domain/index.js';
+import type { ClockLocation } from '../clocks/index.js';
+
+/**
+ * Kernel used for cyclic KDE smoothing along the time-of-week axis.
+ */
+export type KdeKernel = 'gaussian' | 'epanechnikov' | 'vonMises';
+
+/**
+ * KDE smoothing settings.
+ */
+export interface KdeSettings {
+  readonly kernel: KdeKernel;
+  /**
+   * Kernel bandwidth in minutes of clock time (standard deviation for
+   * Gaussian, half-width for Epanechnikov, equivalent width for von Mises).
+   */
+  readonly bandwidthMinutes: number;
+  /**
+   * Optional truncation half-width in minutes; buckets farther than this from
+   * the query time get zero weight. Omit to use the whole (cyclic) week.
+   */
+  readonly windowMinutes?: number;
+}
+
+/**
+ * CTMC construction settings, discriminated on the rate estimator that turns
+ * smoothed hold times and transition counts into CTMC rates. MANUAL.md does
+ * not fix one, so the choice is explicit configuration.
+ * - `maximumLikelihood`: q_ij = n_ij / T_i (transitions i→j per ms held in i).
+ *   Stretches without transitions leave the chain undetermined, so the
+ *   stationary distribution falls back to the damping prior there.
+ * - `pseudocount`: q_ij = (n_ij + c/(N − 1)) / (T_i + τ), the posterior mean
+ *   under a Gamma prior. Long holds without exits become sticky and states
+ *   that were never held are left quickly. c and τ are in the units of the
+ *   smoothed statistics (per-bucket averages).
+ */
+export type CtmcSettings =
+  | { readonly rateEstimator: 'maximumLikelihood' }
+  | {
+      readonly rateEstimator: 'pseudocount';
+      /**
+       * Pseudo exits per state (c), spread evenly over the other states.
+       */
+      readonly pseudoTransitions: number;
+      /**
+       * Pseudo holding time per state (τ), in minutes.
+       */
+      readonly pseudoHoldMinutes: number;
+    };
+
+/**
+ * Registered rate estimator names.
+ */
+export type RateEstimatorName = CtmcSettings['rateEstimator'];
+
+/**
+ * Teleport prior vector for Markov damping.
+ * - `uniform`: equal mass on every state
+ * - `explicit`: per-state weights (normalized before use; length must match the state count)
+ */
+export type TeleportPrior =
+  | { readonly kind: 'uniform' }
+  | { readonly kind: 'explicit'; readonly weights: readonly number[] };
+
+/**
+ * Markov damping (teleportation) settings for stationary-distribution solving.
+ * Keeps sparse or disconnected chains ergodic: P' = αP + (1 − α)·1·vᵀ.
+ */
+export interface DampingSettings {
+  /**
+   * Weight on the observed dynamics, in [0, 1]. 1 disables damping.
+   */
+  readonly alpha: number;
+  readonly prior: TeleportPrior;
+}
+
+/**
+ * Rolling retention of the quarter-partitioned aggregates.
+ */
+export interface RetentionSettings {
+  /**
+   * Number of quarters kept, including the current one (4 keeps a rolling year).
+   */
+  readonly retainedQuarters: number;
+  /**
+   * Days after a quarter starts before the rollover retires the oldest quarter.
+   */
+  readonly rolloverDelayDays: number;
+}
+
+/**
+ * Limits applied by the integrity guard in front of analytics ingestion.
+ */
+export interface IntegritySettings {
+  /**
+   * Longest holding interval counted, in hours. Only the first `maxGapHours`
+   * of a longer interval (e.g. across a server outage) are counted.
+   */
+  readonly maxGapHours: number;
+  /**
+   * How far an event timestamp may lie ahead of the server clock, in seconds.
+   */
+  readonly maxFutureSkewSeconds: number;
+}
+
+/**
+ * Global system configuration (singleton).
+ */
+export interface SystemConfig extends ClockLocation {
+  /**
+   * Boundary rounding policy for slider discretization.
+   */
+  readonly sliderBoundaryPolicy: SliderBoundaryPolicy;
+  readonly kde: KdeSettings;
+  readonly ctmc: CtmcSettings;
+  readonly damping: DampingSettings;
+  readonly retention: RetentionSettings;
+  readonly integrity: IntegritySettings;
+}
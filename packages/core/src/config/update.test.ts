@@ -0,0 +1,39 @@
+/**
+ * Tests for configuration replacement rules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { SystemConfig } from './types.js';
+import { checkConfigReplacement } from './update.js';
+
+const config: SystemConfig = {
+  timezone: 'Europe/Stockholm',
+  latitude: 59.33,
+  longitude: 18.07,
+  sliderBoundaryPolicy: 'roundNearest',
+  kde: { kernel: 'gaussian', bandwidthMinutes: 30 },
+  ctmc: { rateEstimator: 'maximumLikelihood' },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' } },
+  retention: { retainedQuarters: 4, rolloverDelayDays: 0 },
+  integrity: { maxGapHours: 72, maxFutureSkewSeconds: 5 },
+};
+
+describe('checkConfigReplacement', () => {
+  it('accepts the first configuration with any policy', () => {
+    expect(() =>
+      checkConfigReplacement(undefined, { ...config, sliderBoundaryPolicy: 'roundDown' })
+    ).not.toThrow();
+  });
+
+  it('accepts changes that keep the slider boundary policy', () => {
+    expect(() =>
+      checkConfigReplacement(config, { ...config, timezone: 'UTC', latitude: 0 })
+    ).not.toThrow();
+  });
+
+  it('rejects changing the slider boundary policy by itself', () => {
+    expect(() =>
+      checkConfigReplacement(config, { ...config, sliderBoundaryPolicy: 'roundDown' })
+    ).toThrow(/changeSliderBoundaryPolicy/);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Rules for replacing the system configuration wholesale.
+ */
+
+import type { SystemConfig } from './types.js';
+
+/**
+ * Checks that `next` may replace the stored configuration `current`
+ * (`undefined` before the first write). The slider boundary policy decides
+ * the discrete states of logged slider events, so changing it also re-derives
+ * runtime states and rebuilds aggregates; it cannot change with a plain
+ * replacement, only through `changeSliderBoundaryPolicy`.
+ *
+ * @throws Error if `next` changes the slider boundary policy
+ */
+export function checkConfigReplacement(
+  current: SystemConfig | undefined,
+  next: SystemConfig
+): void {
+  if (current !== undefined && current.sliderBoundaryPolicy !== next.sliderBoundaryPolicy) {
+    throw new Error(
+      `Slider boundary policy is ${current.sliderBoundaryPolicy}; ` +
+        'change it with changeSliderBoundaryPolicy, which also rebuilds the aggregates'
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for system configuration schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  dampingSettingsSchema,
+  kdeSettingsSchema,
+  systemConfigSchema,
+} from './validation.js';
+
+const validConfig = {
+  timezone: 'Europe/Stockholm',
+  latitude: 59.33,
+  longitude: 18.07,
+  sliderBoundaryPolicy: 'roundNearest' as const,
+  kde: { kernel: 'gaussian' as const, bandwidthMinutes: 30 },
+  ctmc: { rateEstimator: 'maximumLikelihood' as const },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' as const } },
+  retention: { retainedQuarters: 4, rolloverDelayDays: 0 },
+  integrity: { maxGapHours: 72, maxFutureSkewSeconds: 5 },
+};
+
+describe('kdeSettingsSchema', () => {
+  it('accepts each kernel with an optional window', () => {
+    for (const kernel of ['gaussian', 'epanechnikov', 'vonMises'] as const) {
+      expect(kdeSettingsSchema.parse({ kernel, bandwidthMinutes: 15, windowMinutes: 120 })).toEqual({
+        kernel,
+        bandwidthMinutes: 15,
+        windowMinutes: 120,
+      });
+    }
+  });
+
+  it('rejects non-positive bandwidths and unknown kernels', () => {
+    expect(() => kdeSettingsSchema.parse({ kernel: 'gaussian', bandwidthMinutes: 0 })).toThrow();
+    expect(() => kdeSettingsSchema.parse({ kernel: 'box', bandwidthMinutes: 10 })).toThrow();
+  });
+});
+
+describe('dampingSettingsSchema', () => {
+  it('accepts uniform and explicit priors', () => {
+    expect(dampingSettingsSchema.parse({ alpha: 1, prior: { kind: 'uniform' } })).toBeTruthy();
+    expect(
+      dampingSettingsSchema.parse({ alpha: 0.9, prior: { kind: 'explicit', weights: [1, 0, 3] } })
+    ).toBeTruthy();
+  });
+
+  it('rejects alpha outside [0, 1] and negative weights', () => {
+    expect(() => dampingSettingsSchema.parse({ alpha: 1.1, prior: { kind: 'uniform' } })).toThrow();
+    expect(() =>
+      dampingSettingsSchema.parse({ alpha: 0.9, prior: { kind: 'explicit', weights: [1, -1] } })
+    ).toThrow();
+  });
+});
+
+describe('systemConfigSchema', () => {
+  it('accepts a complete configuration', () => {
+    expect(systemConfigSchema.parse(validConfig)).toEqual(validConfig);
+  });
+
+  it('rejects an invalid time zone', () => {
+    expect(() => systemConfigSchema.parse({ ...validConfig, timezone: 'Not/AZone' })).toThrow();
+  });
+
+  it('rejects an unknown slider boundary policy', () => {
+    expect(() =>
+      systemConfigSchema.parse({ ...validConfig, sliderBoundaryPolicy: 'roundRandom' })
+    ).toThrow();
+  });
+
+  it('accepts pseudocount estimator parameters', () => {
+    const ctmc = { rateEstimator: 'pseudocount', pseudoTransitions: 0.1, pseudoHoldMinutes: 1 };
+    expect(systemConfigSchema.parse({ ...validConfig, ctmc })).toEqual({ ...validConfig, ctmc });
+    expect(() =>
+      systemConfigSchema.parse({ ...validConfig, ctmc: { ...ctmc, pseudoHoldMinutes: 0 } })
+    ).toThrow();
+  });
+
+  it('requires at least one retained quarter and a non-negative rollover delay', () => {
+    expect(() =>
+      systemConfigSchema.parse({
+        ...validConfig,
+        retention: { retainedQuarters: 0, rolloverDelayDays: 0 },
+      })
+    ).toThrow();
+    expect(() =>
+      systemConfigSchema.parse({
+        ...validConfig,
+        retention: { retainedQuarters: 4, rolloverDelayDays: -1 },
+      })
+    ).toThrow();
+  });
+
+  it('requires a positive maximum gap', () => {
+    expect(() =>
+      systemConfigSchema.parse({
+        ...validConfig,
+        integrity: { maxGapHours: 0, maxFutureSkewSeconds: 5 },
+      })
+    ).toThrow();
+  });
+
+  it('rejects an unknown rate estimator', () => {
+    expect(() =>
+      systemConfigSchema.parse({ ...validConfig, ctmc: { rateEstimator: 'guess' } })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Zod validation schemas for system configuration.
+ */
+
+import { z } from 'zod';
+import type {
+  CtmcSettings,
+  DampingSettings,
+  IntegritySettings,
+  KdeSettings,
+  RetentionSettings,
+  SystemConfig,
+} from './types.js';
+import { sliderBoundaryPolicySchema } from '../domain/index.js';
+import { clockLocationSchema } from '../clocks/index.js';
+
+/**
+ * Schema for KdeKernel.
+ */
+export const kdeKernelSchema = z.enum(['gaussian', 'epanechnikov', 'vonMises']);
+
+/**
+ * Schema for KdeSettings.
+ * Bandwidth and window must be positive.
+ */
+export const kdeSettingsSchema: z.ZodType<KdeSettings> = z.object({
+  kernel: kdeKernelSchema,
+  bandwidthMinutes: z.number().positive(),
+  windowMinutes: z.number().positive().optional(),
+});
+
+/**
+ * Schema for RateEstimatorName.
+ */
+export const rateEstimatorNameSchema = z.enum(['maximumLikelihood', 'pseudocount']);
+
+/**
+ * Schema for CtmcSettings (discriminated union on `rateEstimator`).
+ * Pseudocount parameters must be positive.
+ */
+export const ctmcSettingsSchema: z.ZodType<CtmcSettings> = z.discriminatedUnion('rateEstimator', [
+  z.object({ rateEstimator: z.literal('maximumLikelihood') }),
+  z.object({
+    rateEstimator: z.literal('pseudocount'),
+    pseudoTransitions: z.number().positive(),
+    pseudoHoldMinutes: z.number().positive(),
+  }),
+]);
+
+/**
+ * Schema for TeleportPrior (discriminated union on `kind`).
+ */
+export const teleportPriorSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('uniform') }),
+  z.object({
+    kind: z.literal('explicit'),
+    weights: z.array(z.number().nonnegative()).min(2),
+  }),
+]);
+
+/**
+ * Schema for DampingSettings.
+ * Alpha must be in [0, 1].
+ */
+export const dampingSettingsSchema: z.ZodType<DampingSettings> = z.object({
+  alpha: z.number().min(0).max(1),
+  prior: teleportPriorSchema,
+});
+
+/**
+ * Schema for RetentionSettings.
+ * At least one quarter (the current one) is retained.
+ */
+export const retentionSettingsSchema: z.ZodType<RetentionSettings> = z.object({
+  retainedQuarters: z.number().int().min(1),
+  rolloverDelayDays: z.number().int().min(0),
+});
+
+/**
+ * Schema for IntegritySettings.
+ * The maximum gap must be positive; the future skew may be zero.
+ */
+export const integritySettingsSchema: z.ZodType<IntegritySettings> = z.object({
+  maxGapHours: z.number().positive(),
+  maxFutureSkewSeconds: z.number().nonnegative(),
+});
+
+/**
+ * Schema for SystemConfig.
+ */
+export const systemConfigSchema: z.ZodType<SystemConfig> = clockLocationSchema.extend({
+  sliderBoundaryPolicy: sliderBoundaryPolicySchema,
+  kde: kdeSettingsSchema,
+  ctmc: ctmcSettingsSchema,
+  damping: dampingSettingsSchema,
+  retention: retentionSettingsSchema,
+  integrity: integritySettingsSchema,
+});
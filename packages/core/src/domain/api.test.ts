@@ -85,6 +85,22 @@ describe('setControlValueRequestSchema', () => {
       };
       expect(() => setControlValueRequestSchema.parse(invalid)).toThrow();
     });
+
+    it('accepts the client time and from-state of a change', () => {
+      const valid: SetControlValueRequest = {
+        controlId: 'control-1' as any,
+        initiator: 'user',
+        isCommitted: true,
+        tsMs: Date.UTC(2024, 0, 1),
+        fromDiscreteState: 1,
+        kind: 'radiobutton',
+        newState: 2,
+      };
+      expect(setControlValueRequestSchema.parse(valid)).toEqual(valid);
+      expect(() =>
+        setControlValueRequestSchema.parse({ ...valid, fromDiscreteState: -1 })
+      ).toThrow();
+    });
   });
 
   describe('slider requests', () => {
@@ -164,6 +180,34 @@ describe('setControlValueRequestSchema', () => {
     });
   });
 
+  describe('compound requests', () => {
+    it('accepts one value per dimension', () => {
+      const valid: SetControlValueRequest = {
+        controlId: 'control-1' as any,
+        initiator: 'user',
+        isCommitted: true,
+        kind: 'compound',
+        newValues: [
+          { kind: 'radiobutton', newState: 1 },
+          { kind: 'slider', newValue01: createSliderValue01(0.4) },
+        ],
+      };
+      expect(setControlValueRequestSchema.parse(valid)).toEqual(valid);
+    });
+
+    it('rejects invalid dimension values', () => {
+      const invalid = {
+        controlId: 'control-1',
+        initiator: 'user',
+        isCommitted: true,
+        kind: 'compound',
+        newValues: [{ kind: 'slider', newValue01: 1.5 }],
+      };
+      expect(() => setControlValueRequestSchema.parse(invalid)).toThrow();
+      expect(() => setControlValueRequestSchema.parse({ ...invalid, newValues: [] })).toThrow();
+    });
+  });
+
   describe('kind mismatch', () => {
     it('rejects radiobutton kind with slider fields', () => {
       const invalid = {
@@ -4,8 +4,15 @@
  */
 
 import { z } from 'zod';
-import type { ControlId, SliderValue01 } from './types.js';
-import { controlIdSchema, sliderValue01Schema } from './validation.js';
+import type { ControlId, Initiator, SliderValue01 } from './types.js';
+import { controlIdSchema, initiatorSchema, sliderValue01Schema } from './validation.js';
+
+/**
+ * New value of one dimension of a compound control.
+ */
+export type CompoundDimensionRequest =
+  | { kind: 'radiobutton'; newState: number }
+  | { kind: 'slider'; newValue01: SliderValue01 };
 
 /**
  * Discriminated union for "set value" requests.
@@ -14,27 +21,55 @@ import { controlIdSchema, sliderValue01Schema } from './validation.js';
  * - controlId: identifier of the control
  * - initiator: whether the change is user-initiated or model-initiated
  * - isCommitted: whether this is a committed change (for debounced analytics)
+ * - tsMs: optional time of the change on the client or device (Unix ms);
+ *   defaults to server time
+ * - fromDiscreteState: optional committed state the client changed from, as it
+ *   last saw it; defaults to the last committed state
  * 
  * Kind-specific fields:
  * - radiobutton: newState (discrete state)
  * - slider: newValue01 (continuous value in [0, 1])
+ * - compound: newValues (one value per dimension, in definition order; every
+ *   dimension is set, so coupled settings change together)
  */
 export type SetControlValueRequest =
   | {
       controlId: ControlId;
-      initiator: 'user' | 'model';
+      initiator: Initiator;
       isCommitted: boolean;
+      tsMs?: number;
+      fromDiscreteState?: number;
       kind: 'radiobutton';
       newState: number;
     }
   | {
       controlId: ControlId;
-      initiator: 'user' | 'model';
+      initiator: Initiator;
       isCommitted: boolean;
+      tsMs?: number;
+      fromDiscreteState?: number;
       kind: 'slider';
       newValue01: SliderValue01;
+    }
+  | {
+      controlId: ControlId;
+      initiator: Initiator;
+      isCommitted: boolean;
+      tsMs?: number;
+      fromDiscreteState?: number;
+      kind: 'compound';
+      newValues: CompoundDimensionRequest[];
     };
 
+/**
+ * Zod schema for CompoundDimensionRequest.
+ */
+export const compoundDimensionRequestSchema: z.ZodType<CompoundDimensionRequest> =
+  z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('radiobutton'), newState: z.number().int().min(0) }),
+    z.object({ kind: z.literal('slider'), newValue01: sliderValue01Schema }),
+  ]);
+
 /**
  * Zod schema for SetControlValueRequest (discriminated union).
  */
@@ -43,17 +78,30 @@ export const setControlValueRequestSchema: z.ZodType<SetControlValueRequest> = z
   [
     z.object({
       controlId: controlIdSchema,
-      initiator: z.enum(['user', 'model']),
+      initiator: initiatorSchema,
       isCommitted: z.boolean(),
+      tsMs: z.number().optional(),
+      fromDiscreteState: z.number().int().min(0).optional(),
       kind: z.literal('radiobutton'),
       newState: z.number().int().min(0),
     }),
     z.object({
       controlId: controlIdSchema,
-      initiator: z.enum(['user', 'model']),
+      initiator: initiatorSchema,
       isCommitted: z.boolean(),
+      tsMs: z.number().optional(),
+      fromDiscreteState: z.number().int().min(0).optional(),
       kind: z.literal('slider'),
       newValue01: sliderValue01Schema,
     }),
+    z.object({
+      controlId: controlIdSchema,
+      initiator: initiatorSchema,
+      isCommitted: z.boolean(),
+      tsMs: z.number().optional(),
+      fromDiscreteState: z.number().int().min(0).optional(),
+      kind: z.literal('compound'),
+      newValues: z.array(compoundDimensionRequestSchema).min(1),
+    }),
   ]
 );
@@ -0,0 +1,55 @@
+/**
+ * Tests for compound control state encoding.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeCompoundState,
+  encodeCompoundState,
+  getDimensionStateCounts,
+} from './compound.js';
+import { getStateCount, getStateLabels, type CompoundDefinition } from './types.js';
+
+const lamp: CompoundDefinition = {
+  kind: 'compound',
+  dimensions: [
+    {
+      name: 'temperature',
+      control: { kind: 'radiobutton', numStates: 3, labels: ['Warm', 'Neutral', 'Cool'] },
+    },
+    { name: 'brightness', control: { kind: 'slider' } },
+  ],
+};
+
+describe('compound state encoding', () => {
+  it('counts the product of the dimensions states', () => {
+    expect(getDimensionStateCounts(lamp)).toEqual([3, 6]);
+    expect(getStateCount(lamp)).toBe(18);
+  });
+
+  it('encodes mixed-radix with the first dimension most significant', () => {
+    expect(encodeCompoundState(lamp, [0, 0])).toBe(0);
+    expect(encodeCompoundState(lamp, [1, 4])).toBe(10);
+    expect(encodeCompoundState(lamp, [2, 5])).toBe(17);
+  });
+
+  it('decodes every joint state back to its dimension states', () => {
+    for (let state = 0; state < 18; state++) {
+      expect(encodeCompoundState(lamp, decodeCompoundState(lamp, state))).toBe(state);
+    }
+    expect(decodeCompoundState(lamp, 10)).toEqual([1, 4]);
+  });
+
+  it('rejects out-of-range states', () => {
+    expect(() => encodeCompoundState(lamp, [3, 0])).toThrow(/temperature/);
+    expect(() => encodeCompoundState(lamp, [0])).toThrow(/Expected 2/);
+    expect(() => decodeCompoundState(lamp, 18)).toThrow();
+  });
+
+  it('joins dimension labels per joint state', () => {
+    const labels = getStateLabels(lamp);
+    expect(labels).toHaveLength(18);
+    expect(labels[0]).toBe('Warm / State 0');
+    expect(labels[10]).toBe('Neutral / State 4');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Joint state encoding of compound controls.
+ * A compound state lists one state per dimension; its joint state numbers
+ * these combinations mixed-radix, first dimension most significant. With
+ * dimensions of 3 and 6 states, (1, 4) is joint state 1 * 6 + 4 = 10.
+ */
+
+import { getStateCount, type CompoundDefinition, type DiscreteState } from './types.js';
+
+/**
+ * Number of states of each dimension, in order.
+ */
+export function getDimensionStateCounts(definition: CompoundDefinition): number[] {
+  return definition.dimensions.map((dimension) => getStateCount(dimension.control));
+}
+
+/**
+ * Encodes one state per dimension into the joint state.
+ *
+ * @throws Error if the number of states or any state is out of range
+ */
+export function encodeCompoundState(
+  definition: CompoundDefinition,
+  states: readonly DiscreteState[]
+): DiscreteState {
+  const counts = getDimensionStateCounts(definition);
+  if (states.length !== counts.length) {
+    throw new Error(`Expected ${counts.length} dimension states, got ${states.length}`);
+  }
+  return states.reduce((joint, state, k) => {
+    if (!Number.isInteger(state) || state < 0 || state >= counts[k]) {
+      throw new Error(
+        `State ${state} is out of range for dimension "${definition.dimensions[k].name}"`
+      );
+    }
+    return joint * counts[k] + state;
+  }, 0);
+}
+
+/**
+ * Decodes a joint state into one state per dimension.
+ *
+ * @throws Error if the joint state is out of range
+ */
+export function decodeCompoundState(
+  definition: CompoundDefinition,
+  state: DiscreteState
+): DiscreteState[] {
+  const counts = getDimensionStateCounts(definition);
+  const total = counts.reduce((product, count) => product * count, 1);
+  if (!Number.isInteger(state) || state < 0 || state >= total) {
+    throw new Error(`Joint state ${state} is out of range for ${total} states`);
+  }
+  const states = new Array<DiscreteState>(counts.length);
+  let rest = state;
+  for (let k = counts.length - 1; k >= 0; k--) {
+    states[k] = rest % counts[k];
+    rest = Math.floor(rest / counts[k]);
+  }
+  return states;
+}
@@ -0,0 +1,135 @@
+/**
+ * Tests for set-value request resolution.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildStateRequest, resolveControlValue } from './controlValue.js';
+import type { SetControlValueRequest } from './api.js';
+import { createSliderValue01, getStateCount, type ControlDefinition } from './types.js';
+
+const radiobutton: ControlDefinition = {
+  kind: 'radiobutton',
+  numStates: 3,
+  labels: ['Off', 'Low', 'High'],
+};
+
+const slider: ControlDefinition = { kind: 'slider' };
+
+function radioRequest(newState: number): SetControlValueRequest {
+  return {
+    controlId: 'control-1' as any,
+    initiator: 'user',
+    isCommitted: true,
+    kind: 'radiobutton',
+    newState,
+  };
+}
+
+function sliderRequest(value01: number): SetControlValueRequest {
+  return {
+    controlId: 'control-1' as any,
+    initiator: 'user',
+    isCommitted: false,
+    kind: 'slider',
+    newValue01: createSliderValue01(value01),
+  };
+}
+
+describe('resolveControlValue', () => {
+  it('resolves a radiobutton request to its state', () => {
+    expect(resolveControlValue(radiobutton, radioRequest(2), 'roundNearest')).toEqual({
+      discreteState: 2,
+    });
+  });
+
+  it('rejects radiobutton states outside the definition', () => {
+    expect(() => resolveControlValue(radiobutton, radioRequest(3), 'roundNearest')).toThrow();
+  });
+
+  it('discretizes slider values with the given policy', () => {
+    expect(resolveControlValue(slider, sliderRequest(0.5), 'roundDown')).toEqual({
+      discreteState: 2,
+      value01: 0.5,
+    });
+    expect(resolveControlValue(slider, sliderRequest(0.5), 'roundUp')).toEqual({
+      discreteState: 3,
+      value01: 0.5,
+    });
+  });
+
+  it('discretizes slider values at the slider scale thresholds', () => {
+    const brightness: ControlDefinition = {
+      kind: 'slider',
+      scale: { kind: 'curve', curve: { kind: 'logarithmic', dynamicRange: 100 }, intervals: 4 },
+    };
+    // Thresholds ≈ 0.032, 0.1, 0.316: 0.2 is in the third interval.
+    expect(resolveControlValue(brightness, sliderRequest(0.2), 'roundDown')).toEqual({
+      discreteState: 3,
+      value01: 0.2,
+    });
+  });
+
+  it('resolves compound requests to the joint state of their dimensions', () => {
+    const lamp: ControlDefinition = {
+      kind: 'compound',
+      dimensions: [
+        { name: 'mode', control: radiobutton },
+        { name: 'brightness', control: { kind: 'slider' } },
+      ],
+    };
+    const request: SetControlValueRequest = {
+      controlId: 'control-1' as any,
+      initiator: 'user',
+      isCommitted: true,
+      kind: 'compound',
+      newValues: [
+        { kind: 'radiobutton', newState: 2 },
+        { kind: 'slider', newValue01: createSliderValue01(0.5) },
+      ],
+    };
+    expect(resolveControlValue(lamp, request, 'roundUp')).toEqual({
+      discreteState: 2 * 6 + 3,
+      dimensions: [{ discreteState: 2 }, { discreteState: 3, value01: 0.5 }],
+    });
+
+    const swapped = { ...request, newValues: [...request.newValues].reverse() };
+    expect(() => resolveControlValue(lamp, swapped, 'roundUp')).toThrow(/dimension "mode"/);
+    const partial = { ...request, newValues: request.newValues.slice(0, 1) };
+    expect(() => resolveControlValue(lamp, partial, 'roundUp')).toThrow(/Expected 2/);
+  });
+
+  it('rejects requests whose kind does not match the control', () => {
+    expect(() => resolveControlValue(radiobutton, sliderRequest(0.3), 'roundNearest')).toThrow(
+      /does not match control kind/
+    );
+    expect(() => resolveControlValue(slider, radioRequest(1), 'roundNearest')).toThrow(
+      /does not match control kind/
+    );
+  });
+});
+
+describe('buildStateRequest', () => {
+  const lamp: ControlDefinition = {
+    kind: 'compound',
+    dimensions: [
+      { name: 'mode', control: radiobutton },
+      { name: 'brightness', control: { kind: 'slider' } },
+    ],
+  };
+
+  it('builds requests that resolve back to the state under every policy', () => {
+    for (const definition of [radiobutton, slider, lamp]) {
+      for (let state = 0; state < getStateCount(definition); state++) {
+        const request = buildStateRequest(definition, 'control-1' as any, state, 'model', true);
+        expect(request.initiator).toBe('model');
+        for (const policy of ['roundDown', 'roundUp', 'roundNearest'] as const) {
+          expect(resolveControlValue(definition, request, policy).discreteState).toBe(state);
+        }
+      }
+    }
+  });
+
+  it('rejects states the control lacks', () => {
+    expect(() => buildStateRequest(slider, 'control-1' as any, 6, 'model', true)).toThrow();
+  });
+});
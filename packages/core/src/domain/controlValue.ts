@@ -0,0 +1,178 @@
+/**
+ * Resolution of "set value" requests against a control definition.
+ * Shared by every client path (dashboard, Node-RED, models) so they behave identically.
+ */
+
+import type { CompoundDimensionRequest, SetControlValueRequest } from './api.js';
+import type {
+  CompoundDefinition,
+  CompoundDimensionValue,
+  ControlDefinition,
+  ControlId,
+  DiscreteState,
+  Initiator,
+  SimpleControlDefinition,
+  SliderValue01,
+} from './types.js';
+import { createSliderValue01 } from './types.js';
+import { decodeCompoundState, encodeCompoundState } from './compound.js';
+import {
+  discretizeSlider,
+  getSliderThresholds,
+  getStateCenter,
+  type SliderBoundaryPolicy,
+} from './slider.js';
+import { discreteStateSchema } from './validation.js';
+
+/**
+ * The runtime values a request resolves to.
+ */
+export interface ResolvedControlValue {
+  /**
+   * Discrete analytics state (for sliders, derived from `value01`; for
+   * compound controls, the joint state of `dimensions`).
+   */
+  readonly discreteState: DiscreteState;
+  /**
+   * Continuous slider value. Present for sliders only.
+   */
+  readonly value01?: SliderValue01;
+  /**
+   * Value per dimension. Present for compound controls only.
+   */
+  readonly dimensions?: CompoundDimensionValue[];
+}
+
+/**
+ * Validates a request against the control definition and derives the new
+ * discrete state.
+ *
+ * - The request kind must match the control kind.
+ * - Radiobutton states are validated with `discreteStateSchema(definition)`.
+ * - Slider values are discretized at the slider's thresholds with the given
+ *   boundary policy.
+ * - Compound requests carry one value per dimension, each resolved like a
+ *   request for that dimension's control; their states are encoded into the
+ *   joint state.
+ *
+ * @throws Error if the request does not fit the control definition
+ */
+export function resolveControlValue(
+  definition: ControlDefinition,
+  request: SetControlValueRequest,
+  policy: SliderBoundaryPolicy
+): ResolvedControlValue {
+  if (request.kind === 'compound' && definition.kind === 'compound') {
+    return resolveCompoundValue(definition, request.newValues, policy);
+  }
+  if (
+    request.kind === 'compound' ||
+    definition.kind === 'compound' ||
+    request.kind !== definition.kind
+  ) {
+    throw new Error(
+      `Request kind "${request.kind}" does not match control kind "${definition.kind}"`
+    );
+  }
+  return resolveSimpleValue(definition, request, policy);
+}
+
+/**
+ * Resolves one value per dimension of a compound control into the joint state.
+ */
+function resolveCompoundValue(
+  definition: CompoundDefinition,
+  newValues: readonly CompoundDimensionRequest[],
+  policy: SliderBoundaryPolicy
+): ResolvedControlValue {
+  if (newValues.length !== definition.dimensions.length) {
+    throw new Error(
+      `Expected ${definition.dimensions.length} dimension values, got ${newValues.length}`
+    );
+  }
+  const dimensions = definition.dimensions.map(({ name, control }, k) => {
+    const value = newValues[k];
+    if (value.kind !== control.kind) {
+      throw new Error(
+        `Value kind "${value.kind}" does not match kind "${control.kind}" of dimension "${name}"`
+      );
+    }
+    return resolveSimpleValue(control, value, policy);
+  });
+  return {
+    discreteState: encodeCompoundState(
+      definition,
+      dimensions.map((dimension) => dimension.discreteState)
+    ),
+    dimensions,
+  };
+}
+
+/**
+ * Resolves a radiobutton or slider value.
+ *
+ * @throws Error if the value kind does not match the definition kind
+ */
+function resolveSimpleValue(
+  definition: SimpleControlDefinition,
+  value: CompoundDimensionRequest,
+  policy: SliderBoundaryPolicy
+): CompoundDimensionValue {
+  if (definition.kind === 'radiobutton' && value.kind === 'radiobutton') {
+    return { discreteState: discreteStateSchema(definition).parse(value.newState) };
+  }
+  if (definition.kind === 'slider' && value.kind === 'slider') {
+    const discreteState = discretizeSlider(
+      value.newValue01,
+      policy,
+      getSliderThresholds(definition)
+    );
+    return {
+      discreteState: discreteStateSchema(definition).parse(discreteState),
+      value01: value.newValue01,
+    };
+  }
+  throw new Error(`Value kind "${value.kind}" does not match control kind "${definition.kind}"`);
+}
+
+/**
+ * Builds a request that sets a control to a discrete state, for clients that
+ * decide in states rather than raw values (e.g. built-in models). Slider
+ * states are requested at their center value, which resolves back to the
+ * same state under every boundary policy.
+ *
+ * @throws Error if the state does not exist on the control
+ */
+export function buildStateRequest(
+  definition: ControlDefinition,
+  controlId: ControlId,
+  state: DiscreteState,
+  initiator: Initiator,
+  isCommitted: boolean
+): SetControlValueRequest {
+  discreteStateSchema(definition).parse(state);
+  const common = { controlId, initiator, isCommitted };
+  if (definition.kind !== 'compound') {
+    return { ...common, ...simpleStateValue(definition, state) };
+  }
+  const states = decodeCompoundState(definition, state);
+  return {
+    ...common,
+    kind: 'compound',
+    newValues: definition.dimensions.map(({ control }, k) =>
+      simpleStateValue(control, states[k])
+    ),
+  };
+}
+
+function simpleStateValue(
+  definition: SimpleControlDefinition,
+  state: DiscreteState
+): CompoundDimensionRequest {
+  return definition.kind === 'radiobutton'
+    ? { kind: 'radiobutton', newState: state }
+    : {
+        kind: 'slider',
+        newValue01: createSliderValue01(getStateCenter(state, getSliderThresholds(definition))),
+      };
+}
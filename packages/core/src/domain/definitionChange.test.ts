@@ -0,0 +1,114 @@
+/**
+ * Tests for definition changes of controls with history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assertDefinitionKeepsHistory, findDefinitionIncompatibility } from './definitionChange.js';
+import type { CompoundDefinition, RadiobuttonDefinition } from './types.js';
+
+const scenes: RadiobuttonDefinition = {
+  kind: 'radiobutton',
+  numStates: 3,
+  labels: ['Off', 'Reading', 'Dinner'],
+};
+
+const lamp: CompoundDefinition = {
+  kind: 'compound',
+  dimensions: [
+    {
+      name: 'temperature',
+      control: { kind: 'radiobutton', numStates: 2, labels: ['Warm', 'Cool'] },
+    },
+    { name: 'brightness', control: { kind: 'slider' } },
+  ],
+};
+
+describe('findDefinitionIncompatibility', () => {
+  it('accepts label changes', () => {
+    expect(
+      findDefinitionIncompatibility(scenes, { ...scenes, labels: ['Off', 'Read', 'Eat'] })
+    ).toBeUndefined();
+    expect(
+      findDefinitionIncompatibility(
+        { kind: 'slider' },
+        { kind: 'slider', labels: ['Off', 'Dim', 'Low', 'Mid', 'High', 'Full'] }
+      )
+    ).toBeUndefined();
+  });
+
+  it('accepts renamed dimensions of compound controls', () => {
+    expect(
+      findDefinitionIncompatibility(lamp, {
+        kind: 'compound',
+        dimensions: [
+          { ...lamp.dimensions[0], name: 'color' },
+          { ...lamp.dimensions[1], name: 'level' },
+        ],
+      })
+    ).toBeUndefined();
+  });
+
+  it('rejects a different kind', () => {
+    expect(findDefinitionIncompatibility(scenes, { kind: 'slider' })).toMatch(
+      /kind changes from radiobutton to slider/
+    );
+  });
+
+  it('rejects a different number of options', () => {
+    expect(
+      findDefinitionIncompatibility(scenes, {
+        kind: 'radiobutton',
+        numStates: 4,
+        labels: ['Off', 'Reading', 'Dinner', 'Movie'],
+      })
+    ).toMatch(/number of options changes from 3 to 4/);
+  });
+
+  it('rejects different slider thresholds', () => {
+    expect(
+      findDefinitionIncompatibility(
+        { kind: 'slider' },
+        { kind: 'slider', scale: { kind: 'thresholds', thresholds: [0.2, 0.5, 0.8] } }
+      )
+    ).toMatch(/slider thresholds change/);
+  });
+
+  it('accepts an explicit scale equal to the default thresholds', () => {
+    expect(
+      findDefinitionIncompatibility(
+        { kind: 'slider' },
+        { kind: 'slider', scale: { kind: 'thresholds', thresholds: [0.25, 0.5, 0.75] } }
+      )
+    ).toBeUndefined();
+  });
+
+  it('names the dimension of an incompatible compound change', () => {
+    expect(
+      findDefinitionIncompatibility(lamp, {
+        kind: 'compound',
+        dimensions: [
+          {
+            name: 'temperature',
+            control: { kind: 'radiobutton', numStates: 3, labels: ['Warm', 'Neutral', 'Cool'] },
+          },
+          lamp.dimensions[1],
+        ],
+      })
+    ).toMatch(/in dimension "temperature", the number of options changes from 2 to 3/);
+    expect(
+      findDefinitionIncompatibility(lamp, {
+        kind: 'compound',
+        dimensions: [...lamp.dimensions, { ...lamp.dimensions[1], name: 'other' }],
+      })
+    ).toMatch(/number of dimensions changes from 2 to 3/);
+  });
+});
+
+describe('assertDefinitionKeepsHistory', () => {
+  it('throws for incompatible changes only', () => {
+    expect(() => assertDefinitionKeepsHistory(scenes, { ...scenes })).not.toThrow();
+    expect(() => assertDefinitionKeepsHistory(scenes, { kind: 'slider' })).toThrow(
+      /would invalidate recorded states/
+    );
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Changes to the definition of a control that already has history.
+ * Committed events and aggregates store discrete states by index, so a new
+ * definition may only change what the states are called: labels and
+ * dimension names. Anything that changes how values map to states (the kind,
+ * the number of radiobutton options, a slider's thresholds, the dimensions of
+ * a compound control) would silently change the meaning of recorded states.
+ */
+
+import { getSliderThresholds } from './slider.js';
+import type { ControlDefinition } from './types.js';
+
+/**
+ * Explains why replacing `current` with `next` would change the meaning of
+ * recorded states, or returns `undefined` if it only changes labels.
+ */
+export function findDefinitionIncompatibility(
+  current: ControlDefinition,
+  next: ControlDefinition
+): string | undefined {
+  if (current.kind !== next.kind) {
+    return `the kind changes from ${current.kind} to ${next.kind}`;
+  }
+  if (current.kind === 'radiobutton' && next.kind === 'radiobutton') {
+    return current.numStates === next.numStates
+      ? undefined
+      : `the number of options changes from ${current.numStates} to ${next.numStates}`;
+  }
+  if (current.kind === 'slider' && next.kind === 'slider') {
+    const before = getSliderThresholds(current);
+    const after = getSliderThresholds(next);
+    const same =
+      before.length === after.length && before.every((threshold, k) => threshold === after[k]);
+    return same ? undefined : 'the slider thresholds change';
+  }
+  if (current.kind === 'compound' && next.kind === 'compound') {
+    if (current.dimensions.length !== next.dimensions.length) {
+      return (
+        `the number of dimensions changes from ${current.dimensions.length} ` +
+        `to ${next.dimensions.length}`
+      );
+    }
+    for (const [k, dimension] of current.dimensions.entries()) {
+      const reason = findDefinitionIncompatibility(dimension.control, next.dimensions[k].control);
+      if (reason !== undefined) {
+        return `in dimension "${dimension.name}", ${reason}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks that replacing a control's definition keeps its history meaningful.
+ *
+ * @throws Error if the new definition changes more than labels
+ */
+export function assertDefinitionKeepsHistory(
+  current: ControlDefinition,
+  next: ControlDefinition
+): void {
+  const reason = findDefinitionIncompatibility(current, next);
+  if (reason !== undefined) {
+    throw new Error(`Definition change would invalidate recorded states: ${reason}`);
+  }
+}
@@ -7,37 +7,78 @@
 export type {
   ControlId,
   ModelId,
+  Initiator,
   ControlKind,
   ControlDefinition,
   RadiobuttonDefinition,
   SliderDefinition,
+  SimpleControlDefinition,
+  CompoundDimension,
+  CompoundDefinition,
+  CompoundDimensionValue,
+  SliderCurve,
+  SliderScale,
   DiscreteState,
   SliderValue01,
+  ControlRuntime,
+  CommittedChangeEvent,
 } from './types.js';
 
 export {
   isSliderValue01,
   createSliderValue01,
+  getStateCount,
+  getStateLabels,
 } from './types.js';
 
 // Slider discretization
 export type { SliderBoundaryPolicy } from './slider.js';
 export {
   DEFAULT_SLIDER_BOUNDARY_POLICY,
+  DEFAULT_SLIDER_THRESHOLDS,
+  getSliderThresholds,
+  curveThresholds,
   discretizeSlider,
+  getStateCenter,
 } from './slider.js';
 
+// Compound state encoding
+export {
+  getDimensionStateCounts,
+  encodeCompoundState,
+  decodeCompoundState,
+} from './compound.js';
+
+// Definition changes
+export {
+  findDefinitionIncompatibility,
+  assertDefinitionKeepsHistory,
+} from './definitionChange.js';
+
 // Validation schemas
 export {
   controlIdSchema,
   modelIdSchema,
+  initiatorSchema,
+  sliderBoundaryPolicySchema,
   sliderValue01Schema,
   radiobuttonDefinitionSchema,
+  sliderCurveSchema,
+  sliderScaleSchema,
   sliderDefinitionSchema,
+  simpleControlDefinitionSchema,
+  compoundDefinitionSchema,
   controlDefinitionSchema,
+  compoundDimensionValueSchema,
   discreteStateSchema,
+  controlRuntimeSchema,
+  committedChangeEventSchema,
 } from './validation.js';
 
 // API shapes
-export type { SetControlValueRequest } from './api.js';
-export { setControlValueRequestSchema } from './api.js';
+export type { SetControlValueRequest, CompoundDimensionRequest } from './api.js';
+export { setControlValueRequestSchema, compoundDimensionRequestSchema } from './api.js';
+
+// Set-value resolution
+export type { ResolvedControlValue } from './controlValue.js';
+export { resolveControlValue, buildStateRequest } from './controlValue.js';
@@ -4,11 +4,14 @@
 
 import { describe, it, expect } from 'vitest';
 import {
+  curveThresholds,
   discretizeSlider,
+  getSliderThresholds,
+  getStateCenter,
   type SliderBoundaryPolicy,
   DEFAULT_SLIDER_BOUNDARY_POLICY,
 } from './slider.js';
-import { createSliderValue01 } from './types.js';
+import { createSliderValue01, getStateCount } from './types.js';
 
 describe('discretizeSlider', () => {
   describe('endpoint values', () => {
@@ -153,3 +156,101 @@ describe('discretizeSlider', () => {
     });
   });
 });
+
+describe('discretizeSlider with custom thresholds', () => {
+  const thresholds = [0.1, 0.3];
+
+  it('maps endpoints to the first and last state', () => {
+    expect(discretizeSlider(createSliderValue01(0), 'roundDown', thresholds)).toBe(0);
+    expect(discretizeSlider(createSliderValue01(1), 'roundDown', thresholds)).toBe(4);
+  });
+
+  it('maps interior ranges between thresholds', () => {
+    expect(discretizeSlider(createSliderValue01(0.05), 'roundDown', thresholds)).toBe(1);
+    expect(discretizeSlider(createSliderValue01(0.2), 'roundDown', thresholds)).toBe(2);
+    expect(discretizeSlider(createSliderValue01(0.9), 'roundDown', thresholds)).toBe(3);
+  });
+
+  it('applies the boundary policy at thresholds', () => {
+    expect(discretizeSlider(createSliderValue01(0.1), 'roundDown', thresholds)).toBe(1);
+    expect(discretizeSlider(createSliderValue01(0.1), 'roundUp', thresholds)).toBe(2);
+  });
+
+  it('rounds to the nearer state center at uneven thresholds', () => {
+    // 0.3 lies between state 2 (center 0.2) and state 3 (center 0.65).
+    expect(discretizeSlider(createSliderValue01(0.3), 'roundNearest', thresholds)).toBe(2);
+    expect(discretizeSlider(createSliderValue01(0.3), 'roundNearestTiesUp', thresholds)).toBe(2);
+  });
+
+  it('supports a slider without interior thresholds', () => {
+    expect(discretizeSlider(createSliderValue01(0.5), 'roundDown', [])).toBe(1);
+    expect(discretizeSlider(createSliderValue01(1), 'roundDown', [])).toBe(2);
+  });
+});
+
+describe('getStateCenter', () => {
+  it('matches the quartile centers by default', () => {
+    expect([0, 1, 2, 3, 4, 5].map((state) => getStateCenter(state))).toEqual([
+      0, 0.125, 0.375, 0.625, 0.875, 1,
+    ]);
+  });
+
+  it('centers states between custom thresholds', () => {
+    expect([0, 1, 2, 3, 4].map((state) => getStateCenter(state, [0.1, 0.3]))).toEqual([
+      0, 0.05, 0.2, 0.65, 1,
+    ]);
+  });
+
+  it('rejects states outside the slider', () => {
+    expect(() => getStateCenter(6)).toThrow();
+    expect(() => getStateCenter(-1)).toThrow();
+  });
+});
+
+describe('curveThresholds', () => {
+  it('splits linear curves evenly', () => {
+    expect(curveThresholds({ kind: 'linear' }, 4)).toEqual([0.25, 0.5, 0.75]);
+  });
+
+  it('spaces logarithmic curves by equal output ratios', () => {
+    const thresholds = curveThresholds({ kind: 'logarithmic', dynamicRange: 100 }, 4);
+    expect(thresholds[0]).toBeCloseTo(0.0316, 4);
+    expect(thresholds[1]).toBeCloseTo(0.1, 10);
+    expect(thresholds[2]).toBeCloseTo(0.3162, 4);
+  });
+
+  it('spaces Kelvin curves by equal mired steps', () => {
+    // 2000 K = 500 mired, 6500 K ≈ 153.8 mired; the midpoint ≈ 326.9 mired ≈ 3059 K.
+    const [mid] = curveThresholds({ kind: 'kelvin', minKelvin: 2000, maxKelvin: 6500 }, 2);
+    expect(mid * 4500 + 2000).toBeCloseTo(3058.8, 1);
+  });
+
+  it('has no thresholds for a single interval', () => {
+    expect(curveThresholds({ kind: 'linear' }, 1)).toEqual([]);
+  });
+});
+
+describe('getSliderThresholds', () => {
+  it('defaults to quartiles with 6 states', () => {
+    expect(getSliderThresholds({ kind: 'slider' })).toEqual([0.25, 0.5, 0.75]);
+    expect(getStateCount({ kind: 'slider' })).toBe(6);
+  });
+
+  it('uses explicit thresholds', () => {
+    const definition = {
+      kind: 'slider' as const,
+      scale: { kind: 'thresholds' as const, thresholds: [0.1, 0.3] },
+    };
+    expect(getSliderThresholds(definition)).toEqual([0.1, 0.3]);
+    expect(getStateCount(definition)).toBe(5);
+  });
+
+  it('derives thresholds from a curve', () => {
+    const definition = {
+      kind: 'slider' as const,
+      scale: { kind: 'curve' as const, curve: { kind: 'linear' as const }, intervals: 2 },
+    };
+    expect(getSliderThresholds(definition)).toEqual([0.5]);
+    expect(getStateCount(definition)).toBe(4);
+  });
+});
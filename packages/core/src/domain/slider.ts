@@ -1,12 +1,14 @@
 /**
  * Slider discretization logic.
- * Maps continuous slider values [0, 1] to discrete analytics states [0, 5].
+ * Maps continuous slider values [0, 1] to discrete analytics states. The
+ * endpoints 0 and 1 are states of their own; the open range between them is
+ * split at the slider's interior thresholds (quartiles by default).
  */
 
-import type { SliderValue01 } from './types.js';
+import type { SliderCurve, SliderDefinition, SliderValue01 } from './types.js';
 
 /**
- * Policy for handling boundary values (0.25, 0.5, 0.75) when discretizing sliders.
+ * Policy for handling values that fall exactly on a threshold when discretizing sliders.
  */
 export type SliderBoundaryPolicy =
   | 'roundDown'
@@ -21,143 +23,162 @@ export type SliderBoundaryPolicy =
 export const DEFAULT_SLIDER_BOUNDARY_POLICY: SliderBoundaryPolicy = 'roundNearest';
 
 /**
- * Discretizes a continuous slider value [0, 1] into a discrete state [0, 5].
+ * Interior thresholds of a slider without a scale: the quartiles, giving the
+ * six states 0..5.
+ */
+export const DEFAULT_SLIDER_THRESHOLDS: readonly number[] = [0.25, 0.5, 0.75];
+
+/**
+ * Mired (micro reciprocal degree) per reciprocal Kelvin: mired = 1e6 / K.
+ */
+const MIRED_PER_KELVIN = 1e6;
+
+/**
+ * Interior thresholds of a slider, in increasing order. A slider with `n`
+ * thresholds has `n + 3` states.
+ */
+export function getSliderThresholds(definition: SliderDefinition): readonly number[] {
+  const { scale } = definition;
+  if (scale === undefined) {
+    return DEFAULT_SLIDER_THRESHOLDS;
+  }
+  if (scale.kind === 'thresholds') {
+    return scale.thresholds;
+  }
+  return curveThresholds(scale.curve, scale.intervals);
+}
+
+/**
+ * Splits (0, 1) into `intervals` ranges of equal perceived size under `curve`
+ * and returns the slider positions between them.
  *
- * Mapping rules:
+ * - `linear`: equal steps of the slider value.
+ * - `logarithmic`: equal ratios of output, from 1/dynamicRange up to full
+ *   output (perceived brightness is roughly logarithmic in luminance).
+ * - `kelvin`: the slider maps linearly from minKelvin to maxKelvin; steps are
+ *   equal in mired.
+ */
+export function curveThresholds(curve: SliderCurve, intervals: number): number[] {
+  const steps = Array.from({ length: intervals - 1 }, (_, k) => (k + 1) / intervals);
+  switch (curve.kind) {
+    case 'linear':
+      return steps;
+    case 'logarithmic':
+      return steps.map((step) => Math.pow(curve.dynamicRange, step - 1));
+    case 'kelvin': {
+      const { minKelvin, maxKelvin } = curve;
+      const minMired = MIRED_PER_KELVIN / minKelvin;
+      const maxMired = MIRED_PER_KELVIN / maxKelvin;
+      return steps.map((step) => {
+        const kelvin = MIRED_PER_KELVIN / (minMired + step * (maxMired - minMired));
+        return (kelvin - minKelvin) / (maxKelvin - minKelvin);
+      });
+    }
+  }
+}
+
+/**
+ * Discretizes a continuous slider value [0, 1] into a discrete state.
+ *
+ * Mapping rules, for thresholds t1 < … < tn (default 0.25, 0.5, 0.75):
  * - 0 → state 0
- * - 1 → state 5
- * - (0, 0.25) → state 1
- * - (0.25, 0.5) → state 2
- * - (0.5, 0.75) → state 3
- * - (0.75, 1) → state 4
+ * - 1 → state n + 2
+ * - (0, t1) → state 1, (t1, t2) → state 2, …, (tn, 1) → state n + 1
  *
- * Boundary behavior (at exactly 0.25, 0.5, 0.75) is determined by the policy:
+ * Boundary behavior (at exactly a threshold) is determined by the policy:
  * - `roundDown`: assign to lower state
  * - `roundUp`: assign to higher state
- * - `roundNearest`: round to nearest state (ties go to lower)
- * - `roundNearestTiesUp`: round to nearest state (ties go to higher)
+ * - `roundNearest`: round to nearest state center (ties go to lower)
+ * - `roundNearestTiesUp`: round to nearest state center (ties go to higher)
  *
  * @param value01 - Continuous slider value in [0, 1]
  * @param policy - Boundary rounding policy (required, no silent defaults)
- * @returns Discrete state in [0, 5]
+ * @param thresholds - Interior thresholds of the slider (see `getSliderThresholds`)
+ * @returns Discrete state in [0, thresholds.length + 2]
  */
 export function discretizeSlider(
   value01: SliderValue01,
-  policy: SliderBoundaryPolicy
+  policy: SliderBoundaryPolicy,
+  thresholds: readonly number[] = DEFAULT_SLIDER_THRESHOLDS
 ): number {
+  if (!(value01 >= 0 && value01 <= 1)) {
+    throw new Error(`Invalid slider value: ${value01}`);
+  }
   // Handle exact endpoints
   if (value01 === 0) {
     return 0;
   }
   if (value01 === 1) {
-    return 5;
+    return thresholds.length + 2;
   }
 
-  // Handle boundary values
-  if (value01 === 0.25) {
-    return handleBoundary(0.25, 1, 2, policy);
-  }
-  if (value01 === 0.5) {
-    return handleBoundary(0.5, 2, 3, policy);
-  }
-  if (value01 === 0.75) {
-    return handleBoundary(0.75, 3, 4, policy);
-  }
-
-  // Handle interior ranges
-  if (value01 > 0 && value01 < 0.25) {
-    return 1;
-  }
-  if (value01 > 0.25 && value01 < 0.5) {
-    return 2;
-  }
-  if (value01 > 0.5 && value01 < 0.75) {
-    return 3;
-  }
-  if (value01 > 0.75 && value01 < 1) {
-    return 4;
+  let state = 1;
+  for (const threshold of thresholds) {
+    if (value01 === threshold) {
+      return handleBoundary(value01, state, state + 1, policy, thresholds);
+    }
+    if (value01 < threshold) {
+      break;
+    }
+    state++;
   }
-
-  // This should never happen if value01 is in [0, 1]
-  throw new Error(`Invalid slider value: ${value01}`);
+  return state;
 }
 
 /**
- * Handles boundary value rounding according to the policy.
- * 
- * For boundaries:
- * - 0.25 is between state 1 (center ~0.125) and state 2 (center ~0.375)
- * - 0.5 is between state 2 (center ~0.375) and state 3 (center ~0.625)
- * - 0.75 is between state 3 (center ~0.625) and state 4 (center ~0.875)
+ * Handles threshold rounding according to the policy. A threshold lies
+ * between the state below it and the state above it; the nearest policies
+ * compare its distance to the two state centers.
  */
 function handleBoundary(
   value: number,
   lowerState: number,
   higherState: number,
-  policy: SliderBoundaryPolicy
+  policy: SliderBoundaryPolicy,
+  thresholds: readonly number[]
 ): number {
   switch (policy) {
     case 'roundDown':
       return lowerState;
     case 'roundUp':
       return higherState;
-    case 'roundNearest': {
-      // Calculate centers of the two states
-      const lowerCenter = getStateCenter(lowerState);
-      const higherCenter = getStateCenter(higherState);
-      const distToLower = Math.abs(value - lowerCenter);
-      const distToHigher = Math.abs(value - higherCenter);
-      if (distToLower < distToHigher) {
-        return lowerState;
-      } else if (distToHigher < distToLower) {
-        return higherState;
-      } else {
-        // Tie: go to lower
-        return lowerState;
-      }
-    }
+    case 'roundNearest':
     case 'roundNearestTiesUp': {
-      // Calculate centers of the two states
-      const lowerCenter = getStateCenter(lowerState);
-      const higherCenter = getStateCenter(higherState);
-      const distToLower = Math.abs(value - lowerCenter);
-      const distToHigher = Math.abs(value - higherCenter);
+      const distToLower = Math.abs(value - getStateCenter(lowerState, thresholds));
+      const distToHigher = Math.abs(value - getStateCenter(higherState, thresholds));
       if (distToLower < distToHigher) {
         return lowerState;
       } else if (distToHigher < distToLower) {
         return higherState;
-      } else {
-        // Tie: go to higher
-        return higherState;
       }
+      // Tie: the policy decides
+      return policy === 'roundNearest' ? lowerState : higherState;
     }
   }
 }
 
 /**
- * Gets the center value of a discrete state for rounding calculations.
- * State 0: center at 0
- * State 1: center at 0.125 (middle of (0, 0.25))
- * State 2: center at 0.375 (middle of (0.25, 0.5))
- * State 3: center at 0.625 (middle of (0.5, 0.75))
- * State 4: center at 0.875 (middle of (0.75, 1))
- * State 5: center at 1
+ * Gets the center value of a discrete slider state.
+ * State 0 is centered at 0 and the last state at 1; every other state at the
+ * middle of its range (with the default thresholds: 0.125, 0.375, 0.625, 0.875).
+ *
+ * @throws Error if the state does not exist for these thresholds
  */
-function getStateCenter(state: number): number {
-  switch (state) {
-    case 0:
-      return 0;
-    case 1:
-      return 0.125; // middle of (0, 0.25)
-    case 2:
-      return 0.375; // middle of (0.25, 0.5)
-    case 3:
-      return 0.625; // middle of (0.5, 0.75)
-    case 4:
-      return 0.875; // middle of (0.75, 1)
-    case 5:
-      return 1;
-    default:
-      throw new Error(`Invalid state: ${state}`);
+export function getStateCenter(
+  state: number,
+  thresholds: readonly number[] = DEFAULT_SLIDER_THRESHOLDS
+): number {
+  const lastState = thresholds.length + 2;
+  if (!Number.isInteger(state) || state < 0 || state > lastState) {
+    throw new Error(`Invalid state: ${state}`);
+  }
+  if (state === 0) {
+    return 0;
+  }
+  if (state === lastState) {
+    return 1;
   }
+  const lower = state === 1 ? 0 : thresholds[state - 2];
+  const upper = state === lastState - 1 ? 1 : thresholds[state - 1];
+  return (lower + upper) / 2;
 }
@@ -3,6 +3,8 @@
  * These types represent the fundamental building blocks of the system.
  */
 
+import { getSliderThresholds } from './slider.js';
+
 /**
  * Branded type for control identifiers.
  * Provides type safety to distinguish control IDs from other strings.
@@ -15,10 +17,16 @@ export type ControlId = string & { readonly __brand: 'ControlId' };
  */
 export type ModelId = string & { readonly __brand: 'ModelId' };
 
+/**
+ * Who initiated a state change.
+ * Only user-initiated changes are recorded as transitions.
+ */
+export type Initiator = 'user' | 'model';
+
 /**
  * Type of control (discriminated union discriminator).
  */
-export type ControlKind = 'radiobutton' | 'slider';
+export type ControlKind = 'radiobutton' | 'slider' | 'compound';
 
 /**
  * Definition for a radiobutton control.
@@ -37,29 +45,90 @@ export interface RadiobuttonDefinition {
   readonly labels: readonly string[];
 }
 
+/**
+ * Perceptual curve of a slider: how slider positions relate to how different
+ * two settings feel.
+ * - `linear`: perceived change is proportional to slider travel.
+ * - `logarithmic`: the slider sets output (e.g. lamp brightness) linearly but
+ *   perception follows its logarithm; `dynamicRange` is full output divided by
+ *   the dimmest output worth distinguishing (> 1).
+ * - `kelvin`: the slider sets color temperature linearly from `minKelvin` to
+ *   `maxKelvin`; perception follows mired (1e6 / Kelvin).
+ */
+export type SliderCurve =
+  | { readonly kind: 'linear' }
+  | { readonly kind: 'logarithmic'; readonly dynamicRange: number }
+  | { readonly kind: 'kelvin'; readonly minKelvin: number; readonly maxKelvin: number };
+
+/**
+ * How a slider's open range (0, 1) is split into states.
+ * - `thresholds`: explicit interior thresholds, strictly increasing in (0, 1).
+ * - `curve`: `intervals` ranges of equal perceived size under `curve`.
+ */
+export type SliderScale =
+  | { readonly kind: 'thresholds'; readonly thresholds: readonly number[] }
+  | { readonly kind: 'curve'; readonly curve: SliderCurve; readonly intervals: number };
+
 /**
  * Definition for a slider control.
- * A slider is continuous in the UI but discretized into 6 states (0..5) for analytics.
+ * A slider is continuous in the UI but discretized for analytics: 0 and 1 are
+ * states of their own and the range between them is split at the interior
+ * thresholds of its scale. Without a scale the thresholds are the quartiles,
+ * giving 6 states (0..5). A slider has between 3 and 10 states.
  */
 export interface SliderDefinition {
   readonly kind: 'slider';
   /**
-   * Optional labels for the 6 discrete states.
-   * If provided, must have exactly 6 elements (indexed 0..5).
+   * Optional labels for the discrete states.
+   * If provided, must have exactly one element per state (see `getStateCount`).
    */
   readonly labels?: readonly string[];
+  /**
+   * Optional custom split of the slider range (quartiles if absent).
+   */
+  readonly scale?: SliderScale;
+}
+
+/**
+ * Definition of a single-dimension control (a radiobutton or a slider).
+ */
+export type SimpleControlDefinition = RadiobuttonDefinition | SliderDefinition;
+
+/**
+ * One dimension of a compound control.
+ */
+export interface CompoundDimension {
+  /**
+   * Name of the dimension, unique within the control (e.g. "brightness").
+   */
+  readonly name: string;
+  readonly control: SimpleControlDefinition;
+}
+
+/**
+ * Definition for a compound control: 2-3 coupled settings that users change
+ * together (e.g. color temperature and brightness of one lamp).
+ * Its joint discrete state is the product of the dimensions' states, encoded
+ * mixed-radix with the first dimension most significant (see
+ * `encodeCompoundState`). At most 100 joint states.
+ */
+export interface CompoundDefinition {
+  readonly kind: 'compound';
+  readonly dimensions: readonly CompoundDimension[];
 }
 
 /**
  * Control definition (discriminated union).
- * Each control must be either a radiobutton or a slider.
+ * Each control must be a radiobutton, a slider or a compound of them.
  */
-export type ControlDefinition = RadiobuttonDefinition | SliderDefinition;
+export type ControlDefinition = SimpleControlDefinition | CompoundDefinition;
 
 /**
  * Discrete state value.
  * For radiobuttons: integer in [0, numStates-1]
- * For sliders: integer in [0, 5]
+ * For sliders: integer in [0, number of states - 1] (default [0, 5])
+ * For compound controls: the joint state, integer in [0, product of the
+ * dimensions' state counts - 1]
  */
 export type DiscreteState = number;
 
@@ -70,6 +139,90 @@ export type DiscreteState = number;
  */
 export type SliderValue01 = number & { readonly __brand: 'SliderValue01' };
 
+/**
+ * The value of one dimension of a compound control.
+ */
+export interface CompoundDimensionValue {
+  /**
+   * Discrete state of the dimension (for sliders, derived from `value01`).
+   */
+  readonly discreteState: DiscreteState;
+  /**
+   * Continuous slider value. Present for slider dimensions only.
+   */
+  readonly value01?: SliderValue01;
+}
+
+/**
+ * Per-control runtime state.
+ * "Current" values may change on every (uncommitted) update for multi-client sync;
+ * "last committed" values are what drive analytics.
+ */
+export interface ControlRuntime {
+  readonly controlId: ControlId;
+  readonly kind: ControlKind;
+  /**
+   * Model currently responsible for automating this control.
+   */
+  readonly activeModelId: ModelId;
+  /**
+   * Current discrete state (for sliders, derived from currentValue01; for
+   * compound controls, the joint state of currentDimensions).
+   */
+  readonly currentDiscreteState: DiscreteState;
+  /**
+   * Current continuous slider value. Present for sliders only.
+   */
+  readonly currentValue01?: SliderValue01;
+  /**
+   * Current value per dimension. Present for compound controls only.
+   */
+  readonly currentDimensions?: CompoundDimensionValue[];
+  /**
+   * Server time (Unix ms) when the current value last changed.
+   */
+  readonly lastUpdatedAtMs: number;
+  /**
+   * Server time (Unix ms) of the last committed change; start of the open holding interval.
+   */
+  readonly lastCommittedAtMs: number;
+  /**
+   * Discrete state of the last committed change; state held over the open holding interval.
+   */
+  readonly lastCommittedDiscreteState: DiscreteState;
+}
+
+/**
+ * A committed state change (append-only log entry).
+ * Only committed changes produce analytics events.
+ */
+export interface CommittedChangeEvent {
+  readonly controlId: ControlId;
+  /**
+   * When the change happened (Unix ms): the client's or device's time where
+   * it reports one, server time otherwise.
+   */
+  readonly tsMs: number;
+  readonly fromDiscreteState: DiscreteState;
+  readonly toDiscreteState: DiscreteState;
+  readonly initiator: Initiator;
+  /**
+   * Model active at commit time.
+   */
+  readonly activeModelId: ModelId;
+  /**
+   * Committed continuous slider value. Present for sliders only; the discrete
+   * states are derived from it with the boundary policy in force at commit
+   * time and can be re-derived under another policy.
+   */
+  readonly value01?: SliderValue01;
+  /**
+   * Committed value per dimension (the to-side). Present for compound
+   * controls only; `toDiscreteState` is their joint state.
+   */
+  readonly dimensions?: CompoundDimensionValue[];
+}
+
 /**
  * Type guard to check if a value is a valid SliderValue01.
  */
@@ -86,3 +239,45 @@ export function createSliderValue01(value: number): SliderValue01 {
   }
   return value as SliderValue01;
 }
+
+/**
+ * Number of discrete analytics states of a control
+ * (numStates for radiobuttons; for sliders, interior thresholds + 3; for
+ * compound controls, the product of the dimensions' counts).
+ */
+export function getStateCount(definition: ControlDefinition): number {
+  switch (definition.kind) {
+    case 'radiobutton':
+      return definition.numStates;
+    case 'slider':
+      return getSliderThresholds(definition).length + 3;
+    case 'compound':
+      return definition.dimensions.reduce(
+        (count, dimension) => count * getStateCount(dimension.control),
+        1
+      );
+  }
+}
+
+/**
+ * Display label per discrete state, indexed by state.
+ * Sliders without labels fall back to "State N"; compound states join their
+ * dimensions' labels (e.g. "Warm / Dim").
+ */
+export function getStateLabels(definition: ControlDefinition): string[] {
+  if (definition.kind === 'compound') {
+    return definition.dimensions.reduce<string[]>(
+      (joint, dimension) =>
+        joint.flatMap((prefix) =>
+          getStateLabels(dimension.control).map((label) =>
+            prefix === '' ? label : `${prefix} / ${label}`
+          )
+        ),
+      ['']
+    );
+  }
+  if (definition.labels !== undefined) {
+    return [...definition.labels];
+  }
+  return Array.from({ length: getStateCount(definition) }, (_, state) => `State ${state}`);
+}
@@ -11,6 +11,10 @@ import {
   sliderDefinitionSchema,
   controlDefinitionSchema,
   discreteStateSchema,
+  initiatorSchema,
+  sliderBoundaryPolicySchema,
+  controlRuntimeSchema,
+  committedChangeEventSchema,
 } from './validation.js';
 import type { ControlDefinition } from './types.js';
 
@@ -149,6 +153,61 @@ describe('sliderDefinitionSchema', () => {
     };
     expect(() => sliderDefinitionSchema.parse(invalid2)).toThrow();
   });
+  it('accepts a custom scale with one label per state', () => {
+    const valid = {
+      kind: 'slider' as const,
+      labels: ['Off', 'Glow', 'Dim', 'Bright', 'Full'],
+      scale: { kind: 'thresholds' as const, thresholds: [0.05, 0.3] },
+    };
+    expect(sliderDefinitionSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects labels that do not match the scale', () => {
+    const invalid = {
+      kind: 'slider' as const,
+      labels: ['Dim', 'Low', 'Medium', 'High', 'Very High', 'Bright'],
+      scale: { kind: 'thresholds' as const, thresholds: [0.05, 0.3] },
+    };
+    expect(() => sliderDefinitionSchema.parse(invalid)).toThrow();
+    expect(() => controlDefinitionSchema.parse(invalid)).toThrow();
+  });
+
+  it('rejects thresholds that are not strictly increasing in (0, 1)', () => {
+    for (const thresholds of [[0.5, 0.5], [0.6, 0.3], [0, 0.5], [0.5, 1]]) {
+      expect(() =>
+        sliderDefinitionSchema.parse({ kind: 'slider', scale: { kind: 'thresholds', thresholds } })
+      ).toThrow();
+    }
+  });
+
+  it('rejects scales with more than 10 states', () => {
+    const thresholds = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8];
+    expect(() =>
+      sliderDefinitionSchema.parse({ kind: 'slider', scale: { kind: 'thresholds', thresholds } })
+    ).toThrow();
+    expect(() =>
+      sliderDefinitionSchema.parse({
+        kind: 'slider',
+        scale: { kind: 'curve', curve: { kind: 'linear' }, intervals: 9 },
+      })
+    ).toThrow();
+  });
+
+  it('validates curve parameters', () => {
+    const scale = (curve: unknown) => ({
+      kind: 'slider',
+      scale: { kind: 'curve', curve, intervals: 4 },
+    });
+    expect(() =>
+      sliderDefinitionSchema.parse(scale({ kind: 'logarithmic', dynamicRange: 100 }))
+    ).not.toThrow();
+    expect(() =>
+      sliderDefinitionSchema.parse(scale({ kind: 'logarithmic', dynamicRange: 1 }))
+    ).toThrow();
+    expect(() =>
+      sliderDefinitionSchema.parse(scale({ kind: 'kelvin', minKelvin: 2700, maxKelvin: 2700 }))
+    ).toThrow();
+  });
 });
 
 describe('controlDefinitionSchema', () => {
@@ -178,6 +237,45 @@ describe('controlDefinitionSchema', () => {
   });
 });
 
+describe('compound definitions', () => {
+  const temperature = {
+    name: 'temperature',
+    control: { kind: 'radiobutton' as const, numStates: 2, labels: ['Warm', 'Cool'] },
+  };
+  const brightness = { name: 'brightness', control: { kind: 'slider' as const } };
+
+  it('accepts a compound of radiobutton and slider dimensions', () => {
+    const valid = { kind: 'compound' as const, dimensions: [temperature, brightness] };
+    expect(controlDefinitionSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('requires 2-3 dimensions with unique names', () => {
+    expect(() =>
+      controlDefinitionSchema.parse({ kind: 'compound', dimensions: [temperature] })
+    ).toThrow();
+    expect(() =>
+      controlDefinitionSchema.parse({ kind: 'compound', dimensions: [temperature, temperature] })
+    ).toThrow();
+  });
+
+  it('validates each dimension like a control', () => {
+    const badLabels = { ...temperature, control: { ...temperature.control, labels: ['Warm'] } };
+    expect(() =>
+      controlDefinitionSchema.parse({ kind: 'compound', dimensions: [badLabels, brightness] })
+    ).toThrow();
+  });
+
+  it('rejects more than 100 joint states', () => {
+    const ten = { kind: 'radiobutton' as const, numStates: 10, labels: Array(10).fill('S') };
+    const dimensions = [
+      { name: 'a', control: ten },
+      { name: 'b', control: ten },
+      { name: 'c', control: { kind: 'radiobutton' as const, numStates: 2, labels: ['x', 'y'] } },
+    ];
+    expect(() => controlDefinitionSchema.parse({ kind: 'compound', dimensions })).toThrow();
+  });
+});
+
 describe('discreteStateSchema', () => {
   describe('for radiobutton', () => {
     const definition: ControlDefinition = {
@@ -229,8 +327,98 @@ describe('discreteStateSchema', () => {
       expect(() => schema.parse(10)).toThrow();
     });
 
+    it('follows the state count of a custom scale', () => {
+      const custom = discreteStateSchema({
+        kind: 'slider',
+        scale: { kind: 'thresholds', thresholds: [0.1, 0.3] },
+      });
+      expect(custom.parse(4)).toBe(4);
+      expect(() => custom.parse(5)).toThrow();
+    });
+
     it('rejects non-integers', () => {
       expect(() => schema.parse(1.5)).toThrow();
     });
   });
 });
+
+describe('initiatorSchema', () => {
+  it('accepts user and model', () => {
+    expect(initiatorSchema.parse('user')).toBe('user');
+    expect(initiatorSchema.parse('model')).toBe('model');
+  });
+
+  it('rejects other initiators', () => {
+    expect(() => initiatorSchema.parse('system')).toThrow();
+  });
+});
+
+describe('sliderBoundaryPolicySchema', () => {
+  it('accepts every policy', () => {
+    for (const policy of ['roundDown', 'roundUp', 'roundNearest', 'roundNearestTiesUp']) {
+      expect(sliderBoundaryPolicySchema.parse(policy)).toBe(policy);
+    }
+  });
+
+  it('rejects unknown policies', () => {
+    expect(() => sliderBoundaryPolicySchema.parse('roundRandom')).toThrow();
+  });
+});
+
+describe('controlRuntimeSchema', () => {
+  const base = {
+    controlId: 'lamp',
+    activeModelId: 'model-a',
+    currentDiscreteState: 2,
+    lastUpdatedAtMs: 1000,
+    lastCommittedAtMs: 900,
+    lastCommittedDiscreteState: 5,
+  };
+
+  it('accepts slider runtime with currentValue01', () => {
+    const valid = { ...base, kind: 'slider', currentValue01: 0.3 };
+    expect(controlRuntimeSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('accepts radiobutton runtime without currentValue01', () => {
+    const valid = { ...base, kind: 'radiobutton' };
+    expect(controlRuntimeSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects slider runtime without currentValue01', () => {
+    expect(() => controlRuntimeSchema.parse({ ...base, kind: 'slider' })).toThrow();
+  });
+
+  it('rejects radiobutton runtime with currentValue01', () => {
+    expect(() =>
+      controlRuntimeSchema.parse({ ...base, kind: 'radiobutton', currentValue01: 0.3 })
+    ).toThrow();
+  });
+});
+
+describe('committedChangeEventSchema', () => {
+  const valid = {
+    controlId: 'lamp',
+    tsMs: 1000,
+    fromDiscreteState: 5,
+    toDiscreteState: 2,
+    initiator: 'user',
+    activeModelId: 'model-a',
+  };
+
+  it('accepts a valid event', () => {
+    expect(committedChangeEventSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects a missing model', () => {
+    expect(() => committedChangeEventSchema.parse({ ...valid, activeModelId: '' })).toThrow();
+  });
+
+  it('accepts a slider value in [0, 1] only', () => {
+    expect(committedChangeEventSchema.parse({ ...valid, value01: 0.25 })).toEqual({
+      ...valid,
+      value01: 0.25,
+    });
+    expect(() => committedChangeEventSchema.parse({ ...valid, value01: 1.5 })).toThrow();
+  });
+});
@@ -7,21 +7,29 @@ import type {
   ControlId,
   ModelId,
   ControlDefinition,
+  ControlRuntime,
+  CommittedChangeEvent,
+  CompoundDefinition,
+  CompoundDimensionValue,
   RadiobuttonDefinition,
+  SimpleControlDefinition,
+  SliderCurve,
   SliderDefinition,
+  SliderScale,
   SliderValue01,
 } from './types.js';
-import { createSliderValue01 } from './types.js';
+import { createSliderValue01, getStateCount } from './types.js';
+import type { SliderBoundaryPolicy } from './slider.js';
 
 /**
  * Schema for ControlId (non-empty string).
  */
-export const controlIdSchema = z.string().min(1) as z.ZodType<ControlId>;
+export const controlIdSchema = z.string().min(1) as unknown as z.ZodType<ControlId>;
 
 /**
  * Schema for ModelId (non-empty string).
  */
-export const modelIdSchema = z.string().min(1) as z.ZodType<ModelId>;
+export const modelIdSchema = z.string().min(1) as unknown as z.ZodType<ModelId>;
 
 /**
  * Schema for SliderValue01 (number in [0, 1]).
@@ -30,7 +38,22 @@ export const sliderValue01Schema = z
   .number()
   .min(0)
   .max(1)
-  .transform((val) => createSliderValue01(val)) as z.ZodType<SliderValue01>;
+  .transform((val) => createSliderValue01(val)) as unknown as z.ZodType<SliderValue01>;
+
+/**
+ * Schema for Initiator ("user" | "model").
+ */
+export const initiatorSchema = z.enum(['user', 'model']);
+
+/**
+ * Schema for SliderBoundaryPolicy.
+ */
+export const sliderBoundaryPolicySchema: z.ZodType<SliderBoundaryPolicy> = z.enum([
+  'roundDown',
+  'roundUp',
+  'roundNearest',
+  'roundNearestTiesUp',
+]);
 
 /**
  * Base schema for RadiobuttonDefinition (without refine).
@@ -55,17 +78,128 @@ export const radiobuttonDefinitionSchema = radiobuttonDefinitionSchemaBase.refin
 );
 
 /**
- * Schema for SliderDefinition.
- * Validates optional labels (if provided, must have exactly 6 elements).
+ * Most interior thresholds a slider may have (10 states, like radiobuttons).
+ */
+const MAX_SLIDER_THRESHOLDS = 7;
+
+/**
+ * Schema for SliderCurve.
+ * Kelvin curves need two distinct temperatures (either may be the warmer end).
+ */
+export const sliderCurveSchema = z
+  .discriminatedUnion('kind', [
+    z.object({ kind: z.literal('linear') }),
+    z.object({ kind: z.literal('logarithmic'), dynamicRange: z.number().gt(1) }),
+    z.object({
+      kind: z.literal('kelvin'),
+      minKelvin: z.number().positive(),
+      maxKelvin: z.number().positive(),
+    }),
+  ])
+  .refine((curve) => curve.kind !== 'kelvin' || curve.minKelvin !== curve.maxKelvin, {
+    message: 'minKelvin and maxKelvin must differ',
+  }) as z.ZodType<SliderCurve>;
+
+/**
+ * Schema for SliderScale.
+ * Thresholds must be strictly increasing in (0, 1); a scale yields at most
+ * 10 states.
+ */
+export const sliderScaleSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('thresholds'),
+    thresholds: z
+      .array(z.number().gt(0).lt(1))
+      .max(MAX_SLIDER_THRESHOLDS)
+      .refine((thresholds) => thresholds.every((t, k) => k === 0 || t > thresholds[k - 1]), {
+        message: 'thresholds must be strictly increasing',
+      }),
+  }),
+  z.object({
+    kind: z.literal('curve'),
+    curve: sliderCurveSchema,
+    intervals: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SLIDER_THRESHOLDS + 1),
+  }),
+]) as unknown as z.ZodType<SliderScale>;
+
+/**
+ * Base schema for SliderDefinition (without refine), for discriminatedUnion.
  */
-export const sliderDefinitionSchema = z.object({
+const sliderDefinitionSchemaBase = z.object({
   kind: z.literal('slider'),
-  labels: z
-    .array(z.string())
-    .length(6)
-    .optional(),
+  labels: z.array(z.string()).optional(),
+  scale: sliderScaleSchema.optional(),
 });
 
+/**
+ * Whether a definition's labels (if any) name exactly its states.
+ */
+function labelsMatchStateCount(definition: ControlDefinition): boolean {
+  return (
+    definition.kind === 'compound' ||
+    definition.labels === undefined ||
+    definition.labels.length === getStateCount(definition)
+  );
+}
+
+/**
+ * Schema for SliderDefinition.
+ * Validates optional labels (if provided, must have one element per state of
+ * the slider's scale; 6 without a scale).
+ */
+export const sliderDefinitionSchema = sliderDefinitionSchemaBase.refine(labelsMatchStateCount, {
+  message: 'labels array must have exactly one element per state',
+  path: ['labels'],
+});
+
+/**
+ * Schema for SimpleControlDefinition (radiobutton or slider), e.g. one
+ * dimension of a compound control.
+ */
+export const simpleControlDefinitionSchema = z
+  .discriminatedUnion('kind', [radiobuttonDefinitionSchemaBase, sliderDefinitionSchemaBase])
+  .refine(labelsMatchStateCount, {
+    message: 'labels array must have exactly one element per state',
+    path: ['labels'],
+  }) as unknown as z.ZodType<SimpleControlDefinition>;
+
+/**
+ * Most joint states of a compound control.
+ */
+const MAX_COMPOUND_STATES = 100;
+
+/**
+ * Base schema for CompoundDefinition (without refine), for discriminatedUnion.
+ * Dimension names must be unique and the joint state count at most 100.
+ */
+const compoundDefinitionSchemaBase = z.object({
+  kind: z.literal('compound'),
+  dimensions: z
+    .array(z.object({ name: z.string().min(1), control: simpleControlDefinitionSchema }))
+    .min(2)
+    .max(3)
+    .refine(
+      (dimensions) => new Set(dimensions.map(({ name }) => name)).size === dimensions.length,
+      { message: 'dimension names must be unique' }
+    )
+    .refine(
+      (dimensions) =>
+        dimensions.reduce((count, dimension) => count * getStateCount(dimension.control), 1) <=
+        MAX_COMPOUND_STATES,
+      { message: `compound controls may have at most ${MAX_COMPOUND_STATES} joint states` }
+    ),
+});
+
+/**
+ * Schema for CompoundDefinition.
+ */
+export const compoundDefinitionSchema =
+  compoundDefinitionSchemaBase as unknown as z.ZodType<CompoundDefinition>;
+
 /**
  * Schema for ControlDefinition (discriminated union).
  * Uses the base schema for radiobutton (without refine) so discriminatedUnion can access the kind property.
@@ -73,19 +207,12 @@ export const sliderDefinitionSchema = z.object({
  */
 export const controlDefinitionSchema = z.discriminatedUnion('kind', [
   radiobuttonDefinitionSchemaBase,
-  sliderDefinitionSchema,
-]).refine(
-  (data) => {
-    if (data.kind === 'radiobutton') {
-      return data.labels.length === data.numStates;
-    }
-    return true;
-  },
-  {
-    message: 'labels array must have exactly numStates elements',
-    path: ['labels'],
-  }
-);
+  sliderDefinitionSchemaBase,
+  compoundDefinitionSchemaBase,
+]).refine(labelsMatchStateCount, {
+  message: 'labels array must have exactly one element per state',
+  path: ['labels'],
+}) as unknown as z.ZodType<ControlDefinition>;
 
 /**
  * Creates a schema for validating discrete states given a control definition.
@@ -103,7 +230,61 @@ export function discreteStateSchema(
       .min(0)
       .max(definition.numStates - 1);
   } else {
-    // Slider: states 0..5
-    return z.number().int().min(0).max(5);
+    // Slider: states 0..(thresholds + 2); compound: joint states
+    return z
+      .number()
+      .int()
+      .min(0)
+      .max(getStateCount(definition) - 1);
   }
 }
+
+/**
+ * Schema for CompoundDimensionValue.
+ */
+export const compoundDimensionValueSchema = z.object({
+  discreteState: z.number().int().min(0),
+  value01: sliderValue01Schema.optional(),
+}) as unknown as z.ZodType<CompoundDimensionValue>;
+
+/**
+ * Schema for ControlRuntime.
+ * Validates that `currentValue01` is present for sliders only and
+ * `currentDimensions` for compound controls only.
+ * Discrete states are only checked for shape here; range checks need the
+ * control definition (see `discreteStateSchema`).
+ */
+export const controlRuntimeSchema = z
+  .object({
+    controlId: controlIdSchema,
+    kind: z.enum(['radiobutton', 'slider', 'compound']),
+    activeModelId: modelIdSchema,
+    currentDiscreteState: z.number().int().min(0),
+    currentValue01: sliderValue01Schema.optional(),
+    currentDimensions: z.array(compoundDimensionValueSchema).optional(),
+    lastUpdatedAtMs: z.number(),
+    lastCommittedAtMs: z.number(),
+    lastCommittedDiscreteState: z.number().int().min(0),
+  })
+  .refine((data) => (data.kind === 'slider') === (data.currentValue01 !== undefined), {
+    message: 'currentValue01 must be present for sliders and absent for other controls',
+    path: ['currentValue01'],
+  })
+  .refine((data) => (data.kind === 'compound') === (data.currentDimensions !== undefined), {
+    message: 'currentDimensions must be present for compound controls and absent for others',
+    path: ['currentDimensions'],
+  }) as unknown as z.ZodType<ControlRuntime>;
+
+/**
+ * Schema for CommittedChangeEvent.
+ */
+export const committedChangeEventSchema = z.object({
+  controlId: controlIdSchema,
+  tsMs: z.number(),
+  fromDiscreteState: z.number().int().min(0),
+  toDiscreteState: z.number().int().min(0),
+  initiator: initiatorSchema,
+  activeModelId: modelIdSchema,
+  value01: sliderValue01Schema.optional(),
+  dimensions: z.array(compoundDimensionValueSchema).optional(),
+}) as unknown as z.ZodType<CommittedChangeEvent>;
@@ -0,0 +1,106 @@
+/**
+ * Tests for the rolling-origin clock backtest.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateClocks, type ClockEvaluationInput } from './backtest.js';
+import type { CommittedChangeEvent } from '../domain/index.js';
+import { CLOCK_IDS, type ClockLocation } from '../clocks/index.js';
+import type { PreferenceSettings } from '../inference/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const newYork: ClockLocation = {
+  timezone: 'America/New_York',
+  latitude: 40.7128,
+  longitude: -74.006,
+};
+
+const settings: PreferenceSettings = {
+  kde: { kernel: 'gaussian', bandwidthMinutes: 20, windowMinutes: 90 },
+  ctmc: { rateEstimator: 'pseudocount', pseudoTransitions: 0.05, pseudoHoldMinutes: 0.5 },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' } },
+};
+
+/**
+ * A user who follows local wall-clock time every day across the March DST
+ * change: 07:00 → state 2, 09:00 → state 1, 22:00 → state 0.
+ */
+function wallClockRoutine(): CommittedChangeEvent[] {
+  const events: CommittedChangeEvent[] = [];
+  const schedule: [number, number, number][] = [
+    [7, 0, 2],
+    [9, 2, 1],
+    [22, 1, 0],
+  ];
+  // 2024-02-25 to 2024-03-23 (US DST starts 2024-03-10).
+  for (let day = 0; day < 28; day++) {
+    const offsetHours = day < 14 ? 5 : 4;
+    for (const [hour, from, to] of schedule) {
+      events.push({
+        controlId: 'control-1' as any,
+        tsMs: Date.UTC(2024, 1, 25) + day * DAY_MS + (hour + offsetHours) * HOUR_MS,
+        fromDiscreteState: from,
+        toDiscreteState: to,
+        initiator: 'user',
+        activeModelId: 'model-a' as any,
+      });
+    }
+  }
+  return events;
+}
+
+function input(overrides: Partial<ClockEvaluationInput> = {}): ClockEvaluationInput {
+  return {
+    events: wallClockRoutine(),
+    numStates: 3,
+    location: newYork,
+    settings,
+    metric: 'occupancyCalibration',
+    folds: 1,
+    confidenceLevel: 0.95,
+    ...overrides,
+  };
+}
+
+describe('evaluateClocks', () => {
+  it('ranks local time above UTC for a wall-clock routine (calibration)', () => {
+    const report = evaluateClocks(input());
+    expect(report.higherIsBetter).toBe(false);
+    const ranking = report.aggregate.clocks;
+    expect(ranking.map((score) => score.rank)).toEqual([1, 2, 3, 4, 5]);
+    expect([...ranking.map((score) => score.clockId)].sort()).toEqual([...CLOCK_IDS].sort());
+    const local = ranking.find((score) => score.clockId === 'local')!;
+    const utc = ranking.find((score) => score.clockId === 'utc')!;
+    expect(local.rank).toBe(1);
+    expect(local.mean!).toBeLessThan(utc.mean!);
+    expect(local.ciLow!).toBeLessThanOrEqual(local.mean!);
+    expect(local.ciHigh!).toBeGreaterThanOrEqual(local.mean!);
+  });
+
+  it('ranks local time above UTC by transition log-likelihood', () => {
+    const report = evaluateClocks(input({ metric: 'transitionLogLikelihood' }));
+    expect(report.higherIsBetter).toBe(true);
+    const ranking = report.aggregate.clocks;
+    expect(ranking[0].clockId).toBe('local');
+    expect(ranking.find((score) => score.clockId === 'local')!.units).toBeGreaterThan(0);
+  });
+
+  it('ranks clocks per model', () => {
+    const report = evaluateClocks(input());
+    expect(report.models.map((ranking) => ranking.modelId)).toEqual(['model-a']);
+    expect(report.models[0].clocks).toHaveLength(5);
+  });
+
+  it('returns unranked scores without history', () => {
+    const report = evaluateClocks(input({ events: [] }));
+    expect(report.aggregate.clocks.every((score) => score.mean === null)).toBe(true);
+    expect(report.models).toEqual([]);
+  });
+
+  it('rejects invalid folds and confidence levels', () => {
+    expect(() => evaluateClocks(input({ folds: 0 }))).toThrow();
+    expect(() => evaluateClocks(input({ confidenceLevel: 1 }))).toThrow();
+  });
+});
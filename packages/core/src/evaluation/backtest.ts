@@ -0,0 +1,197 @@
+/**
+ * Rolling-origin backtest that ranks the five clocks (MANUAL.md treats the
+ * clocks as an experiment; this answers which one best predicts the user).
+ *
+ * The span of the event history is cut into `folds + 1` equal segments.
+ * Fold f trains on everything before the start of segment f (an expanding
+ * window) and scores segment f, so every prediction is made only from data
+ * that was available at the time.
+ */
+
+import type { CommittedChangeEvent, ModelId } from '../domain/index.js';
+import type { ModelActivation } from '../models/index.js';
+import { BUCKETS_PER_WEEK, createBucketId, type BucketId } from '../time/index.js';
+import { CLOCK_IDS, type ClockId, type ClockLocation } from '../clocks/index.js';
+import { stationaryAtBucketCenters, type PreferenceSettings } from '../inference/index.js';
+import { buildStatsFromHistory, reconstructHistory, sliceHistory } from './history.js';
+import { getClockEvaluationMetric } from './metrics.js';
+import { summarizeUnits } from './statistics.js';
+import type {
+  ClockEvaluationMetric,
+  ClockEvaluationMetricName,
+  ClockEvaluationReport,
+  ClockRanking,
+  ClockScore,
+  EventHistory,
+  ScoredUnit,
+} from './types.js';
+
+/**
+ * Input for `evaluateClocks`.
+ */
+export interface ClockEvaluationInput {
+  /**
+   * Committed events of one control (any order).
+   */
+  readonly events: readonly CommittedChangeEvent[];
+  /**
+   * The control's model activations, ascending by time (see
+   * `reconstructHistory`).
+   */
+  readonly activations?: readonly ModelActivation[];
+  /**
+   * The control's quarantined events, which break the history (see
+   * `reconstructHistory`).
+   */
+  readonly quarantined?: readonly CommittedChangeEvent[];
+  /**
+   * Longest holding interval counted (see `reconstructHistory`). Unlimited
+   * by default.
+   */
+  readonly maxHoldMs?: number;
+  readonly numStates: number;
+  readonly location: ClockLocation;
+  readonly settings: PreferenceSettings;
+  /**
+   * Registered metric name, or a custom metric.
+   */
+  readonly metric: ClockEvaluationMetricName | ClockEvaluationMetric;
+  /**
+   * Number of rolling origins (held-out segments), at least 1.
+   */
+  readonly folds: number;
+  /**
+   * Two-sided confidence level for score intervals, in (0, 1).
+   */
+  readonly confidenceLevel: number;
+}
+
+const ALL_BUCKETS: readonly BucketId[] = Array.from({ length: BUCKETS_PER_WEEK }, (_, b) =>
+  createBucketId(b)
+);
+
+/**
+ * Scores and ranks the clocks for a control, for all models together and for
+ * each model on its own data.
+ *
+ * @throws Error if `folds` is not a positive integer or the confidence level
+ *   is outside (0, 1)
+ */
+export function evaluateClocks(input: ClockEvaluationInput): ClockEvaluationReport {
+  const { folds, confidenceLevel } = input;
+  if (!Number.isInteger(folds) || folds < 1) {
+    throw new Error(`folds must be a positive integer, got ${folds}`);
+  }
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new Error(`confidenceLevel must be in (0, 1), got ${confidenceLevel}`);
+  }
+  const metric =
+    typeof input.metric === 'string' ? getClockEvaluationMetric(input.metric) : input.metric;
+
+  const history = reconstructHistory(
+    input.events,
+    input.activations,
+    input.quarantined,
+    input.maxHoldMs
+  );
+  const origins = foldOrigins(input.events, folds);
+  const modelIds = [
+    ...new Set([...history.intervals, ...history.transitions].map((entry) => entry.modelId)),
+  ].sort();
+
+  const rank = (modelId: ModelId | null, scoped: EventHistory): ClockRanking => ({
+    modelId,
+    clocks: rankClocks(backtest(scoped, origins, metric, input), metric, confidenceLevel),
+  });
+
+  return {
+    higherIsBetter: metric.higherIsBetter,
+    folds,
+    confidenceLevel,
+    aggregate: rank(null, history),
+    models: modelIds.map((modelId) =>
+      rank(modelId, {
+        intervals: history.intervals.filter((interval) => interval.modelId === modelId),
+        transitions: history.transitions.filter((transition) => transition.modelId === modelId),
+      })
+    ),
+  };
+}
+
+/**
+ * Segment boundaries: `folds + 2` timestamps from the first event to just
+ * after the last. Empty when there are no events.
+ */
+function foldOrigins(events: readonly CommittedChangeEvent[], folds: number): number[] {
+  if (events.length === 0) {
+    return [];
+  }
+  // A loop rather than spreading into Math.min/max, which overflows the
+  // stack for long histories
+  let startMs = Infinity;
+  let lastMs = -Infinity;
+  for (const { tsMs } of events) {
+    startMs = Math.min(startMs, tsMs);
+    lastMs = Math.max(lastMs, tsMs);
+  }
+  const endMs = lastMs + 1;
+  return Array.from(
+    { length: folds + 2 },
+    (_, k) => startMs + ((endMs - startMs) * k) / (folds + 1)
+  );
+}
+
+/**
+ * Scored units per clock, pooled over all folds.
+ */
+function backtest(
+  history: EventHistory,
+  origins: readonly number[],
+  metric: ClockEvaluationMetric,
+  { numStates, location, settings }: ClockEvaluationInput
+): Record<ClockId, ScoredUnit[]> {
+  const units = Object.fromEntries(CLOCK_IDS.map((id) => [id, [] as ScoredUnit[]])) as Record<
+    ClockId,
+    ScoredUnit[]
+  >;
+  for (let f = 1; f + 1 < origins.length; f++) {
+    const training = sliceHistory(history, -Infinity, origins[f]);
+    const test = sliceHistory(history, origins[f], origins[f + 1]);
+    if (test.intervals.length === 0 && test.transitions.length === 0) {
+      continue;
+    }
+    const stats = buildStatsFromHistory(training, numStates, location);
+    for (const clockId of CLOCK_IDS) {
+      const predictions = stationaryAtBucketCenters(stats[clockId], ALL_BUCKETS, settings);
+      units[clockId].push(
+        ...metric.score({
+          clockId,
+          location,
+          predict: (bucketId) => predictions[bucketId],
+          test,
+        })
+      );
+    }
+  }
+  return units;
+}
+
+function rankClocks(
+  units: Record<ClockId, ScoredUnit[]>,
+  metric: ClockEvaluationMetric,
+  confidenceLevel: number
+): ClockScore[] {
+  const scored = CLOCK_IDS.map((clockId) => ({
+    clockId,
+    units: units[clockId].length,
+    ...summarizeUnits(units[clockId], confidenceLevel),
+  }));
+  const direction = metric.higherIsBetter ? -1 : 1;
+  scored.sort((a, b) => {
+    if (a.mean === null || b.mean === null) {
+      return a.mean === null ? (b.mean === null ? 0 : 1) : -1;
+    }
+    return direction * (a.mean - b.mean);
+  });
+  return scored.map((score, k) => ({ ...score, rank: k + 1 }));
+}
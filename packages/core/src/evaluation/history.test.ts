@@ -0,0 +1,161 @@
+/**
+ * Tests for event-history reconstruction.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildStatsFromHistory, reconstructHistory, sliceHistory } from './history.js';
+import type { CommittedChangeEvent } from '../domain/index.js';
+import type { ClockLocation } from '../clocks/index.js';
+import { toBucketId } from '../time/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const t0 = Date.UTC(2024, 0, 1, 18, 0);
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+function event(
+  minutes: number,
+  fromDiscreteState: number,
+  toDiscreteState: number,
+  initiator: 'user' | 'model',
+  activeModelId = 'model-a'
+): CommittedChangeEvent {
+  return {
+    controlId: 'control-1' as any,
+    tsMs: t0 + minutes * MINUTE_MS,
+    fromDiscreteState,
+    toDiscreteState,
+    initiator,
+    activeModelId: activeModelId as any,
+  };
+}
+
+describe('reconstructHistory', () => {
+  const events = [
+    event(20, 1, 2, 'model', 'model-b'),
+    event(0, 0, 1, 'user'),
+    event(30, 2, 2, 'user', 'model-b'),
+    event(45, 2, 0, 'user', 'model-b'),
+  ];
+
+  it('builds intervals between consecutive commits attributed to the closing model', () => {
+    const { intervals } = reconstructHistory(events);
+    expect(intervals).toEqual([
+      { t0Ms: t0, t1Ms: t0 + 20 * MINUTE_MS, state: 1, modelId: 'model-b' },
+      { t0Ms: t0 + 20 * MINUTE_MS, t1Ms: t0 + 30 * MINUTE_MS, state: 2, modelId: 'model-b' },
+      { t0Ms: t0 + 30 * MINUTE_MS, t1Ms: t0 + 45 * MINUTE_MS, state: 2, modelId: 'model-b' },
+    ]);
+  });
+
+  it('splits intervals at model activation changes', () => {
+    const { intervals } = reconstructHistory(events, [
+      {
+        controlId: 'control-1' as any,
+        modelId: 'model-b' as any,
+        previousModelId: 'model-a' as any,
+        version: 1,
+        activatedAtMs: t0 + 5 * MINUTE_MS,
+      },
+    ]);
+    expect(intervals.slice(0, 2)).toEqual([
+      { t0Ms: t0, t1Ms: t0 + 5 * MINUTE_MS, state: 1, modelId: 'model-a' },
+      { t0Ms: t0 + 5 * MINUTE_MS, t1Ms: t0 + 20 * MINUTE_MS, state: 1, modelId: 'model-b' },
+    ]);
+  });
+
+  it('keeps only user-initiated changes between different states as transitions', () => {
+    const { transitions } = reconstructHistory(events);
+    expect(transitions.map((t) => [t.fromState, t.toState])).toEqual([
+      [0, 1],
+      [2, 0],
+    ]);
+  });
+});
+
+describe('reconstructHistory with a broken log', () => {
+  it('skips intervals whose closing event does not continue from the previous state', () => {
+    // A quarantined 1 → 2 change at minute 10 was never logged.
+    const { intervals, transitions } = reconstructHistory([
+      event(0, 0, 1, 'user'),
+      event(20, 2, 0, 'user'),
+      event(30, 0, 1, 'user'),
+    ]);
+    expect(intervals).toEqual([
+      { t0Ms: t0 + 20 * MINUTE_MS, t1Ms: t0 + 30 * MINUTE_MS, state: 0, modelId: 'model-a' },
+    ]);
+    expect(transitions).toHaveLength(3);
+  });
+
+  it('restarts the history at a quarantined event, as live ingestion did', () => {
+    // Live ingestion quarantined the unchanged 1 → 1 commit 10 h later (its
+    // device clock ran ahead) and counted nothing before it.
+    const logged = [event(0, 0, 1, 'user'), event(610, 1, 0, 'user')];
+    const gap = event(600, 1, 1, 'user');
+
+    expect(reconstructHistory(logged).intervals).toEqual([
+      { t0Ms: t0, t1Ms: t0 + 610 * MINUTE_MS, state: 1, modelId: 'model-a' },
+    ]);
+    const { intervals, transitions } = reconstructHistory(logged, [], [gap]);
+    expect(intervals).toEqual([
+      { t0Ms: t0 + 600 * MINUTE_MS, t1Ms: t0 + 610 * MINUTE_MS, state: 1, modelId: 'model-a' },
+    ]);
+    expect(transitions).toHaveLength(2);
+  });
+
+  it('cuts intervals to maxHoldMs, as live ingestion counted them', () => {
+    const logged = [event(0, 0, 1, 'user'), event(610, 1, 0, 'user')];
+    const { intervals, transitions } = reconstructHistory(logged, [], [], 60 * MINUTE_MS);
+    expect(intervals).toEqual([
+      { t0Ms: t0, t1Ms: t0 + 60 * MINUTE_MS, state: 1, modelId: 'model-a' },
+    ]);
+    expect(transitions).toHaveLength(2);
+  });
+
+  it('continues from the state a quarantined event moved to', () => {
+    const { intervals } = reconstructHistory(
+      [event(0, 0, 1, 'user'), event(20, 2, 0, 'user')],
+      [],
+      [event(10, 1, 2, 'user', 'unregistered')]
+    );
+    expect(intervals).toEqual([
+      { t0Ms: t0 + 10 * MINUTE_MS, t1Ms: t0 + 20 * MINUTE_MS, state: 2, modelId: 'model-a' },
+    ]);
+  });
+
+  it('takes a quarantined event at the same timestamp as a logged one to come first', () => {
+    const { intervals } = reconstructHistory(
+      [event(0, 0, 1, 'user'), event(10, 1, 2, 'user'), event(20, 2, 0, 'user')],
+      [],
+      [event(10, 1, 1, 'user')]
+    );
+    expect(intervals).toEqual([
+      { t0Ms: t0 + 10 * MINUTE_MS, t1Ms: t0 + 20 * MINUTE_MS, state: 2, modelId: 'model-a' },
+    ]);
+  });
+});
+
+describe('sliceHistory', () => {
+  it('clips intervals to the slice and filters transitions', () => {
+    const history = reconstructHistory([event(0, 0, 1, 'user'), event(60, 1, 0, 'user')]);
+    const slice = sliceHistory(history, t0 + 30 * MINUTE_MS, t0 + 90 * MINUTE_MS);
+    expect(slice.intervals).toEqual([
+      { t0Ms: t0 + 30 * MINUTE_MS, t1Ms: t0 + 60 * MINUTE_MS, state: 1, modelId: 'model-a' },
+    ]);
+    expect(slice.transitions).toHaveLength(1);
+  });
+});
+
+describe('buildStatsFromHistory', () => {
+  it('buckets holding time and transitions like live ingestion', () => {
+    const history = reconstructHistory([event(0, 0, 1, 'user'), event(10, 1, 0, 'user')]);
+    const stats = buildStatsFromHistory(history, 2, london);
+    const utc = stats.utc.buckets;
+    expect(utc.get(toBucketId(0, 18, 0))?.holdMs).toEqual([0, 5 * MINUTE_MS]);
+    expect(utc.get(toBucketId(0, 18, 0))?.transCounts[0][1]).toBe(1);
+    expect(utc.get(toBucketId(0, 18, 10))?.transCounts[1][0]).toBe(1);
+  });
+});
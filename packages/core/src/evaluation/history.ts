@@ -0,0 +1,141 @@
+/**
+ * Reconstruction of holding intervals and transitions from the committed
+ * event log, and training statistics built from them.
+ */
+
+import type { CommittedChangeEvent } from '../domain/index.js';
+import { CLOCK_IDS, type ClockId, type ClockLocation } from '../clocks/index.js';
+import { mapTransitionToBuckets, splitHolding } from '../measurement/index.js';
+import { splitIntervalByActivation, type ModelActivation } from '../models/index.js';
+import type { HoldMsEntry, TransCountEntry } from '../measurement/index.js';
+import { buildClockBucketStats, type ClockBucketStats } from '../inference/index.js';
+import type { EventHistory, HistoryInterval, HistoryTransition } from './types.js';
+
+type HoldRow = Pick<HoldMsEntry, 'bucketId' | 'state' | 'ms'>;
+type TransRow = Pick<TransCountEntry, 'bucketId' | 'fromState' | 'toState' | 'count'>;
+
+/**
+ * Rebuilds the history of one control from its committed events, using the
+ * same counting rules as live ingestion: each interval between consecutive
+ * commits holds the earlier commit's state, and only user-initiated changes
+ * between different states are transitions. Time before the first event and
+ * after the last one is unknown and not included.
+ *
+ * A quarantined event was never logged, but live ingestion moved the
+ * control's runtime to it, so it breaks the history as it broke live
+ * ingestion (and replay, see `replayEventBatch`): the next interval starts at
+ * the quarantined event, in its to-state, and the time before it is skipped.
+ * A quarantined event at the same timestamp as a logged one is taken to come
+ * first. An interval whose closing event does not continue from the previous
+ * (logged or quarantined) event's state is skipped as well: the log is broken
+ * there, and the state held is unknown.
+ *
+ * An interval longer than `maxHoldMs` is cut to its first `maxHoldMs`, as
+ * live ingestion counts it (see `deriveCommitAnalytics`).
+ *
+ * With `activations` (ascending by time), an interval spanning a model
+ * activation change is split there so each part is attributed to the model
+ * active during it; otherwise intervals belong to the closing event's model.
+ */
+export function reconstructHistory(
+  events: readonly CommittedChangeEvent[],
+  activations: readonly ModelActivation[] = [],
+  quarantined: readonly CommittedChangeEvent[] = [],
+  maxHoldMs: number = Infinity
+): EventHistory {
+  const sorted = [...events].sort((a, b) => a.tsMs - b.tsMs);
+  const markers = [...quarantined].sort((a, b) => a.tsMs - b.tsMs);
+  const intervals: HistoryInterval[] = [];
+  const transitions: HistoryTransition[] = [];
+
+  let previous: CommittedChangeEvent | undefined;
+  let nextMarker = 0;
+  for (const event of sorted) {
+    for (; nextMarker < markers.length && markers[nextMarker].tsMs <= event.tsMs; nextMarker++) {
+      previous = markers[nextMarker];
+    }
+    if (
+      previous !== undefined &&
+      event.tsMs > previous.tsMs &&
+      event.fromDiscreteState === previous.toDiscreteState
+    ) {
+      const spans = splitIntervalByActivation(
+        previous.tsMs,
+        Math.min(event.tsMs, previous.tsMs + maxHoldMs),
+        activations,
+        event.activeModelId
+      );
+      for (const { t0Ms, t1Ms, modelId } of spans) {
+        intervals.push({ t0Ms, t1Ms, state: previous.toDiscreteState, modelId });
+      }
+    }
+    if (event.initiator === 'user' && event.fromDiscreteState !== event.toDiscreteState) {
+      transitions.push({
+        tsMs: event.tsMs,
+        fromState: event.fromDiscreteState,
+        toState: event.toDiscreteState,
+        modelId: event.activeModelId,
+      });
+    }
+    previous = event;
+  }
+  return { intervals, transitions };
+}
+
+/**
+ * Restricts a history to `[startMs, endMs)`, clipping intervals that straddle
+ * either end.
+ */
+export function sliceHistory(history: EventHistory, startMs: number, endMs: number): EventHistory {
+  return {
+    intervals: history.intervals.flatMap((interval) => {
+      const t0Ms = Math.max(interval.t0Ms, startMs);
+      const t1Ms = Math.min(interval.t1Ms, endMs);
+      return t0Ms < t1Ms ? [{ ...interval, t0Ms, t1Ms }] : [];
+    }),
+    transitions: history.transitions.filter((t) => t.tsMs >= startMs && t.tsMs < endMs),
+  };
+}
+
+/**
+ * Buckets a history into per-clock statistics, as the aggregate tables would
+ * hold them had only this history been ingested.
+ */
+export function buildStatsFromHistory(
+  history: EventHistory,
+  numStates: number,
+  location: ClockLocation
+): Record<ClockId, ClockBucketStats> {
+  const holdRows = Object.fromEntries(CLOCK_IDS.map((id) => [id, [] as HoldRow[]])) as Record<
+    ClockId,
+    HoldRow[]
+  >;
+  const transRows = Object.fromEntries(CLOCK_IDS.map((id) => [id, [] as TransRow[]])) as Record<
+    ClockId,
+    TransRow[]
+  >;
+
+  for (const { t0Ms, t1Ms, state } of history.intervals) {
+    const split = splitHolding({ t0Ms, t1Ms, state, location });
+    for (const clockId of CLOCK_IDS) {
+      for (const { bucketId, ms } of split.clocks[clockId]) {
+        holdRows[clockId].push({ bucketId, state, ms });
+      }
+    }
+  }
+  for (const { tsMs, fromState, toState } of history.transitions) {
+    const buckets = mapTransitionToBuckets(tsMs, location);
+    for (const clockId of CLOCK_IDS) {
+      const bucketId = buckets[clockId];
+      if (bucketId !== undefined) {
+        transRows[clockId].push({ bucketId, fromState, toState, count: 1 });
+      }
+    }
+  }
+
+  const result = {} as Record<ClockId, ClockBucketStats>;
+  for (const clockId of CLOCK_IDS) {
+    result[clockId] = buildClockBucketStats(numStates, holdRows[clockId], transRows[clockId]);
+  }
+  return result;
+}
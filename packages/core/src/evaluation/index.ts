@@ -0,0 +1,40 @@
+/**
+ * Evaluation module public exports.
+ * Backtests that score how well each clock predicts user interventions.
+ */
+
+// Types
+export type {
+  HistoryInterval,
+  HistoryTransition,
+  EventHistory,
+  ClockEvaluationMetricName,
+  EvaluationContext,
+  ScoredUnit,
+  ClockEvaluationMetric,
+  ClockScore,
+  ClockRanking,
+  ClockEvaluationReport,
+} from './types.js';
+
+// Event history
+export { reconstructHistory, sliceHistory, buildStatsFromHistory } from './history.js';
+
+// Metrics
+export {
+  transitionLogLikelihood,
+  occupancyCalibration,
+  CLOCK_EVALUATION_METRICS,
+  getClockEvaluationMetric,
+} from './metrics.js';
+
+// Statistics
+export type { WeightedSummary } from './statistics.js';
+export { summarizeUnits, normalQuantile } from './statistics.js';
+
+// Backtest
+export type { ClockEvaluationInput } from './backtest.js';
+export { evaluateClocks } from './backtest.js';
+
+// Validation schemas
+export { clockEvaluationMetricNameSchema } from './validation.js';
@@ -0,0 +1,89 @@
+/**
+ * Clock evaluation metrics.
+ */
+
+import { mapTimestampToBucket } from '../clocks/index.js';
+import type { BucketId } from '../time/index.js';
+import { splitHoldInterval } from '../measurement/index.js';
+import { divergence } from '../inference/index.js';
+import type {
+  ClockEvaluationMetric,
+  ClockEvaluationMetricName,
+  EvaluationContext,
+  ScoredUnit,
+} from './types.js';
+
+/**
+ * Probability floor so that a zero prediction yields a finite (very poor)
+ * log-likelihood instead of −∞.
+ */
+const MIN_PROBABILITY = 1e-12;
+
+/**
+ * Held-out log-likelihood of user transitions: for each transition i → j,
+ * ln P(j | leaving i) = ln(π_j / (1 − π_i)) under the stationary distribution
+ * π predicted for the transition's bucket. Transitions at times where the
+ * clock is undefined are not scored.
+ */
+export const transitionLogLikelihood: ClockEvaluationMetric = {
+  higherIsBetter: true,
+  score: ({ clockId, location, predict, test }: EvaluationContext): ScoredUnit[] =>
+    test.transitions.flatMap(({ tsMs, fromState, toState }) => {
+      const bucketId = mapTimestampToBucket(clockId, tsMs, location);
+      if (bucketId === undefined) {
+        return [];
+      }
+      const pi = predict(bucketId);
+      const leaving = Math.max(1 - pi[fromState], MIN_PROBABILITY);
+      const probability = Math.max(pi[toState] / leaving, MIN_PROBABILITY);
+      return [{ score: Math.log(Math.min(probability, 1)), weight: 1 }];
+    }),
+};
+
+/**
+ * Calibration of the stationary distribution against observed occupancy: per
+ * bucket, total variation between π and the fraction of held-out time spent
+ * in each state, weighted by the time observed in that bucket.
+ */
+export const occupancyCalibration: ClockEvaluationMetric = {
+  higherIsBetter: false,
+  score: ({ clockId, location, predict, test }: EvaluationContext): ScoredUnit[] => {
+    const occupancy = new Map<BucketId, Map<number, number>>();
+    for (const { t0Ms, t1Ms, state } of test.intervals) {
+      for (const { bucketId, ms } of splitHoldInterval({ t0Ms, t1Ms, clockId, location })) {
+        const byState = occupancy.get(bucketId) ?? new Map<number, number>();
+        byState.set(state, (byState.get(state) ?? 0) + ms);
+        occupancy.set(bucketId, byState);
+      }
+    }
+    return Array.from(occupancy, ([bucketId, byState]) => {
+      const pi = predict(bucketId);
+      const totalMs = [...byState.values()].reduce((sum, ms) => sum + ms, 0);
+      const observed = pi.map((_, state) => (byState.get(state) ?? 0) / totalMs);
+      return { score: divergence('totalVariation', pi, observed), weight: totalMs };
+    });
+  },
+};
+
+/**
+ * Registered evaluation metrics by name.
+ */
+export const CLOCK_EVALUATION_METRICS: Readonly<
+  Record<ClockEvaluationMetricName, ClockEvaluationMetric>
+> = {
+  transitionLogLikelihood,
+  occupancyCalibration,
+};
+
+/**
+ * Resolves an evaluation metric by name.
+ *
+ * @throws Error if no metric is registered under `name`
+ */
+export function getClockEvaluationMetric(name: ClockEvaluationMetricName): ClockEvaluationMetric {
+  const metric = CLOCK_EVALUATION_METRICS[name];
+  if (metric === undefined) {
+    throw new Error(`Unknown clock evaluation metric: ${name}`);
+  }
+  return metric;
+}
@@ -0,0 +1,49 @@
+/**
+ * Tests for evaluation summary statistics.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalQuantile, summarizeUnits } from './statistics.js';
+
+describe('normalQuantile', () => {
+  it('matches standard normal quantiles', () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+
+  it('rejects probabilities outside (0, 1)', () => {
+    expect(() => normalQuantile(0)).toThrow();
+    expect(() => normalQuantile(1)).toThrow();
+  });
+});
+
+describe('summarizeUnits', () => {
+  it('returns nulls without units', () => {
+    expect(summarizeUnits([], 0.95)).toEqual({ mean: null, ciLow: null, ciHigh: null });
+  });
+
+  it('computes a weighted mean and a symmetric interval', () => {
+    const summary = summarizeUnits(
+      [
+        { score: 1, weight: 1 },
+        { score: 3, weight: 1 },
+        { score: 2, weight: 2 },
+      ],
+      0.95
+    );
+    expect(summary.mean).toBeCloseTo(2, 12);
+    expect(summary.ciLow).toBeLessThan(2);
+    expect(summary.ciHigh! - 2).toBeCloseTo(2 - summary.ciLow!, 12);
+  });
+
+  it('narrows the interval with more units', () => {
+    const few = Array.from({ length: 4 }, (_, k) => ({ score: k % 2, weight: 1 }));
+    const many = Array.from({ length: 400 }, (_, k) => ({ score: k % 2, weight: 1 }));
+    const width = (units: typeof few) => {
+      const { ciLow, ciHigh } = summarizeUnits(units, 0.95);
+      return ciHigh! - ciLow!;
+    };
+    expect(width(many)).toBeLessThan(width(few));
+  });
+});
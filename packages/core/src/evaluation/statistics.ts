@@ -0,0 +1,100 @@
+/**
+ * Summary statistics for evaluation scores.
+ */
+
+import type { ScoredUnit } from './types.js';
+
+/**
+ * Weighted mean with a normal-approximation confidence interval.
+ * The standard error uses the effective sample size (Σw)² / Σw².
+ */
+export interface WeightedSummary {
+  readonly mean: number | null;
+  readonly ciLow: number | null;
+  readonly ciHigh: number | null;
+}
+
+/**
+ * Summarizes scored units.
+ *
+ * @param units - Scored units (weights must be non-negative)
+ * @param confidenceLevel - Two-sided level in (0, 1), e.g. 0.95
+ */
+export function summarizeUnits(
+  units: readonly ScoredUnit[],
+  confidenceLevel: number
+): WeightedSummary {
+  const totalWeight = units.reduce((sum, unit) => sum + unit.weight, 0);
+  if (units.length === 0 || totalWeight <= 0) {
+    return { mean: null, ciLow: null, ciHigh: null };
+  }
+  const mean = units.reduce((sum, unit) => sum + unit.weight * unit.score, 0) / totalWeight;
+  if (units.length < 2) {
+    return { mean, ciLow: null, ciHigh: null };
+  }
+  const variance =
+    units.reduce((sum, unit) => sum + unit.weight * (unit.score - mean) ** 2, 0) / totalWeight;
+  const sumSquaredWeights = units.reduce((sum, unit) => sum + unit.weight ** 2, 0);
+  const effectiveN = (totalWeight * totalWeight) / sumSquaredWeights;
+  const halfWidth = normalQuantile(0.5 + confidenceLevel / 2) * Math.sqrt(variance / effectiveN);
+  return { mean, ciLow: mean - halfWidth, ciHigh: mean + halfWidth };
+}
+
+/**
+ * Inverse CDF of the standard normal distribution (Acklam's rational
+ * approximation, relative error below 1.2e-9).
+ *
+ * @throws Error if `p` is not in (0, 1)
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new Error(`Probability must be in (0, 1), got ${p}`);
+  }
+  const a = [
+    -39.69683028665376,
+    220.9460984245205,
+    -275.9285104469687,
+    138.357751867269,
+    -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406,
+    161.5858368580409,
+    -155.6989798598866,
+    66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293,
+    -0.3223964580411365,
+    -2.400758277161838,
+    -2.549732539343734,
+    4.374664141464968,
+    2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462,
+    0.3224671290700398,
+    2.445134137142996,
+    3.754408661907416,
+  ];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
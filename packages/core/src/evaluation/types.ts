@@ -0,0 +1,122 @@
+/**
+ * Clock evaluation types.
+ * MANUAL.md leaves the clock evaluation objective TBD, so metrics are
+ * pluggable and selected by name per evaluation.
+ */
+
+import type { DiscreteState, ModelId } from '../domain/index.js';
+import type { BucketId } from '../time/index.js';
+import type { ClockId, ClockLocation } from '../clocks/index.js';
+
+/**
+ * A stretch of time during which the control held one committed state,
+ * attributed to the model active when it ended (as in live ingestion).
+ */
+export interface HistoryInterval {
+  readonly t0Ms: number;
+  readonly t1Ms: number;
+  readonly state: DiscreteState;
+  readonly modelId: ModelId;
+}
+
+/**
+ * A user-initiated committed change between two different states.
+ */
+export interface HistoryTransition {
+  readonly tsMs: number;
+  readonly fromState: DiscreteState;
+  readonly toState: DiscreteState;
+  readonly modelId: ModelId;
+}
+
+/**
+ * Holding intervals and user transitions reconstructed from the event log.
+ */
+export interface EventHistory {
+  readonly intervals: readonly HistoryInterval[];
+  readonly transitions: readonly HistoryTransition[];
+}
+
+/**
+ * Registered evaluation metric names.
+ * - `transitionLogLikelihood`: mean log-probability of the state a user moved
+ *   to, higher is better
+ * - `occupancyCalibration`: time-weighted total variation between predicted
+ *   stationary distributions and observed occupancy, lower is better
+ */
+export type ClockEvaluationMetricName = 'transitionLogLikelihood' | 'occupancyCalibration';
+
+/**
+ * What a metric sees for one clock and one held-out segment.
+ */
+export interface EvaluationContext {
+  readonly clockId: ClockId;
+  readonly location: ClockLocation;
+  /**
+   * Stationary distribution predicted from the training data at a bucket.
+   */
+  readonly predict: (bucketId: BucketId) => readonly number[];
+  /**
+   * Held-out history to score.
+   */
+  readonly test: EventHistory;
+}
+
+/**
+ * One scored unit (e.g. a transition or a bucket of occupancy) with its weight.
+ */
+export interface ScoredUnit {
+  readonly score: number;
+  readonly weight: number;
+}
+
+/**
+ * Pluggable evaluation metric.
+ */
+export interface ClockEvaluationMetric {
+  readonly higherIsBetter: boolean;
+  readonly score: (context: EvaluationContext) => ScoredUnit[];
+}
+
+/**
+ * Score of one clock, with a confidence interval for the mean.
+ */
+export interface ClockScore {
+  readonly clockId: ClockId;
+  /**
+   * 1 = best. Clocks without any scored units rank last.
+   */
+  readonly rank: number;
+  readonly mean: number | null;
+  /**
+   * Confidence interval bounds; null with fewer than two units.
+   */
+  readonly ciLow: number | null;
+  readonly ciHigh: number | null;
+  /**
+   * Number of scored units across all folds.
+   */
+  readonly units: number;
+}
+
+/**
+ * Clock ranking for one model, or for all models together (`modelId: null`).
+ */
+export interface ClockRanking {
+  readonly modelId: ModelId | null;
+  /**
+   * Scores ordered by rank.
+   */
+  readonly clocks: readonly ClockScore[];
+}
+
+/**
+ * Result of a clock evaluation for one control.
+ */
+export interface ClockEvaluationReport {
+  readonly higherIsBetter: boolean;
+  readonly folds: number;
+  readonly confidenceLevel: number;
+  readonly aggregate: ClockRanking;
+  readonly models: readonly ClockRanking[];
+}
@@ -0,0 +1,13 @@
+/**
+ * Zod validation schemas for clock evaluation options.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for ClockEvaluationMetricName.
+ */
+export const clockEvaluationMetricNameSchema = z.enum([
+  'transitionLogLikelihood',
+  'occupancyCalibration',
+]);
@@ -14,3 +14,48 @@ export function hello(): string {
  * Re-export all domain types, validation schemas, and utilities.
  */
 export * from './domain/index.js';
+
+/**
+ * Re-export time-of-week bucket indexing.
+ */
+export * from './time/index.js';
+
+/**
+ * Re-export the five clock mappings.
+ */
+export * from './clocks/index.js';
+
+/**
+ * Re-export calendar-quarter partitioning and retention windows.
+ */
+export * from './retention/index.js';
+
+/**
+ * Re-export the model registry and per-control activation history.
+ */
+export * from './models/index.js';
+
+/**
+ * Re-export measurement operations (holding-interval splitting).
+ */
+export * from './measurement/index.js';
+
+/**
+ * Re-export event-log replay (aggregate rebuilds).
+ */
+export * from './replay/index.js';
+
+/**
+ * Re-export system configuration types and schemas.
+ */
+export * from './config/index.js';
+
+/**
+ * Re-export inference utilities (KDE smoothing).
+ */
+export * from './inference/index.js';
+
+/**
+ * Re-export clock evaluation (backtests ranking the clocks).
+ */
+export * from './evaluation/index.js';
@@ -0,0 +1,109 @@
+/**
+ * Tests for the per-model convergence report.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildConvergenceReport, type ConvergenceReportInput } from './convergence.js';
+import { buildClockBucketStats, type ClockBucketStats } from './kde/index.js';
+import type { PreferenceSettings } from './preference.js';
+import { CLOCK_IDS, type ClockId } from '../clocks/index.js';
+import { BUCKETS_PER_WEEK, createBucketId } from '../time/index.js';
+import type { ModelId } from '../domain/index.js';
+
+const settings: PreferenceSettings = {
+  kde: { kernel: 'gaussian', bandwidthMinutes: 60 },
+  ctmc: { rateEstimator: 'maximumLikelihood' },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' } },
+};
+
+/**
+ * Week-long two-state data where state 1 is held `ratio` times longer than
+ * state 0, with `transitions` transitions each way per bucket.
+ */
+function weekStats(ratio: number, transitions: number): ClockBucketStats {
+  const holdRows = [];
+  const transRows = [];
+  for (let b = 0; b < BUCKETS_PER_WEEK; b++) {
+    const bucketId = createBucketId(b);
+    holdRows.push({ bucketId, state: 0, ms: 1000 }, { bucketId, state: 1, ms: 1000 * ratio });
+    transRows.push(
+      { bucketId, fromState: 0, toState: 1, count: transitions },
+      { bucketId, fromState: 1, toState: 0, count: transitions }
+    );
+  }
+  return buildClockBucketStats(2, holdRows, transRows);
+}
+
+function allClocks(stats: ClockBucketStats): Record<ClockId, ClockBucketStats> {
+  return Object.fromEntries(CLOCK_IDS.map((clockId) => [clockId, stats])) as Record<
+    ClockId,
+    ClockBucketStats
+  >;
+}
+
+function input(
+  models: Record<string, ClockBucketStats>,
+  aggregate: ClockBucketStats,
+  overrides: Partial<ConvergenceReportInput> = {}
+): ConvergenceReportInput {
+  return {
+    aggregate: allClocks(aggregate),
+    byModel: new Map(
+      Object.entries(models).map(([modelId, stats]) => [modelId as ModelId, allClocks(stats)])
+    ),
+    settings,
+    metric: 'totalVariation',
+    stepBuckets: 144,
+    minEffectiveTransitions: 5,
+    ...overrides,
+  };
+}
+
+describe('buildConvergenceReport', () => {
+  it('reports near-zero divergence when models agree', () => {
+    const report = buildConvergenceReport(
+      input({ a: weekStats(3, 1), b: weekStats(3, 2) }, weekStats(3, 3))
+    );
+    expect(report.models).toEqual(['a', 'b']);
+    for (const clockId of CLOCK_IDS) {
+      const { buckets, summary } = report.clocks[clockId];
+      expect(buckets).toHaveLength(BUCKETS_PER_WEEK / 144);
+      expect(buckets[0].pairs).toHaveLength(1);
+      expect(summary.meanPairDivergence).toBeCloseTo(0, 9);
+      expect(summary.meanSufficientPairDivergence).toBeCloseTo(0, 9);
+    }
+  });
+
+  it('reports divergence when models disagree', () => {
+    const report = buildConvergenceReport(
+      input({ a: weekStats(1, 2), b: weekStats(9, 2) }, weekStats(5, 4), {
+        metric: 'jensenShannon',
+      })
+    );
+    const { summary } = report.clocks.utc;
+    expect(summary.meanPairDivergence).toBeGreaterThan(0.1);
+    expect(summary.models.map((m) => m.meanAggregateDivergence! > 0)).toEqual([true, true]);
+  });
+
+  it('flags under-observed models as insufficient', () => {
+    const report = buildConvergenceReport(
+      input({ busy: weekStats(3, 2), quiet: weekStats(3, 0) }, weekStats(3, 2))
+    );
+    const bucket = report.clocks.local.buckets[0];
+    expect(bucket.sufficiency.map((s) => s.sufficient)).toEqual([true, false]);
+    expect(bucket.pairs[0].bothSufficient).toBe(false);
+    expect(report.clocks.local.summary.meanSufficientPairDivergence).toBeNull();
+    expect(report.clocks.local.summary.models[0].sufficientBucketFraction).toBe(1);
+  });
+
+  it('has no pairwise means with a single model', () => {
+    const report = buildConvergenceReport(input({ only: weekStats(2, 1) }, weekStats(2, 1)));
+    expect(report.clocks.utc.summary.meanPairDivergence).toBeNull();
+  });
+
+  it('rejects a non-positive step', () => {
+    expect(() =>
+      buildConvergenceReport(input({}, weekStats(1, 1), { stepBuckets: 0 }))
+    ).toThrow();
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Per-model convergence report (MANUAL.md "Models"): for a given control,
+ * stationary distributions estimated from different models' data should tend
+ * to agree within each (clock, bucket). The report measures how far they
+ * diverge from each other and from the aggregate, and flags where a model is
+ * simply under-observed.
+ */
+
+import type { ModelId } from '../domain/index.js';
+import { BUCKETS_PER_WEEK, createBucketId, type BucketId } from '../time/index.js';
+import { CLOCK_IDS, type ClockId } from '../clocks/index.js';
+import {
+  cyclicKernelMass,
+  smoothAtBucketCenters,
+  type ClockBucketStats,
+  type SufficientStats,
+} from './kde/index.js';
+import { buildGenerator, solveStationary } from './ctmc/index.js';
+import { divergence, type DivergenceMetric } from './divergence.js';
+import { stationaryAtBucketCenters, type PreferenceSettings } from './preference.js';
+
+/**
+ * Input for `buildConvergenceReport`.
+ */
+export interface ConvergenceReportInput {
+  /**
+   * Raw statistics summed across all models, per clock.
+   */
+  readonly aggregate: Readonly<Record<ClockId, ClockBucketStats>>;
+  /**
+   * Raw statistics per model, per clock.
+   */
+  readonly byModel: ReadonlyMap<ModelId, Readonly<Record<ClockId, ClockBucketStats>>>;
+  readonly settings: PreferenceSettings;
+  readonly metric: DivergenceMetric;
+  /**
+   * Evaluate every `stepBuckets`-th bucket midpoint (1 = all 2016, 12 = hourly).
+   */
+  readonly stepBuckets: number;
+  /**
+   * Kernel-weighted user transitions a model needs around a bucket for its
+   * estimate there to count as data-sufficient.
+   */
+  readonly minEffectiveTransitions: number;
+}
+
+/**
+ * How much data backs one model's estimate at one bucket. Values are
+ * kernel-weighted totals (weight 1 at the bucket itself).
+ */
+export interface ModelSufficiency {
+  readonly modelId: ModelId;
+  readonly effectiveHoldMs: number;
+  readonly effectiveTransitions: number;
+  readonly sufficient: boolean;
+}
+
+/**
+ * Divergence between two models' distributions at one bucket.
+ * For asymmetric metrics this is D(modelA ‖ modelB).
+ */
+export interface ModelPairDivergence {
+  readonly modelA: ModelId;
+  readonly modelB: ModelId;
+  readonly divergence: number;
+  readonly bothSufficient: boolean;
+}
+
+/**
+ * Divergence of a model's distribution from the aggregate, D(model ‖ aggregate).
+ */
+export interface ModelAggregateDivergence {
+  readonly modelId: ModelId;
+  readonly divergence: number;
+  readonly sufficient: boolean;
+}
+
+/**
+ * Convergence results at one bucket midpoint.
+ */
+export interface BucketConvergence {
+  readonly bucketId: BucketId;
+  readonly sufficiency: readonly ModelSufficiency[];
+  readonly pairs: readonly ModelPairDivergence[];
+  readonly vsAggregate: readonly ModelAggregateDivergence[];
+}
+
+/**
+ * Week-wide summary for one model on one clock.
+ */
+export interface ModelConvergenceSummary {
+  readonly modelId: ModelId;
+  /**
+   * Mean divergence from the aggregate over all evaluated buckets.
+   */
+  readonly meanAggregateDivergence: number | null;
+  /**
+   * Fraction of evaluated buckets where the model is data-sufficient.
+   */
+  readonly sufficientBucketFraction: number;
+}
+
+/**
+ * Week-wide convergence summary for one clock. Means are null when there is
+ * nothing to average (e.g. fewer than two models).
+ */
+export interface ClockConvergenceSummary {
+  readonly meanPairDivergence: number | null;
+  /**
+   * Mean pairwise divergence restricted to buckets where both models are
+   * data-sufficient; the quantity the MANUAL's hypothesis is about.
+   */
+  readonly meanSufficientPairDivergence: number | null;
+  readonly models: readonly ModelConvergenceSummary[];
+}
+
+/**
+ * Convergence results for one clock across the week.
+ */
+export interface ClockConvergence {
+  readonly buckets: readonly BucketConvergence[];
+  readonly summary: ClockConvergenceSummary;
+}
+
+/**
+ * Convergence report for one control.
+ */
+export interface ConvergenceReport {
+  readonly metric: DivergenceMetric;
+  readonly stepBuckets: number;
+  /**
+   * Models compared, in report order.
+   */
+  readonly models: readonly ModelId[];
+  readonly clocks: Record<ClockId, ClockConvergence>;
+}
+
+/**
+ * Builds the convergence report for every clock across the week.
+ *
+ * @throws Error if `stepBuckets` is not a positive integer
+ */
+export function buildConvergenceReport(input: ConvergenceReportInput): ConvergenceReport {
+  const { stepBuckets, settings, metric, minEffectiveTransitions } = input;
+  if (!Number.isInteger(stepBuckets) || stepBuckets < 1) {
+    throw new Error(`stepBuckets must be a positive integer, got ${stepBuckets}`);
+  }
+  const bucketIds: BucketId[] = [];
+  for (let b = 0; b < BUCKETS_PER_WEEK; b += stepBuckets) {
+    bucketIds.push(createBucketId(b));
+  }
+  const models = [...input.byModel.keys()].sort();
+  const kernelMass = cyclicKernelMass(settings.kde);
+
+  const stationaryAt = (stats: SufficientStats): readonly number[] =>
+    solveStationary(buildGenerator(stats, settings.ctmc), settings.damping)
+      .distribution;
+
+  const clocks = {} as Record<ClockId, ClockConvergence>;
+  for (const clockId of CLOCK_IDS) {
+    const aggregate = stationaryAtBucketCenters(input.aggregate[clockId], bucketIds, settings);
+    const perModel = models.map((modelId) => {
+      const smoothed = smoothAtBucketCenters(
+        input.byModel.get(modelId)![clockId],
+        bucketIds,
+        settings.kde
+      );
+      return smoothed.map((stats) => {
+        const effectiveTransitions = kernelMass * sumMatrix(stats.transCounts);
+        return {
+          distribution: stationaryAt(stats),
+          sufficiency: {
+            modelId,
+            effectiveHoldMs: kernelMass * sum(stats.holdMs),
+            effectiveTransitions,
+            sufficient: effectiveTransitions >= minEffectiveTransitions,
+          },
+        };
+      });
+    });
+
+    const buckets = bucketIds.map((bucketId, k): BucketConvergence => {
+      const pairs: ModelPairDivergence[] = [];
+      for (let a = 0; a < models.length; a++) {
+        for (let b = a + 1; b < models.length; b++) {
+          const estimateA = perModel[a][k];
+          const estimateB = perModel[b][k];
+          pairs.push({
+            modelA: models[a],
+            modelB: models[b],
+            divergence: divergence(metric, estimateA.distribution, estimateB.distribution),
+            bothSufficient: estimateA.sufficiency.sufficient && estimateB.sufficiency.sufficient,
+          });
+        }
+      }
+      return {
+        bucketId,
+        sufficiency: perModel.map((estimates) => estimates[k].sufficiency),
+        pairs,
+        vsAggregate: perModel.map((estimates) => ({
+          modelId: estimates[k].sufficiency.modelId,
+          divergence: divergence(metric, estimates[k].distribution, aggregate[k]),
+          sufficient: estimates[k].sufficiency.sufficient,
+        })),
+      };
+    });
+
+    clocks[clockId] = { buckets, summary: summarize(models, buckets) };
+  }
+  return { metric, stepBuckets, models, clocks };
+}
+
+function summarize(
+  models: readonly ModelId[],
+  buckets: readonly BucketConvergence[]
+): ClockConvergenceSummary {
+  const allPairs = buckets.flatMap((bucket) => bucket.pairs);
+  return {
+    meanPairDivergence: mean(allPairs.map((pair) => pair.divergence)),
+    meanSufficientPairDivergence: mean(
+      allPairs.filter((pair) => pair.bothSufficient).map((pair) => pair.divergence)
+    ),
+    models: models.map((modelId, m) => ({
+      modelId,
+      meanAggregateDivergence: mean(buckets.map((bucket) => bucket.vsAggregate[m].divergence)),
+      sufficientBucketFraction:
+        buckets.length === 0
+          ? 0
+          : buckets.filter((bucket) => bucket.sufficiency[m].sufficient).length / buckets.length,
+    })),
+  };
+}
+
+function mean(values: readonly number[]): number | null {
+  return values.length === 0 ? null : sum(values) / values.length;
+}
+
+function sum(values: readonly number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function sumMatrix(matrix: readonly (readonly number[])[]): number {
+  return matrix.reduce((total, row) => total + sum(row), 0);
+}
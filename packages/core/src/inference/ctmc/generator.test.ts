@@ -0,0 +1,108 @@
+/**
+ * Tests for CTMC generator construction.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildGenerator, isIrreducible } from './generator.js';
+import { getRateEstimator, maximumLikelihoodRates, pseudocountRates } from './rates.js';
+
+describe('maximumLikelihoodRates', () => {
+  it('divides transition counts by holding time of the source state', () => {
+    const rates = maximumLikelihoodRates({
+      holdMs: [1000, 500],
+      transCounts: [
+        [3, 2],
+        [1, 0],
+      ],
+    });
+    expect(rates).toEqual([
+      [0, 0.002],
+      [0.002, 0],
+    ]);
+  });
+
+  it('gives states that were never held no outgoing rates', () => {
+    const rates = maximumLikelihoodRates({
+      holdMs: [0, 100],
+      transCounts: [
+        [0, 5],
+        [0, 0],
+      ],
+    });
+    expect(rates[0]).toEqual([0, 0]);
+  });
+});
+
+describe('pseudocountRates', () => {
+  it('adds pseudo exits and pseudo holding time', () => {
+    const rates = pseudocountRates(1, 100)({
+      holdMs: [900, 0, 0],
+      transCounts: [
+        [0, 2, 0],
+        [0, 0, 0],
+        [0, 0, 0],
+      ],
+    });
+    expect(rates[0][1]).toBeCloseTo(2.5 / 1000, 12);
+    expect(rates[0][2]).toBeCloseTo(0.5 / 1000, 12);
+    expect(rates[1][0]).toBeCloseTo(0.5 / 100, 12);
+  });
+
+  it('makes long holds without exits sticky', () => {
+    const generator = buildGenerator(
+      { holdMs: [60_000, 0], transCounts: [[0, 0], [0, 0]] },
+      { rateEstimator: 'pseudocount', pseudoTransitions: 0.1, pseudoHoldMinutes: 1 }
+    );
+    expect(-generator[0][0]).toBeLessThan(-generator[1][1]);
+  });
+});
+
+describe('getRateEstimator', () => {
+  it('resolves configured estimators and rejects unknown names', () => {
+    expect(getRateEstimator({ rateEstimator: 'maximumLikelihood' })).toBe(maximumLikelihoodRates);
+    expect(() => getRateEstimator({ rateEstimator: 'guess' } as any)).toThrow(
+      /Unknown rate estimator/
+    );
+  });
+});
+
+describe('buildGenerator', () => {
+  it('produces rows that sum to zero', () => {
+    const generator = buildGenerator(
+      {
+        holdMs: [100, 200, 400],
+        transCounts: [
+          [0, 1, 1],
+          [2, 0, 0],
+          [0, 4, 0],
+        ],
+      },
+      { rateEstimator: 'maximumLikelihood' }
+    );
+    for (const row of generator) {
+      expect(row.reduce((sum, q) => sum + q, 0)).toBeCloseTo(0, 12);
+    }
+    expect(generator[0][0]).toBeCloseTo(-0.02);
+  });
+
+  it('accepts a custom estimator and rejects invalid rates', () => {
+    const stats = { holdMs: [1, 1], transCounts: [[0, 0], [0, 0]] };
+    expect(buildGenerator(stats, () => [[0, 2], [3, 0]])).toEqual([
+      [-2, 2],
+      [3, -3],
+    ]);
+    expect(() => buildGenerator(stats, () => [[0, -1], [0, 0]])).toThrow(/Invalid rate/);
+  });
+});
+
+describe('isIrreducible', () => {
+  it('detects strongly connected chains', () => {
+    expect(isIrreducible([[-1, 1], [1, -1]])).toBe(true);
+    expect(isIrreducible([[-1, 1, 0], [0, -1, 1], [1, 0, -1]])).toBe(true);
+  });
+
+  it('detects absorbing and disconnected states', () => {
+    expect(isIrreducible([[-1, 1], [0, 0]])).toBe(false);
+    expect(isIrreducible([[0, 0], [0, 0]])).toBe(false);
+  });
+});
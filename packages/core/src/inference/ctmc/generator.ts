@@ -0,0 +1,67 @@
+/**
+ * CTMC generator construction and structural checks.
+ */
+
+import type { CtmcSettings } from '../../config/index.js';
+import type { SufficientStats } from '../kde/index.js';
+import { getRateEstimator } from './rates.js';
+import type { GeneratorMatrix, RateEstimator } from './types.js';
+
+/**
+ * Builds the generator matrix Q from sufficient statistics.
+ *
+ * @param stats - (Smoothed) hold times and transition counts
+ * @param estimator - Configured estimator settings, or a custom estimator
+ * @throws Error if the estimator returns negative or non-finite rates
+ */
+export function buildGenerator(
+  stats: SufficientStats,
+  estimator: CtmcSettings | RateEstimator
+): GeneratorMatrix {
+  const estimate = typeof estimator === 'function' ? estimator : getRateEstimator(estimator);
+  const rates = estimate(stats);
+  const numStates = stats.holdMs.length;
+
+  return Array.from({ length: numStates }, (_, i) => {
+    const row = Array.from({ length: numStates }, (_, j) => {
+      if (i === j) {
+        return 0;
+      }
+      const rate = rates[i]?.[j] ?? 0;
+      if (!Number.isFinite(rate) || rate < 0) {
+        throw new Error(`Invalid rate q[${i}][${j}] = ${rate}`);
+      }
+      return rate;
+    });
+    row[i] = -row.reduce((sum, rate) => sum + rate, 0);
+    return row;
+  });
+}
+
+/**
+ * Whether every state can reach every other state through positive rates.
+ * A single-state chain is irreducible.
+ */
+export function isIrreducible(generator: GeneratorMatrix): boolean {
+  const numStates = generator.length;
+  const reachesAll = (edge: (from: number, to: number) => boolean): boolean => {
+    const seen = new Array<boolean>(numStates).fill(false);
+    const stack = [0];
+    seen[0] = true;
+    while (stack.length > 0) {
+      const from = stack.pop()!;
+      for (let to = 0; to < numStates; to++) {
+        if (!seen[to] && edge(from, to)) {
+          seen[to] = true;
+          stack.push(to);
+        }
+      }
+    }
+    return seen.every(Boolean);
+  };
+  return (
+    numStates <= 1 ||
+    (reachesAll((i, j) => i !== j && generator[i][j] > 0) &&
+      reachesAll((i, j) => i !== j && generator[j][i] > 0))
+  );
+}
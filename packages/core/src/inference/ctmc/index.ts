@@ -0,0 +1,27 @@
+/**
+ * CTMC module public exports.
+ * Generator construction from sufficient statistics and stationary
+ * distributions (preference estimates) with Markov damping.
+ */
+
+// Types
+export type {
+  GeneratorMatrix,
+  RateEstimator,
+  StationaryDiagnostics,
+  StationaryResult,
+} from './types.js';
+
+// Rate estimation policies
+export {
+  maximumLikelihoodRates,
+  pseudocountRates,
+  RATE_ESTIMATORS,
+  getRateEstimator,
+} from './rates.js';
+
+// Generator construction
+export { buildGenerator, isIrreducible } from './generator.js';
+
+// Stationary distribution
+export { teleportVector, solveStationary } from './stationary.js';
@@ -0,0 +1,79 @@
+/**
+ * Rate estimation policies (MANUAL.md leaves the estimator unspecified, so it
+ * is selected by name in configuration).
+ */
+
+import type { CtmcSettings, RateEstimatorName } from '../../config/index.js';
+import type { SufficientStats } from '../kde/index.js';
+import type { RateEstimator } from './types.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Maximum-likelihood rates: q_ij = n_ij / T_i.
+ * States that were never held (T_i = 0) get no outgoing rates; self
+ * transitions are ignored.
+ */
+export function maximumLikelihoodRates({ holdMs, transCounts }: SufficientStats): number[][] {
+  const numStates = holdMs.length;
+  return Array.from({ length: numStates }, (_, i) =>
+    Array.from({ length: numStates }, (_, j) => {
+      const heldMs = holdMs[i];
+      if (i === j || heldMs <= 0) {
+        return 0;
+      }
+      return (transCounts[i]?.[j] ?? 0) / heldMs;
+    })
+  );
+}
+
+/**
+ * Pseudocount (Gamma-prior posterior mean) rates:
+ * q_ij = (n_ij + c/(N − 1)) / (T_i + τ). Self transitions are ignored.
+ *
+ * @param pseudoTransitions - Pseudo exits per state (c)
+ * @param pseudoHoldMs - Pseudo holding time per state (τ), in ms
+ */
+export function pseudocountRates(pseudoTransitions: number, pseudoHoldMs: number): RateEstimator {
+  return ({ holdMs, transCounts }) => {
+    const numStates = holdMs.length;
+    const pseudoPerTarget = numStates > 1 ? pseudoTransitions / (numStates - 1) : 0;
+    return Array.from({ length: numStates }, (_, i) =>
+      Array.from({ length: numStates }, (_, j) =>
+        i === j ? 0 : ((transCounts[i]?.[j] ?? 0) + pseudoPerTarget) / (holdMs[i] + pseudoHoldMs)
+      )
+    );
+  };
+}
+
+/**
+ * Registered rate estimators by configuration name, as factories taking the
+ * estimator's settings.
+ */
+export const RATE_ESTIMATORS: {
+  readonly [K in RateEstimatorName]: (
+    settings: Extract<CtmcSettings, { rateEstimator: K }>
+  ) => RateEstimator;
+} = {
+  maximumLikelihood: () => maximumLikelihoodRates,
+  pseudocount: ({ pseudoTransitions, pseudoHoldMinutes }) =>
+    pseudocountRates(pseudoTransitions, pseudoHoldMinutes * MINUTE_MS),
+};
+
+/**
+ * Resolves the rate estimator configured by `settings`.
+ *
+ * @throws Error if no estimator is registered under the configured name
+ */
+export function getRateEstimator(settings: CtmcSettings): RateEstimator {
+  switch (settings.rateEstimator) {
+    case 'maximumLikelihood':
+      return RATE_ESTIMATORS.maximumLikelihood(settings);
+    case 'pseudocount':
+      return RATE_ESTIMATORS.pseudocount(settings);
+    default:
+      throw new Error(
+        `Unknown rate estimator: ${(settings as { rateEstimator: string }).rateEstimator}`
+      );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for stationary-distribution solving with damping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveStationary, teleportVector } from './stationary.js';
+import { buildGenerator } from './generator.js';
+import type { DampingSettings } from '../../config/index.js';
+import { emptySufficientStats } from '../kde/index.js';
+
+const undamped: DampingSettings = { alpha: 1, prior: { kind: 'uniform' } };
+const damped: DampingSettings = { alpha: 0.9, prior: { kind: 'uniform' } };
+
+function sum(values: readonly number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('teleportVector', () => {
+  it('builds uniform and normalized explicit priors', () => {
+    expect(teleportVector({ kind: 'uniform' }, 4)).toEqual([0.25, 0.25, 0.25, 0.25]);
+    expect(teleportVector({ kind: 'explicit', weights: [1, 3] }, 2)).toEqual([0.25, 0.75]);
+  });
+
+  it('rejects mismatched or all-zero explicit priors', () => {
+    expect(() => teleportVector({ kind: 'explicit', weights: [1, 1] }, 3)).toThrow();
+    expect(() => teleportVector({ kind: 'explicit', weights: [0, 0] }, 2)).toThrow();
+  });
+});
+
+describe('solveStationary', () => {
+  it('matches the analytic two-state solution without damping', () => {
+    // Leaves state 0 at rate 1, state 1 at rate 3: π = (3/4, 1/4).
+    const result = solveStationary([[-1, 1], [3, -3]], undamped);
+    expect(result.distribution[0]).toBeCloseTo(0.75, 12);
+    expect(result.distribution[1]).toBeCloseTo(0.25, 12);
+    expect(result.diagnostics).toMatchObject({ irreducible: true, dampingWeight: 0 });
+    expect(result.diagnostics.residual).toBeLessThan(1e-12);
+  });
+
+  it('prefers the state held longest under maximum-likelihood rates', () => {
+    const generator = buildGenerator(
+      {
+        holdMs: [9000, 1000],
+        transCounts: [
+          [0, 3],
+          [3, 0],
+        ],
+      },
+      { rateEstimator: 'maximumLikelihood' }
+    );
+    const { distribution } = solveStationary(generator, undamped);
+    expect(distribution[0]).toBeCloseTo(0.9, 12);
+  });
+
+  it('pulls the distribution towards the prior as damping increases', () => {
+    const generator = [[-1, 1], [3, -3]];
+    const light = solveStationary(generator, { alpha: 0.99, prior: { kind: 'uniform' } });
+    const heavy = solveStationary(generator, { alpha: 0.5, prior: { kind: 'uniform' } });
+    expect(light.distribution[0]).toBeGreaterThan(heavy.distribution[0]);
+    expect(heavy.distribution[0]).toBeGreaterThan(0.5);
+    expect(heavy.diagnostics.dampingWeight).toBeCloseTo(0.5);
+  });
+
+  it('keeps disconnected chains solvable with damping', () => {
+    // States 0/1 and 2/3 never connect.
+    const generator = [
+      [-1, 1, 0, 0],
+      [1, -1, 0, 0],
+      [0, 0, -2, 2],
+      [0, 0, 2, -2],
+    ];
+    const result = solveStationary(generator, damped);
+    expect(result.diagnostics.irreducible).toBe(false);
+    expect(sum(result.distribution)).toBeCloseTo(1, 12);
+    expect(result.distribution).toEqual(result.distribution.map(() => expect.closeTo(0.25, 12)));
+    expect(result.diagnostics.residual).toBeLessThan(1e-9);
+  });
+
+  it('returns a stationary distribution for reducible chains without damping', () => {
+    const generator = [
+      [-1, 1, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ];
+    const result = solveStationary(generator, undamped);
+    expect(result.diagnostics.irreducible).toBe(false);
+    expect(sum(result.distribution)).toBeCloseTo(1, 9);
+    expect(result.distribution[0]).toBeCloseTo(0, 6);
+    expect(result.diagnostics.residual).toBeLessThan(1e-6);
+  });
+
+  it('returns the prior when there is no data', () => {
+    const generator = buildGenerator(emptySufficientStats(3), {
+      rateEstimator: 'maximumLikelihood',
+    });
+    const result = solveStationary(generator, {
+      alpha: 0.8,
+      prior: { kind: 'explicit', weights: [2, 1, 1] },
+    });
+    expect(result.distribution[0]).toBeCloseTo(0.5, 12);
+    expect(result.distribution[1]).toBeCloseTo(0.25, 12);
+  });
+
+  it('sums to 1 for every radiobutton and slider state count on sparse data', () => {
+    for (let numStates = 2; numStates <= 10; numStates++) {
+      const stats = emptySufficientStats(numStates);
+      const holdMs = stats.holdMs.map((_, i) => (i % 3 === 0 ? 1000 * (i + 1) : 0));
+      const transCounts = stats.transCounts.map((row, i) =>
+        row.map((_, j) => (j === (i + 1) % numStates && i % 2 === 0 ? 1 : 0))
+      );
+      const generator = buildGenerator(
+        { holdMs, transCounts },
+        { rateEstimator: 'maximumLikelihood' }
+      );
+      for (const damping of [damped, undamped]) {
+        const { distribution, diagnostics } = solveStationary(generator, damping);
+        expect(distribution).toHaveLength(numStates);
+        expect(sum(distribution)).toBeCloseTo(1, 9);
+        expect(distribution.every((p) => p >= 0 && Number.isFinite(p))).toBe(true);
+        expect(diagnostics.residual).toBeLessThan(1e-6);
+      }
+    }
+  });
+
+  it('rejects alpha outside [0, 1]', () => {
+    expect(() => solveStationary([[-1, 1], [1, -1]], { alpha: 1.5, prior: { kind: 'uniform' } })).toThrow();
+  });
+});
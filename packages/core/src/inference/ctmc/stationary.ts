@@ -0,0 +1,195 @@
+/**
+ * Stationary distribution of a CTMC with optional teleport damping
+ * (MANUAL.md "CTMC model"; damping per IMPLEMENTATION_PLAN Milestone 11).
+ *
+ * The generator is uniformized into a discrete chain P = I + Q/λ with
+ * λ = max_i |q_ii|, which has the same stationary distribution as Q. Damping
+ * then mixes in the teleport prior: P′ = αP + (1 − α)·1·vᵀ. For α < 1 and a
+ * prior with full support the damped chain is ergodic, so sparse or
+ * disconnected observations still yield a unique distribution.
+ */
+
+import type { DampingSettings, TeleportPrior } from '../../config/index.js';
+import { isIrreducible } from './generator.js';
+import type { GeneratorMatrix, StationaryResult } from './types.js';
+
+/**
+ * Pivot magnitude below which the linear system is treated as singular.
+ */
+const SINGULAR_PIVOT = 1e-12;
+
+/**
+ * Convergence tolerance (L1 change per step) for the power-iteration fallback.
+ */
+const POWER_TOLERANCE = 1e-12;
+
+const POWER_MAX_ITERATIONS = 100_000;
+
+/**
+ * Normalized teleport vector v for `numStates` states.
+ *
+ * @throws Error if explicit weights do not match the state count or sum to zero
+ */
+export function teleportVector(prior: TeleportPrior, numStates: number): number[] {
+  if (prior.kind === 'uniform') {
+    return new Array<number>(numStates).fill(1 / numStates);
+  }
+  if (prior.weights.length !== numStates) {
+    throw new Error(
+      `Teleport prior has ${prior.weights.length} weights, expected ${numStates}`
+    );
+  }
+  const total = prior.weights.reduce((sum, w) => sum + w, 0);
+  if (!(total > 0)) {
+    throw new Error('Teleport prior weights must have a positive sum');
+  }
+  return prior.weights.map((w) => w / total);
+}
+
+/**
+ * Solves for the stationary distribution of a generator under damping.
+ *
+ * Uses a direct linear solve; if the system is singular (reducible chain
+ * without damping) it falls back to power iteration started from the
+ * teleport prior, which returns one of the stationary distributions and
+ * reports `irreducible: false`.
+ *
+ * @param generator - Generator matrix Q (N×N, N ≥ 1)
+ * @param damping - Damping alpha and teleport prior
+ * @throws Error if alpha is outside [0, 1] or the prior is invalid
+ */
+export function solveStationary(
+  generator: GeneratorMatrix,
+  damping: DampingSettings
+): StationaryResult {
+  const numStates = generator.length;
+  if (numStates < 1) {
+    throw new Error('Generator must have at least one state');
+  }
+  const { alpha } = damping;
+  if (!(alpha >= 0 && alpha <= 1)) {
+    throw new Error(`Damping alpha must be in [0, 1], got ${alpha}`);
+  }
+  const prior = teleportVector(damping.prior, numStates);
+  const transition = dampedTransitionMatrix(generator, alpha, prior);
+
+  const distribution = solveLinear(transition) ?? powerIterate(transition, prior);
+  return {
+    distribution,
+    diagnostics: {
+      irreducible: isIrreducible(generator),
+      dampingWeight: 1 - alpha,
+      residual: residualL1(transition, distribution),
+    },
+  };
+}
+
+/**
+ * P′ = α(I + Q/λ) + (1 − α)·1·vᵀ.
+ */
+function dampedTransitionMatrix(
+  generator: GeneratorMatrix,
+  alpha: number,
+  prior: readonly number[]
+): number[][] {
+  const numStates = generator.length;
+  const lambda = Math.max(0, ...generator.map((row, i) => -row[i]));
+  return Array.from({ length: numStates }, (_, i) =>
+    Array.from({ length: numStates }, (_, j) => {
+      const uniformized = (i === j ? 1 : 0) + (lambda > 0 ? generator[i][j] / lambda : 0);
+      return alpha * uniformized + (1 - alpha) * prior[j];
+    })
+  );
+}
+
+/**
+ * Solves π(P − I) = 0 with Σπ = 1 by Gaussian elimination (partial pivoting).
+ * Returns undefined if the system is singular.
+ */
+function solveLinear(transition: readonly (readonly number[])[]): number[] | undefined {
+  const n = transition.length;
+  // Rows of A are equations; A = (P − I)ᵀ with the last equation replaced by Σπ = 1.
+  const a = Array.from({ length: n }, (_, r) =>
+    Array.from({ length: n + 1 }, (_, c) => {
+      if (r === n - 1) {
+        return 1;
+      }
+      if (c === n) {
+        return 0;
+      }
+      return transition[c][r] - (r === c ? 1 : 0);
+    })
+  );
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) {
+        pivot = r;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < SINGULAR_PIVOT) {
+      return undefined;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) {
+        continue;
+      }
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c <= n; c++) {
+        a[r][c] -= factor * a[col][c];
+      }
+    }
+  }
+
+  const solution = a.map((row, i) => Math.max(0, row[n] / row[i]));
+  return normalize(solution);
+}
+
+/**
+ * Power iteration on the lazy chain (P + I)/2 (aperiodic, same stationary
+ * distributions as P), started from `start`.
+ */
+function powerIterate(
+  transition: readonly (readonly number[])[],
+  start: readonly number[]
+): number[] {
+  const n = transition.length;
+  let current = [...start];
+  for (let iteration = 0; iteration < POWER_MAX_ITERATIONS; iteration++) {
+    const next = new Array<number>(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        next[j] += current[i] * 0.5 * (transition[i][j] + (i === j ? 1 : 0));
+      }
+    }
+    const change = next.reduce((sum, value, j) => sum + Math.abs(value - current[j]), 0);
+    current = next;
+    if (change < POWER_TOLERANCE) {
+      break;
+    }
+  }
+  return normalize(current);
+}
+
+function residualL1(
+  transition: readonly (readonly number[])[],
+  distribution: readonly number[]
+): number {
+  const n = transition.length;
+  let residual = 0;
+  for (let j = 0; j < n; j++) {
+    let flow = 0;
+    for (let i = 0; i < n; i++) {
+      flow += distribution[i] * transition[i][j];
+    }
+    residual += Math.abs(flow - distribution[j]);
+  }
+  return residual;
+}
+
+function normalize(values: readonly number[]): number[] {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return values.map((value) => value / total);
+}
@@ -0,0 +1,48 @@
+/**
+ * CTMC types.
+ */
+
+import type { SufficientStats } from '../kde/index.js';
+
+/**
+ * CTMC generator matrix Q: off-diagonal entries are transition rates (per ms),
+ * diagonal entries make every row sum to zero.
+ */
+export type GeneratorMatrix = readonly (readonly number[])[];
+
+/**
+ * Rate estimator: maps sufficient statistics to off-diagonal rates q_ij
+ * (per ms). Diagonal entries of the returned matrix are ignored.
+ */
+export type RateEstimator = (stats: SufficientStats) => number[][];
+
+/**
+ * Diagnostics reported alongside a stationary distribution.
+ */
+export interface StationaryDiagnostics {
+  /**
+   * Whether the observed (undamped) chain is irreducible. When false and no
+   * damping is applied, the stationary distribution is not unique.
+   */
+  readonly irreducible: boolean;
+  /**
+   * Teleport weight actually applied, 1 − α (0 when damping is disabled).
+   */
+  readonly dampingWeight: number;
+  /**
+   * L1 norm of πP′ − π for the damped uniformized chain P′.
+   */
+  readonly residual: number;
+}
+
+/**
+ * Stationary distribution over the control's states (the preference
+ * estimate) with solver diagnostics.
+ */
+export interface StationaryResult {
+  /**
+   * Probability per state, indexed by state; sums to 1.
+   */
+  readonly distribution: readonly number[];
+  readonly diagnostics: StationaryDiagnostics;
+}
@@ -0,0 +1,38 @@
+/**
+ * Tests for distribution divergences.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { divergence } from './divergence.js';
+
+describe('divergence', () => {
+  const p = [0.5, 0.5];
+  const q = [0.9, 0.1];
+
+  it('is zero for identical distributions', () => {
+    for (const metric of ['totalVariation', 'kullbackLeibler', 'jensenShannon'] as const) {
+      expect(divergence(metric, p, p)).toBeCloseTo(0, 12);
+    }
+  });
+
+  it('computes total variation', () => {
+    expect(divergence('totalVariation', p, q)).toBeCloseTo(0.4, 12);
+    expect(divergence('totalVariation', [1, 0], [0, 1])).toBe(1);
+  });
+
+  it('computes Kullback–Leibler in nats and is asymmetric', () => {
+    const expected = 0.5 * Math.log(0.5 / 0.9) + 0.5 * Math.log(0.5 / 0.1);
+    expect(divergence('kullbackLeibler', p, q)).toBeCloseTo(expected, 12);
+    expect(divergence('kullbackLeibler', q, p)).not.toBeCloseTo(expected, 3);
+    expect(divergence('kullbackLeibler', [0.5, 0.5], [1, 0])).toBe(Infinity);
+  });
+
+  it('computes Jensen–Shannon in bits, symmetric and bounded by 1', () => {
+    expect(divergence('jensenShannon', p, q)).toBeCloseTo(divergence('jensenShannon', q, p), 12);
+    expect(divergence('jensenShannon', [1, 0], [0, 1])).toBeCloseTo(1, 12);
+  });
+
+  it('rejects distributions of different lengths', () => {
+    expect(() => divergence('totalVariation', [1], [0.5, 0.5])).toThrow();
+  });
+});
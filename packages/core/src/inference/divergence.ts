@@ -0,0 +1,55 @@
+/**
+ * Divergences between preference distributions over the same states.
+ */
+
+/**
+ * Selectable divergence metric.
+ * - `totalVariation`: ½·Σ|p − q|, in [0, 1]
+ * - `kullbackLeibler`: Σ p·ln(p/q), in [0, ∞]; asymmetric, infinite when q
+ *   is zero where p is not
+ * - `jensenShannon`: ½·KL(p‖m) + ½·KL(q‖m) with m = ½(p + q), in bits, in [0, 1]
+ */
+export type DivergenceMetric = 'totalVariation' | 'kullbackLeibler' | 'jensenShannon';
+
+/**
+ * Divergence of `q` from `p` under the given metric.
+ *
+ * @throws Error if the distributions have different lengths
+ */
+export function divergence(
+  metric: DivergenceMetric,
+  p: readonly number[],
+  q: readonly number[]
+): number {
+  if (p.length !== q.length) {
+    throw new Error(`Distributions differ in length: ${p.length} vs ${q.length}`);
+  }
+  switch (metric) {
+    case 'totalVariation':
+      return 0.5 * p.reduce((sum, pi, i) => sum + Math.abs(pi - q[i]), 0);
+    case 'kullbackLeibler':
+      return kullbackLeibler(p, q, Math.log);
+    case 'jensenShannon': {
+      const m = p.map((pi, i) => 0.5 * (pi + q[i]));
+      return 0.5 * kullbackLeibler(p, m, Math.log2) + 0.5 * kullbackLeibler(q, m, Math.log2);
+    }
+  }
+}
+
+function kullbackLeibler(
+  p: readonly number[],
+  q: readonly number[],
+  log: (x: number) => number
+): number {
+  let total = 0;
+  for (let i = 0; i < p.length; i++) {
+    if (p[i] <= 0) {
+      continue;
+    }
+    if (q[i] <= 0) {
+      return Infinity;
+    }
+    total += p[i] * log(p[i] / q[i]);
+  }
+  return Math.max(0, total);
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests for preference heatmaps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPreferenceHeatmap } from './heatmap.js';
+import type { PreferenceSettings } from './preference.js';
+import { buildClockBucketStats } from './kde/index.js';
+import { BUCKETS_PER_DAY, BUCKETS_PER_WEEK, createBucketId } from '../time/index.js';
+
+const settings: PreferenceSettings = {
+  kde: { kernel: 'gaussian', bandwidthMinutes: 60 },
+  ctmc: { rateEstimator: 'maximumLikelihood' },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' } },
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Monday and Tuesday 08:00 (buckets 96 and 384): state 1 held, one transition.
+const stats = buildClockBucketStats(
+  2,
+  [
+    { bucketId: createBucketId(96), state: 1, ms: 4 * MINUTE_MS },
+    { bucketId: createBucketId(96), state: 0, ms: MINUTE_MS },
+    { bucketId: createBucketId(96 + BUCKETS_PER_DAY), state: 1, ms: 5 * MINUTE_MS },
+  ],
+  [{ bucketId: createBucketId(96), fromState: 0, toState: 1, count: 1 }]
+);
+
+describe('buildPreferenceHeatmap', () => {
+  it('has one cell per time-of-week bucket with raw statistics and occupancy', () => {
+    const cells = buildPreferenceHeatmap(stats, settings, 'week');
+    expect(cells).toHaveLength(BUCKETS_PER_WEEK);
+    expect(cells[96].holdMs).toEqual([MINUTE_MS, 4 * MINUTE_MS]);
+    expect(cells[96].transitions).toEqual([{ fromState: 0, toState: 1, count: 1 }]);
+    expect(cells[96].occupancy).toEqual([0.2, 0.8]);
+    expect(cells[0].occupancy).toBeNull();
+    for (const cell of cells) {
+      expect(cell.preference.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+    }
+  });
+
+  it('folds the week onto the day', () => {
+    const cells = buildPreferenceHeatmap(stats, settings, 'day');
+    expect(cells).toHaveLength(BUCKETS_PER_DAY);
+    expect(cells[96].holdMs).toEqual([MINUTE_MS, 9 * MINUTE_MS]);
+    expect(cells[96].occupancy).toEqual([0.1, 0.9]);
+    expect(cells[96].transitions).toEqual([{ fromState: 0, toState: 1, count: 1 }]);
+    expect(cells[96].preference.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+  });
+});
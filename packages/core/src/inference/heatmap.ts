@@ -0,0 +1,95 @@
+/**
+ * Preference heatmaps: per-bucket raw statistics, observed occupancy and
+ * inferred preference for one clock, across the week or folded onto the day.
+ */
+
+import {
+  BUCKETS_PER_DAY,
+  BUCKETS_PER_WEEK,
+  DAYS_PER_WEEK,
+  createBucketId,
+  type BucketId,
+} from '../time/index.js';
+import { emptySufficientStats, type ClockBucketStats } from './kde/index.js';
+import { stationaryAtBucketCenters, type PreferenceSettings } from './preference.js';
+
+/**
+ * Heatmap layout: `week` has one cell per time-of-week bucket (7 × 288);
+ * `day` folds the seven days onto one cell per time-of-day bucket (288).
+ */
+export type HeatmapView = 'week' | 'day';
+
+/**
+ * Raw transition count between two states.
+ */
+export interface HeatmapTransition {
+  readonly fromState: number;
+  readonly toState: number;
+  readonly count: number;
+}
+
+/**
+ * One heatmap cell.
+ */
+export interface HeatmapCell {
+  /**
+   * Raw holding time per state in milliseconds.
+   */
+  readonly holdMs: readonly number[];
+  /**
+   * Raw user transitions with a non-zero count.
+   */
+  readonly transitions: readonly HeatmapTransition[];
+  /**
+   * Share of the raw holding time per state; null without holding time.
+   */
+  readonly occupancy: readonly number[] | null;
+  /**
+   * Inferred (KDE-smoothed, stationary) preference distribution.
+   */
+  readonly preference: readonly number[];
+}
+
+const ALL_BUCKETS: readonly BucketId[] = Array.from({ length: BUCKETS_PER_WEEK }, (_, b) =>
+  createBucketId(b)
+);
+
+/**
+ * Builds the heatmap of one clock. Cells are in bucket order (time-of-week
+ * or time-of-day index). Folded cells sum the raw statistics of the seven
+ * days and average their preference distributions.
+ */
+export function buildPreferenceHeatmap(
+  stats: ClockBucketStats,
+  settings: PreferenceSettings,
+  view: HeatmapView
+): HeatmapCell[] {
+  const { numStates } = stats;
+  const preferences = stationaryAtBucketCenters(stats, ALL_BUCKETS, settings);
+  const cellCount = view === 'week' ? BUCKETS_PER_WEEK : BUCKETS_PER_DAY;
+  const days = view === 'week' ? 1 : DAYS_PER_WEEK;
+
+  return Array.from({ length: cellCount }, (_, cell) => {
+    const holdMs = new Array<number>(numStates).fill(0);
+    const transCounts = emptySufficientStats(numStates).transCounts.map((row) => [...row]);
+    const preference = new Array<number>(numStates).fill(0);
+    for (let day = 0; day < days; day++) {
+      const bucketId = cell + day * BUCKETS_PER_DAY;
+      const bucket = stats.buckets.get(createBucketId(bucketId));
+      bucket?.holdMs.forEach((ms, state) => (holdMs[state] += ms));
+      bucket?.transCounts.forEach((row, i) =>
+        row.forEach((count, j) => (transCounts[i][j] += count))
+      );
+      preferences[bucketId].forEach((p, state) => (preference[state] += p / days));
+    }
+    const totalMs = holdMs.reduce((sum, ms) => sum + ms, 0);
+    return {
+      holdMs,
+      transitions: transCounts.flatMap((row, fromState) =>
+        row.flatMap((count, toState) => (count !== 0 ? [{ fromState, toState, count }] : []))
+      ),
+      occupancy: totalMs > 0 ? holdMs.map((ms) => ms / totalMs) : null,
+      preference,
+    };
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Inference module public exports.
+ * KDE smoothing and CTMC preference estimation.
+ */
+
+export * from './kde/index.js';
+export * from './ctmc/index.js';
+
+// Preference pipeline
+export type { PreferenceSettings, StatePreference, ClockPreference } from './preference.js';
+export {
+  estimateClockPreferences,
+  estimateClockPreference,
+  stationaryAtBucketCenters,
+} from './preference.js';
+
+// Compound controls: per-dimension (marginal) analytics
+export type { DimensionPreference } from './marginal.js';
+export {
+  marginalizeSufficientStats,
+  marginalizeClockBucketStats,
+  estimateMarginalPreferences,
+} from './marginal.js';
+
+// Heatmaps
+export type { HeatmapView, HeatmapTransition, HeatmapCell } from './heatmap.js';
+export { buildPreferenceHeatmap } from './heatmap.js';
+
+// Divergences and convergence report
+export type { DivergenceMetric } from './divergence.js';
+export { divergence } from './divergence.js';
+export type {
+  ConvergenceReportInput,
+  ModelSufficiency,
+  ModelPairDivergence,
+  ModelAggregateDivergence,
+  BucketConvergence,
+  ModelConvergenceSummary,
+  ClockConvergenceSummary,
+  ClockConvergence,
+  ConvergenceReport,
+} from './convergence.js';
+export { buildConvergenceReport } from './convergence.js';
+
+// Validation schemas
+export { divergenceMetricSchema, heatmapViewSchema } from './validation.js';
@@ -0,0 +1,16 @@
+/**
+ * KDE module public exports.
+ * Cyclic kernel smoothing of bucketed statistics along the time-of-week axis.
+ */
+
+// Types
+export type { SufficientStats, ClockBucketStats } from './types.js';
+
+// Kernels
+export { kernelWeight, createCyclicKernel, cyclicKernelMass } from './kernels.js';
+
+// Statistics construction
+export { emptySufficientStats, buildClockBucketStats } from './stats.js';
+
+// Smoothing
+export { smoothAtWeekPosition, smoothAtBucketCenters, smoothAtTimestamp } from './smooth.js';
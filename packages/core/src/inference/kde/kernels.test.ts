@@ -0,0 +1,53 @@
+/**
+ * Tests for cyclic KDE kernels.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCyclicKernel, kernelWeight } from './kernels.js';
+import { WEEK_MS } from '../../time/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('kernelWeight', () => {
+  it('is 1 at zero distance for every kernel', () => {
+    expect(kernelWeight('gaussian', 0, 30 * MINUTE_MS)).toBe(1);
+    expect(kernelWeight('epanechnikov', 0, 30 * MINUTE_MS)).toBe(1);
+    expect(kernelWeight('vonMises', 0, 30 * MINUTE_MS)).toBe(1);
+  });
+
+  it('gives Epanechnikov compact support', () => {
+    expect(kernelWeight('epanechnikov', 15 * MINUTE_MS, 30 * MINUTE_MS)).toBeCloseTo(0.75);
+    expect(kernelWeight('epanechnikov', 30 * MINUTE_MS, 30 * MINUTE_MS)).toBe(0);
+  });
+
+  it('matches the Gaussian for von Mises at small bandwidths', () => {
+    const h = 30 * MINUTE_MS;
+    expect(kernelWeight('vonMises', h, h)).toBeCloseTo(kernelWeight('gaussian', h, h), 4);
+  });
+});
+
+describe('createCyclicKernel', () => {
+  it('wraps across the week boundary', () => {
+    const kernel = createCyclicKernel({ kernel: 'gaussian', bandwidthMinutes: 30 });
+    expect(kernel(WEEK_MS - 10 * MINUTE_MS, 10 * MINUTE_MS)).toBeCloseTo(
+      kernel(0, 20 * MINUTE_MS)
+    );
+  });
+
+  it('truncates weights outside the window', () => {
+    const kernel = createCyclicKernel({
+      kernel: 'gaussian',
+      bandwidthMinutes: 30,
+      windowMinutes: 60,
+    });
+    expect(kernel(0, 60 * MINUTE_MS)).toBeGreaterThan(0);
+    expect(kernel(0, 61 * MINUTE_MS)).toBe(0);
+  });
+
+  it('rejects non-positive bandwidths and windows', () => {
+    expect(() => createCyclicKernel({ kernel: 'gaussian', bandwidthMinutes: 0 })).toThrow();
+    expect(() =>
+      createCyclicKernel({ kernel: 'gaussian', bandwidthMinutes: 10, windowMinutes: -1 })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Kernel functions for cyclic KDE along the time-of-week axis.
+ */
+
+import { BUCKETS_PER_WEEK, BUCKET_MS, WEEK_MS, cyclicWeekDistanceMs } from '../../time/index.js';
+import type { KdeKernel, KdeSettings } from '../../config/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Unnormalized kernel weight (1 at distance 0) for a cyclic distance.
+ *
+ * - `gaussian`: exp(−d²/2h²), h is the standard deviation
+ * - `epanechnikov`: 1 − (d/h)² for d < h, else 0; h is the half-width
+ * - `vonMises`: exp(κ(cos θ − 1)) with θ = 2πd/week and κ = 1/σ², where σ is
+ *   h expressed as an angle; matches the Gaussian for small h and is
+ *   periodic over the week by construction
+ *
+ * @param kernel - Kernel shape
+ * @param distanceMs - Cyclic distance from the query time, in [0, WEEK_MS / 2]
+ * @param bandwidthMs - Bandwidth h in milliseconds (must be positive)
+ */
+export function kernelWeight(kernel: KdeKernel, distanceMs: number, bandwidthMs: number): number {
+  const u = distanceMs / bandwidthMs;
+  switch (kernel) {
+    case 'gaussian':
+      return Math.exp(-0.5 * u * u);
+    case 'epanechnikov':
+      return u < 1 ? 1 - u * u : 0;
+    case 'vonMises': {
+      const sigmaRad = (2 * Math.PI * bandwidthMs) / WEEK_MS;
+      const theta = (2 * Math.PI * distanceMs) / WEEK_MS;
+      return Math.exp((Math.cos(theta) - 1) / (sigmaRad * sigmaRad));
+    }
+  }
+}
+
+/**
+ * Returns a function giving the kernel weight between two time-of-week
+ * positions under the given settings (bandwidth and optional window truncation).
+ *
+ * @throws Error if the bandwidth or window is not a positive finite number
+ */
+export function createCyclicKernel(settings: KdeSettings): (aMs: number, bMs: number) => number {
+  const { kernel, bandwidthMinutes, windowMinutes } = settings;
+  if (!Number.isFinite(bandwidthMinutes) || bandwidthMinutes <= 0) {
+    throw new Error(`KDE bandwidth must be positive, got ${bandwidthMinutes}`);
+  }
+  if (windowMinutes !== undefined && (!Number.isFinite(windowMinutes) || windowMinutes <= 0)) {
+    throw new Error(`KDE window must be positive, got ${windowMinutes}`);
+  }
+  const bandwidthMs = bandwidthMinutes * MINUTE_MS;
+  const windowMs = windowMinutes === undefined ? Infinity : windowMinutes * MINUTE_MS;
+
+  return (aMs, bMs) => {
+    const distanceMs = cyclicWeekDistanceMs(aMs, bMs);
+    return distanceMs > windowMs ? 0 : kernelWeight(kernel, distanceMs, bandwidthMs);
+  };
+}
+
+/**
+ * Effective number of buckets under the kernel: the sum of unnormalized
+ * weights over all bucket offsets (1 for the query bucket itself).
+ * Multiplying a smoothed (per-bucket) statistic by this gives the
+ * kernel-weighted total it was averaged from.
+ */
+export function cyclicKernelMass(settings: KdeSettings): number {
+  const kernel = createCyclicKernel(settings);
+  let mass = 0;
+  for (let offset = 0; offset < BUCKETS_PER_WEEK; offset++) {
+    mass += kernel(0, offset * BUCKET_MS);
+  }
+  return mass;
+}
@@ -0,0 +1,166 @@
+/**
+ * Tests for cyclic KDE smoothing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { smoothAtBucketCenters, smoothAtTimestamp, smoothAtWeekPosition } from './smooth.js';
+import { buildClockBucketStats } from './stats.js';
+import type { ClockBucketStats } from './types.js';
+import type { KdeSettings } from '../../config/index.js';
+import { CLOCK_IDS, type ClockId, type ClockLocation } from '../../clocks/index.js';
+import {
+  BUCKET_MS,
+  WEEK_MS,
+  bucketCenterWeekMs,
+  createBucketId,
+  toBucketId,
+} from '../../time/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const gaussian30: KdeSettings = { kernel: 'gaussian', bandwidthMinutes: 30 };
+
+const tromso: ClockLocation = {
+  timezone: 'Europe/Oslo',
+  latitude: 69.6496,
+  longitude: 18.956,
+};
+
+/**
+ * Two states; a single bucket holding state 1 with one 1→0 transition.
+ */
+function singleBucket(bucketId: number): ClockBucketStats {
+  return buildClockBucketStats(
+    2,
+    [{ bucketId: createBucketId(bucketId), state: 1, ms: 60_000 }],
+    [{ bucketId: createBucketId(bucketId), fromState: 1, toState: 0, count: 1 }]
+  );
+}
+
+describe('buildClockBucketStats', () => {
+  it('sums rows per bucket and state', () => {
+    const bucketId = createBucketId(7);
+    const stats = buildClockBucketStats(
+      3,
+      [
+        { bucketId, state: 2, ms: 100 },
+        { bucketId, state: 2, ms: 50 },
+      ],
+      [{ bucketId, fromState: 0, toState: 2, count: 3 }]
+    );
+    expect(stats.buckets.get(bucketId)).toEqual({
+      holdMs: [0, 0, 150],
+      transCounts: [
+        [0, 0, 3],
+        [0, 0, 0],
+        [0, 0, 0],
+      ],
+    });
+  });
+
+  it('rejects out-of-range states', () => {
+    expect(() =>
+      buildClockBucketStats(2, [{ bucketId: createBucketId(0), state: 2, ms: 1 }], [])
+    ).toThrow(/out of range/);
+  });
+});
+
+describe('smoothAtWeekPosition', () => {
+  it('lets buckets near the week boundary influence each other', () => {
+    const stats = singleBucket(2015);
+    const atMonday = smoothAtWeekPosition(stats, 0, gaussian30);
+    const atMidweek = smoothAtWeekPosition(stats, WEEK_MS / 2, gaussian30);
+    expect(atMonday.holdMs[1]).toBeGreaterThan(0);
+    expect(atMonday.transCounts[1][0]).toBeGreaterThan(0);
+    expect(atMidweek.holdMs[1]).toBe(0);
+  });
+
+  it('is symmetric around the bucket midpoint across the wrap', () => {
+    const stats = singleBucket(0);
+    const center = BUCKET_MS / 2;
+    const before = smoothAtWeekPosition(stats, center - 20 * MINUTE_MS, gaussian30);
+    const after = smoothAtWeekPosition(stats, center + 20 * MINUTE_MS, gaussian30);
+    expect(before.holdMs[1]).toBeCloseTo(after.holdMs[1], 9);
+  });
+
+  it('spreads mass further with a wider bandwidth', () => {
+    const stats = singleBucket(toBucketId(0, 12, 0));
+    const queryMs = (12 * 60 + 90) * MINUTE_MS;
+    const narrow = smoothAtWeekPosition(stats, queryMs, { kernel: 'gaussian', bandwidthMinutes: 15 });
+    const wide = smoothAtWeekPosition(stats, queryMs, { kernel: 'gaussian', bandwidthMinutes: 120 });
+    expect(wide.holdMs[1]).toBeGreaterThan(narrow.holdMs[1]);
+  });
+
+  it('reproduces constant data regardless of kernel and bandwidth', () => {
+    const rows = Array.from({ length: 2016 }, (_, b) => ({
+      bucketId: createBucketId(b),
+      state: 0,
+      ms: 1000,
+    }));
+    const stats = buildClockBucketStats(2, rows, []);
+    for (const kernel of ['gaussian', 'epanechnikov', 'vonMises'] as const) {
+      const result = smoothAtWeekPosition(stats, 12_345_678, { kernel, bandwidthMinutes: 45 });
+      expect(result.holdMs[0]).toBeCloseTo(1000, 6);
+    }
+  });
+
+  it('evaluates at arbitrary positions, not just bucket midpoints', () => {
+    const stats = buildClockBucketStats(
+      2,
+      [
+        { bucketId: toBucketId(0, 11, 55), state: 0, ms: 1000 },
+        { bucketId: toBucketId(0, 12, 0), state: 1, ms: 1000 },
+      ],
+      []
+    );
+    const noon = smoothAtWeekPosition(stats, 12 * 60 * MINUTE_MS, {
+      kernel: 'epanechnikov',
+      bandwidthMinutes: 10,
+    });
+    expect(noon.holdMs[0]).toBeCloseTo(noon.holdMs[1], 9);
+  });
+
+  it('ignores buckets outside the window', () => {
+    const stats = singleBucket(toBucketId(0, 12, 0));
+    const result = smoothAtWeekPosition(stats, 14 * 60 * MINUTE_MS, {
+      kernel: 'gaussian',
+      bandwidthMinutes: 120,
+      windowMinutes: 60,
+    });
+    expect(result.holdMs).toEqual([0, 0]);
+  });
+});
+
+describe('smoothAtBucketCenters', () => {
+  it('matches smoothAtWeekPosition at each bucket midpoint', () => {
+    const stats = buildClockBucketStats(
+      2,
+      [
+        { bucketId: createBucketId(2010), state: 0, ms: 500 },
+        { bucketId: createBucketId(3), state: 1, ms: 700 },
+      ],
+      [{ bucketId: createBucketId(1), fromState: 0, toState: 1, count: 2 }]
+    );
+    const targets = [0, 5, 2015, 1000].map(createBucketId);
+    const settings: KdeSettings = { kernel: 'vonMises', bandwidthMinutes: 20 };
+    const swept = smoothAtBucketCenters(stats, targets, settings);
+    targets.forEach((bucketId, k) => {
+      const single = smoothAtWeekPosition(stats, bucketCenterWeekMs(bucketId), settings);
+      single.holdMs.forEach((value, i) => expect(swept[k].holdMs[i]).toBeCloseTo(value, 9));
+      expect(swept[k].transCounts[0][1]).toBeCloseTo(single.transCounts[0][1], 9);
+    });
+  });
+});
+
+describe('smoothAtTimestamp', () => {
+  it('returns a result per clock and undefined where the clock is undefined', () => {
+    const statsByClock = Object.fromEntries(
+      CLOCK_IDS.map((clockId) => [clockId, singleBucket(toBucketId(0, 12, 0))])
+    ) as Record<ClockId, ClockBucketStats>;
+    // Polar night in Tromsø: unequal hours are undefined.
+    const result = smoothAtTimestamp(statsByClock, Date.UTC(2024, 0, 1, 12), tromso, gaussian30);
+    expect(Object.keys(result).sort()).toEqual([...CLOCK_IDS].sort());
+    expect(result.unequalHours).toBeUndefined();
+    expect(result.utc?.holdMs[1]).toBeGreaterThan(0);
+  });
+});
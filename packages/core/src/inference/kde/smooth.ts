@@ -0,0 +1,174 @@
+/**
+ * Cyclic KDE smoothing of per-bucket sufficient statistics (MANUAL.md
+ * "Kernel density estimation").
+ *
+ * Each bucket contributes at its midpoint, weighted by the kernel distance
+ * to the query position. Weights are normalized over all buckets of the
+ * week, so the result is a kernel-weighted average per bucket: its scale
+ * does not depend on the bandwidth, and settings can be compared directly.
+ */
+
+import {
+  BUCKETS_PER_WEEK,
+  BUCKET_MS,
+  bucketCenterWeekMs,
+  createBucketId,
+  wrapWeekMs,
+  type BucketId,
+} from '../../time/index.js';
+import {
+  CLOCK_IDS,
+  mapTimestampToWeekPosition,
+  type ClockId,
+  type ClockLocation,
+} from '../../clocks/index.js';
+import type { KdeSettings } from '../../config/index.js';
+import { createCyclicKernel } from './kernels.js';
+import type { ClockBucketStats, SufficientStats } from './types.js';
+
+/**
+ * Smoothed statistics at a continuous time-of-week position on one clock.
+ *
+ * If no bucket midpoint receives weight (bandwidth/window narrower than the
+ * distance to the nearest midpoint), all statistics are zero.
+ *
+ * @param stats - Raw per-bucket statistics for one clock
+ * @param weekMs - Query position, milliseconds since Monday 00:00 (wraps)
+ * @param settings - Kernel, bandwidth and optional window
+ */
+export function smoothAtWeekPosition(
+  stats: ClockBucketStats,
+  weekMs: number,
+  settings: KdeSettings
+): SufficientStats {
+  const kernel = createCyclicKernel(settings);
+  const queryMs = wrapWeekMs(weekMs);
+  const { numStates } = stats;
+
+  let totalWeight = 0;
+  const weights = new Float64Array(BUCKETS_PER_WEEK);
+  for (let b = 0; b < BUCKETS_PER_WEEK; b++) {
+    weights[b] = kernel(queryMs, bucketCenterWeekMs(createBucketId(b)));
+    totalWeight += weights[b];
+  }
+
+  const holdMs = new Array<number>(numStates).fill(0);
+  const transCounts = Array.from({ length: numStates }, () => new Array<number>(numStates).fill(0));
+  if (totalWeight === 0) {
+    return { holdMs, transCounts };
+  }
+
+  for (const [bucketId, bucket] of stats.buckets) {
+    const weight = weights[bucketId] / totalWeight;
+    if (weight === 0) {
+      continue;
+    }
+    for (let i = 0; i < numStates; i++) {
+      holdMs[i] += weight * (bucket.holdMs[i] ?? 0);
+      const row = bucket.transCounts[i];
+      if (row === undefined) {
+        continue;
+      }
+      for (let j = 0; j < numStates; j++) {
+        transCounts[i][j] += weight * (row[j] ?? 0);
+      }
+    }
+  }
+  return { holdMs, transCounts };
+}
+
+/**
+ * A bucket's raw statistics with its non-zero transition counts listed
+ * sparsely (most entries of a transition matrix are zero).
+ */
+interface SourceBucket {
+  readonly holdMs: readonly number[];
+  readonly transitions: readonly { i: number; j: number; count: number }[];
+}
+
+/**
+ * Smoothed statistics at the midpoints of many buckets on one clock.
+ * Equivalent to `smoothAtWeekPosition` at each midpoint, but reuses kernel
+ * weights (which only depend on the bucket offset) and skips offsets outside
+ * the kernel's support, for week-wide sweeps.
+ *
+ * @param stats - Raw per-bucket statistics for one clock
+ * @param bucketIds - Buckets to evaluate at
+ * @param settings - Kernel, bandwidth and optional window
+ * @returns Smoothed statistics, in the order of `bucketIds`
+ */
+export function smoothAtBucketCenters(
+  stats: ClockBucketStats,
+  bucketIds: readonly BucketId[],
+  settings: KdeSettings
+): SufficientStats[] {
+  const kernel = createCyclicKernel(settings);
+  const offsets: { offset: number; weight: number }[] = [];
+  let totalWeight = 0;
+  for (let offset = 0; offset < BUCKETS_PER_WEEK; offset++) {
+    const weight = kernel(0, offset * BUCKET_MS);
+    if (weight > 0) {
+      offsets.push({ offset, weight });
+      totalWeight += weight;
+    }
+  }
+
+  const { numStates } = stats;
+  const sources = new Array<SourceBucket | undefined>(BUCKETS_PER_WEEK);
+  for (const [bucketId, bucket] of stats.buckets) {
+    sources[bucketId] = {
+      holdMs: bucket.holdMs,
+      transitions: bucket.transCounts.flatMap((row, i) =>
+        row.flatMap((count, j) => (count !== 0 ? [{ i, j, count }] : []))
+      ),
+    };
+  }
+
+  return bucketIds.map((target) => {
+    const holdMs = new Array<number>(numStates).fill(0);
+    const transCounts = Array.from({ length: numStates }, () =>
+      new Array<number>(numStates).fill(0)
+    );
+    for (const { offset, weight } of offsets) {
+      const source = sources[(target + offset) % BUCKETS_PER_WEEK];
+      if (source === undefined) {
+        continue;
+      }
+      const normalized = weight / totalWeight;
+      for (let i = 0; i < numStates; i++) {
+        holdMs[i] += normalized * (source.holdMs[i] ?? 0);
+      }
+      for (const { i, j, count } of source.transitions) {
+        transCounts[i][j] += normalized * count;
+      }
+    }
+    return { holdMs, transCounts };
+  });
+}
+
+/**
+ * Smoothed statistics at a real timestamp, evaluated on every clock at that
+ * clock's time-of-week coordinate. Clocks whose time-of-day is undefined at
+ * `tsMs` map to `undefined`.
+ *
+ * @param statsByClock - Raw per-bucket statistics for each clock
+ * @param tsMs - Query timestamp (Unix milliseconds)
+ * @param location - Clock location
+ * @param settings - Kernel, bandwidth and optional window
+ */
+export function smoothAtTimestamp(
+  statsByClock: Readonly<Record<ClockId, ClockBucketStats>>,
+  tsMs: number,
+  location: ClockLocation,
+  settings: KdeSettings
+): Record<ClockId, SufficientStats | undefined> {
+  const result = {} as Record<ClockId, SufficientStats | undefined>;
+  for (const clockId of CLOCK_IDS) {
+    const weekMs = mapTimestampToWeekPosition(clockId, tsMs, location);
+    result[clockId] =
+      weekMs === undefined
+        ? undefined
+        : smoothAtWeekPosition(statsByClock[clockId], weekMs, settings);
+  }
+  return result;
+}
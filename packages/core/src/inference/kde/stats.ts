@@ -0,0 +1,60 @@
+/**
+ * Construction of per-bucket sufficient statistics from aggregate rows.
+ */
+
+import type { BucketId } from '../../time/index.js';
+import type { HoldMsEntry, TransCountEntry } from '../../measurement/index.js';
+import type { ClockBucketStats, SufficientStats } from './types.js';
+
+/**
+ * Zero statistics for a control with `numStates` states.
+ */
+export function emptySufficientStats(numStates: number): SufficientStats {
+  return zeroStats(numStates);
+}
+
+function zeroStats(numStates: number): { holdMs: number[]; transCounts: number[][] } {
+  return {
+    holdMs: new Array<number>(numStates).fill(0),
+    transCounts: Array.from({ length: numStates }, () => new Array<number>(numStates).fill(0)),
+  };
+}
+
+/**
+ * Sums aggregate rows into per-bucket statistics.
+ * Rows are summed regardless of model, so passing rows of several models
+ * yields the aggregated view. Callers must pass rows of a single clock.
+ *
+ * @throws Error if a row references a state outside [0, numStates)
+ */
+export function buildClockBucketStats(
+  numStates: number,
+  holdRows: readonly Pick<HoldMsEntry, 'bucketId' | 'state' | 'ms'>[],
+  transRows: readonly Pick<TransCountEntry, 'bucketId' | 'fromState' | 'toState' | 'count'>[]
+): ClockBucketStats {
+  const buckets = new Map<BucketId, { holdMs: number[]; transCounts: number[][] }>();
+  const bucketFor = (bucketId: BucketId) => {
+    let bucket = buckets.get(bucketId);
+    if (bucket === undefined) {
+      bucket = zeroStats(numStates);
+      buckets.set(bucketId, bucket);
+    }
+    return bucket;
+  };
+  const checkState = (state: number) => {
+    if (!Number.isInteger(state) || state < 0 || state >= numStates) {
+      throw new Error(`State ${state} is out of range for ${numStates} states`);
+    }
+  };
+
+  for (const row of holdRows) {
+    checkState(row.state);
+    bucketFor(row.bucketId).holdMs[row.state] += row.ms;
+  }
+  for (const row of transRows) {
+    checkState(row.fromState);
+    checkState(row.toState);
+    bucketFor(row.bucketId).transCounts[row.fromState][row.toState] += row.count;
+  }
+  return { numStates, buckets };
+}
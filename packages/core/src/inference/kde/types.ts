@@ -0,0 +1,30 @@
+/**
+ * KDE input and output types.
+ */
+
+import type { BucketId } from '../../time/index.js';
+
+/**
+ * CTMC sufficient statistics for one time-of-week position (raw bucket or
+ * smoothed query time).
+ */
+export interface SufficientStats {
+  /**
+   * Holding time per state in milliseconds, indexed by state.
+   */
+  readonly holdMs: readonly number[];
+  /**
+   * User-initiated transition counts, indexed `[fromState][toState]`.
+   * Smoothed counts are fractional.
+   */
+  readonly transCounts: readonly (readonly number[])[];
+}
+
+/**
+ * Raw per-bucket statistics for one clock (and one control/model selection).
+ * Buckets without any data may be omitted from `buckets`.
+ */
+export interface ClockBucketStats {
+  readonly numStates: number;
+  readonly buckets: ReadonlyMap<BucketId, SufficientStats>;
+}
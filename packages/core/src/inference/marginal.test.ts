@@ -0,0 +1,118 @@
+/**
+ * Tests for per-dimension analytics of compound controls.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateMarginalPreferences,
+  marginalizeClockBucketStats,
+  marginalizeSufficientStats,
+} from './marginal.js';
+import type { PreferenceSettings } from './preference.js';
+import { buildClockBucketStats, type ClockBucketStats } from './kde/index.js';
+import { CLOCK_IDS, type ClockId, type ClockLocation } from '../clocks/index.js';
+import { BUCKETS_PER_WEEK, createBucketId } from '../time/index.js';
+import type { CompoundDefinition } from '../domain/index.js';
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+const settings: PreferenceSettings = {
+  kde: { kernel: 'gaussian', bandwidthMinutes: 60 },
+  ctmc: { rateEstimator: 'maximumLikelihood' },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' } },
+};
+
+// 2 × 3 joint states: joint = temperature * 3 + brightness.
+const lamp: CompoundDefinition = {
+  kind: 'compound',
+  dimensions: [
+    { name: 'temperature', control: { kind: 'radiobutton', numStates: 2, labels: ['W', 'C'] } },
+    {
+      name: 'brightness',
+      control: { kind: 'radiobutton', numStates: 3, labels: ['Off', 'Dim', 'On'] },
+    },
+  ],
+};
+
+function zeros(n: number): number[][] {
+  return Array.from({ length: n }, () => new Array<number>(n).fill(0));
+}
+
+describe('marginalizeSufficientStats', () => {
+  const transCounts = zeros(6);
+  transCounts[0][4] = 2; // (W, Off) → (C, Dim): both dimensions change
+  transCounts[1][2] = 3; // (W, Dim) → (W, On): brightness only
+  transCounts[3][0] = 1; // (C, Off) → (W, Off): temperature only
+  const stats = { holdMs: [1, 2, 3, 4, 5, 6], transCounts };
+
+  it('sums holding time over the joint states of each dimension state', () => {
+    expect(marginalizeSufficientStats(stats, lamp, 0).holdMs).toEqual([6, 15]);
+    expect(marginalizeSufficientStats(stats, lamp, 1).holdMs).toEqual([5, 7, 9]);
+  });
+
+  it('counts only transitions that change the dimension', () => {
+    expect(marginalizeSufficientStats(stats, lamp, 0).transCounts).toEqual([
+      [0, 2],
+      [1, 0],
+    ]);
+    expect(marginalizeSufficientStats(stats, lamp, 1).transCounts).toEqual([
+      [0, 2, 0],
+      [0, 0, 3],
+      [0, 0, 0],
+    ]);
+  });
+
+  it('rejects unknown dimensions', () => {
+    expect(() => marginalizeSufficientStats(stats, lamp, 2)).toThrow();
+  });
+});
+
+describe('estimateMarginalPreferences', () => {
+  // Every bucket: mostly (C, On) with transitions in and out of it.
+  const statsByClock = {} as Record<ClockId, ClockBucketStats>;
+  const holdRows = [];
+  const transRows = [];
+  for (let b = 0; b < BUCKETS_PER_WEEK; b++) {
+    const bucketId = createBucketId(b);
+    holdRows.push({ bucketId, state: 5, ms: 9 * 60_000 }, { bucketId, state: 0, ms: 60_000 });
+    transRows.push(
+      { bucketId, fromState: 0, toState: 5, count: 1 },
+      { bucketId, fromState: 5, toState: 0, count: 1 }
+    );
+  }
+  for (const clockId of CLOCK_IDS) {
+    statsByClock[clockId] = buildClockBucketStats(6, holdRows, transRows);
+  }
+
+  it('estimates each dimension on its own states', () => {
+    const tsMs = Date.UTC(2024, 5, 12, 12, 0);
+    const [temperature, brightness] = estimateMarginalPreferences(
+      lamp,
+      statsByClock,
+      tsMs,
+      london,
+      settings
+    );
+    expect(temperature.name).toBe('temperature');
+    const utcTemperature = temperature.clocks.utc;
+    const utcBrightness = brightness.clocks.utc;
+    if (!utcTemperature.defined || !utcBrightness.defined) {
+      throw new Error('UTC clock is always defined');
+    }
+    expect(utcTemperature.states.map((s) => s.label)).toEqual(['W', 'C']);
+    expect(utcTemperature.states[1].probability).toBeGreaterThan(0.5);
+    expect(utcBrightness.states).toHaveLength(3);
+    const [, dim, on] = utcBrightness.states;
+    expect(on.probability).toBeGreaterThan(dim.probability);
+  });
+
+  it('keeps the bucket layout when marginalizing clock statistics', () => {
+    const marginal = marginalizeClockBucketStats(statsByClock.utc, lamp, 1);
+    expect(marginal.numStates).toBe(3);
+    expect(marginal.buckets.size).toBe(BUCKETS_PER_WEEK);
+  });
+});
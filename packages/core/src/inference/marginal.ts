@@ -0,0 +1,115 @@
+/**
+ * Per-dimension analytics of compound controls. A compound control's
+ * aggregates are recorded on its joint states, so the joint preference is the
+ * regular pipeline with one CTMC over all combinations. Marginal analytics
+ * project the statistics onto one dimension and estimate it as a CTMC of its
+ * own, as if each dimension were an independent control.
+ */
+
+import {
+  decodeCompoundState,
+  getDimensionStateCounts,
+  type CompoundDefinition,
+} from '../domain/index.js';
+import { CLOCK_IDS, type ClockId, type ClockLocation } from '../clocks/index.js';
+import type { BucketId } from '../time/index.js';
+import type { ClockBucketStats, SufficientStats } from './kde/index.js';
+import {
+  estimateClockPreferences,
+  type ClockPreference,
+  type PreferenceSettings,
+} from './preference.js';
+
+/**
+ * Preference of one dimension of a compound control, per clock.
+ */
+export interface DimensionPreference {
+  readonly name: string;
+  readonly clocks: Record<ClockId, ClockPreference>;
+}
+
+/**
+ * Projects joint statistics onto dimension `dimension`.
+ *
+ * Holding time of a dimension state sums the joint states that contain it. A
+ * joint transition counts for the dimension only if it changes that
+ * dimension's state; changes of other dimensions alone are not transitions
+ * of this one.
+ *
+ * @throws Error if `dimension` is not a dimension of the control
+ */
+export function marginalizeSufficientStats(
+  stats: SufficientStats,
+  definition: CompoundDefinition,
+  dimension: number
+): SufficientStats {
+  const numStates = dimensionStateCount(definition, dimension);
+  const project = stats.holdMs.map((_, state) => decodeCompoundState(definition, state)[dimension]);
+  const holdMs = new Array<number>(numStates).fill(0);
+  const transCounts = Array.from({ length: numStates }, () => new Array<number>(numStates).fill(0));
+  stats.holdMs.forEach((ms, state) => {
+    holdMs[project[state]] += ms;
+  });
+  stats.transCounts.forEach((row, from) => {
+    row.forEach((count, to) => {
+      if (project[from] !== project[to]) {
+        transCounts[project[from]][project[to]] += count;
+      }
+    });
+  });
+  return { holdMs, transCounts };
+}
+
+/**
+ * Projects every bucket of one clock's joint statistics onto `dimension`
+ * (see `marginalizeSufficientStats`).
+ */
+export function marginalizeClockBucketStats(
+  stats: ClockBucketStats,
+  definition: CompoundDefinition,
+  dimension: number
+): ClockBucketStats {
+  const buckets = new Map<BucketId, SufficientStats>();
+  for (const [bucketId, bucket] of stats.buckets) {
+    buckets.set(bucketId, marginalizeSufficientStats(bucket, definition, dimension));
+  }
+  return { numStates: dimensionStateCount(definition, dimension), buckets };
+}
+
+/**
+ * Stationary preference distributions of each dimension of a compound control
+ * at a timestamp, per clock, estimated from the marginalized statistics.
+ *
+ * @param definition - Compound control definition
+ * @param statsByClock - Raw per-bucket joint statistics per clock
+ * @param tsMs - Query timestamp (Unix ms)
+ * @param location - Clock location
+ * @param settings - KDE, CTMC estimator and damping settings
+ * @returns One entry per dimension, in definition order
+ */
+export function estimateMarginalPreferences(
+  definition: CompoundDefinition,
+  statsByClock: Readonly<Record<ClockId, ClockBucketStats>>,
+  tsMs: number,
+  location: ClockLocation,
+  settings: PreferenceSettings
+): DimensionPreference[] {
+  return definition.dimensions.map(({ name, control }, dimension) => {
+    const marginal = {} as Record<ClockId, ClockBucketStats>;
+    for (const clockId of CLOCK_IDS) {
+      marginal[clockId] = marginalizeClockBucketStats(statsByClock[clockId], definition, dimension);
+    }
+    return {
+      name,
+      clocks: estimateClockPreferences(control, marginal, tsMs, location, settings),
+    };
+  });
+}
+
+function dimensionStateCount(definition: CompoundDefinition, dimension: number): number {
+  const counts = getDimensionStateCounts(definition);
+  if (!Number.isInteger(dimension) || dimension < 0 || dimension >= counts.length) {
+    throw new Error(`Compound control has no dimension ${dimension}`);
+  }
+  return counts[dimension];
+}
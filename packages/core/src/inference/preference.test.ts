@@ -0,0 +1,130 @@
+/**
+ * Tests for the per-clock preference pipeline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateClockPreference,
+  estimateClockPreferences,
+  type PreferenceSettings,
+} from './preference.js';
+import { buildClockBucketStats, type ClockBucketStats } from './kde/index.js';
+import { CLOCK_IDS, type ClockId, type ClockLocation } from '../clocks/index.js';
+import { BUCKETS_PER_WEEK, createBucketId } from '../time/index.js';
+import type { ControlDefinition } from '../domain/index.js';
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+const tromso: ClockLocation = {
+  timezone: 'Europe/Oslo',
+  latitude: 69.6496,
+  longitude: 18.956,
+};
+
+const settings: PreferenceSettings = {
+  kde: { kernel: 'gaussian', bandwidthMinutes: 60 },
+  ctmc: { rateEstimator: 'maximumLikelihood' },
+  damping: { alpha: 0.95, prior: { kind: 'uniform' } },
+};
+
+const radiobutton: ControlDefinition = {
+  kind: 'radiobutton',
+  numStates: 3,
+  labels: ['Off', 'Low', 'High'],
+};
+
+/**
+ * Every bucket: state 2 held 9× longer than state 0, with transitions both ways.
+ */
+function uniformWeekStats(numStates: number): ClockBucketStats {
+  const holdRows = [];
+  const transRows = [];
+  for (let b = 0; b < BUCKETS_PER_WEEK; b++) {
+    const bucketId = createBucketId(b);
+    holdRows.push({ bucketId, state: 0, ms: 1000 }, { bucketId, state: 2, ms: 9000 });
+    transRows.push(
+      { bucketId, fromState: 0, toState: 2, count: 1 },
+      { bucketId, fromState: 2, toState: 0, count: 1 }
+    );
+  }
+  return buildClockBucketStats(numStates, holdRows, transRows);
+}
+
+function allClocks(stats: ClockBucketStats): Record<ClockId, ClockBucketStats> {
+  return Object.fromEntries(CLOCK_IDS.map((clockId) => [clockId, stats])) as Record<
+    ClockId,
+    ClockBucketStats
+  >;
+}
+
+describe('estimateClockPreferences', () => {
+  it('returns labelled distributions for every clock', () => {
+    const result = estimateClockPreferences(
+      radiobutton,
+      allClocks(uniformWeekStats(3)),
+      Date.UTC(2024, 5, 3, 12),
+      london,
+      settings
+    );
+    expect(Object.keys(result).sort()).toEqual([...CLOCK_IDS].sort());
+    for (const clockId of CLOCK_IDS) {
+      const preference = result[clockId];
+      expect(preference.defined).toBe(true);
+      if (!preference.defined) {
+        continue;
+      }
+      expect(preference.states.map((s) => s.label)).toEqual(['Off', 'Low', 'High']);
+      const total = preference.states.reduce((sum, s) => sum + s.probability, 0);
+      expect(total).toBeCloseTo(1, 9);
+      expect(preference.states[2].probability).toBeGreaterThan(preference.states[0].probability);
+    }
+  });
+
+  it('matches the single-clock estimate', () => {
+    const stats = allClocks(uniformWeekStats(3));
+    const tsMs = Date.UTC(2024, 0, 1, 12);
+    const result = estimateClockPreferences(radiobutton, stats, tsMs, tromso, settings);
+    for (const clockId of CLOCK_IDS) {
+      expect(
+        estimateClockPreference(radiobutton, clockId, stats[clockId], tsMs, tromso, settings)
+      ).toEqual(result[clockId]);
+    }
+  });
+
+  it('marks clocks with no defined time', () => {
+    const result = estimateClockPreferences(
+      radiobutton,
+      allClocks(uniformWeekStats(3)),
+      Date.UTC(2024, 0, 1, 12),
+      tromso,
+      settings
+    );
+    expect(result.unequalHours).toEqual({ defined: false });
+    expect(result.utc.defined).toBe(true);
+  });
+
+  it('falls back to generic labels for unlabelled sliders', () => {
+    const result = estimateClockPreferences(
+      { kind: 'slider' },
+      allClocks(buildClockBucketStats(6, [], [])),
+      Date.UTC(2024, 5, 3, 12),
+      london,
+      settings
+    );
+    const utc = result.utc;
+    expect(utc.defined && utc.states.map((s) => s.label)).toEqual([
+      'State 0',
+      'State 1',
+      'State 2',
+      'State 3',
+      'State 4',
+      'State 5',
+    ]);
+    // No data: the damped chain returns the uniform prior.
+    expect(utc.defined && utc.states[0].probability).toBeCloseTo(1 / 6, 9);
+  });
+});
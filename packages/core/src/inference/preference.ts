@@ -0,0 +1,133 @@
+/**
+ * Preference estimation pipeline (MANUAL.md "Relationship to CTMC
+ * estimation"): KDE-smooth the raw bucket statistics at the query time, build
+ * the CTMC generator, and solve for its stationary distribution — per clock.
+ */
+
+import {
+  getStateLabels,
+  type ControlDefinition,
+  type DiscreteState,
+} from '../domain/index.js';
+import {
+  CLOCK_IDS,
+  mapTimestampToWeekPosition,
+  type ClockId,
+  type ClockLocation,
+} from '../clocks/index.js';
+import type { SystemConfig } from '../config/index.js';
+import type { BucketId } from '../time/index.js';
+import {
+  smoothAtBucketCenters,
+  smoothAtWeekPosition,
+  type ClockBucketStats,
+} from './kde/index.js';
+import { buildGenerator, solveStationary, type StationaryDiagnostics } from './ctmc/index.js';
+
+/**
+ * Inference settings used by the pipeline.
+ */
+export type PreferenceSettings = Pick<SystemConfig, 'kde' | 'ctmc' | 'damping'>;
+
+/**
+ * Estimated preference for one state.
+ */
+export interface StatePreference {
+  readonly state: DiscreteState;
+  readonly label: string;
+  readonly probability: number;
+}
+
+/**
+ * Preference on one clock at the query time. `defined: false` marks clocks
+ * whose time-of-day is undefined at that instant (e.g. unequal hours during
+ * polar night).
+ */
+export type ClockPreference =
+  | { readonly defined: false }
+  | {
+      readonly defined: true;
+      readonly states: readonly StatePreference[];
+      readonly diagnostics: StationaryDiagnostics;
+    };
+
+/**
+ * Stationary preference distributions of a control at a timestamp, per clock.
+ *
+ * @param definition - Control definition (state count and labels)
+ * @param statsByClock - Raw per-bucket statistics per clock
+ * @param tsMs - Query timestamp (Unix ms)
+ * @param location - Clock location
+ * @param settings - KDE, CTMC estimator and damping settings
+ */
+export function estimateClockPreferences(
+  definition: ControlDefinition,
+  statsByClock: Readonly<Record<ClockId, ClockBucketStats>>,
+  tsMs: number,
+  location: ClockLocation,
+  settings: PreferenceSettings
+): Record<ClockId, ClockPreference> {
+  const result = {} as Record<ClockId, ClockPreference>;
+  for (const clockId of CLOCK_IDS) {
+    result[clockId] = estimateClockPreference(
+      definition,
+      clockId,
+      statsByClock[clockId],
+      tsMs,
+      location,
+      settings
+    );
+  }
+  return result;
+}
+
+/**
+ * Stationary preference distribution of a control at a timestamp on one
+ * clock, for callers that only need that clock's statistics.
+ *
+ * @param stats - Raw per-bucket statistics of `clockId`
+ */
+export function estimateClockPreference(
+  definition: ControlDefinition,
+  clockId: ClockId,
+  stats: ClockBucketStats,
+  tsMs: number,
+  location: ClockLocation,
+  settings: PreferenceSettings
+): ClockPreference {
+  const weekMs = mapTimestampToWeekPosition(clockId, tsMs, location);
+  if (weekMs === undefined) {
+    return { defined: false };
+  }
+  const labels = getStateLabels(definition);
+  const smoothed = smoothAtWeekPosition(stats, weekMs, settings.kde);
+  const generator = buildGenerator(smoothed, settings.ctmc);
+  const { distribution, diagnostics } = solveStationary(generator, settings.damping);
+  return {
+    defined: true,
+    states: distribution.map((probability, state) => ({
+      state,
+      label: labels[state],
+      probability,
+    })),
+    diagnostics,
+  };
+}
+
+/**
+ * Stationary distributions at bucket midpoints on one clock (e.g. a full
+ * week for backtests), without labels or diagnostics.
+ *
+ * @returns One distribution per entry of `bucketIds`, in order
+ */
+export function stationaryAtBucketCenters(
+  stats: ClockBucketStats,
+  bucketIds: readonly BucketId[],
+  settings: PreferenceSettings
+): (readonly number[])[] {
+  return smoothAtBucketCenters(stats, bucketIds, settings.kde).map(
+    (smoothed) =>
+      solveStationary(buildGenerator(smoothed, settings.ctmc), settings.damping)
+        .distribution
+  );
+}
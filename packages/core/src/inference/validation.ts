@@ -0,0 +1,15 @@
+/**
+ * Zod validation schemas for inference request options.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for DivergenceMetric.
+ */
+export const divergenceMetricSchema = z.enum(['totalVariation', 'kullbackLeibler', 'jensenShannon']);
+
+/**
+ * Schema for HeatmapView.
+ */
+export const heatmapViewSchema = z.enum(['week', 'day']);
@@ -0,0 +1,103 @@
+/**
+ * Measurement aggregate entry types.
+ * Aggregates are keyed by (control, model, clock, bucket) plus state(s), and
+ * partitioned by the calendar quarter the data was recorded in.
+ *
+ * They are stored packed: one `AggregateBucket` per (control, generation,
+ * model, clock, bucket, quarter) holds the bucket's holding-time vector and
+ * transition counts, so a commit or a reader touches one document per bucket
+ * rather than one per state. `HoldMsEntry` and `TransCountEntry` are single
+ * entries of those vectors, the unit replay, diffs and inference work with.
+ *
+ * Each control reads one generation of buckets at a time; a rebuild from the
+ * event log writes a new generation and switches to it once complete.
+ */
+
+import type { ControlId, DiscreteState, ModelId } from '../domain/index.js';
+import type { ClockId } from '../clocks/index.js';
+import type { BucketId } from '../time/index.js';
+import type { QuarterKey } from '../retention/index.js';
+
+/**
+ * Accumulated holding time: `holdMs[model][s]` for one (control, clock, bucket).
+ */
+export interface HoldMsEntry {
+  readonly controlId: ControlId;
+  readonly generation: number;
+  readonly modelId: ModelId;
+  readonly clockId: ClockId;
+  readonly bucketId: BucketId;
+  readonly state: DiscreteState;
+  readonly quarterKey: QuarterKey;
+  /**
+   * Accumulated real elapsed milliseconds.
+   */
+  readonly ms: number;
+}
+
+/**
+ * Accumulated user-initiated transitions: `transCount[model][i][j]` for one
+ * (control, clock, bucket).
+ */
+export interface TransCountEntry {
+  readonly controlId: ControlId;
+  readonly generation: number;
+  readonly modelId: ModelId;
+  readonly clockId: ClockId;
+  readonly bucketId: BucketId;
+  readonly fromState: DiscreteState;
+  readonly toState: DiscreteState;
+  readonly quarterKey: QuarterKey;
+  /**
+   * Accumulated transition count.
+   */
+  readonly count: number;
+}
+
+/**
+ * Key of one aggregate bucket within a control's generation.
+ */
+export interface AggregateBucketKey {
+  readonly modelId: ModelId;
+  readonly clockId: ClockId;
+  readonly bucketId: BucketId;
+  readonly quarterKey: QuarterKey;
+}
+
+/**
+ * Count of one (from, to) cell of a bucket's transition matrix.
+ */
+export interface TransitionCount {
+  readonly fromState: DiscreteState;
+  readonly toState: DiscreteState;
+  readonly count: number;
+}
+
+/**
+ * Holding time and transitions accumulated in one bucket.
+ */
+export interface BucketCounts {
+  /**
+   * Accumulated milliseconds indexed by state; states past the end have none.
+   */
+  readonly holdMs: readonly number[];
+  /**
+   * Nonzero cells of the transition matrix, at most one per (from, to) pair.
+   * The matrix is kept sparse as compound controls have up to 100 states.
+   */
+  readonly transCounts: readonly TransitionCount[];
+}
+
+/**
+ * Counts to add to one bucket of a control's generation.
+ */
+export interface AggregateBucketDelta extends AggregateBucketKey, BucketCounts {}
+
+/**
+ * Stored aggregates of one (control, generation, model, clock, bucket,
+ * quarter).
+ */
+export interface AggregateBucket extends AggregateBucketDelta {
+  readonly controlId: ControlId;
+  readonly generation: number;
+}
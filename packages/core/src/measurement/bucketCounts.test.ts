@@ -0,0 +1,129 @@
+/**
+ * Tests for per-bucket packing of aggregate entries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addBucketCounts,
+  commitAnalyticsEntries,
+  packBucketDeltas,
+  unpackBuckets,
+} from './bucketCounts.js';
+import { deriveCommitAnalytics } from './commit.js';
+import { CLOCK_IDS } from '../clocks/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const key = {
+  modelId: 'model-a' as any,
+  clockId: 'utc' as const,
+  bucketId: 7 as any,
+  quarterKey: '2024-Q1' as any,
+};
+
+describe('addBucketCounts', () => {
+  it('adds holding time per state and transitions per cell', () => {
+    const counts = addBucketCounts(
+      { holdMs: [10, 0, 5], transCounts: [{ fromState: 0, toState: 2, count: 1 }] },
+      {
+        holdMs: [1, 2],
+        transCounts: [
+          { fromState: 0, toState: 2, count: 2 },
+          { fromState: 2, toState: 1, count: 1 },
+        ],
+      }
+    );
+    expect(counts).toEqual({
+      holdMs: [11, 2, 5],
+      transCounts: [
+        { fromState: 0, toState: 2, count: 3 },
+        { fromState: 2, toState: 1, count: 1 },
+      ],
+    });
+  });
+
+  it('grows the holding-time vector to the highest state held', () => {
+    expect(addBucketCounts(undefined, { holdMs: [0, 0, 0, 4], transCounts: [] }).holdMs).toEqual(
+      [0, 0, 0, 4]
+    );
+    expect(addBucketCounts({ holdMs: [1], transCounts: [] }, { holdMs: [0, 0, 3], transCounts: [] }))
+      .toEqual({ holdMs: [1, 0, 3], transCounts: [] });
+  });
+});
+
+describe('packBucketDeltas', () => {
+  it('packs entries of all states into one delta per bucket', () => {
+    const deltas = packBucketDeltas({
+      holdMs: [
+        { ...key, state: 0, ms: 100 },
+        { ...key, state: 2, ms: 50 },
+        { ...key, state: 0, ms: 20 },
+        { ...key, bucketId: 8 as any, state: 1, ms: 30 },
+      ],
+      transCounts: [{ ...key, fromState: 0, toState: 2, count: 1 }],
+    });
+    expect(deltas).toEqual([
+      {
+        ...key,
+        holdMs: [120, 0, 50],
+        transCounts: [{ fromState: 0, toState: 2, count: 1 }],
+      },
+      { ...key, bucketId: 8, holdMs: [0, 30], transCounts: [] },
+    ]);
+  });
+
+  it('keeps quarters and models in separate buckets', () => {
+    const deltas = packBucketDeltas({
+      holdMs: [
+        { ...key, state: 0, ms: 1 },
+        { ...key, quarterKey: '2024-Q2' as any, state: 0, ms: 1 },
+        { ...key, modelId: 'model-b' as any, state: 0, ms: 1 },
+      ],
+      transCounts: [],
+    });
+    expect(deltas).toHaveLength(3);
+  });
+
+  it('round-trips through unpackBuckets', () => {
+    const entries = {
+      holdMs: [
+        { ...key, state: 1, ms: 100 },
+        { ...key, bucketId: 9 as any, state: 0, ms: 40 },
+      ],
+      transCounts: [{ ...key, fromState: 1, toState: 0, count: 2 }],
+    };
+    expect(unpackBuckets(packBucketDeltas(entries))).toEqual(entries);
+  });
+});
+
+describe('commitAnalyticsEntries', () => {
+  it('lists one holding entry per clock bucket and one transition per clock', () => {
+    const previousCommittedAtMs = Date.UTC(2024, 0, 1, 18, 2);
+    const analytics = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: {
+        controlId: 'control-1' as any,
+        tsMs: previousCommittedAtMs + 10 * MINUTE_MS,
+        fromDiscreteState: 1,
+        toDiscreteState: 2,
+        initiator: 'user',
+        activeModelId: 'model-1' as any,
+      },
+      location: { timezone: 'UTC', latitude: 0, longitude: 0 },
+    });
+    const entries = commitAnalyticsEntries(analytics);
+
+    const utcHolds = entries.holdMs.filter((entry) => entry.clockId === 'utc');
+    expect(utcHolds.map(({ state, ms }) => ({ state, ms }))).toEqual([
+      { state: 1, ms: 3 * MINUTE_MS },
+      { state: 1, ms: 5 * MINUTE_MS },
+      { state: 1, ms: 2 * MINUTE_MS },
+    ]);
+    expect(entries.transCounts.map((entry) => entry.clockId)).toEqual(
+      Object.keys(analytics.transition?.buckets ?? {})
+    );
+    expect(entries.transCounts).toHaveLength(CLOCK_IDS.length);
+    expect(entries.transCounts.every((entry) => entry.count === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Packing of aggregate entries into per-bucket counts (see `aggregates.ts`).
+ */
+
+import type { ClockId } from '../clocks/index.js';
+import type { BucketId } from '../time/index.js';
+import type {
+  AggregateBucketDelta,
+  AggregateBucketKey,
+  BucketCounts,
+  HoldMsEntry,
+  TransCountEntry,
+  TransitionCount,
+} from './aggregates.js';
+import type { CommitAnalytics } from './commit.js';
+import type { BucketAllocation } from './splitHoldInterval.js';
+
+type HoldMsRow = Omit<HoldMsEntry, 'controlId' | 'generation'>;
+type TransCountRow = Omit<TransCountEntry, 'controlId' | 'generation'>;
+
+/**
+ * Aggregate entries of one control's generation, one per state (holding
+ * time) or (from, to) pair (transitions) of a bucket.
+ */
+export interface AggregateEntries {
+  readonly holdMs: readonly HoldMsRow[];
+  readonly transCounts: readonly TransCountRow[];
+}
+
+/**
+ * Lists the aggregate entries of one committed change's analytics.
+ */
+export function commitAnalyticsEntries(analytics: CommitAnalytics): AggregateEntries {
+  const holdMs: HoldMsRow[] = [];
+  for (const { quarterKey, modelId, holding } of analytics.holdings) {
+    for (const [clockId, allocations] of Object.entries(holding.clocks) as [
+      ClockId,
+      BucketAllocation[],
+    ][]) {
+      for (const { bucketId, ms } of allocations) {
+        holdMs.push({ modelId, clockId, bucketId, state: holding.state, quarterKey, ms });
+      }
+    }
+  }
+  const transCounts: TransCountRow[] = [];
+  const { transition } = analytics;
+  if (transition !== undefined) {
+    const { fromState, toState, quarterKey, modelId } = transition;
+    for (const [clockId, bucketId] of Object.entries(transition.buckets) as [
+      ClockId,
+      BucketId,
+    ][]) {
+      transCounts.push({ modelId, clockId, bucketId, fromState, toState, quarterKey, count: 1 });
+    }
+  }
+  return { holdMs, transCounts };
+}
+
+/**
+ * Groups aggregate entries into one delta per bucket, in order of each
+ * bucket's first entry. Entries sharing a key are summed.
+ */
+export function packBucketDeltas(entries: AggregateEntries): AggregateBucketDelta[] {
+  const buckets = new Map<string, { key: AggregateBucketKey; counts: BucketCounts }>();
+  const add = (key: AggregateBucketKey, added: BucketCounts) => {
+    const id = [key.modelId, key.clockId, key.bucketId, key.quarterKey].join('|');
+    const bucket = buckets.get(id);
+    if (bucket === undefined) {
+      buckets.set(id, { key, counts: addBucketCounts(undefined, added) });
+    } else {
+      bucket.counts = addBucketCounts(bucket.counts, added);
+    }
+  };
+  for (const { state, ms, ...key } of entries.holdMs) {
+    add(key, { holdMs: stateVector(state, ms), transCounts: [] });
+  }
+  for (const { fromState, toState, count, ...key } of entries.transCounts) {
+    add(key, { holdMs: [], transCounts: [{ fromState, toState, count }] });
+  }
+  return Array.from(buckets.values(), ({ key, counts }) => ({ ...key, ...counts }));
+}
+
+/**
+ * Adds counts to a bucket's counts (`undefined` for a bucket without any).
+ */
+export function addBucketCounts(
+  counts: BucketCounts | undefined,
+  added: BucketCounts
+): BucketCounts {
+  const holdMs = [...(counts?.holdMs ?? [])];
+  added.holdMs.forEach((ms, state) => {
+    holdMs[state] = (holdMs[state] ?? 0) + ms;
+  });
+  const transCounts = [...(counts?.transCounts ?? [])];
+  for (const cell of added.transCounts) {
+    const index = transCounts.findIndex(
+      ({ fromState, toState }) => fromState === cell.fromState && toState === cell.toState
+    );
+    if (index < 0) {
+      transCounts.push(cell);
+    } else {
+      transCounts[index] = { ...cell, count: transCounts[index].count + cell.count };
+    }
+  }
+  // Sparse writes leave holes for states without holding time
+  return { holdMs: Array.from(holdMs, (ms) => ms ?? 0), transCounts };
+}
+
+/**
+ * Lists the nonzero entries of stored buckets (the inverse of
+ * `packBucketDeltas`).
+ */
+export function unpackBuckets(
+  buckets: readonly (AggregateBucketKey & BucketCounts)[]
+): AggregateEntries {
+  const holdMs: HoldMsRow[] = [];
+  const transCounts: TransCountRow[] = [];
+  for (const { modelId, clockId, bucketId, quarterKey, ...counts } of buckets) {
+    const key = { modelId, clockId, bucketId, quarterKey };
+    counts.holdMs.forEach((ms, state) => {
+      if (ms > 0) {
+        holdMs.push({ ...key, state, ms });
+      }
+    });
+    for (const { fromState, toState, count } of counts.transCounts) {
+      if (count > 0) {
+        transCounts.push({ ...key, fromState, toState, count });
+      }
+    }
+  }
+  return { holdMs, transCounts };
+}
+
+/**
+ * Looks up one cell of a bucket's transition matrix.
+ */
+export function findTransitionCount(
+  counts: BucketCounts,
+  fromState: number,
+  toState: number
+): TransitionCount | undefined {
+  return counts.transCounts.find(
+    (cell) => cell.fromState === fromState && cell.toState === toState
+  );
+}
+
+function stateVector(state: number, ms: number): number[] {
+  const holdMs = new Array<number>(state + 1).fill(0);
+  holdMs[state] = ms;
+  return holdMs;
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for committed-change analytics derivation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deriveCommitAnalytics, mapTransitionToBuckets } from './commit.js';
+import { totalAllocatedMs } from './splitHoldInterval.js';
+import { CLOCK_IDS, type ClockLocation } from '../clocks/index.js';
+import type { CommittedChangeEvent } from '../domain/index.js';
+import { toBucketId } from '../time/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+const tromso: ClockLocation = {
+  timezone: 'Europe/Oslo',
+  latitude: 69.6496,
+  longitude: 18.956,
+};
+
+const previousCommittedAtMs = Date.UTC(2024, 0, 1, 18, 2);
+
+function event(overrides: Partial<CommittedChangeEvent> = {}): CommittedChangeEvent {
+  return {
+    controlId: 'control-1' as any,
+    tsMs: previousCommittedAtMs + 10 * MINUTE_MS,
+    fromDiscreteState: 1,
+    toDiscreteState: 2,
+    initiator: 'user',
+    activeModelId: 'model-1' as any,
+    ...overrides,
+  };
+}
+
+describe('mapTransitionToBuckets', () => {
+  it('maps a timestamp to its bucket on every defined clock', () => {
+    const result = mapTransitionToBuckets(Date.UTC(2024, 0, 1, 18, 7), london);
+    expect(Object.keys(result).sort()).toEqual([...CLOCK_IDS].sort());
+    expect(result.utc).toBe(toBucketId(0, 18, 5));
+    expect(result.local).toBe(toBucketId(0, 18, 5));
+  });
+
+  it('omits clocks that are undefined at the timestamp', () => {
+    const result = mapTransitionToBuckets(Date.UTC(2024, 0, 1, 12), tromso);
+    expect(result.unequalHours).toBeUndefined();
+    expect(result.utc).toBe(toBucketId(0, 12, 0));
+  });
+});
+
+describe('deriveCommitAnalytics', () => {
+  it('closes the holding interval of the previous state', () => {
+    const { holdings } = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: event(),
+      location: london,
+    });
+    expect(holdings).toHaveLength(1);
+    const [{ quarterKey, holding }] = holdings;
+    expect(quarterKey).toBe('2024-Q1');
+    expect(holding.state).toBe(1);
+    expect(holding.t0Ms).toBe(previousCommittedAtMs);
+    expect(holding.t1Ms).toBe(previousCommittedAtMs + 10 * MINUTE_MS);
+    expect(totalAllocatedMs(holding.clocks.utc)).toBe(10 * MINUTE_MS);
+  });
+
+  it('counts only the first maxHoldMs of a longer holding interval', () => {
+    const { holdings, transition } = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: event(),
+      location: london,
+      maxHoldMs: 4 * MINUTE_MS,
+    });
+    expect(holdings).toHaveLength(1);
+    expect(holdings[0].holding.t1Ms).toBe(previousCommittedAtMs + 4 * MINUTE_MS);
+    expect(totalAllocatedMs(holdings[0].holding.clocks.utc)).toBe(4 * MINUTE_MS);
+    expect(transition?.buckets.utc).toBe(toBucketId(0, 18, 10));
+  });
+
+  it('records a transition for user-initiated state changes', () => {
+    const { transition } = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: event(),
+      location: london,
+    });
+    expect(transition?.quarterKey).toBe('2024-Q1');
+    expect(transition?.fromState).toBe(1);
+    expect(transition?.toState).toBe(2);
+    expect(transition?.buckets.utc).toBe(toBucketId(0, 18, 10));
+  });
+
+  it('splits holding time at a quarter boundary', () => {
+    // London is on BST at the Q2/Q3 boundary: midnight local is 23:00 UTC.
+    const t0Ms = Date.UTC(2024, 5, 30, 22, 30);
+    const { holdings, transition } = deriveCommitAnalytics({
+      previousCommittedAtMs: t0Ms,
+      previousState: 1,
+      event: event({ tsMs: Date.UTC(2024, 5, 30, 23, 45) }),
+      location: london,
+    });
+    expect(holdings.map((h) => h.quarterKey)).toEqual(['2024-Q2', '2024-Q3']);
+    expect(totalAllocatedMs(holdings[0].holding.clocks.utc)).toBe(30 * MINUTE_MS);
+    expect(totalAllocatedMs(holdings[1].holding.clocks.utc)).toBe(45 * MINUTE_MS);
+    expect(transition?.quarterKey).toBe('2024-Q3');
+  });
+
+  it('splits holding time at a model activation change', () => {
+    const activatedAtMs = previousCommittedAtMs + 4 * MINUTE_MS;
+    const { holdings, transition } = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: event({ activeModelId: 'model-2' as any }),
+      location: london,
+      activations: [
+        {
+          controlId: 'control-1' as any,
+          modelId: 'model-2' as any,
+          previousModelId: 'model-1' as any,
+          version: 1,
+          activatedAtMs,
+        },
+      ],
+    });
+    expect(holdings.map((h) => [h.modelId, h.holding.t0Ms, h.holding.t1Ms])).toEqual([
+      ['model-1', previousCommittedAtMs, activatedAtMs],
+      ['model-2', activatedAtMs, previousCommittedAtMs + 10 * MINUTE_MS],
+    ]);
+    expect(transition?.modelId).toBe('model-2');
+  });
+
+  it('does not record a transition for model-initiated changes', () => {
+    const result = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: event({ initiator: 'model' }),
+      location: london,
+    });
+    expect(result.transition).toBeUndefined();
+    expect(totalAllocatedMs(result.holdings[0].holding.clocks.utc)).toBe(10 * MINUTE_MS);
+  });
+
+  it('does not record a transition when the discrete state is unchanged', () => {
+    const result = deriveCommitAnalytics({
+      previousCommittedAtMs,
+      previousState: 1,
+      event: event({ toDiscreteState: 1 }),
+      location: london,
+    });
+    expect(result.transition).toBeUndefined();
+  });
+
+  it('rejects out-of-order events', () => {
+    expect(() =>
+      deriveCommitAnalytics({
+        previousCommittedAtMs,
+        previousState: 1,
+        event: event({ tsMs: previousCommittedAtMs - 1 }),
+        location: london,
+      })
+    ).toThrow(/precedes/);
+  });
+
+  it('rejects events that do not continue from the last committed state', () => {
+    expect(() =>
+      deriveCommitAnalytics({
+        previousCommittedAtMs,
+        previousState: 0,
+        event: event(),
+        location: london,
+      })
+    ).toThrow(/does not match/);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Analytics derived from a committed state change (MANUAL.md "Client behavior
+ * vs. analytics operations").
+ *
+ * A committed change closes the holding interval of the previous committed
+ * state and, if and only if a human user initiated it, records a transition
+ * at the commit timestamp. Both are attributed to the calendar quarter they
+ * fall in; a holding interval spanning a quarter boundary is split there.
+ * Holding time is attributed to the model active during it: an interval
+ * spanning a model activation change is split at the change. The transition
+ * belongs to the model active at commit time.
+ */
+
+import type { CommittedChangeEvent, DiscreteState, ModelId } from '../domain/index.js';
+import type { BucketId } from '../time/index.js';
+import {
+  CLOCK_IDS,
+  mapTimestampToBucket,
+  type ClockId,
+  type ClockLocation,
+} from '../clocks/index.js';
+import { quarterKeyAt, splitIntervalByQuarter, type QuarterKey } from '../retention/index.js';
+import { splitIntervalByActivation, type ModelActivation } from '../models/index.js';
+import { splitHolding, type HoldingSplit } from './splitHoldInterval.js';
+
+/**
+ * Input for deriving the analytics of one committed change.
+ */
+export interface CommitAnalyticsInput {
+  /**
+   * Timestamp of the previous committed change (start of the open holding interval).
+   */
+  readonly previousCommittedAtMs: number;
+  /**
+   * State held since the previous committed change.
+   */
+  readonly previousState: DiscreteState;
+  readonly event: CommittedChangeEvent;
+  readonly location: ClockLocation;
+  /**
+   * The control's model activations, ascending by time; at least those in
+   * force during the holding interval (see `splitIntervalByActivation`).
+   * Without any, all holding time is attributed to `event.activeModelId`.
+   */
+  readonly activations?: readonly ModelActivation[];
+  /**
+   * Longest holding interval counted (see `getMaxHoldMs`). Only the first
+   * `maxHoldMs` of a longer interval are counted; the rest is skipped.
+   * Unlimited by default.
+   */
+  readonly maxHoldMs?: number;
+}
+
+/**
+ * Holding time within one quarter while one model was active.
+ */
+export interface QuarterHolding {
+  readonly quarterKey: QuarterKey;
+  readonly modelId: ModelId;
+  readonly holding: HoldingSplit;
+}
+
+/**
+ * A recorded transition and the quarter it falls in.
+ */
+export interface CommitTransition {
+  readonly quarterKey: QuarterKey;
+  /**
+   * Model active at commit time (`event.activeModelId`).
+   */
+  readonly modelId: ModelId;
+  readonly fromState: DiscreteState;
+  readonly toState: DiscreteState;
+  readonly buckets: TransitionBuckets;
+}
+
+/**
+ * Analytics updates for one committed change.
+ */
+export interface CommitAnalytics {
+  /**
+   * Holding time of the previous state over `[previousCommittedAtMs, event.tsMs)`
+   * (cut to `maxHoldMs`), one entry per active model and quarter overlapped
+   * (none for an empty interval).
+   */
+  readonly holdings: readonly QuarterHolding[];
+  /**
+   * The transition, or `undefined` when none is recorded (model-initiated,
+   * or the discrete state did not change).
+   */
+  readonly transition: CommitTransition | undefined;
+}
+
+/**
+ * Buckets containing a transition timestamp, per clock.
+ * Clocks whose time-of-day is undefined at that instant are omitted.
+ */
+export type TransitionBuckets = Partial<Record<ClockId, BucketId>>;
+
+/**
+ * Maps a transition timestamp to its containing bucket on every clock
+ * (the "count user-initiated transitions" operation).
+ */
+export function mapTransitionToBuckets(tsMs: number, location: ClockLocation): TransitionBuckets {
+  const result: TransitionBuckets = {};
+  for (const clockId of CLOCK_IDS) {
+    const bucketId = mapTimestampToBucket(clockId, tsMs, location);
+    if (bucketId !== undefined) {
+      result[clockId] = bucketId;
+    }
+  }
+  return result;
+}
+
+/**
+ * Derives holding-time and transition updates for a committed change.
+ *
+ * @throws Error if the event does not continue from the previous committed
+ *   change (out-of-order timestamp or from-state mismatch); such data must be
+ *   discarded rather than ingested
+ */
+export function deriveCommitAnalytics({
+  previousCommittedAtMs,
+  previousState,
+  event,
+  location,
+  activations = [],
+  maxHoldMs = Infinity,
+}: CommitAnalyticsInput): CommitAnalytics {
+  if (!Number.isFinite(event.tsMs) || event.tsMs < previousCommittedAtMs) {
+    throw new Error(
+      `Committed change at ${event.tsMs} precedes the previous commit at ${previousCommittedAtMs}`
+    );
+  }
+  if (event.fromDiscreteState !== previousState) {
+    throw new Error(
+      `Committed change from state ${event.fromDiscreteState} does not match last committed state ${previousState}`
+    );
+  }
+
+  const holdings = splitIntervalByActivation(
+    previousCommittedAtMs,
+    Math.min(event.tsMs, previousCommittedAtMs + maxHoldMs),
+    activations,
+    event.activeModelId
+  ).flatMap((span) =>
+    splitIntervalByQuarter(span.t0Ms, span.t1Ms, location.timezone).map(
+      ({ quarterKey, t0Ms, t1Ms }) => ({
+        quarterKey,
+        modelId: span.modelId,
+        holding: splitHolding({ t0Ms, t1Ms, state: previousState, location }),
+      })
+    )
+  );
+  const isTransition =
+    event.initiator === 'user' && event.fromDiscreteState !== event.toDiscreteState;
+
+  return {
+    holdings,
+    transition: isTransition
+      ? {
+          quarterKey: quarterKeyAt(event.tsMs, location.timezone),
+          modelId: event.activeModelId,
+          fromState: event.fromDiscreteState,
+          toState: event.toDiscreteState,
+          buckets: mapTransitionToBuckets(event.tsMs, location),
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Measurement module public exports.
+ * Implements the MANUAL's fundamental counting operations.
+ */
+
+// Holding-interval splitting
+export type {
+  BucketAllocation,
+  SplitHoldIntervalInput,
+  SplitHoldingInput,
+  HoldingSplit,
+} from './splitHoldInterval.js';
+export {
+  splitHoldInterval,
+  splitHolding,
+  totalAllocatedMs,
+} from './splitHoldInterval.js';
+
+// Aggregate entries
+export type {
+  HoldMsEntry,
+  TransCountEntry,
+  AggregateBucketKey,
+  TransitionCount,
+  BucketCounts,
+  AggregateBucketDelta,
+  AggregateBucket,
+} from './aggregates.js';
+export {
+  holdMsEntrySchema,
+  transCountEntrySchema,
+  aggregateBucketDeltaSchema,
+  aggregateBucketSchema,
+} from './validation.js';
+
+// Per-bucket packing of aggregate entries
+export type { AggregateEntries } from './bucketCounts.js';
+export {
+  commitAnalyticsEntries,
+  packBucketDeltas,
+  addBucketCounts,
+  unpackBuckets,
+  findTransitionCount,
+} from './bucketCounts.js';
+
+// Committed-change analytics
+export type {
+  CommitAnalyticsInput,
+  QuarterHolding,
+  CommitTransition,
+  CommitAnalytics,
+  TransitionBuckets,
+} from './commit.js';
+export { deriveCommitAnalytics, mapTransitionToBuckets } from './commit.js';
+
+// Integrity guard
+export type {
+  IntegrityReason,
+  IntegrityViolation,
+  CommitIntegrityInput,
+  QuarantinedEvent,
+} from './integrity.js';
+export {
+  INTEGRITY_REASONS,
+  checkCommitIntegrity,
+  getMaxHoldMs,
+  toQuarantineMarker,
+} from './integrity.js';
+export { integrityReasonSchema, quarantinedEventSchema } from './validation.js';
@@ -0,0 +1,142 @@
+/**
+ * Tests for the ingestion integrity guard.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkCommitIntegrity,
+  getMaxHoldMs,
+  toQuarantineMarker,
+  type CommitIntegrityInput,
+} from './integrity.js';
+import { quarantinedEventSchema } from './validation.js';
+import type { CommittedChangeEvent, ModelId, RadiobuttonDefinition } from '../domain/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const previousCommittedAtMs = Date.UTC(2024, 0, 1, 18);
+const nowMs = previousCommittedAtMs + 10 * MINUTE_MS;
+
+const definition: RadiobuttonDefinition = {
+  kind: 'radiobutton',
+  numStates: 3,
+  labels: ['Off', 'Low', 'High'],
+};
+
+function input(
+  eventOverrides: Partial<CommittedChangeEvent> = {},
+  overrides: Partial<CommitIntegrityInput> = {}
+): CommitIntegrityInput {
+  return {
+    previousCommittedAtMs,
+    previousState: 1,
+    event: {
+      controlId: 'fan' as any,
+      tsMs: nowMs,
+      fromDiscreteState: 1,
+      toDiscreteState: 2,
+      initiator: 'user',
+      activeModelId: 'model-1' as ModelId,
+      ...eventOverrides,
+    },
+    location: { timezone: 'UTC', latitude: 0, longitude: 0 },
+    definition,
+    knownModelIds: new Set(['model-1' as ModelId]),
+    nowMs,
+    settings: { maxGapHours: 24, maxFutureSkewSeconds: 5 },
+    ...overrides,
+  };
+}
+
+const reasonOf = (value: CommitIntegrityInput) => checkCommitIntegrity(value)?.reason;
+
+describe('checkCommitIntegrity', () => {
+  it('accepts a consistent committed change', () => {
+    expect(checkCommitIntegrity(input())).toBeUndefined();
+  });
+
+  it('rejects missing or non-finite timestamps', () => {
+    expect(reasonOf(input({ tsMs: NaN }))).toBe('invalidTimestamp');
+    expect(reasonOf(input({}, { previousCommittedAtMs: Infinity }))).toBe('invalidTimestamp');
+  });
+
+  it('rejects timestamps ahead of the server clock beyond the allowed skew', () => {
+    expect(reasonOf(input({ tsMs: nowMs + 5000 }))).toBeUndefined();
+    expect(reasonOf(input({ tsMs: nowMs + 5001 }))).toBe('futureTimestamp');
+  });
+
+  it('rejects timestamps before the previous commit', () => {
+    expect(reasonOf(input({ tsMs: previousCommittedAtMs - 1 }))).toBe('nonMonotonicTimestamp');
+    expect(reasonOf(input({ tsMs: previousCommittedAtMs }))).toBeUndefined();
+  });
+
+  it('rejects states outside the control definition', () => {
+    expect(reasonOf(input({ toDiscreteState: 3 }))).toBe('invalidState');
+    expect(reasonOf(input({ toDiscreteState: 1.5 }))).toBe('invalidState');
+    expect(reasonOf(input({ fromDiscreteState: 7 }, { previousState: 7 }))).toBe('invalidState');
+  });
+
+  it('rejects from-states that do not match the last committed state', () => {
+    expect(reasonOf(input({ fromDiscreteState: 0 }))).toBe('stateMismatch');
+  });
+
+  it('rejects unregistered models', () => {
+    expect(reasonOf(input({ activeModelId: 'model-2' as ModelId }))).toBe('unknownModel');
+  });
+
+  it('accepts holding intervals longer than the maximum gap', () => {
+    const longAgo = nowMs - 24 * HOUR_MS - 1;
+    expect(reasonOf(input({}, { previousCommittedAtMs: longAgo }))).toBeUndefined();
+  });
+
+  it('reports the first failing check with a message', () => {
+    const violation = checkCommitIntegrity(
+      input({ tsMs: previousCommittedAtMs - 1, activeModelId: 'model-2' as ModelId })
+    );
+    expect(violation?.reason).toBe('nonMonotonicTimestamp');
+    expect(violation?.message).toMatch(/precedes/);
+  });
+});
+
+describe('quarantinedEventSchema', () => {
+  it('accepts out-of-range states alongside the reason code', () => {
+    const row = {
+      controlId: 'fan',
+      tsMs: nowMs,
+      fromDiscreteState: 1,
+      toDiscreteState: 9,
+      initiator: 'user',
+      activeModelId: 'model-1',
+      previousCommittedAtMs,
+      previousDiscreteState: 1,
+      reason: 'invalidState',
+      message: 'To state 9 is invalid for this control',
+      quarantinedAtMs: nowMs,
+    };
+    expect(quarantinedEventSchema.parse(row)).toEqual(row);
+    expect(() => quarantinedEventSchema.parse({ ...row, reason: 'bad' })).toThrow();
+  });
+});
+
+describe('getMaxHoldMs', () => {
+  it('converts the maximum gap to milliseconds', () => {
+    expect(getMaxHoldMs({ maxGapHours: 24, maxFutureSkewSeconds: 5 })).toBe(24 * HOUR_MS);
+  });
+});
+
+describe('toQuarantineMarker', () => {
+  it('resumes in the to-state at the quarantine time', () => {
+    const { event } = input({ tsMs: nowMs + HOUR_MS });
+    const marker = toQuarantineMarker({
+      ...event,
+      previousCommittedAtMs,
+      previousDiscreteState: 1,
+      reason: 'futureTimestamp',
+      message: 'ahead',
+      quarantinedAtMs: nowMs,
+    });
+    expect(marker).toMatchObject({ tsMs: nowMs, fromDiscreteState: 1, toDiscreteState: 2 });
+    expect(marker).not.toHaveProperty('reason');
+  });
+});
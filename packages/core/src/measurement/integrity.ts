@@ -0,0 +1,170 @@
+/**
+ * Integrity guard in front of analytics ingestion (MANUAL.md "Data quality").
+ *
+ * A committed change whose timestamps, states or attribution cannot be
+ * trusted is quarantined for review instead of being counted, so a single bad
+ * client cannot poison the aggregates. Timestamps and from-states are the
+ * client's or device's where it reports them, so the checks catch clocks and
+ * views that drifted from the server.
+ *
+ * A holding interval longer than the configured maximum gap (e.g. across a
+ * server outage) is not quarantined: only its first `maxGapHours` are
+ * counted (see `getMaxHoldMs`).
+ */
+
+import {
+  discreteStateSchema,
+  type CommittedChangeEvent,
+  type ControlDefinition,
+  type DiscreteState,
+  type ModelId,
+} from '../domain/index.js';
+import type { IntegritySettings } from '../config/index.js';
+import type { CommitAnalyticsInput } from './commit.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Reason codes for quarantined events, in the order they are checked.
+ */
+export const INTEGRITY_REASONS = [
+  'invalidTimestamp',
+  'futureTimestamp',
+  'nonMonotonicTimestamp',
+  'invalidState',
+  'stateMismatch',
+  'unknownModel',
+] as const;
+
+/**
+ * Why a committed change was quarantined.
+ * - `invalidTimestamp`: the event or previous commit timestamp is not finite
+ * - `futureTimestamp`: the event lies ahead of the server clock beyond the allowed skew
+ * - `nonMonotonicTimestamp`: the event precedes the previous committed change
+ * - `invalidState`: a state is outside the control's `discreteStateSchema`
+ * - `stateMismatch`: the from-state is not the last committed state
+ * - `unknownModel`: the active model is not registered
+ */
+export type IntegrityReason = (typeof INTEGRITY_REASONS)[number];
+
+/**
+ * A failed integrity check.
+ */
+export interface IntegrityViolation {
+  readonly reason: IntegrityReason;
+  readonly message: string;
+}
+
+/**
+ * Input for checking one committed change before ingestion.
+ */
+export interface CommitIntegrityInput extends CommitAnalyticsInput {
+  readonly definition: ControlDefinition;
+  /**
+   * Registered models; events attributed to any other model are quarantined.
+   */
+  readonly knownModelIds: ReadonlySet<ModelId>;
+  /**
+   * Server time at which the event is checked.
+   */
+  readonly nowMs: number;
+  readonly settings: IntegritySettings;
+}
+
+/**
+ * A committed change held back from ingestion, with the context it was
+ * checked against.
+ */
+export interface QuarantinedEvent extends CommittedChangeEvent {
+  readonly previousCommittedAtMs: number;
+  readonly previousDiscreteState: DiscreteState;
+  readonly reason: IntegrityReason;
+  readonly message: string;
+  readonly quarantinedAtMs: number;
+}
+
+/**
+ * Checks a committed change against the integrity rules, in the order of
+ * `INTEGRITY_REASONS`, and returns the first violation found.
+ *
+ * @returns The violation, or `undefined` if the change may be ingested
+ */
+export function checkCommitIntegrity({
+  previousCommittedAtMs,
+  previousState,
+  event,
+  definition,
+  knownModelIds,
+  nowMs,
+  settings,
+}: CommitIntegrityInput): IntegrityViolation | undefined {
+  if (!Number.isFinite(event.tsMs) || !Number.isFinite(previousCommittedAtMs)) {
+    return {
+      reason: 'invalidTimestamp',
+      message: `Invalid timestamps: event at ${event.tsMs}, previous commit at ${previousCommittedAtMs}`,
+    };
+  }
+  if (event.tsMs > nowMs + settings.maxFutureSkewSeconds * 1000) {
+    return {
+      reason: 'futureTimestamp',
+      message: `Committed change at ${event.tsMs} is ahead of server time ${nowMs}`,
+    };
+  }
+  if (event.tsMs < previousCommittedAtMs) {
+    return {
+      reason: 'nonMonotonicTimestamp',
+      message: `Committed change at ${event.tsMs} precedes the previous commit at ${previousCommittedAtMs}`,
+    };
+  }
+  const stateSchema = discreteStateSchema(definition);
+  for (const [name, state] of [
+    ['Previous', previousState],
+    ['From', event.fromDiscreteState],
+    ['To', event.toDiscreteState],
+  ] as const) {
+    if (!stateSchema.safeParse(state).success) {
+      return {
+        reason: 'invalidState',
+        message: `${name} state ${state} is invalid for this control`,
+      };
+    }
+  }
+  if (event.fromDiscreteState !== previousState) {
+    return {
+      reason: 'stateMismatch',
+      message: `Committed change from state ${event.fromDiscreteState} does not match last committed state ${previousState}`,
+    };
+  }
+  if (!knownModelIds.has(event.activeModelId)) {
+    return {
+      reason: 'unknownModel',
+      message: `Unknown model: ${event.activeModelId}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Longest holding interval counted, in milliseconds.
+ */
+export function getMaxHoldMs(settings: IntegritySettings): number {
+  return settings.maxGapHours * HOUR_MS;
+}
+
+/**
+ * The point live ingestion resumed from after quarantining an event: the
+ * event's to-state, at the time it was quarantined. Replay and evaluation
+ * break the log there.
+ */
+export function toQuarantineMarker(event: QuarantinedEvent): CommittedChangeEvent {
+  return {
+    controlId: event.controlId,
+    tsMs: event.quarantinedAtMs,
+    fromDiscreteState: event.fromDiscreteState,
+    toDiscreteState: event.toDiscreteState,
+    initiator: event.initiator,
+    activeModelId: event.activeModelId,
+    value01: event.value01,
+    dimensions: event.dimensions,
+  };
+}
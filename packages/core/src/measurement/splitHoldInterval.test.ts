@@ -0,0 +1,180 @@
+/**
+ * Tests for holding-interval splitting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitHoldInterval, splitHolding, totalAllocatedMs } from './splitHoldInterval.js';
+import { CLOCK_IDS, type ClockLocation } from '../clocks/index.js';
+import { BUCKET_MS, BUCKETS_PER_WEEK, formatBucketLabel, toBucketId, WEEK_MS } from '../time/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+const newYork: ClockLocation = {
+  timezone: 'America/New_York',
+  latitude: 40.7128,
+  longitude: -74.006,
+};
+
+const tromso: ClockLocation = {
+  timezone: 'Europe/Oslo',
+  latitude: 69.6496,
+  longitude: 18.956,
+};
+
+describe('splitHoldInterval', () => {
+  it('allocates an interval inside one bucket to that bucket', () => {
+    const t0Ms = Date.UTC(2024, 0, 1, 18, 1);
+    const result = splitHoldInterval({ t0Ms, t1Ms: t0Ms + 2 * MINUTE_MS, clockId: 'utc', location: london });
+    expect(result).toEqual([{ bucketId: toBucketId(0, 18, 0), ms: 2 * MINUTE_MS }]);
+  });
+
+  it('splits at bucket boundaries and preserves total elapsed time', () => {
+    const t0Ms = Date.UTC(2024, 0, 1, 18, 2);
+    const t1Ms = Date.UTC(2024, 0, 1, 18, 13, 30);
+    const result = splitHoldInterval({ t0Ms, t1Ms, clockId: 'utc', location: london });
+    expect(result).toEqual([
+      { bucketId: toBucketId(0, 18, 0), ms: 3 * MINUTE_MS },
+      { bucketId: toBucketId(0, 18, 5), ms: 5 * MINUTE_MS },
+      { bucketId: toBucketId(0, 18, 10), ms: 3.5 * MINUTE_MS },
+    ]);
+    expect(totalAllocatedMs(result)).toBe(t1Ms - t0Ms);
+  });
+
+  it('wraps from Sunday to Monday', () => {
+    const t0Ms = Date.UTC(2024, 0, 7, 23, 57);
+    const t1Ms = Date.UTC(2024, 0, 8, 0, 2);
+    const result = splitHoldInterval({ t0Ms, t1Ms, clockId: 'utc', location: london });
+    expect(result).toEqual([
+      { bucketId: BUCKETS_PER_WEEK - 1, ms: 3 * MINUTE_MS },
+      { bucketId: 0, ms: 2 * MINUTE_MS },
+    ]);
+  });
+
+  it('returns no allocations for an empty interval', () => {
+    const ts = Date.UTC(2024, 0, 1);
+    expect(splitHoldInterval({ t0Ms: ts, t1Ms: ts, clockId: 'utc', location: london })).toEqual([]);
+  });
+
+  it('rejects reversed or invalid intervals', () => {
+    const ts = Date.UTC(2024, 0, 1);
+    expect(() => splitHoldInterval({ t0Ms: ts, t1Ms: ts - 1, clockId: 'utc', location: london })).toThrow();
+    expect(() => splitHoldInterval({ t0Ms: Number.NaN, t1Ms: ts, clockId: 'utc', location: london })).toThrow();
+  });
+
+  it('splits mean solar time at longitude-shifted boundaries', () => {
+    // 1°E shifts mean solar time 4 minutes ahead of UTC
+    const location = { ...london, longitude: 1 };
+    const t0Ms = Date.UTC(2024, 0, 1, 12, 0);
+    const result = splitHoldInterval({ t0Ms, t1Ms: t0Ms + 5 * MINUTE_MS, clockId: 'meanSolar', location });
+    expect(result).toEqual([
+      { bucketId: toBucketId(0, 12, 0), ms: 1 * MINUTE_MS },
+      { bucketId: toBucketId(0, 12, 5), ms: 4 * MINUTE_MS },
+    ]);
+  });
+
+  describe('local time across DST', () => {
+    it('skips labels that do not occur when clocks spring forward', () => {
+      // New York, 2024-03-10 01:00–04:00 EST/EDT is 2 real hours
+      const t0Ms = Date.UTC(2024, 2, 10, 6, 0);
+      const t1Ms = Date.UTC(2024, 2, 10, 8, 0);
+      const result = splitHoldInterval({ t0Ms, t1Ms, clockId: 'local', location: newYork });
+      const labels = result.map((a) => formatBucketLabel(a.bucketId));
+      expect(labels).toContain('Sunday 01:55–02:00');
+      expect(labels).toContain('Sunday 03:00–03:05');
+      expect(labels.some((l) => l.startsWith('Sunday 02:'))).toBe(false);
+      expect(result).toHaveLength(24);
+      expect(totalAllocatedMs(result)).toBe(t1Ms - t0Ms);
+    });
+
+    it('allocates repeated labels twice when clocks fall back', () => {
+      // New York, 2024-11-03: 01:00–02:00 local occurs twice
+      const t0Ms = Date.UTC(2024, 10, 3, 5, 0);
+      const t1Ms = Date.UTC(2024, 10, 3, 7, 0);
+      const result = splitHoldInterval({ t0Ms, t1Ms, clockId: 'local', location: newYork });
+      expect(result).toHaveLength(12);
+      expect(result.every((a) => a.ms === 2 * BUCKET_MS)).toBe(true);
+      expect(totalAllocatedMs(result)).toBe(t1Ms - t0Ms);
+    });
+  });
+
+  describe('unequal hours', () => {
+    it('has buckets longer than 5 real minutes during summer days', () => {
+      // London midsummer daylight is about 16.6 h, so a daytime bucket lasts about 6.9 min
+      const t0Ms = Date.UTC(2024, 5, 21, 12, 0);
+      const result = splitHoldInterval({ t0Ms, t1Ms: t0Ms + HOUR_MS, clockId: 'unequalHours', location: london });
+      const interior = result.slice(1, -1);
+      expect(interior.length).toBeGreaterThan(5);
+      for (const allocation of interior) {
+        expect(allocation.ms / MINUTE_MS).toBeCloseTo(6.9, 0);
+      }
+      expect(totalAllocatedMs(result)).toBe(HOUR_MS);
+    });
+
+    it('has buckets shorter than 5 real minutes during summer nights', () => {
+      // Night is about 7.4 h, so a night bucket lasts about 3.1 min
+      const t0Ms = Date.UTC(2024, 5, 22, 0, 0);
+      const result = splitHoldInterval({ t0Ms, t1Ms: t0Ms + HOUR_MS, clockId: 'unequalHours', location: london });
+      const interior = result.slice(1, -1);
+      for (const allocation of interior) {
+        expect(allocation.ms / MINUTE_MS).toBeCloseTo(3.1, 0);
+      }
+    });
+
+    it('does not count stretches where the clock is undefined', () => {
+      // Tromsø: polar night throughout late December
+      const t0Ms = Date.UTC(2024, 11, 20);
+      const result = splitHoldInterval({ t0Ms, t1Ms: t0Ms + 2 * 24 * HOUR_MS, clockId: 'unequalHours', location: tromso });
+      expect(result).toEqual([]);
+    });
+
+    it('resumes counting when sunrise and sunset return', () => {
+      // Tromsø polar night ends mid January; a 10-day interval straddles it
+      const t0Ms = Date.UTC(2025, 0, 10);
+      const t1Ms = Date.UTC(2025, 0, 20);
+      const result = splitHoldInterval({ t0Ms, t1Ms, clockId: 'unequalHours', location: tromso });
+      const total = totalAllocatedMs(result);
+      expect(total).toBeGreaterThan(0);
+      expect(total).toBeLessThan(t1Ms - t0Ms);
+    });
+  });
+
+  it('handles intervals longer than a week', () => {
+    const t0Ms = Date.UTC(2024, 0, 1, 0, 0);
+    const t1Ms = t0Ms + WEEK_MS + 10 * MINUTE_MS;
+    const result = splitHoldInterval({ t0Ms, t1Ms, clockId: 'utc', location: london });
+    expect(result).toHaveLength(BUCKETS_PER_WEEK);
+    expect(result[0]).toEqual({ bucketId: 0, ms: 2 * BUCKET_MS });
+    expect(result[1]).toEqual({ bucketId: 1, ms: 2 * BUCKET_MS });
+    expect(result[2]).toEqual({ bucketId: 2, ms: BUCKET_MS });
+    expect(totalAllocatedMs(result)).toBe(t1Ms - t0Ms);
+  });
+});
+
+describe('splitHolding', () => {
+  it('returns allocations for every clock that sum to real elapsed time', () => {
+    // Crosses the 2024-03-31 spring-forward in Europe/London
+    const t0Ms = Date.UTC(2024, 2, 30, 21, 17, 3, 250);
+    const t1Ms = Date.UTC(2024, 3, 2, 8, 41, 59, 1);
+    const split = splitHolding({ t0Ms, t1Ms, state: 3, location: london });
+    expect(split.state).toBe(3);
+    expect(Object.keys(split.clocks).sort()).toEqual([...CLOCK_IDS].sort());
+    for (const clockId of CLOCK_IDS) {
+      expect(totalAllocatedMs(split.clocks[clockId])).toBe(t1Ms - t0Ms);
+    }
+  });
+
+  it('omits undefined portions per clock only', () => {
+    const t0Ms = Date.UTC(2024, 11, 21);
+    const split = splitHolding({ t0Ms, t1Ms: t0Ms + HOUR_MS, state: 0, location: tromso });
+    expect(split.clocks.unequalHours).toEqual([]);
+    expect(totalAllocatedMs(split.clocks.utc)).toBe(HOUR_MS);
+    expect(totalAllocatedMs(split.clocks.apparentSolar)).toBe(HOUR_MS);
+  });
+});
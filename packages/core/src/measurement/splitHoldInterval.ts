@@ -0,0 +1,133 @@
+/**
+ * Holding-interval splitting (MANUAL.md "Count holding times").
+ * Allocates real elapsed milliseconds of a holding interval across the
+ * time-of-week buckets it overlaps, separately for each clock.
+ */
+
+import type { DiscreteState } from '../domain/index.js';
+import type { BucketId } from '../time/index.js';
+import {
+  CLOCK_IDS,
+  findNextBucketBoundary,
+  mapTimestampToBucket,
+  type ClockId,
+  type ClockLocation,
+} from '../clocks/index.js';
+
+/**
+ * Real elapsed milliseconds allocated to one bucket.
+ */
+export interface BucketAllocation {
+  readonly bucketId: BucketId;
+  readonly ms: number;
+}
+
+/**
+ * Input for splitting a holding interval on a single clock.
+ */
+export interface SplitHoldIntervalInput {
+  /**
+   * Interval start (inclusive), Unix ms.
+   */
+  readonly t0Ms: number;
+  /**
+   * Interval end (exclusive), Unix ms.
+   */
+  readonly t1Ms: number;
+  readonly clockId: ClockId;
+  readonly location: ClockLocation;
+}
+
+/**
+ * Input for splitting a holding interval on all clocks.
+ */
+export interface SplitHoldingInput {
+  readonly t0Ms: number;
+  readonly t1Ms: number;
+  /**
+   * The discrete state held over `[t0Ms, t1Ms)`.
+   */
+  readonly state: DiscreteState;
+  readonly location: ClockLocation;
+}
+
+/**
+ * A holding interval split across buckets for every clock.
+ */
+export interface HoldingSplit {
+  readonly state: DiscreteState;
+  readonly t0Ms: number;
+  readonly t1Ms: number;
+  /**
+   * Per-clock allocations. Clocks that are undefined for part (or all) of the
+   * interval omit those portions, so their totals may be below `t1Ms - t0Ms`.
+   */
+  readonly clocks: Readonly<Record<ClockId, readonly BucketAllocation[]>>;
+}
+
+/**
+ * Splits `[t0Ms, t1Ms)` at the clock's bucket boundaries and allocates real
+ * elapsed milliseconds to each overlapped bucket.
+ *
+ * - Local time: DST gaps skip labels and overlaps allocate to repeated labels twice.
+ * - Unequal hours: buckets have variable real length.
+ * - Stretches where the clock is undefined are not counted.
+ * - Intervals longer than a week revisit buckets; allocations are merged per bucket.
+ *
+ * @returns Allocations in order of first visit, one entry per bucket
+ */
+export function splitHoldInterval({
+  t0Ms,
+  t1Ms,
+  clockId,
+  location,
+}: SplitHoldIntervalInput): BucketAllocation[] {
+  validateInterval(t0Ms, t1Ms);
+
+  const totals = new Map<BucketId, number>();
+  let ts = t0Ms;
+  while (ts < t1Ms) {
+    const next = Math.min(findNextBucketBoundary(clockId, ts, location), t1Ms);
+    const bucketId = mapTimestampToBucket(clockId, ts, location);
+    if (bucketId !== undefined) {
+      totals.set(bucketId, (totals.get(bucketId) ?? 0) + (next - ts));
+    }
+    ts = next;
+  }
+
+  return Array.from(totals, ([bucketId, ms]) => ({ bucketId, ms }));
+}
+
+/**
+ * Splits a holding interval for every clock (the "count holding times" operation).
+ *
+ * @param input - Interval, held state and location
+ */
+export function splitHolding({ t0Ms, t1Ms, state, location }: SplitHoldingInput): HoldingSplit {
+  validateInterval(t0Ms, t1Ms);
+  const clocks = {} as Record<ClockId, BucketAllocation[]>;
+  for (const clockId of CLOCK_IDS) {
+    clocks[clockId] = splitHoldInterval({ t0Ms, t1Ms, clockId, location });
+  }
+  return { state, t0Ms, t1Ms, clocks };
+}
+
+/**
+ * Sums allocated milliseconds. For a clock that is defined over the whole
+ * interval this equals the real elapsed time `t1Ms - t0Ms`.
+ */
+export function totalAllocatedMs(allocations: readonly BucketAllocation[]): number {
+  return allocations.reduce((sum, allocation) => sum + allocation.ms, 0);
+}
+
+/**
+ * Validates interval endpoints (finite, ordered).
+ */
+function validateInterval(t0Ms: number, t1Ms: number): void {
+  if (!Number.isFinite(t0Ms) || !Number.isFinite(t1Ms)) {
+    throw new Error(`Invalid holding interval timestamps: [${t0Ms}, ${t1Ms})`);
+  }
+  if (t1Ms < t0Ms) {
+    throw new Error(`Holding interval ends before it starts: [${t0Ms}, ${t1Ms})`);
+  }
+}
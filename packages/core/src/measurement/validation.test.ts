@@ -0,0 +1,83 @@
+/**
+ * Tests for measurement aggregate schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateBucketSchema, holdMsEntrySchema, transCountEntrySchema } from './validation.js';
+
+describe('holdMsEntrySchema', () => {
+  const valid = {
+    controlId: 'lamp',
+    generation: 0,
+    modelId: 'model-a',
+    clockId: 'utc',
+    bucketId: 216,
+    state: 5,
+    quarterKey: '2024-Q1',
+    ms: 120000,
+  };
+
+  it('accepts a valid entry', () => {
+    expect(holdMsEntrySchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects unknown clocks, out-of-range buckets and negative ms', () => {
+    expect(() => holdMsEntrySchema.parse({ ...valid, clockId: 'tai' })).toThrow();
+    expect(() => holdMsEntrySchema.parse({ ...valid, bucketId: 2016 })).toThrow();
+    expect(() => holdMsEntrySchema.parse({ ...valid, ms: -1 })).toThrow();
+  });
+
+  it('rejects malformed quarter keys', () => {
+    expect(() => holdMsEntrySchema.parse({ ...valid, quarterKey: '2024-Q5' })).toThrow();
+    expect(() => holdMsEntrySchema.parse({ ...valid, quarterKey: '24Q1' })).toThrow();
+  });
+});
+
+describe('transCountEntrySchema', () => {
+  const valid = {
+    controlId: 'lamp',
+    generation: 0,
+    modelId: 'model-a',
+    clockId: 'unequalHours',
+    bucketId: 0,
+    fromState: 5,
+    toState: 2,
+    quarterKey: '2024-Q3',
+    count: 1,
+  };
+
+  it('accepts a valid entry', () => {
+    expect(transCountEntrySchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects non-integer states', () => {
+    expect(() => transCountEntrySchema.parse({ ...valid, toState: 1.5 })).toThrow();
+  });
+});
+
+describe('aggregateBucketSchema', () => {
+  const valid = {
+    controlId: 'lamp',
+    generation: 1,
+    modelId: 'model-a',
+    clockId: 'local',
+    bucketId: 12,
+    quarterKey: '2024-Q2',
+    holdMs: [0, 300000, 0],
+    transCounts: [{ fromState: 1, toState: 2, count: 3 }],
+  };
+
+  it('accepts a valid bucket', () => {
+    expect(aggregateBucketSchema.parse(valid)).toEqual(valid);
+  });
+
+  it('rejects negative holding time and non-integer states', () => {
+    expect(() => aggregateBucketSchema.parse({ ...valid, holdMs: [-1] })).toThrow();
+    expect(() =>
+      aggregateBucketSchema.parse({
+        ...valid,
+        transCounts: [{ fromState: 0.5, toState: 1, count: 1 }],
+      })
+    ).toThrow();
+  });
+});
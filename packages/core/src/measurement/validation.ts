@@ -0,0 +1,105 @@
+/**
+ * Zod validation schemas for measurement aggregates.
+ */
+
+import { z } from 'zod';
+import type {
+  AggregateBucket,
+  AggregateBucketDelta,
+  HoldMsEntry,
+  TransCountEntry,
+} from './aggregates.js';
+import { INTEGRITY_REASONS, type QuarantinedEvent } from './integrity.js';
+import { controlIdSchema, initiatorSchema, modelIdSchema } from '../domain/index.js';
+import { clockIdSchema } from '../clocks/index.js';
+import { bucketIdSchema } from '../time/index.js';
+import { quarterKeySchema } from '../retention/index.js';
+
+/**
+ * Schema for HoldMsEntry.
+ */
+export const holdMsEntrySchema = z.object({
+  controlId: controlIdSchema,
+  generation: z.number().int().min(0),
+  modelId: modelIdSchema,
+  clockId: clockIdSchema,
+  bucketId: bucketIdSchema,
+  state: z.number().int().min(0),
+  quarterKey: quarterKeySchema,
+  ms: z.number().nonnegative(),
+}) as unknown as z.ZodType<HoldMsEntry>;
+
+/**
+ * Schema for TransCountEntry.
+ */
+export const transCountEntrySchema = z.object({
+  controlId: controlIdSchema,
+  generation: z.number().int().min(0),
+  modelId: modelIdSchema,
+  clockId: clockIdSchema,
+  bucketId: bucketIdSchema,
+  fromState: z.number().int().min(0),
+  toState: z.number().int().min(0),
+  quarterKey: quarterKeySchema,
+  count: z.number().nonnegative(),
+}) as unknown as z.ZodType<TransCountEntry>;
+
+/**
+ * Base schema for AggregateBucketDelta, extended by the stored bucket.
+ */
+const aggregateBucketDeltaSchemaBase = z.object({
+  modelId: modelIdSchema,
+  clockId: clockIdSchema,
+  bucketId: bucketIdSchema,
+  quarterKey: quarterKeySchema,
+  holdMs: z.array(z.number().nonnegative()),
+  transCounts: z.array(
+    z.object({
+      fromState: z.number().int().min(0),
+      toState: z.number().int().min(0),
+      count: z.number().nonnegative(),
+    })
+  ),
+});
+
+/**
+ * Schema for AggregateBucketDelta.
+ */
+export const aggregateBucketDeltaSchema =
+  aggregateBucketDeltaSchemaBase as unknown as z.ZodType<AggregateBucketDelta>;
+
+/**
+ * Schema for AggregateBucket.
+ */
+export const aggregateBucketSchema = aggregateBucketDeltaSchemaBase.extend({
+  controlId: controlIdSchema,
+  generation: z.number().int().min(0),
+}) as unknown as z.ZodType<AggregateBucket>;
+
+/**
+ * Schema for IntegrityReason.
+ */
+export const integrityReasonSchema = z.enum(INTEGRITY_REASONS);
+
+/**
+ * Schema for QuarantinedEvent.
+ * Event fields are not range-checked: quarantined events are by definition
+ * the ones that failed validation.
+ */
+export const quarantinedEventSchema = z.object({
+  controlId: controlIdSchema,
+  tsMs: z.number(),
+  fromDiscreteState: z.number(),
+  toDiscreteState: z.number(),
+  initiator: initiatorSchema,
+  activeModelId: modelIdSchema,
+  value01: z.number().optional(),
+  dimensions: z
+    .array(z.object({ discreteState: z.number(), value01: z.number().optional() }))
+    .optional(),
+  previousCommittedAtMs: z.number(),
+  previousDiscreteState: z.number(),
+  reason: integrityReasonSchema,
+  message: z.string(),
+  quarantinedAtMs: z.number(),
+}) as unknown as z.ZodType<QuarantinedEvent>;
@@ -0,0 +1,74 @@
+/**
+ * Tests for attributing time to models from activation history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { activationAt, splitIntervalByActivation } from './activation.js';
+import type { ModelActivation } from './types.js';
+
+function activation(
+  activatedAtMs: number,
+  modelId: string,
+  previousModelId: string
+): ModelActivation {
+  return {
+    controlId: 'control-1' as any,
+    modelId: modelId as any,
+    previousModelId: previousModelId as any,
+    version: 1,
+    activatedAtMs,
+  };
+}
+
+const activations = [
+  activation(100, 'model-b', 'model-a'),
+  activation(200, 'model-c', 'model-b'),
+  activation(300, 'model-c', 'model-c'),
+];
+
+describe('activationAt', () => {
+  it('returns the latest activation at or before the timestamp', () => {
+    expect(activationAt(activations, 99)).toBeUndefined();
+    expect(activationAt(activations, 100)?.modelId).toBe('model-b');
+    expect(activationAt(activations, 250)?.modelId).toBe('model-c');
+  });
+});
+
+describe('splitIntervalByActivation', () => {
+  it('splits an interval at each activation change', () => {
+    expect(splitIntervalByActivation(50, 250, activations, 'fallback' as any)).toEqual([
+      { modelId: 'model-a', t0Ms: 50, t1Ms: 100 },
+      { modelId: 'model-b', t0Ms: 100, t1Ms: 200 },
+      { modelId: 'model-c', t0Ms: 200, t1Ms: 250 },
+    ]);
+  });
+
+  it('merges consecutive activations of the same model', () => {
+    expect(splitIntervalByActivation(150, 400, activations, 'fallback' as any)).toEqual([
+      { modelId: 'model-b', t0Ms: 150, t1Ms: 200 },
+      { modelId: 'model-c', t0Ms: 200, t1Ms: 400 },
+    ]);
+  });
+
+  it('does not split at an activation on the interval start', () => {
+    expect(splitIntervalByActivation(100, 150, activations, 'fallback' as any)).toEqual([
+      { modelId: 'model-b', t0Ms: 100, t1Ms: 150 },
+    ]);
+  });
+
+  it('uses the fallback model without activations', () => {
+    expect(splitIntervalByActivation(0, 10, [], 'fallback' as any)).toEqual([
+      { modelId: 'fallback', t0Ms: 0, t1Ms: 10 },
+    ]);
+  });
+
+  it('returns no spans for an empty interval', () => {
+    expect(splitIntervalByActivation(10, 10, activations, 'fallback' as any)).toEqual([]);
+  });
+
+  it('rejects activations out of order', () => {
+    expect(() =>
+      splitIntervalByActivation(0, 10, [...activations].reverse(), 'fallback' as any)
+    ).toThrow('ascending');
+  });
+});
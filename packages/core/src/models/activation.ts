@@ -0,0 +1,77 @@
+/**
+ * Attribution of time to models from a control's activation history.
+ *
+ * The model active at an instant is the one of the latest activation at or
+ * before it. Time before a control's first recorded activation belongs to the
+ * model that activation replaced. Without any activations there is no
+ * history; callers supply the model to attribute time to (typically the
+ * committed event's `activeModelId`).
+ */
+
+import type { ModelId } from '../domain/index.js';
+import type { ModelActivation, ModelSpan } from './types.js';
+
+/**
+ * The activation in force at `tsMs`, or `undefined` before the first one.
+ *
+ * @param activations - One control's activations, ascending by time
+ */
+export function activationAt(
+  activations: readonly ModelActivation[],
+  tsMs: number
+): ModelActivation | undefined {
+  let active: ModelActivation | undefined;
+  for (const activation of activations) {
+    if (activation.activatedAtMs > tsMs) {
+      break;
+    }
+    active = activation;
+  }
+  return active;
+}
+
+/**
+ * Splits `[t0Ms, t1Ms)` at the activation changes inside it, one span per
+ * model run (consecutive activations of the same model are merged).
+ *
+ * @param activations - One control's activations, ascending by time
+ * @param fallbackModelId - Model for the whole interval if there are no
+ *   activations
+ * @returns Spans covering the interval in order; none if it is empty
+ * @throws Error if activations are not in ascending order
+ */
+export function splitIntervalByActivation(
+  t0Ms: number,
+  t1Ms: number,
+  activations: readonly ModelActivation[],
+  fallbackModelId: ModelId
+): ModelSpan[] {
+  activations.forEach((activation, k) => {
+    if (k > 0 && activation.activatedAtMs < activations[k - 1].activatedAtMs) {
+      throw new Error('Model activations must be in ascending time order');
+    }
+  });
+  if (!(t0Ms < t1Ms)) {
+    return [];
+  }
+
+  const spans: ModelSpan[] = [];
+  let modelId =
+    activationAt(activations, t0Ms)?.modelId ?? activations[0]?.previousModelId ?? fallbackModelId;
+  let start = t0Ms;
+  for (const activation of activations) {
+    if (activation.activatedAtMs <= t0Ms) {
+      continue;
+    }
+    if (activation.activatedAtMs >= t1Ms) {
+      break;
+    }
+    if (activation.modelId !== modelId) {
+      spans.push({ modelId, t0Ms: start, t1Ms: activation.activatedAtMs });
+      modelId = activation.modelId;
+      start = activation.activatedAtMs;
+    }
+  }
+  spans.push({ modelId, t0Ms: start, t1Ms });
+  return spans;
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for preference-following model decisions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_OVERRIDE_COOLDOWN_MINUTES,
+  defersToUser,
+  findPreferredState,
+  followPreference,
+} from './following.js';
+import type { PreferenceFollowingSettings } from './types.js';
+import type { ControlDefinition, ControlId, SliderValue01 } from '../domain/index.js';
+
+const controlId = 'control-1' as ControlId;
+
+const radiobutton: ControlDefinition = {
+  kind: 'radiobutton',
+  numStates: 3,
+  labels: ['Off', 'Low', 'High'],
+};
+
+const settings: PreferenceFollowingSettings = {
+  metric: 'transitionLogLikelihood',
+  minConfidence: 0.5,
+  hysteresis: 0.1,
+};
+
+describe('followPreference', () => {
+  it('sets discrete controls to the most likely state', () => {
+    expect(
+      followPreference(radiobutton, controlId, [0.1, 0.2, 0.7], { discreteState: 0 }, settings)
+    ).toEqual({
+      kind: 'radiobutton',
+      controlId,
+      newState: 2,
+      initiator: 'model',
+      isCommitted: true,
+    });
+  });
+
+  it('does not act below the confidence threshold', () => {
+    expect(
+      followPreference(radiobutton, controlId, [0.3, 0.3, 0.4], { discreteState: 0 }, settings)
+    ).toBeUndefined();
+  });
+
+  it('leaves the control alone within the hysteresis margin', () => {
+    const current = { discreteState: 1 };
+    expect(
+      followPreference(radiobutton, controlId, [0, 0.45, 0.55], current, {
+        ...settings,
+        hysteresis: 0.2,
+      })
+    ).toBeUndefined();
+    expect(
+      followPreference(radiobutton, controlId, [0, 0.3, 0.7], current, {
+        ...settings,
+        hysteresis: 0.2,
+      })
+    ).toMatchObject({ newState: 2 });
+  });
+
+  it('does not act when the control is already in the preferred state', () => {
+    expect(
+      followPreference(radiobutton, controlId, [0, 0, 1], { discreteState: 2 }, settings)
+    ).toBeUndefined();
+  });
+
+  it('sets sliders to the expected value', () => {
+    // Default thresholds: states 0–5 centered at 0, 0.125, 0.375, 0.625, 0.875, 1
+    const request = followPreference(
+      { kind: 'slider' },
+      controlId,
+      [0, 0, 0.5, 0.5, 0, 0],
+      { discreteState: 0, value01: 0 as SliderValue01 },
+      settings
+    );
+    expect(request).toMatchObject({ kind: 'slider', initiator: 'model', isCommitted: true });
+    expect(request?.kind === 'slider' && request.newValue01).toBeCloseTo(0.5);
+  });
+
+  it('applies the hysteresis margin to slider values', () => {
+    const current = { discreteState: 3, value01: 0.45 as SliderValue01 };
+    expect(
+      followPreference({ kind: 'slider' }, controlId, [0, 0, 0.5, 0.5, 0, 0], current, settings)
+    ).toBeUndefined();
+  });
+
+  it('rejects distributions of the wrong length', () => {
+    expect(() =>
+      followPreference(radiobutton, controlId, [0.5, 0.5], { discreteState: 0 }, settings)
+    ).toThrow(/Expected 3 state probabilities/);
+  });
+});
+
+describe('findPreferredState', () => {
+  it('returns the most likely state if it is probable enough', () => {
+    expect(findPreferredState([0.1, 0.2, 0.7], settings)).toBe(2);
+    expect(findPreferredState([0.3, 0.3, 0.4], settings)).toBeNull();
+  });
+});
+
+describe('defersToUser', () => {
+  const MINUTE_MS = 60 * 1000;
+  const committedAtMs = Date.UTC(2024, 5, 3, 12);
+  const override = { committedAtMs, preferredState: 2 };
+
+  it('defers to a user change within the cooldown while the preference holds', () => {
+    // Without deferring, the model would revert the user's choice of state 0
+    expect(
+      followPreference(radiobutton, controlId, [0, 0, 1], { discreteState: 0 }, settings)
+    ).toMatchObject({ newState: 2 });
+    expect(defersToUser(override, 2, committedAtMs + MINUTE_MS, settings)).toBe(true);
+    expect(
+      defersToUser(
+        override,
+        2,
+        committedAtMs + (DEFAULT_OVERRIDE_COOLDOWN_MINUTES - 1) * MINUTE_MS,
+        settings
+      )
+    ).toBe(true);
+  });
+
+  it('stops deferring once the cooldown has passed', () => {
+    expect(
+      defersToUser(
+        override,
+        2,
+        committedAtMs + DEFAULT_OVERRIDE_COOLDOWN_MINUTES * MINUTE_MS,
+        settings
+      )
+    ).toBe(false);
+    expect(
+      defersToUser(override, 2, committedAtMs + 10 * MINUTE_MS, {
+        ...settings,
+        overrideCooldownMinutes: 10,
+      })
+    ).toBe(false);
+  });
+
+  it('stops deferring when the preferred state changes', () => {
+    expect(defersToUser(override, 1, committedAtMs + MINUTE_MS, settings)).toBe(false);
+    expect(defersToUser(override, null, committedAtMs + MINUTE_MS, settings)).toBe(false);
+  });
+});
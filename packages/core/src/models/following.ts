@@ -0,0 +1,153 @@
+/**
+ * Decisions of preference-following models: what to set a control to, given
+ * the stationary preference distribution at the current time.
+ *
+ * Discrete controls (radiobuttons and compound controls) follow the most
+ * likely state; sliders follow the expected value, taking each state at its
+ * center. The model only acts when the most likely state is at least
+ * `minConfidence` probable, and only moves the control when the preference
+ * clears the hysteresis margin, so small shifts in the estimate do not make
+ * it flap between neighbouring values. After a user's committed change, the
+ * model defers to the user until its cooldown has passed or it comes to
+ * prefer a different state than when it saw the change.
+ */
+
+import {
+  buildStateRequest,
+  createSliderValue01,
+  getSliderThresholds,
+  getStateCenter,
+  getStateCount,
+  type ControlDefinition,
+  type ControlId,
+  type DiscreteState,
+  type SetControlValueRequest,
+  type SliderValue01,
+} from '../domain/index.js';
+import type { PreferenceFollowingSettings } from './types.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Default of `PreferenceFollowingSettings.overrideCooldownMinutes`.
+ */
+export const DEFAULT_OVERRIDE_COOLDOWN_MINUTES = 120;
+
+/**
+ * A user's committed change a preference-following model defers to.
+ */
+export interface UserOverride {
+  readonly committedAtMs: number;
+  /**
+   * State the model preferred when it saw the change (`null` if none was
+   * probable enough).
+   */
+  readonly preferredState: DiscreteState | null;
+}
+
+/**
+ * Current value of the control being followed.
+ */
+export interface FollowedControlValue {
+  readonly discreteState: DiscreteState;
+  /**
+   * Current slider value. Present for sliders only.
+   */
+  readonly value01?: SliderValue01;
+}
+
+/**
+ * Returns the model-initiated committed request that moves a control towards
+ * the preferred value, or `undefined` if the model should leave it as is.
+ *
+ * @param distribution - Stationary distribution over the control's states
+ * @throws Error if the distribution does not have one entry per state
+ */
+export function followPreference(
+  definition: ControlDefinition,
+  controlId: ControlId,
+  distribution: readonly number[],
+  current: FollowedControlValue,
+  settings: PreferenceFollowingSettings
+): SetControlValueRequest | undefined {
+  if (distribution.length !== getStateCount(definition)) {
+    throw new Error(
+      `Expected ${getStateCount(definition)} state probabilities, got ${distribution.length}`
+    );
+  }
+  const preferred = findPreferredState(distribution, settings);
+  if (preferred === null) {
+    return undefined;
+  }
+
+  if (definition.kind !== 'slider') {
+    const margin = distribution[preferred] - distribution[current.discreteState];
+    if (preferred === current.discreteState || margin < settings.hysteresis) {
+      return undefined;
+    }
+    return buildStateRequest(definition, controlId, preferred, 'model', true);
+  }
+
+  const thresholds = getSliderThresholds(definition);
+  const expected = distribution.reduce(
+    (sum, probability, state) => sum + probability * getStateCenter(state, thresholds),
+    0
+  );
+  const value01 = Math.min(1, Math.max(0, expected));
+  const currentValue01 = current.value01 ?? getStateCenter(current.discreteState, thresholds);
+  const distance = Math.abs(value01 - currentValue01);
+  if (distance === 0 || distance < settings.hysteresis) {
+    return undefined;
+  }
+  return {
+    kind: 'slider',
+    controlId,
+    newValue01: createSliderValue01(value01),
+    initiator: 'model',
+    isCommitted: true,
+  };
+}
+
+/**
+ * Most likely state of a preference distribution, or `null` if it is less
+ * than `minConfidence` probable.
+ */
+export function findPreferredState(
+  distribution: readonly number[],
+  { minConfidence }: Pick<PreferenceFollowingSettings, 'minConfidence'>
+): DiscreteState | null {
+  let preferred = 0;
+  distribution.forEach((probability, state) => {
+    if (probability > distribution[preferred]) {
+      preferred = state;
+    }
+  });
+  return distribution[preferred] < minConfidence ? null : preferred;
+}
+
+/**
+ * How long after a user's committed change a model may defer to it.
+ */
+export function getOverrideCooldownMs(settings: PreferenceFollowingSettings): number {
+  return (settings.overrideCooldownMinutes ?? DEFAULT_OVERRIDE_COOLDOWN_MINUTES) * MINUTE_MS;
+}
+
+/**
+ * Whether a preference-following model still defers to a user's committed
+ * change at `nowMs`: within the cooldown, as long as it prefers the same
+ * state as when it saw the change.
+ *
+ * @param preferredState - State the model prefers now (see
+ *   `findPreferredState`)
+ */
+export function defersToUser(
+  override: UserOverride,
+  preferredState: DiscreteState | null,
+  nowMs: number,
+  settings: PreferenceFollowingSettings
+): boolean {
+  return (
+    nowMs - override.committedAtMs < getOverrideCooldownMs(settings) &&
+    preferredState === override.preferredState
+  );
+}
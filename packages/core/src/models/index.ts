@@ -0,0 +1,39 @@
+/**
+ * Models module public exports.
+ * Model registry definitions and per-control activation history.
+ */
+
+// Types
+export type {
+  ModelDefinition,
+  ModelActivation,
+  ModelSpan,
+  ModelBehavior,
+  ScheduleRule,
+  PreferenceFollowingSettings,
+} from './types.js';
+
+// Activation history
+export { activationAt, splitIntervalByActivation } from './activation.js';
+
+// Schedule models
+export { findFiredScheduleRule, assertScheduleFitsControl } from './schedule.js';
+
+// Preference-following models
+export type { FollowedControlValue, UserOverride } from './following.js';
+export {
+  DEFAULT_OVERRIDE_COOLDOWN_MINUTES,
+  followPreference,
+  findPreferredState,
+  getOverrideCooldownMs,
+  defersToUser,
+} from './following.js';
+
+// Validation schemas
+export {
+  scheduleRuleSchema,
+  preferenceFollowingSettingsSchema,
+  modelBehaviorSchema,
+  modelDefinitionSchema,
+  modelActivationSchema,
+} from './validation.js';
@@ -0,0 +1,82 @@
+/**
+ * Tests for schedule model evaluation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assertScheduleFitsControl, findFiredScheduleRule } from './schedule.js';
+import type { ScheduleRule } from './types.js';
+import type { ClockLocation } from '../clocks/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const london: ClockLocation = {
+  timezone: 'Europe/London',
+  latitude: 51.5074,
+  longitude: -0.1276,
+};
+
+// Monday 2024-07-01, BST (UTC+1)
+const monday = (hour: number, minute = 0) => Date.UTC(2024, 6, 1, hour - 1, minute);
+
+const morning: ScheduleRule = { clockId: 'local', hour: 7, minute: 0, state: 5 };
+const night: ScheduleRule = { clockId: 'local', hour: 22, minute: 30, state: 2 };
+
+describe('findFiredScheduleRule', () => {
+  it('fires a rule when its clock passes the rule time', () => {
+    const rules = [morning, night];
+    expect(findFiredScheduleRule(rules, monday(6, 59), monday(7, 0), london)).toBe(morning);
+    expect(findFiredScheduleRule(rules, monday(7, 0), monday(7, 1), london)).toBeUndefined();
+    expect(findFiredScheduleRule(rules, monday(22), monday(23), london)).toBe(night);
+  });
+
+  it('returns the rule that fired last in the window', () => {
+    const rules = [night, morning];
+    expect(findFiredScheduleRule(rules, monday(6), monday(23), london)).toBe(night);
+  });
+
+  it('only fires on the rule weekdays', () => {
+    const weekend: ScheduleRule = { ...morning, weekdays: [5, 6] };
+    expect(findFiredScheduleRule([weekend], monday(6), monday(8), london)).toBeUndefined();
+  });
+
+  it('follows the rule clock', () => {
+    // 07:00 UTC is 08:00 local in summer
+    const utcMorning: ScheduleRule = { ...morning, clockId: 'utc' };
+    expect(findFiredScheduleRule([utcMorning], monday(7, 30), monday(8, 30), london)).toBe(
+      utcMorning
+    );
+  });
+
+  it('fires unequal-hours rules around sunrise', () => {
+    // Unequal hour 06:00 is sunrise, around 04:45 local in London in July
+    const sunrise: ScheduleRule = { clockId: 'unequalHours', hour: 6, minute: 0, state: 1 };
+    expect(findFiredScheduleRule([sunrise], monday(4), monday(5, 30), london)).toBe(sunrise);
+    expect(findFiredScheduleRule([sunrise], monday(6), monday(8), london)).toBeUndefined();
+  });
+
+  it('does not fire when the local clock is set back', () => {
+    // 2024-10-27 01:30 BST → 01:10 GMT: the local clock moves back 20 minutes.
+    const tsMs = Date.UTC(2024, 9, 27, 0, 30);
+    const rule: ScheduleRule = { clockId: 'local', hour: 1, minute: 20, state: 1 };
+    expect(findFiredScheduleRule([rule], tsMs, tsMs + 40 * MINUTE_MS, london)).toBeUndefined();
+  });
+
+  it('rejects windows longer than a day', () => {
+    expect(() => findFiredScheduleRule([morning], 0, 25 * 60 * MINUTE_MS, london)).toThrow(
+      /longer than one day/
+    );
+  });
+});
+
+describe('assertScheduleFitsControl', () => {
+  it('rejects rules setting states the control lacks', () => {
+    expect(() => assertScheduleFitsControl([morning], { kind: 'slider' })).not.toThrow();
+    expect(() =>
+      assertScheduleFitsControl([night, morning], {
+        kind: 'radiobutton',
+        numStates: 3,
+        labels: ['Off', 'Low', 'High'],
+      })
+    ).toThrow(/rule 1 sets state 5/);
+  });
+});
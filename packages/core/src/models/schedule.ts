@@ -0,0 +1,90 @@
+/**
+ * Evaluation of schedule models: which rule fires when.
+ *
+ * A rule fires when its clock passes the rule's time of day (on one of its
+ * weekdays). The automation job evaluates schedules over consecutive windows
+ * `(fromMs, toMs]`, so every firing is seen exactly once. Rules on a clock
+ * that is undefined at either end of a window (e.g. unequal hours during
+ * polar day) do not fire in that window.
+ */
+
+import {
+  DAYS_PER_WEEK,
+  DAY_MS,
+  WEEK_MS,
+  wrapWeekMs,
+  type Weekday,
+} from '../time/index.js';
+import { mapTimestampToWeekPosition, type ClockLocation } from '../clocks/index.js';
+import { discreteStateSchema, type ControlDefinition } from '../domain/index.js';
+import type { ScheduleRule } from './types.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const ALL_WEEKDAYS = Array.from({ length: DAYS_PER_WEEK }, (_, day) => day as Weekday);
+
+/**
+ * Returns the rule that fired last in `(fromMs, toMs]`, or `undefined` if none
+ * fired. Rules firing at the same instant resolve to the later one in `rules`.
+ *
+ * Firing instants of rules on different clocks are compared by interpolating
+ * each clock linearly across the window, which is exact for all but the
+ * unequal-hours clock and close for it over short windows.
+ *
+ * @throws Error if the window is longer than one day
+ */
+export function findFiredScheduleRule(
+  rules: readonly ScheduleRule[],
+  fromMs: number,
+  toMs: number,
+  location: ClockLocation
+): ScheduleRule | undefined {
+  if (toMs - fromMs > DAY_MS) {
+    throw new Error(`Schedule window of ${toMs - fromMs} ms is longer than one day`);
+  }
+  if (!(fromMs < toMs)) {
+    return undefined;
+  }
+
+  let fired: ScheduleRule | undefined;
+  let firedAt = -1;
+  for (const rule of rules) {
+    const from = mapTimestampToWeekPosition(rule.clockId, fromMs, location);
+    const to = mapTimestampToWeekPosition(rule.clockId, toMs, location);
+    if (from === undefined || to === undefined) {
+      continue;
+    }
+    const span = wrapWeekMs(to - from);
+    // A clock set back (e.g. at the end of daylight saving time) wraps to
+    // almost a week; nothing is passed in such a window.
+    if (span === 0 || span > WEEK_MS / 2) {
+      continue;
+    }
+    for (const day of rule.weekdays ?? ALL_WEEKDAYS) {
+      const ahead = wrapWeekMs(day * DAY_MS + (rule.hour * 60 + rule.minute) * MINUTE_MS - from);
+      const at = ahead / span;
+      if (ahead > 0 && at <= 1 && at >= firedAt) {
+        fired = rule;
+        firedAt = at;
+      }
+    }
+  }
+  return fired;
+}
+
+/**
+ * Checks that every rule's state exists on a control.
+ *
+ * @throws Error naming the first rule whose state is out of range
+ */
+export function assertScheduleFitsControl(
+  rules: readonly ScheduleRule[],
+  definition: ControlDefinition
+): void {
+  const stateSchema = discreteStateSchema(definition);
+  rules.forEach((rule, k) => {
+    if (!stateSchema.safeParse(rule.state).success) {
+      throw new Error(`Schedule rule ${k} sets state ${rule.state}, which the control lacks`);
+    }
+  });
+}
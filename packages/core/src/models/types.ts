@@ -0,0 +1,128 @@
+/**
+ * Model registry and activation history types.
+ */
+
+import type { ControlId, DiscreteState, ModelId } from '../domain/index.js';
+import type { ClockId } from '../clocks/index.js';
+import type { Weekday } from '../time/index.js';
+import type { ClockEvaluationMetricName } from '../evaluation/index.js';
+
+/**
+ * One rule of a schedule model: at a time of day on one clock, set the
+ * control to a discrete state.
+ */
+export interface ScheduleRule {
+  readonly clockId: ClockId;
+  /**
+   * Hour of day on the rule's clock (0–23).
+   */
+  readonly hour: number;
+  /**
+   * Minute of the hour (0–59).
+   */
+  readonly minute: number;
+  /**
+   * Days on which the rule fires (every day if omitted).
+   */
+  readonly weekdays?: Weekday[];
+  /**
+   * State the control is set to when the rule fires.
+   */
+  readonly state: DiscreteState;
+}
+
+/**
+ * Settings of a preference-following model.
+ */
+export interface PreferenceFollowingSettings {
+  /**
+   * Metric by which the clocks are ranked; the model follows the preference
+   * on the best-ranked clock.
+   */
+  readonly metric: ClockEvaluationMetricName;
+  /**
+   * Least probability the most likely state must have for the model to act,
+   * in [0, 1].
+   */
+  readonly minConfidence: number;
+  /**
+   * Margin the preference must clear before the model moves the control, in
+   * [0, 1): for discrete controls, how much more likely the preferred state
+   * must be than the current one; for sliders, how far the expected value
+   * must be from the current value.
+   */
+  readonly hysteresis: number;
+  /**
+   * Minutes the model leaves a control alone after a user's committed change,
+   * unless it comes to prefer a different state meanwhile (default
+   * `DEFAULT_OVERRIDE_COOLDOWN_MINUTES`).
+   */
+  readonly overrideCooldownMinutes?: number;
+}
+
+/**
+ * How a model drives its controls from inside the system. Models without a
+ * behavior are driven externally (e.g. by Node-RED flows).
+ *
+ * - schedule: fixed rules, each firing at a time of day on one of the clocks
+ * - preference: follows the inferred user preference at the current time
+ */
+export type ModelBehavior =
+  | { readonly kind: 'schedule'; readonly rules: ScheduleRule[] }
+  | ({ readonly kind: 'preference' } & PreferenceFollowingSettings);
+
+/**
+ * One version of a registered automation model. Registering a changed
+ * definition appends a new version; earlier versions are kept.
+ */
+export interface ModelDefinition {
+  readonly modelId: ModelId;
+  readonly name: string;
+  readonly description: string;
+  /**
+   * Clock the model's behavior is keyed to.
+   */
+  readonly clockId: ClockId;
+  /**
+   * Controls the model may be activated for.
+   */
+  readonly controlIds: ControlId[];
+  /**
+   * Built-in behavior, if the system itself drives the model.
+   */
+  readonly behavior?: ModelBehavior;
+  /**
+   * Version number, starting at 1.
+   */
+  readonly version: number;
+}
+
+/**
+ * Append-only record of a model becoming active for a control. The model
+ * stays active until the control's next activation.
+ */
+export interface ModelActivation {
+  readonly controlId: ControlId;
+  readonly modelId: ModelId;
+  /**
+   * Model that was active until this activation.
+   */
+  readonly previousModelId: ModelId;
+  /**
+   * Model version at activation time.
+   */
+  readonly version: number;
+  /**
+   * Server time (Unix ms) of the switch.
+   */
+  readonly activatedAtMs: number;
+}
+
+/**
+ * Part `[t0Ms, t1Ms)` of an interval during which one model was active.
+ */
+export interface ModelSpan {
+  readonly modelId: ModelId;
+  readonly t0Ms: number;
+  readonly t1Ms: number;
+}
@@ -0,0 +1,77 @@
+/**
+ * Zod validation schemas for the model registry.
+ */
+
+import { z } from 'zod';
+import { controlIdSchema, modelIdSchema } from '../domain/index.js';
+import { clockIdSchema } from '../clocks/index.js';
+import { weekdaySchema } from '../time/index.js';
+import { clockEvaluationMetricNameSchema } from '../evaluation/validation.js';
+import type {
+  ModelActivation,
+  ModelBehavior,
+  ModelDefinition,
+  PreferenceFollowingSettings,
+  ScheduleRule,
+} from './types.js';
+
+/**
+ * Schema for ScheduleRule. Weekdays, if given, must be non-empty and distinct.
+ */
+export const scheduleRuleSchema = z.object({
+  clockId: clockIdSchema,
+  hour: z.number().int().min(0).max(23),
+  minute: z.number().int().min(0).max(59),
+  weekdays: z
+    .array(weekdaySchema)
+    .min(1)
+    .refine((days) => new Set(days).size === days.length, 'weekdays must be distinct')
+    .optional(),
+  state: z.number().int().min(0),
+}) as unknown as z.ZodType<ScheduleRule>;
+
+const preferenceFollowingShape = {
+  metric: clockEvaluationMetricNameSchema,
+  minConfidence: z.number().min(0).max(1),
+  hysteresis: z.number().min(0).lt(1),
+  overrideCooldownMinutes: z.number().min(0).optional(),
+};
+
+/**
+ * Schema for PreferenceFollowingSettings.
+ */
+export const preferenceFollowingSettingsSchema = z.object(
+  preferenceFollowingShape
+) as unknown as z.ZodType<PreferenceFollowingSettings>;
+
+/**
+ * Schema for ModelBehavior. A schedule needs at least one rule.
+ */
+export const modelBehaviorSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('schedule'), rules: z.array(scheduleRuleSchema).min(1) }),
+  z.object({ kind: z.literal('preference'), ...preferenceFollowingShape }),
+]) as unknown as z.ZodType<ModelBehavior>;
+
+/**
+ * Schema for ModelDefinition. A model applies to at least one control.
+ */
+export const modelDefinitionSchema = z.object({
+  modelId: modelIdSchema,
+  name: z.string().min(1),
+  description: z.string(),
+  clockId: clockIdSchema,
+  controlIds: z.array(controlIdSchema).min(1),
+  behavior: modelBehaviorSchema.optional(),
+  version: z.number().int().min(1),
+}) as unknown as z.ZodType<ModelDefinition>;
+
+/**
+ * Schema for ModelActivation.
+ */
+export const modelActivationSchema = z.object({
+  controlId: controlIdSchema,
+  modelId: modelIdSchema,
+  previousModelId: modelIdSchema,
+  version: z.number().int().min(1),
+  activatedAtMs: z.number(),
+}) as unknown as z.ZodType<ModelActivation>;
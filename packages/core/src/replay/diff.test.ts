@@ -0,0 +1,122 @@
+/**
+ * Tests for the dry-run aggregate diff.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EMPTY_ROW_DIFF, addPairedRows, diffAggregates, pairBucketEntries } from './diff.js';
+import type { HoldMsDelta, TransCountDelta } from './types.js';
+
+function hold(bucketId: number, ms: number, state = 0): HoldMsDelta {
+  return {
+    modelId: 'model-a' as any,
+    clockId: 'utc',
+    bucketId: bucketId as any,
+    state,
+    quarterKey: '2024-Q1' as any,
+    ms,
+  };
+}
+
+function trans(bucketId: number, count: number): TransCountDelta {
+  return {
+    modelId: 'model-a' as any,
+    clockId: 'local',
+    bucketId: bucketId as any,
+    fromState: 0,
+    toState: 1,
+    quarterKey: '2024-Q1' as any,
+    count,
+  };
+}
+
+describe('diffAggregates', () => {
+  it('classifies rows as added, removed, changed or unchanged', () => {
+    const diff = diffAggregates(
+      { holdMs: [hold(1, 100), hold(2, 200), hold(3, 300)], transCounts: [trans(1, 2)] },
+      { holdMs: [hold(1, 100), hold(2, 250), hold(4, 50)], transCounts: [trans(1, 2)] }
+    );
+    expect(diff.holdMs).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 1,
+      totalBefore: 600,
+      totalAfter: 400,
+    });
+    expect(diff.transCounts).toEqual({
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 1,
+      totalBefore: 2,
+      totalAfter: 2,
+    });
+  });
+
+  it('sums rows sharing a key and ignores extra fields', () => {
+    const current = [{ ...hold(1, 40), generation: 0 }, { ...hold(1, 60), generation: 0 }];
+    const diff = diffAggregates(
+      { holdMs: current, transCounts: [] },
+      { holdMs: [hold(1, 100)], transCounts: [] }
+    );
+    expect(diff.holdMs.unchanged).toBe(1);
+    expect(diff.holdMs.changed).toBe(0);
+  });
+
+  it('distinguishes rows by state', () => {
+    const diff = diffAggregates(
+      { holdMs: [hold(1, 100, 0)], transCounts: [] },
+      { holdMs: [hold(1, 100, 1)], transCounts: [] }
+    );
+    expect(diff.holdMs.added).toBe(1);
+    expect(diff.holdMs.removed).toBe(1);
+  });
+});
+
+describe('addPairedRows', () => {
+  it('matches diffAggregates when rows are added page by page', () => {
+    const current = [hold(1, 100), hold(2, 200), hold(3, 300)];
+    const rebuilt = [hold(1, 100), hold(2, 250), hold(4, 50)];
+    const value = (rows: HoldMsDelta[], bucketId: number) =>
+      rows.find((row) => row.bucketId === bucketId)?.ms;
+    const pair = (rows: HoldMsDelta[], other: HoldMsDelta[]) =>
+      rows.map((row) => ({ value: row.ms, counterpart: value(other, row.bucketId) }));
+
+    let summary = EMPTY_ROW_DIFF;
+    for (const page of [current.slice(0, 2), current.slice(2)]) {
+      summary = addPairedRows(summary, 'current', pair(page, rebuilt));
+    }
+    summary = addPairedRows(summary, 'rebuilt', pair(rebuilt, current));
+    expect(summary).toEqual(
+      diffAggregates({ holdMs: current, transCounts: [] }, { holdMs: rebuilt, transCounts: [] })
+        .holdMs
+    );
+  });
+});
+
+describe('pairBucketEntries', () => {
+  const transitions = (count: number) => [{ fromState: 0, toState: 1, count }];
+
+  it('pairs each nonzero holding entry with the same state of the other bucket', () => {
+    expect(
+      pairBucketEntries(
+        'holdMs',
+        { holdMs: [100, 0, 30], transCounts: [] },
+        { holdMs: [100, 5], transCounts: [] }
+      )
+    ).toEqual([
+      { value: 100, counterpart: 100 },
+      { value: 30, counterpart: undefined },
+    ]);
+  });
+
+  it('pairs transitions by cell and treats a missing bucket as empty', () => {
+    const counts = { holdMs: [], transCounts: transitions(2) };
+    expect(
+      pairBucketEntries('transCounts', counts, { holdMs: [], transCounts: transitions(3) })
+    ).toEqual([{ value: 2, counterpart: 3 }]);
+    expect(pairBucketEntries('transCounts', counts, undefined)).toEqual([
+      { value: 2, counterpart: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Dry-run comparison of current and rebuilt aggregates.
+ */
+
+import { findTransitionCount, type BucketCounts } from '../measurement/index.js';
+import type {
+  AggregateDelta,
+  AggregateDiff,
+  DiffSide,
+  HoldMsDelta,
+  PairedRow,
+  RowDiffSummary,
+  TransCountDelta,
+} from './types.js';
+
+/**
+ * Relative tolerance below which two row values count as unchanged
+ * (holding times are sums of floating-point allocations).
+ */
+const VALUE_TOLERANCE = 1e-9;
+
+/**
+ * Comparison of no rows, the start of an incremental diff.
+ */
+export const EMPTY_ROW_DIFF: RowDiffSummary = {
+  added: 0,
+  removed: 0,
+  changed: 0,
+  unchanged: 0,
+  totalBefore: 0,
+  totalAfter: 0,
+};
+
+/**
+ * Compares current aggregate rows with rebuilt ones, row by row. Rows may
+ * carry extra fields (control, generation, document ids); only the row key
+ * and value are compared, and rows sharing a key are summed.
+ */
+export function diffAggregates(current: AggregateDelta, rebuilt: AggregateDelta): AggregateDiff {
+  const holdKey = (row: HoldMsDelta) =>
+    [row.modelId, row.clockId, row.bucketId, row.state, row.quarterKey].join('|');
+  const transKey = (row: TransCountDelta) =>
+    [row.modelId, row.clockId, row.bucketId, row.fromState, row.toState, row.quarterKey].join('|');
+  return {
+    holdMs: diffRows(
+      sumByKey(current.holdMs, holdKey, (row) => row.ms),
+      sumByKey(rebuilt.holdMs, holdKey, (row) => row.ms)
+    ),
+    transCounts: diffRows(
+      sumByKey(current.transCounts, transKey, (row) => row.count),
+      sumByKey(rebuilt.transCounts, transKey, (row) => row.count)
+    ),
+  };
+}
+
+function sumByKey<T>(
+  rows: readonly T[],
+  keyOf: (row: T) => string,
+  valueOf: (row: T) => number
+): Map<string, number> {
+  const sums = new Map<string, number>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    sums.set(key, (sums.get(key) ?? 0) + valueOf(row));
+  }
+  return sums;
+}
+
+/**
+ * Adds rows of one side to an incremental comparison of a table. Each row
+ * key must be added once per side: current rows are classified against their
+ * rebuilt counterparts, rebuilt rows only count as added if they have none.
+ */
+export function addPairedRows(
+  summary: RowDiffSummary,
+  side: DiffSide,
+  rows: readonly PairedRow[]
+): RowDiffSummary {
+  let { added, removed, changed, unchanged, totalBefore, totalAfter } = summary;
+  for (const { value, counterpart } of rows) {
+    if (side === 'rebuilt') {
+      totalAfter += value;
+      if (counterpart === undefined) {
+        added++;
+      }
+      continue;
+    }
+    totalBefore += value;
+    if (counterpart === undefined) {
+      removed++;
+    } else if (Math.abs(counterpart - value) <= VALUE_TOLERANCE * Math.max(Math.abs(value), 1)) {
+      unchanged++;
+    } else {
+      changed++;
+    }
+  }
+  return { added, removed, changed, unchanged, totalBefore, totalAfter };
+}
+
+/**
+ * Pairs the entries of one aggregate table in a stored bucket with the same
+ * entries of the bucket sharing its key in the other generation (`undefined`
+ * if there is none), for `addPairedRows`. Zero entries count as absent.
+ */
+export function pairBucketEntries(
+  table: keyof BucketCounts,
+  counts: BucketCounts,
+  other: BucketCounts | undefined
+): PairedRow[] {
+  const present = (value: number | undefined) => (value === 0 ? undefined : value);
+  if (table === 'holdMs') {
+    return counts.holdMs.flatMap((ms, state) =>
+      ms > 0 ? [{ value: ms, counterpart: present(other?.holdMs[state]) }] : []
+    );
+  }
+  return counts.transCounts.flatMap(({ fromState, toState, count }) => {
+    const cell = other === undefined ? undefined : findTransitionCount(other, fromState, toState);
+    return count > 0 ? [{ value: count, counterpart: present(cell?.count) }] : [];
+  });
+}
+
+function diffRows(before: Map<string, number>, after: Map<string, number>): RowDiffSummary {
+  const paired = (rows: Map<string, number>, other: Map<string, number>) =>
+    [...rows].map(([key, value]) => ({ value, counterpart: other.get(key) }));
+  return addPairedRows(
+    addPairedRows(EMPTY_ROW_DIFF, 'current', paired(before, after)),
+    'rebuilt',
+    paired(after, before)
+  );
+}
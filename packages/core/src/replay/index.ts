@@ -0,0 +1,60 @@
+/**
+ * Replay module public exports.
+ * Rebuilds aggregates from the append-only committed-change log.
+ */
+
+// Types
+export type {
+  HoldMsDelta,
+  TransCountDelta,
+  AggregateDelta,
+  ReplayAnchor,
+  RebuildStatus,
+  RebuildJob,
+  StateRemapping,
+  StateRemap,
+  RowDiffSummary,
+  AggregateDiff,
+  DiffSide,
+  PairedRow,
+  RebuildDiffPhase,
+  RebuildDiffProgress,
+} from './types.js';
+
+// Replay
+export type { ReplayBatchInput, ReplayBatchResult } from './replay.js';
+export { replayEventBatch } from './replay.js';
+
+// Slider state re-derivation
+export type {
+  RederivationAnchor,
+  SliderDerivedValue,
+  StateMove,
+  SliderPolicyImpact,
+} from './slider.js';
+export {
+  usesSliderValues,
+  rederiveEvent,
+  rederiveValue,
+  rederiveEvents,
+  summarizeSliderPolicyImpact,
+} from './slider.js';
+
+// State remapping
+export type { StateChange } from './remap.js';
+export { validateStateRemap, remapState, remapEvents } from './remap.js';
+
+// Dry-run diff
+export { EMPTY_ROW_DIFF, diffAggregates, addPairedRows, pairBucketEntries } from './diff.js';
+
+// Validation schemas
+export {
+  rebuildStatusSchema,
+  replayAnchorSchema,
+  stateRemappingSchema,
+  stateRemapSchema,
+  rowDiffSummarySchema,
+  rebuildDiffPhaseSchema,
+  rebuildDiffProgressSchema,
+  rebuildJobSchema,
+} from './validation.js';
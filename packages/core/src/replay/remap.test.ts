@@ -0,0 +1,132 @@
+/**
+ * Tests for remapping recorded radiobutton states.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { remapEvents, remapState, validateStateRemap } from './remap.js';
+import { replayEventBatch } from './replay.js';
+import type { StateChange } from './remap.js';
+import type { ClockLocation } from '../clocks/index.js';
+import type { CommittedChangeEvent, RadiobuttonDefinition } from '../domain/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const t0 = Date.UTC(2024, 4, 1);
+
+const utc: ClockLocation = { timezone: 'UTC', latitude: 51.5, longitude: 0 };
+
+const scenes: RadiobuttonDefinition = {
+  kind: 'radiobutton',
+  numStates: 4,
+  labels: ['Off', 'Reading', 'Dinner', 'Party'],
+};
+
+function event(
+  minutes: number,
+  fromDiscreteState: number,
+  toDiscreteState: number
+): CommittedChangeEvent {
+  return {
+    controlId: 'scene' as any,
+    tsMs: t0 + minutes * MINUTE_MS,
+    fromDiscreteState,
+    toDiscreteState,
+    initiator: 'user',
+    activeModelId: 'model-a' as any,
+  };
+}
+
+const states = (events: readonly (StateChange | undefined)[]) =>
+  events.map((e) => (e === undefined ? undefined : [e.fromDiscreteState, e.toDiscreteState]));
+
+describe('validateStateRemap', () => {
+  const withMovie: RadiobuttonDefinition = {
+    kind: 'radiobutton',
+    numStates: 5,
+    labels: ['Off', 'Reading', 'Dinner', 'Party', 'Movie'],
+  };
+
+  it('accepts one new state or null per old state', () => {
+    expect(validateStateRemap(scenes, withMovie, [0, 1, 2, 3])).toEqual({
+      mapping: [0, 1, 2, 3],
+      definition: withMovie,
+    });
+    const onOff: RadiobuttonDefinition = { ...scenes, numStates: 2, labels: ['Off', 'On'] };
+    expect(validateStateRemap(scenes, onOff, [0, 1, 1, null]).mapping).toEqual([0, 1, 1, null]);
+  });
+
+  it('rejects states that do not exist on the new definition', () => {
+    expect(() => validateStateRemap(withMovie, scenes, [0, 1, 2, 3, 4])).toThrow();
+    expect(() => validateStateRemap(scenes, withMovie, [0, 1, 2, -1])).toThrow();
+  });
+
+  it('rejects mappings without one entry per old state', () => {
+    expect(() => validateStateRemap(scenes, withMovie, [0, 1, 2])).toThrow();
+  });
+
+  it('applies to radiobuttons only', () => {
+    expect(() => validateStateRemap({ kind: 'slider' }, scenes, [0, 1])).toThrow(
+      /radiobuttons only/
+    );
+  });
+});
+
+describe('remapState', () => {
+  it('throws for states outside the mapping', () => {
+    expect(remapState([1, null], 1)).toBeNull();
+    expect(() => remapState([1, null], 2)).toThrow(/State 2 has no entry/);
+  });
+});
+
+describe('remapEvents', () => {
+  it('renumbers reordered states', () => {
+    expect(states(remapEvents([event(0, 0, 1), event(10, 1, 3)], [3, 2, 1, 0]))).toEqual([
+      [3, 2],
+      [2, 0],
+    ]);
+  });
+
+  it('turns changes between merged states into non-changes', () => {
+    expect(states(remapEvents([event(0, 0, 2), event(10, 2, 3)], [0, 1, 2, 2]))).toEqual([
+      [0, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('removes events entering a dropped state and continues from the state before', () => {
+    const remapped = remapEvents(
+      [event(0, 0, 1), event(10, 1, 3), event(20, 3, 2), event(30, 2, 0)],
+      [0, 1, 2, null]
+    );
+    expect(states(remapped)).toEqual([[0, 1], undefined, [1, 2], [2, 0]]);
+  });
+
+  it('continues from the previous batch across a dropped state', () => {
+    expect(states(remapEvents([event(20, 3, 2)], [0, 1, 2, null], 1))).toEqual([[1, 2]]);
+    expect(states(remapEvents([event(20, 3, 2)], [0, 1, 2, null]))).toEqual([[2, 2]]);
+  });
+
+  it('replays dropped time as time in the state before it', () => {
+    const remapped = remapEvents(
+      [event(0, 0, 1), event(10, 1, 3), event(40, 3, 1), event(60, 1, 0)],
+      [0, 1, 2, null]
+    ).filter((e) => e !== undefined) as CommittedChangeEvent[];
+    const { delta } = replayEventBatch({
+      events: remapped,
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: { ...scenes, numStates: 3, labels: ['Off', 'Reading', 'Dinner'] },
+    });
+    const utcHoldMs = delta.holdMs.filter((row) => row.clockId === 'utc');
+    expect(utcHoldMs.every((row) => row.state === 1)).toBe(true);
+    expect(utcHoldMs.reduce((sum, row) => sum + row.ms, 0)).toBe(60 * MINUTE_MS);
+    expect(
+      delta.transCounts
+        .filter((row) => row.clockId === 'utc')
+        .map((row) => [row.fromState, row.toState, row.count])
+    ).toEqual([
+      [0, 1, 1],
+      [1, 0, 1],
+    ]);
+  });
+});
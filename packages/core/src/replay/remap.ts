@@ -0,0 +1,78 @@
+/**
+ * Remapping of a radiobutton's recorded states when its options change
+ * (options added, reordered, merged or dropped).
+ *
+ * Events are remapped state by state. Dropping a state treats it as never
+ * chosen: events entering it are removed, and an event leaving it continues
+ * from the state the control was in before, so the time spent in the dropped
+ * state is attributed to that state and a transition through it counts as a
+ * direct one. Merged states become one; a change between two of them is no
+ * longer a state change.
+ */
+
+import type { CommittedChangeEvent, ControlDefinition, DiscreteState } from '../domain/index.js';
+import type { StateRemap, StateRemapping } from './types.js';
+import { stateRemappingSchema } from './validation.js';
+
+/**
+ * The states of a logged change.
+ */
+export type StateChange = Pick<CommittedChangeEvent, 'fromDiscreteState' | 'toDiscreteState'>;
+
+/**
+ * Validates a remapping from the options of radiobutton `current` to those of
+ * radiobutton `next`.
+ *
+ * @throws Error if either control is not a radiobutton, or the mapping does
+ *   not have one entry per old state, each a state of `next` or `null`
+ */
+export function validateStateRemap(
+  current: ControlDefinition,
+  next: ControlDefinition,
+  mapping: readonly (number | null)[]
+): StateRemap {
+  if (current.kind !== 'radiobutton' || next.kind !== 'radiobutton') {
+    const kind = current.kind === 'radiobutton' ? next.kind : current.kind;
+    throw new Error(`State remapping applies to radiobuttons only, not ${kind} controls`);
+  }
+  return { mapping: stateRemappingSchema(current, next).parse(mapping), definition: next };
+}
+
+/**
+ * New state of an old state, or `null` if it is dropped.
+ *
+ * @throws Error if the state has no entry in the mapping
+ */
+export function remapState(mapping: StateRemapping, state: DiscreteState): DiscreteState | null {
+  const remapped = mapping[state];
+  if (remapped === undefined) {
+    throw new Error(`State ${state} has no entry in the remapping`);
+  }
+  return remapped;
+}
+
+/**
+ * Remaps a sequence of one control's events (in log order). The result has
+ * one entry per event, `undefined` for events that enter a dropped state and
+ * are removed.
+ *
+ * @param previousState - Remapped to-state of the last kept event before
+ *   `events`, when continuing a remap across batches
+ */
+export function remapEvents<E extends StateChange>(
+  events: readonly E[],
+  mapping: StateRemapping,
+  previousState?: DiscreteState
+): (E | undefined)[] {
+  let previous = previousState;
+  return events.map((event) => {
+    const toDiscreteState = remapState(mapping, event.toDiscreteState);
+    if (toDiscreteState === null) {
+      return undefined;
+    }
+    const fromDiscreteState =
+      remapState(mapping, event.fromDiscreteState) ?? previous ?? toDiscreteState;
+    previous = toDiscreteState;
+    return { ...event, fromDiscreteState, toDiscreteState };
+  });
+}
@@ -0,0 +1,342 @@
+/**
+ * Tests for committed-event replay.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { replayEventBatch } from './replay.js';
+import type { AggregateDelta } from './types.js';
+import type { ClockLocation } from '../clocks/index.js';
+import type { CommittedChangeEvent, ControlDefinition, ModelId } from '../domain/index.js';
+import { checkCommitIntegrity, deriveCommitAnalytics } from '../measurement/index.js';
+import type { QuarterKey } from '../retention/index.js';
+import { toBucketId } from '../time/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const t0 = Date.UTC(2024, 2, 31, 23, 0);
+
+const utc: ClockLocation = { timezone: 'UTC', latitude: 51.5, longitude: 0 };
+const slider: ControlDefinition = { kind: 'slider' };
+
+function event(
+  minutes: number,
+  fromDiscreteState: number,
+  toDiscreteState: number,
+  initiator: 'user' | 'model' = 'user'
+): CommittedChangeEvent {
+  return {
+    controlId: 'control-1' as any,
+    tsMs: t0 + minutes * MINUTE_MS,
+    fromDiscreteState,
+    toDiscreteState,
+    initiator,
+    activeModelId: 'model-a' as any,
+  };
+}
+
+const utcHoldMs = (delta: AggregateDelta, quarterKey?: string) =>
+  delta.holdMs
+    .filter(
+      (row) => row.clockId === 'utc' && (quarterKey === undefined || row.quarterKey === quarterKey)
+    )
+    .reduce((sum, row) => sum + row.ms, 0);
+
+const utcTransitions = (delta: AggregateDelta) =>
+  delta.transCounts.filter((row) => row.clockId === 'utc').reduce((sum, row) => sum + row.count, 0);
+
+describe('replayEventBatch', () => {
+  const events = [event(0, 0, 1), event(30, 1, 2, 'model'), event(90, 2, 0), event(100, 0, 0)];
+
+  it('closes holding intervals between consecutive events and counts user transitions', () => {
+    const { delta, anchor } = replayEventBatch({
+      events,
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    expect(utcHoldMs(delta)).toBe(100 * MINUTE_MS);
+    expect(utcTransitions(delta)).toBe(2);
+    expect(anchor).toEqual({
+      tsMs: t0 + 100 * MINUTE_MS,
+      toDiscreteState: 0,
+      derivedToState: 0,
+    });
+  });
+
+  it('partitions holding time by quarter', () => {
+    const { delta } = replayEventBatch({
+      events,
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    expect(utcHoldMs(delta, '2024-Q1')).toBe(60 * MINUTE_MS);
+    expect(utcHoldMs(delta, '2024-Q2')).toBe(40 * MINUTE_MS);
+  });
+
+  it('gives the same totals when replayed in batches', () => {
+    const first = replayEventBatch({
+      events: events.slice(0, 2),
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    const second = replayEventBatch({
+      events: events.slice(2),
+      anchor: first.anchor,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    expect(utcHoldMs(first.delta) + utcHoldMs(second.delta)).toBe(100 * MINUTE_MS);
+    expect(utcTransitions(first.delta) + utcTransitions(second.delta)).toBe(2);
+  });
+
+  it('merges additions to the same row', () => {
+    const { delta } = replayEventBatch({
+      events: [event(0, 0, 1), event(1, 1, 0), event(2, 0, 1), event(3, 1, 0)],
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    const rows = delta.transCounts.filter((row) => row.clockId === 'utc' && row.fromState === 1);
+    expect(rows).toEqual([
+      {
+        modelId: 'model-a',
+        clockId: 'utc',
+        bucketId: toBucketId(6, 23, 0),
+        fromState: 1,
+        toState: 0,
+        quarterKey: '2024-Q1',
+        count: 2,
+      },
+    ]);
+  });
+
+  it('skips the holding interval across a gap left by a quarantined event', () => {
+    // A 1 → 2 change at minute 10 was quarantined and never logged.
+    const { delta } = replayEventBatch({
+      events: [event(0, 0, 1), event(20, 2, 0)],
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    expect(utcHoldMs(delta)).toBe(0);
+    expect(utcTransitions(delta)).toBe(2);
+  });
+
+  it('resumes from quarantined events like live ingestion', () => {
+    const events = [event(0, 0, 1), event(10, 1, 2), event(40, 3, 0)];
+    const quarantined = [event(20, 2, 3)];
+    const { delta, anchor } = replayEventBatch({
+      events,
+      anchor: undefined,
+      quarantined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    // 0–10 in state 1, 20–40 in state 3; 10–20 preceded the quarantined event
+    expect(utcHoldMs(delta)).toBe(30 * MINUTE_MS);
+    expect(delta.holdMs.some((row) => row.state === 2)).toBe(false);
+    expect(anchor?.tsMs).toBe(t0 + 40 * MINUTE_MS);
+  });
+
+  it('matches live ingestion when events are quarantined', () => {
+    const submitted = [
+      event(0, 0, 1),
+      event(10, 1, 1),
+      // Counted for the first 48 h of a 49 h hold only
+      event(10 + 49 * 60, 1, 1),
+      // Quarantined for a from-state the client saw before state 1 was committed
+      event(20 + 49 * 60, 0, 2),
+      event(30 + 49 * 60, 2, 3),
+      // Quarantined for an unregistered model, changing state
+      { ...event(40 + 49 * 60, 3, 0), activeModelId: 'model-x' as ModelId },
+      event(55 + 49 * 60, 0, 1),
+    ];
+    const maxHoldMs = 48 * HOUR_MS;
+
+    // Live ingestion, as in `applyControlValue`
+    const live = new Map<string, number>();
+    const logged: CommittedChangeEvent[] = [];
+    const quarantined: CommittedChangeEvent[] = [];
+    let previousCommittedAtMs = submitted[0].tsMs;
+    let previousState = submitted[0].fromDiscreteState;
+    for (const submittedEvent of submitted) {
+      const input = {
+        previousCommittedAtMs,
+        previousState,
+        event: submittedEvent,
+        location: utc,
+        maxHoldMs,
+      };
+      const violation = checkCommitIntegrity({
+        ...input,
+        definition: slider,
+        knownModelIds: new Set(['model-a' as ModelId]),
+        nowMs: submittedEvent.tsMs,
+        settings: { maxGapHours: 48, maxFutureSkewSeconds: 60 },
+      });
+      if (violation === undefined) {
+        const analytics = deriveCommitAnalytics(input);
+        for (const { quarterKey, modelId, holding } of analytics.holdings) {
+          for (const [clockId, allocations] of Object.entries(holding.clocks)) {
+            for (const { bucketId, ms } of allocations) {
+              const key = ['hold', modelId, clockId, bucketId, holding.state, quarterKey].join('|');
+              live.set(key, (live.get(key) ?? 0) + ms);
+            }
+          }
+        }
+        const { transition } = analytics;
+        for (const [clockId, bucketId] of Object.entries(transition?.buckets ?? {})) {
+          const { modelId, fromState, toState, quarterKey } = transition!;
+          const key = ['trans', modelId, clockId, bucketId, fromState, toState, quarterKey].join(
+            '|'
+          );
+          live.set(key, (live.get(key) ?? 0) + 1);
+        }
+        logged.push(submittedEvent);
+      } else {
+        quarantined.push(submittedEvent);
+      }
+      previousCommittedAtMs = submittedEvent.tsMs;
+      previousState = submittedEvent.toDiscreteState;
+    }
+    expect(quarantined).toHaveLength(2);
+
+    const rows = (deltas: AggregateDelta[]) => {
+      const replayed = new Map<string, number>();
+      for (const delta of deltas) {
+        for (const row of delta.holdMs) {
+          const { modelId, clockId, bucketId, state, quarterKey } = row;
+          const key = ['hold', modelId, clockId, bucketId, state, quarterKey].join('|');
+          replayed.set(key, (replayed.get(key) ?? 0) + row.ms);
+        }
+        for (const row of delta.transCounts) {
+          const { modelId, clockId, bucketId, fromState, toState, quarterKey } = row;
+          const key = ['trans', modelId, clockId, bucketId, fromState, toState, quarterKey].join(
+            '|'
+          );
+          replayed.set(key, (replayed.get(key) ?? 0) + row.count);
+        }
+      }
+      return replayed;
+    };
+    const common = {
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+      maxHoldMs,
+    } as const;
+
+    const whole = replayEventBatch({ ...common, events: logged, anchor: undefined, quarantined });
+    expect(rows([whole.delta])).toEqual(live);
+    expect(utcHoldMs(whole.delta)).toBe(maxHoldMs + 35 * MINUTE_MS);
+    const ignoringQuarantine = replayEventBatch({ ...common, events: logged, anchor: undefined });
+    expect(rows([ignoringQuarantine.delta])).not.toEqual(live);
+
+    // In batches, each batch gets the quarantined events after its anchor
+    const first = replayEventBatch({
+      ...common,
+      events: logged.slice(0, 4),
+      anchor: undefined,
+      quarantined: quarantined.slice(0, 1),
+    });
+    const second = replayEventBatch({
+      ...common,
+      events: logged.slice(4),
+      anchor: first.anchor,
+      quarantined: quarantined.slice(1),
+    });
+    expect(rows([first.delta, second.delta])).toEqual(live);
+  });
+
+  it('drops additions to quarters before the oldest retained quarter', () => {
+    const { delta } = replayEventBatch({
+      events,
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+      oldestQuarter: '2024-Q2' as QuarterKey,
+    });
+    expect(utcHoldMs(delta)).toBe(40 * MINUTE_MS);
+    expect(delta.holdMs.every((row) => row.quarterKey === '2024-Q2')).toBe(true);
+    expect(utcTransitions(delta)).toBe(1);
+  });
+
+  it('re-derives slider states from the logged values', () => {
+    // Logged under roundDown: 0.25 → state 1; roundUp moves it to state 2.
+    const sliderEvents = [
+      { ...event(0, 0, 1), value01: 0.25 as any },
+      { ...event(10, 1, 3), value01: 0.6 as any },
+    ];
+    const { delta, anchor } = replayEventBatch({
+      events: sliderEvents,
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundUp',
+      definition: slider,
+    });
+    const held = delta.holdMs.filter((row) => row.clockId === 'utc');
+    expect(new Set(held.map((row) => row.state))).toEqual(new Set([2]));
+    const moved = delta.transCounts.filter((row) => row.clockId === 'utc');
+    expect(moved.map((row) => [row.fromState, row.toState])).toEqual([
+      [0, 2],
+      [2, 3],
+    ]);
+    expect(anchor).toEqual({
+      tsMs: t0 + 10 * MINUTE_MS,
+      toDiscreteState: 3,
+      derivedToState: 3,
+    });
+  });
+
+  it('attributes holding time to the models active during it', () => {
+    const { delta } = replayEventBatch({
+      events: [event(0, 0, 1), event(60, 1, 2)],
+      anchor: undefined,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+      activations: [
+        {
+          controlId: 'control-1' as any,
+          modelId: 'model-b' as any,
+          previousModelId: 'model-a' as any,
+          version: 1,
+          activatedAtMs: t0 + 20 * MINUTE_MS,
+        },
+      ],
+    });
+    const heldBy = (modelId: string) =>
+      delta.holdMs
+        .filter((row) => row.clockId === 'utc' && row.modelId === modelId)
+        .reduce((sum, row) => sum + row.ms, 0);
+    expect(heldBy('model-a')).toBe(20 * MINUTE_MS);
+    expect(heldBy('model-b')).toBe(40 * MINUTE_MS);
+    // Transitions belong to the model recorded on the event.
+    expect(delta.transCounts.every((row) => row.modelId === 'model-a')).toBe(true);
+  });
+
+  it('leaves the anchor unchanged for an empty batch', () => {
+    const anchor = { tsMs: t0, toDiscreteState: 1, derivedToState: 1 };
+    const result = replayEventBatch({
+      events: [],
+      anchor,
+      location: utc,
+      sliderBoundaryPolicy: 'roundDown',
+      definition: slider,
+    });
+    expect(result).toEqual({
+      delta: { holdMs: [], transCounts: [] },
+      anchor,
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Replay of committed events into aggregate additions, following the same
+ * counting rules as live ingestion (see `deriveCommitAnalytics`).
+ */
+
+import type {
+  CommittedChangeEvent,
+  ControlDefinition,
+  SliderBoundaryPolicy,
+} from '../domain/index.js';
+import type { ClockId, ClockLocation } from '../clocks/index.js';
+import type { BucketId } from '../time/index.js';
+import {
+  deriveCommitAnalytics,
+  type BucketAllocation,
+  type CommitAnalytics,
+} from '../measurement/index.js';
+import type { ModelActivation } from '../models/index.js';
+import type { QuarterKey } from '../retention/index.js';
+import { rederiveEvent } from './slider.js';
+import type {
+  AggregateDelta,
+  HoldMsDelta,
+  ReplayAnchor,
+  TransCountDelta,
+} from './types.js';
+
+/**
+ * Input for replaying one batch of a control's committed events.
+ */
+export interface ReplayBatchInput {
+  /**
+   * Events in log order (ascending timestamp).
+   */
+  readonly events: readonly CommittedChangeEvent[];
+  /**
+   * Last event of the previous batch, or `undefined` for the first batch.
+   */
+  readonly anchor: ReplayAnchor | undefined;
+  /**
+   * The control's quarantined events after the anchor, up to the batch's last
+   * event (or beyond, for the last batch), ascending by timestamp. Live
+   * ingestion resumes from each of them, so replay does too.
+   */
+  readonly quarantined?: readonly CommittedChangeEvent[];
+  readonly location: ClockLocation;
+  /**
+   * Policy under which slider states are re-derived from the logged values.
+   */
+  readonly sliderBoundaryPolicy: SliderBoundaryPolicy;
+  /**
+   * Definition of the control (slider thresholds and compound dimensions).
+   */
+  readonly definition: ControlDefinition;
+  /**
+   * The control's model activations, ascending by time. Holding time is
+   * attributed to the model active during it (see `deriveCommitAnalytics`).
+   */
+  readonly activations?: readonly ModelActivation[];
+  /**
+   * Longest holding interval counted, as in live ingestion (see
+   * `deriveCommitAnalytics`). Unlimited by default.
+   */
+  readonly maxHoldMs?: number;
+  /**
+   * Oldest retained quarter; additions to earlier quarters are dropped so a
+   * replay does not resurrect retired data.
+   */
+  readonly oldestQuarter?: QuarterKey;
+}
+
+/**
+ * Result of replaying one batch.
+ */
+export interface ReplayBatchResult {
+  readonly delta: AggregateDelta;
+  /**
+   * Anchor for the next batch (unchanged for an empty batch without
+   * quarantined events).
+   */
+  readonly anchor: ReplayAnchor | undefined;
+}
+
+/**
+ * Replays a batch of committed events into aggregate additions, merged per
+ * row key.
+ *
+ * Each event closes the holding interval since the previous logged event,
+ * attributed to the models active during it, and user-initiated state changes
+ * count as transitions of the event's active model. The log only holds events
+ * that passed the integrity guard. A quarantined event adds nothing, but live
+ * ingestion moved the runtime to it, so it breaks the log like it broke live
+ * ingestion: the next event's holding interval starts at the quarantined
+ * event (at a quarantined event at the same timestamp as a logged one, the
+ * quarantined one is taken to come first). An event that does not continue
+ * from the previous one (logged or quarantined) marks a gap: its holding
+ * interval is unknown and skipped, while its transition still counts. Holding
+ * time before the first logged event is not in the log and cannot be
+ * replayed Holding
+ * intervals are cut to `maxHoldMs` as live ingestion cuts them.
+ *
+ * Slider states are re-derived from the logged values under
+ * `sliderBoundaryPolicy` at the thresholds of `definition` (see
+ * `rederiveEvent`), so a replay applies a changed policy or slider scale to
+ * the whole history.
+ */
+export function replayEventBatch({
+  events,
+  anchor,
+  quarantined = [],
+  location,
+  sliderBoundaryPolicy,
+  definition,
+  activations,
+  maxHoldMs,
+  oldestQuarter,
+}: ReplayBatchInput): ReplayBatchResult {
+  const holdMs = new Map<string, HoldMsDelta>();
+  const transCounts = new Map<string, TransCountDelta>();
+  const retained = (quarterKey: QuarterKey) =>
+    oldestQuarter === undefined || quarterKey >= oldestQuarter;
+
+  let previous = anchor;
+  let nextQuarantined = 0;
+  const resumeAfterQuarantined = (untilMs: number) => {
+    for (; nextQuarantined < quarantined.length; nextQuarantined++) {
+      const held = quarantined[nextQuarantined];
+      if (held.tsMs > untilMs) {
+        return;
+      }
+      previous = {
+        tsMs: held.tsMs,
+        toDiscreteState: held.toDiscreteState,
+        derivedToState: rederiveEvent(held, previous, sliderBoundaryPolicy, definition)
+          .toDiscreteState,
+      };
+    }
+  };
+
+  for (const logged of events) {
+    resumeAfterQuarantined(logged.tsMs);
+    const event = rederiveEvent(logged, previous, sliderBoundaryPolicy, definition);
+    const continues =
+      previous !== undefined &&
+      logged.tsMs >= previous.tsMs &&
+      logged.fromDiscreteState === previous.toDiscreteState;
+    // A gap is replayed as an empty holding interval ending at the event.
+    const analytics: CommitAnalytics = deriveCommitAnalytics({
+      previousCommittedAtMs: continues && previous !== undefined ? previous.tsMs : event.tsMs,
+      previousState: event.fromDiscreteState,
+      event,
+      location,
+      activations,
+      maxHoldMs,
+    });
+
+    for (const { quarterKey, modelId, holding } of analytics.holdings) {
+      if (!retained(quarterKey)) {
+        continue;
+      }
+      for (const [clockId, allocations] of Object.entries(holding.clocks) as [
+        ClockId,
+        BucketAllocation[],
+      ][]) {
+        for (const { bucketId, ms } of allocations) {
+          const key = [modelId, clockId, bucketId, holding.state, quarterKey].join('|');
+          const existing = holdMs.get(key);
+          holdMs.set(key, {
+            modelId,
+            clockId,
+            bucketId,
+            state: holding.state,
+            quarterKey,
+            ms: (existing?.ms ?? 0) + ms,
+          });
+        }
+      }
+    }
+
+    const { transition } = analytics;
+    if (transition !== undefined && retained(transition.quarterKey)) {
+      for (const [clockId, bucketId] of Object.entries(transition.buckets) as [
+        ClockId,
+        BucketId,
+      ][]) {
+        const { fromState, toState, quarterKey, modelId } = transition;
+        const key = [modelId, clockId, bucketId, fromState, toState, quarterKey].join('|');
+        const existing = transCounts.get(key);
+        transCounts.set(key, {
+          modelId,
+          clockId,
+          bucketId,
+          fromState,
+          toState,
+          quarterKey,
+          count: (existing?.count ?? 0) + 1,
+        });
+      }
+    }
+    previous = {
+      tsMs: logged.tsMs,
+      toDiscreteState: logged.toDiscreteState,
+      derivedToState: event.toDiscreteState,
+    };
+  }
+
+  resumeAfterQuarantined(Infinity);
+
+  return {
+    delta: { holdMs: [...holdMs.values()], transCounts: [...transCounts.values()] },
+    anchor: previous,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for slider state re-derivation under a boundary policy.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rederiveEvents, rederiveValue, summarizeSliderPolicyImpact } from './slider.js';
+import {
+  createSliderValue01,
+  type CommittedChangeEvent,
+  type ControlDefinition,
+} from '../domain/index.js';
+
+const slider: ControlDefinition = { kind: 'slider' };
+
+function event(
+  fromDiscreteState: number,
+  toDiscreteState: number,
+  value01?: number,
+  initiator: 'user' | 'model' = 'user'
+): CommittedChangeEvent {
+  return {
+    controlId: 'dimmer' as any,
+    tsMs: 0,
+    fromDiscreteState,
+    toDiscreteState,
+    initiator,
+    activeModelId: 'model-a' as any,
+    ...(value01 === undefined ? {} : { value01: createSliderValue01(value01) }),
+  };
+}
+
+// Logged under roundDown: 0.5 → 2, 0.25 → 1, 0.9 → 4.
+const logged = [event(0, 2, 0.5), event(2, 1, 0.25, 'model'), event(1, 4, 0.9), event(4, 2, 0.5)];
+
+describe('rederiveEvents', () => {
+  it('re-derives to-states from slider values and chains from-states', () => {
+    const derived = rederiveEvents(logged, 'roundUp', slider);
+    expect(derived.map((e) => [e.fromDiscreteState, e.toDiscreteState])).toEqual([
+      [0, 3],
+      [3, 2],
+      [2, 4],
+      [4, 3],
+    ]);
+  });
+
+  it('leaves events unchanged under the policy they were logged with', () => {
+    expect(rederiveEvents(logged, 'roundDown', slider)).toEqual(logged);
+  });
+
+  it('keeps logged states for events without a slider value', () => {
+    const radio = [event(0, 1), event(1, 2)];
+    expect(rederiveEvents(radio, 'roundUp', slider)).toEqual(radio);
+  });
+
+  it('re-derives at custom slider thresholds', () => {
+    const derived = rederiveEvents(logged, 'roundDown', {
+      kind: 'slider',
+      scale: { kind: 'thresholds', thresholds: [0.5] },
+    });
+    expect(derived.map((e) => e.toDiscreteState)).toEqual([1, 1, 2, 1]);
+  });
+
+  it('re-derives slider dimensions of compound events and re-encodes the joint state', () => {
+    const lamp: ControlDefinition = {
+      kind: 'compound',
+      dimensions: [
+        { name: 'mode', control: { kind: 'radiobutton', numStates: 2, labels: ['Day', 'Night'] } },
+        { name: 'brightness', control: { kind: 'slider' } },
+      ],
+    };
+    // Logged under roundDown: (1, 0.5 → 2) is joint state 1 * 6 + 2 = 8.
+    const compound: CommittedChangeEvent = {
+      ...event(0, 8),
+      dimensions: [{ discreteState: 1 }, { discreteState: 2, value01: createSliderValue01(0.5) }],
+    };
+    const [derived] = rederiveEvents([compound], 'roundUp', lamp);
+    expect(derived.toDiscreteState).toBe(9);
+    expect(derived.dimensions?.[1].discreteState).toBe(3);
+    expect(summarizeSliderPolicyImpact([compound], 'roundUp', lamp).eventsWithValue).toBe(1);
+  });
+
+  it('keeps the logged from-state across a break in the log', () => {
+    const derived = rederiveEvents([event(0, 2, 0.5), event(3, 4, 0.9)], 'roundUp', slider);
+    expect(derived[1].fromDiscreteState).toBe(3);
+  });
+});
+
+describe('rederiveValue', () => {
+  it('re-derives a slider value at a threshold and keeps values without one', () => {
+    const value01 = createSliderValue01(0.5);
+    expect(rederiveValue({ discreteState: 2, value01 }, 'roundUp', slider)).toEqual({
+      discreteState: 3,
+      value01,
+    });
+    expect(rederiveValue({ discreteState: 2 }, 'roundUp', slider)).toEqual({ discreteState: 2 });
+  });
+});
+
+describe('summarizeSliderPolicyImpact', () => {
+  it('counts moved events and changes in transitions', () => {
+    // Under roundUp the user's 0.5 ↔ 0.6 adjustments both land in state 3.
+    const impact = summarizeSliderPolicyImpact(
+      [event(0, 2, 0.5), event(2, 3, 0.6), event(3, 2, 0.5)],
+      'roundUp',
+      slider
+    );
+    expect(impact).toEqual({
+      totalEvents: 3,
+      eventsWithValue: 3,
+      movedEvents: 2,
+      transitionsGained: 0,
+      transitionsLost: 2,
+      moves: [{ fromState: 2, toState: 3, count: 2 }],
+    });
+  });
+
+  it('counts transitions gained when a policy separates values', () => {
+    // Logged under roundUp: 0.5 and 0.6 both map to 3; roundDown splits them.
+    const impact = summarizeSliderPolicyImpact(
+      [event(0, 3, 0.5), event(3, 3, 0.6)],
+      'roundDown',
+      slider
+    );
+    expect(impact.transitionsGained).toBe(1);
+    expect(impact.moves).toEqual([{ fromState: 3, toState: 2, count: 1 }]);
+  });
+
+  it('reports no moves when the policy is unchanged', () => {
+    const impact = summarizeSliderPolicyImpact(logged, 'roundDown', slider);
+    expect(impact.movedEvents).toBe(0);
+    expect(impact.moves).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Re-derivation of slider discrete states under a boundary policy.
+ *
+ * Slider events carry the committed `value01` (compound events one per slider
+ * dimension), the raw truth; their discrete states depend on the boundary
+ * policy in force at commit time and on the slider's thresholds. Exact
+ * threshold hits (0.25, 0.5, 0.75 by default) move between states when the
+ * policy changes.
+ */
+
+import {
+  discretizeSlider,
+  encodeCompoundState,
+  getSliderThresholds,
+  type CommittedChangeEvent,
+  type CompoundDimensionValue,
+  type ControlDefinition,
+  type DiscreteState,
+  type SliderBoundaryPolicy,
+  type SliderValue01,
+} from '../domain/index.js';
+
+/**
+ * The previous event of a sequence, as logged and as re-derived.
+ */
+export interface RederivationAnchor {
+  /**
+   * To-state as logged.
+   */
+  readonly toDiscreteState: DiscreteState;
+  /**
+   * To-state under the re-derivation policy.
+   */
+  readonly derivedToState: DiscreteState;
+}
+
+/**
+ * A control value with the slider values its discrete state derives from,
+ * as logged with events and kept in the runtime state.
+ */
+export interface SliderDerivedValue {
+  readonly discreteState: DiscreteState;
+  /**
+   * Slider value. Present for sliders only.
+   */
+  readonly value01?: SliderValue01;
+  /**
+   * Value per dimension. Present for compound controls only.
+   */
+  readonly dimensions?: CompoundDimensionValue[];
+}
+
+/**
+ * Count of events whose to-state moved from one state to another.
+ */
+export interface StateMove {
+  readonly fromState: DiscreteState;
+  readonly toState: DiscreteState;
+  readonly count: number;
+}
+
+/**
+ * How re-deriving a control's events under a policy changes them.
+ */
+export interface SliderPolicyImpact {
+  readonly totalEvents: number;
+  /**
+   * Events carrying a slider value (only these can move).
+   */
+  readonly eventsWithValue: number;
+  /**
+   * Events whose to-state changes.
+   */
+  readonly movedEvents: number;
+  /**
+   * User-initiated events that become transitions, or stop being transitions.
+   */
+  readonly transitionsGained: number;
+  readonly transitionsLost: number;
+  /**
+   * Moved events grouped by logged and re-derived to-state.
+   */
+  readonly moves: readonly StateMove[];
+}
+
+/**
+ * Whether a control's discrete states depend on the slider boundary policy
+ * (sliders and compound controls with a slider dimension).
+ */
+export function usesSliderValues(definition: ControlDefinition): boolean {
+  return (
+    definition.kind === 'slider' ||
+    (definition.kind === 'compound' &&
+      definition.dimensions.some(({ control }) => control.kind === 'slider'))
+  );
+}
+
+/**
+ * Whether an event carries a slider value (only these can move).
+ */
+function hasSliderValue(event: CommittedChangeEvent): boolean {
+  return (
+    event.value01 !== undefined ||
+    (event.dimensions?.some((value) => value.value01 !== undefined) ?? false)
+  );
+}
+
+/**
+ * Re-derives one event's states under `policy`.
+ *
+ * The to-state is re-derived from `value01` at the slider's thresholds; for
+ * compound controls, each slider dimension is re-derived and the joint state
+ * re-encoded. Events without slider values keep their logged state. The
+ * from-state follows the re-derived to-state of the previous event when the
+ * logged event continues from it; across a break in the log the logged
+ * from-state is kept, so breaks stay visible to replay.
+ *
+ * @param definition - Definition of the event's control
+ */
+export function rederiveEvent(
+  event: CommittedChangeEvent,
+  previous: RederivationAnchor | undefined,
+  policy: SliderBoundaryPolicy,
+  definition: ControlDefinition
+): CommittedChangeEvent {
+  const fromDiscreteState =
+    previous !== undefined && event.fromDiscreteState === previous.toDiscreteState
+      ? previous.derivedToState
+      : event.fromDiscreteState;
+
+  const { discreteState: toDiscreteState, dimensions } = rederiveValue(
+    { discreteState: event.toDiscreteState, value01: event.value01, dimensions: event.dimensions },
+    policy,
+    definition
+  );
+  return dimensions === undefined
+    ? { ...event, fromDiscreteState, toDiscreteState }
+    : { ...event, fromDiscreteState, toDiscreteState, dimensions };
+}
+
+/**
+ * Re-derives the discrete state of a control value from its slider values
+ * under `policy`, as `rederiveEvent` does for an event's to-state, e.g. for
+ * the live runtime state when the policy changes. Values without slider
+ * values keep their state.
+ *
+ * @param definition - Definition of the value's control
+ */
+export function rederiveValue(
+  value: SliderDerivedValue,
+  policy: SliderBoundaryPolicy,
+  definition: ControlDefinition
+): SliderDerivedValue {
+  if (definition.kind === 'slider' && value.value01 !== undefined) {
+    return {
+      ...value,
+      discreteState: discretizeSlider(value.value01, policy, getSliderThresholds(definition)),
+    };
+  }
+  if (definition.kind === 'compound' && value.dimensions !== undefined) {
+    const dimensions = value.dimensions.map((dimension, k) => {
+      const { control } = definition.dimensions[k];
+      return control.kind === 'slider' && dimension.value01 !== undefined
+        ? {
+            ...dimension,
+            discreteState: discretizeSlider(
+              dimension.value01,
+              policy,
+              getSliderThresholds(control)
+            ),
+          }
+        : dimension;
+    });
+    const discreteState = encodeCompoundState(
+      definition,
+      dimensions.map((dimension) => dimension.discreteState)
+    );
+    return { ...value, discreteState, dimensions };
+  }
+  return value;
+}
+
+/**
+ * Re-derives a sequence of one control's events (in log order) under `policy`.
+ */
+export function rederiveEvents(
+  events: readonly CommittedChangeEvent[],
+  policy: SliderBoundaryPolicy,
+  definition: ControlDefinition
+): CommittedChangeEvent[] {
+  let previous: RederivationAnchor | undefined;
+  return events.map((event) => {
+    const derived = rederiveEvent(event, previous, policy, definition);
+    previous = {
+      toDiscreteState: event.toDiscreteState,
+      derivedToState: derived.toDiscreteState,
+    };
+    return derived;
+  });
+}
+
+/**
+ * Summarizes how re-deriving a control's events under `policy` changes them.
+ */
+export function summarizeSliderPolicyImpact(
+  events: readonly CommittedChangeEvent[],
+  policy: SliderBoundaryPolicy,
+  definition: ControlDefinition
+): SliderPolicyImpact {
+  const derived = rederiveEvents(events, policy, definition);
+  const isTransition = (e: CommittedChangeEvent) =>
+    e.initiator === 'user' && e.fromDiscreteState !== e.toDiscreteState;
+  const moves = new Map<string, StateMove>();
+  let movedEvents = 0;
+  let transitionsGained = 0;
+  let transitionsLost = 0;
+
+  events.forEach((event, k) => {
+    const next = derived[k];
+    if (next.toDiscreteState !== event.toDiscreteState) {
+      movedEvents++;
+      const key = `${event.toDiscreteState}|${next.toDiscreteState}`;
+      const move = moves.get(key);
+      moves.set(key, {
+        fromState: event.toDiscreteState,
+        toState: next.toDiscreteState,
+        count: (move?.count ?? 0) + 1,
+      });
+    }
+    if (isTransition(next) && !isTransition(event)) {
+      transitionsGained++;
+    } else if (!isTransition(next) && isTransition(event)) {
+      transitionsLost++;
+    }
+  });
+
+  return {
+    totalEvents: events.length,
+    eventsWithValue: events.filter(hasSliderValue).length,
+    movedEvents,
+    transitionsGained,
+    transitionsLost,
+    moves: [...moves.values()].sort((a, b) => a.fromState - b.fromState || a.toState - b.toState),
+  };
+}
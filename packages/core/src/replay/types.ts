@@ -0,0 +1,183 @@
+/**
+ * Event-log replay types.
+ * A replay recomputes a control's aggregates from its committed-change log,
+ * batch by batch, into a fresh aggregate generation.
+ */
+
+import type { ControlId, DiscreteState, RadiobuttonDefinition } from '../domain/index.js';
+import type { HoldMsEntry, TransCountEntry } from '../measurement/index.js';
+
+/**
+ * Holding time to add to one aggregate row of a control's generation.
+ */
+export type HoldMsDelta = Omit<HoldMsEntry, 'controlId' | 'generation'>;
+
+/**
+ * Transition count to add to one aggregate row of a control's generation.
+ */
+export type TransCountDelta = Omit<TransCountEntry, 'controlId' | 'generation'>;
+
+/**
+ * Aggregate additions, at most one entry per row key.
+ */
+export interface AggregateDelta {
+  readonly holdMs: readonly HoldMsDelta[];
+  readonly transCounts: readonly TransCountDelta[];
+}
+
+/**
+ * The last replayed event, carried between batches so the next batch can
+ * close its holding interval.
+ */
+export interface ReplayAnchor {
+  readonly tsMs: number;
+  /**
+   * To-state as logged.
+   */
+  readonly toDiscreteState: DiscreteState;
+  /**
+   * To-state re-derived under the replay's slider boundary policy.
+   */
+  readonly derivedToState: DiscreteState;
+}
+
+/**
+ * Lifecycle of a rebuild job.
+ * - `running`: batches are being replayed
+ * - `ready`: a dry run finished; the result can be diffed, applied or discarded
+ * - `swapped`: the rebuilt generation replaced the active one
+ * - `discarded`: the rebuilt generation was dropped
+ */
+export type RebuildStatus = 'running' | 'ready' | 'swapped' | 'discarded';
+
+/**
+ * New state of each old state of a control, indexed by old state; `null`
+ * drops the state. Several old states may map to the same new state (a
+ * merge), and new states need not have an old one.
+ */
+export type StateRemapping = readonly (DiscreteState | null)[];
+
+/**
+ * A change of a radiobutton's options, applied by a rebuild: its events are
+ * remapped in the log as they are replayed, and the control switches to
+ * `definition` when the rebuilt generation is swapped in.
+ */
+export interface StateRemap {
+  readonly mapping: StateRemapping;
+  readonly definition: RadiobuttonDefinition;
+}
+
+/**
+ * Progress and resume state of one control's rebuild.
+ */
+export interface RebuildJob {
+  readonly controlId: ControlId;
+  /**
+   * Aggregate generation being written.
+   */
+  readonly generation: number;
+  readonly status: RebuildStatus;
+  /**
+   * Stop at `ready` instead of swapping when the log is exhausted.
+   */
+  readonly dryRun: boolean;
+  /**
+   * Committed events replayed per batch.
+   */
+  readonly batchSize: number;
+  /**
+   * Position in the event log after the last replayed batch (null before the first).
+   */
+  readonly cursor: string | null;
+  readonly anchor: ReplayAnchor | null;
+  readonly processedEvents: number;
+  /**
+   * Follow-up mutations still writing replayed aggregates (batches too large
+   * for one transaction); the rebuild finishes once none are left. Absent
+   * when there are none.
+   */
+  readonly pendingWrites?: number;
+  /**
+   * State remapping the rebuild applies (absent for plain rebuilds).
+   */
+  readonly remap?: StateRemap;
+  /**
+   * Comparison with the active aggregates, computed once a dry run is ready
+   * (absent until then).
+   */
+  readonly diff?: RebuildDiffProgress;
+  readonly startedAtMs: number;
+  readonly finishedAtMs: number | null;
+}
+
+/**
+ * Row-level comparison of one aggregate table.
+ */
+export interface RowDiffSummary {
+  /**
+   * Rows only present after the rebuild.
+   */
+  readonly added: number;
+  /**
+   * Rows only present before the rebuild.
+   */
+  readonly removed: number;
+  readonly changed: number;
+  readonly unchanged: number;
+  /**
+   * Sum of the row values (ms or counts) before and after.
+   */
+  readonly totalBefore: number;
+  readonly totalAfter: number;
+}
+
+/**
+ * Dry-run comparison of current and rebuilt aggregates.
+ */
+export interface AggregateDiff {
+  readonly holdMs: RowDiffSummary;
+  readonly transCounts: RowDiffSummary;
+}
+
+/**
+ * Side of a row-level comparison a row belongs to.
+ */
+export type DiffSide = 'current' | 'rebuilt';
+
+/**
+ * A row of one side of a comparison, with the value of the row sharing its
+ * key on the other side (`undefined` if there is none).
+ */
+export interface PairedRow {
+  readonly value: number;
+  readonly counterpart: number | undefined;
+}
+
+/**
+ * Stage of an incremental rebuild diff: each table's current rows are paired
+ * with the rebuilt ones, then its rebuilt rows with the current ones.
+ */
+export type RebuildDiffPhase =
+  | 'currentHoldMs'
+  | 'rebuiltHoldMs'
+  | 'currentTransCounts'
+  | 'rebuiltTransCounts'
+  | 'done';
+
+/**
+ * Incremental comparison of a rebuild's generation with the active one, one
+ * page of rows per batch.
+ */
+export interface RebuildDiffProgress extends AggregateDiff {
+  /**
+   * Active generation compared against.
+   */
+  readonly activeGeneration: number;
+  readonly phase: RebuildDiffPhase;
+  /**
+   * Position in the current phase's rows (null at the start of a phase).
+   */
+  readonly cursor: string | null;
+  readonly startedAtMs: number;
+  readonly finishedAtMs: number | null;
+}
@@ -0,0 +1,103 @@
+/**
+ * Zod validation schemas for event-log replay.
+ */
+
+import { z } from 'zod';
+import type { RebuildDiffProgress, RebuildJob, StateRemap, StateRemapping } from './types.js';
+import {
+  controlIdSchema,
+  discreteStateSchema,
+  getStateCount,
+  radiobuttonDefinitionSchema,
+  type ControlDefinition,
+} from '../domain/index.js';
+
+/**
+ * Schema for RebuildStatus.
+ */
+export const rebuildStatusSchema = z.enum(['running', 'ready', 'swapped', 'discarded']);
+
+/**
+ * Schema for ReplayAnchor.
+ */
+export const replayAnchorSchema = z.object({
+  tsMs: z.number(),
+  toDiscreteState: z.number().int().min(0),
+  derivedToState: z.number().int().min(0),
+});
+
+/**
+ * Creates a schema for remappings from the states of `current` to those of
+ * `next`: one entry per state of `current`, each a state of `next` (see
+ * `discreteStateSchema`) or `null`.
+ */
+export function stateRemappingSchema(
+  current: ControlDefinition,
+  next: ControlDefinition
+): z.ZodType<StateRemapping> {
+  return z.array(discreteStateSchema(next).nullable()).length(getStateCount(current));
+}
+
+/**
+ * Schema for StateRemap as stored with a rebuild job (the mapping is
+ * validated against the definitions when the remap starts).
+ */
+export const stateRemapSchema = z.object({
+  mapping: z.array(z.number().int().min(0).nullable()),
+  definition: radiobuttonDefinitionSchema,
+}) as unknown as z.ZodType<StateRemap>;
+
+/**
+ * Schema for RowDiffSummary.
+ */
+export const rowDiffSummarySchema = z.object({
+  added: z.number().int().min(0),
+  removed: z.number().int().min(0),
+  changed: z.number().int().min(0),
+  unchanged: z.number().int().min(0),
+  totalBefore: z.number(),
+  totalAfter: z.number(),
+});
+
+/**
+ * Schema for RebuildDiffPhase.
+ */
+export const rebuildDiffPhaseSchema = z.enum([
+  'currentHoldMs',
+  'rebuiltHoldMs',
+  'currentTransCounts',
+  'rebuiltTransCounts',
+  'done',
+]);
+
+/**
+ * Schema for RebuildDiffProgress.
+ */
+export const rebuildDiffProgressSchema = z.object({
+  activeGeneration: z.number().int().min(0),
+  phase: rebuildDiffPhaseSchema,
+  cursor: z.string().nullable(),
+  holdMs: rowDiffSummarySchema,
+  transCounts: rowDiffSummarySchema,
+  startedAtMs: z.number(),
+  finishedAtMs: z.number().nullable(),
+}) as unknown as z.ZodType<RebuildDiffProgress>;
+
+/**
+ * Schema for RebuildJob.
+ */
+export const rebuildJobSchema = z.object({
+  controlId: controlIdSchema,
+  generation: z.number().int().min(0),
+  status: rebuildStatusSchema,
+  dryRun: z.boolean(),
+  batchSize: z.number().int().positive(),
+  cursor: z.string().nullable(),
+  anchor: replayAnchorSchema.nullable(),
+  processedEvents: z.number().int().min(0),
+  pendingWrites: z.number().int().min(0).optional(),
+  remap: stateRemapSchema.optional(),
+  diff: rebuildDiffProgressSchema.optional(),
+  startedAtMs: z.number(),
+  finishedAtMs: z.number().nullable(),
+}) as unknown as z.ZodType<RebuildJob>;
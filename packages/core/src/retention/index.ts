@@ -0,0 +1,29 @@
+/**
+ * Retention module public exports.
+ * Calendar-quarter partitioning of aggregates and rolling retention windows.
+ */
+
+// Types
+export type {
+  QuarterOfYear,
+  QuarterKey,
+  QuarterParts,
+  QuarterSpan,
+  QuarterSelection,
+} from './types.js';
+
+// Quarter keys and retention windows
+export {
+  createQuarterKey,
+  parseQuarterKey,
+  offsetQuarterKey,
+  quarterKeyAt,
+  quarterStartMs,
+  splitIntervalByQuarter,
+  matchesQuarterSelection,
+  oldestRetainedQuarter,
+  isQuarterRetained,
+} from './quarters.js';
+
+// Validation schemas
+export { quarterKeySchema, quarterOfYearSchema, quarterSelectionSchema } from './validation.js';
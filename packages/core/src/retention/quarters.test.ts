@@ -0,0 +1,147 @@
+/**
+ * Tests for quarter keys, quarter splitting and retention windows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createQuarterKey,
+  isQuarterRetained,
+  matchesQuarterSelection,
+  offsetQuarterKey,
+  oldestRetainedQuarter,
+  parseQuarterKey,
+  quarterKeyAt,
+  quarterStartMs,
+  splitIntervalByQuarter,
+} from './quarters.js';
+import { quarterSelectionSchema } from './validation.js';
+import type { QuarterKey } from './types.js';
+
+const key = (value: string) => value as QuarterKey;
+
+describe('createQuarterKey / parseQuarterKey', () => {
+  it('round-trips year and quarter', () => {
+    expect(createQuarterKey(2024, 3)).toBe('2024-Q3');
+    expect(parseQuarterKey('2024-Q3')).toEqual({ year: 2024, quarter: 3 });
+  });
+
+  it('rejects invalid quarters and keys', () => {
+    expect(() => createQuarterKey(2024, 5)).toThrow();
+    expect(() => createQuarterKey(24, 1)).toThrow();
+    expect(() => parseQuarterKey('2024Q1')).toThrow(/Invalid quarter key/);
+  });
+});
+
+describe('offsetQuarterKey', () => {
+  it('moves across year boundaries in both directions', () => {
+    expect(offsetQuarterKey(key('2024-Q4'), 1)).toBe('2025-Q1');
+    expect(offsetQuarterKey(key('2024-Q1'), -1)).toBe('2023-Q4');
+    expect(offsetQuarterKey(key('2024-Q2'), -4)).toBe('2023-Q2');
+  });
+
+  it('keeps keys in chronological string order', () => {
+    const keys = [-5, -1, 0, 3, 8].map((n) => offsetQuarterKey(key('2024-Q2'), n));
+    expect([...keys].sort()).toEqual(keys);
+  });
+});
+
+describe('quarterKeyAt', () => {
+  it('uses the local calendar of the time zone', () => {
+    // 2024-03-31 23:30 UTC is already April 1 in Stockholm (UTC+2).
+    const tsMs = Date.UTC(2024, 2, 31, 23, 30);
+    expect(quarterKeyAt(tsMs, 'UTC')).toBe('2024-Q1');
+    expect(quarterKeyAt(tsMs, 'Europe/Stockholm')).toBe('2024-Q2');
+    // 2025-01-01 03:00 UTC is still December 31 in New York.
+    expect(quarterKeyAt(Date.UTC(2025, 0, 1, 3), 'America/New_York')).toBe('2024-Q4');
+  });
+});
+
+describe('quarterStartMs', () => {
+  it('returns local midnight on the first day of the quarter', () => {
+    expect(quarterStartMs(key('2024-Q3'), 'UTC')).toBe(Date.UTC(2024, 6, 1));
+    expect(quarterStartMs(key('2024-Q3'), 'Europe/Stockholm')).toBe(Date.UTC(2024, 5, 30, 22));
+    expect(quarterStartMs(key('2025-Q1'), 'America/New_York')).toBe(Date.UTC(2025, 0, 1, 5));
+  });
+});
+
+describe('splitIntervalByQuarter', () => {
+  it('returns a single span within one quarter', () => {
+    const t0Ms = Date.UTC(2024, 1, 1);
+    const t1Ms = Date.UTC(2024, 1, 2);
+    expect(splitIntervalByQuarter(t0Ms, t1Ms, 'UTC')).toEqual([
+      { quarterKey: '2024-Q1', t0Ms, t1Ms },
+    ]);
+  });
+
+  it('splits at every quarter boundary crossed', () => {
+    const spans = splitIntervalByQuarter(Date.UTC(2024, 2, 15), Date.UTC(2024, 9, 2), 'UTC');
+    expect(spans.map((s) => s.quarterKey)).toEqual(['2024-Q1', '2024-Q2', '2024-Q3', '2024-Q4']);
+    expect(spans[1]).toEqual({
+      quarterKey: '2024-Q2',
+      t0Ms: Date.UTC(2024, 3, 1),
+      t1Ms: Date.UTC(2024, 6, 1),
+    });
+    for (let i = 1; i < spans.length; i++) {
+      expect(spans[i].t0Ms).toBe(spans[i - 1].t1Ms);
+    }
+  });
+
+  it('returns no spans for an empty interval and rejects reversed ones', () => {
+    expect(splitIntervalByQuarter(1000, 1000, 'UTC')).toEqual([]);
+    expect(() => splitIntervalByQuarter(1000, 999, 'UTC')).toThrow();
+  });
+});
+
+describe('matchesQuarterSelection', () => {
+  it('matches everything for an empty selection', () => {
+    expect(matchesQuarterSelection(key('2024-Q2'), {})).toBe(true);
+  });
+
+  it('filters by season across years', () => {
+    const winter = { quartersOfYear: [1] as const };
+    expect(matchesQuarterSelection(key('2023-Q1'), winter)).toBe(true);
+    expect(matchesQuarterSelection(key('2024-Q1'), winter)).toBe(true);
+    expect(matchesQuarterSelection(key('2024-Q3'), winter)).toBe(false);
+  });
+
+  it('requires every given criterion to match', () => {
+    const selection = {
+      quarterKeys: [key('2024-Q1'), key('2024-Q3')],
+      quartersOfYear: [3] as const,
+    };
+    expect(matchesQuarterSelection(key('2024-Q3'), selection)).toBe(true);
+    expect(matchesQuarterSelection(key('2024-Q1'), selection)).toBe(false);
+  });
+
+  it('parses selections with the schema', () => {
+    expect(quarterSelectionSchema.parse({ quartersOfYear: [1, 4] })).toEqual({
+      quartersOfYear: [1, 4],
+    });
+    expect(() => quarterSelectionSchema.parse({ quartersOfYear: [0] })).toThrow();
+    expect(() => quarterSelectionSchema.parse({ quarterKeys: ['2024-Q9'] })).toThrow();
+  });
+});
+
+describe('oldestRetainedQuarter / isQuarterRetained', () => {
+  const rollingYear = { retainedQuarters: 4, rolloverDelayDays: 0 };
+
+  it('retires the same quarter of the previous year on rollover', () => {
+    const lastDayOfQ4 = Date.UTC(2024, 11, 31, 12);
+    const firstDayOfQ1 = Date.UTC(2025, 0, 1, 12);
+    expect(oldestRetainedQuarter(lastDayOfQ4, 'UTC', rollingYear)).toBe('2024-Q1');
+    expect(oldestRetainedQuarter(firstDayOfQ1, 'UTC', rollingYear)).toBe('2024-Q2');
+    expect(isQuarterRetained(key('2024-Q1'), lastDayOfQ4, 'UTC', rollingYear)).toBe(true);
+    expect(isQuarterRetained(key('2024-Q1'), firstDayOfQ1, 'UTC', rollingYear)).toBe(false);
+  });
+
+  it('delays the rollover by the configured number of days', () => {
+    const settings = { retainedQuarters: 4, rolloverDelayDays: 7 };
+    expect(oldestRetainedQuarter(Date.UTC(2025, 0, 5), 'UTC', settings)).toBe('2024-Q1');
+    expect(oldestRetainedQuarter(Date.UTC(2025, 0, 9), 'UTC', settings)).toBe('2024-Q2');
+  });
+
+  it('keeps only the current quarter with a retention of one', () => {
+    const settings = { retainedQuarters: 1, rolloverDelayDays: 0 };
+    expect(oldestRetainedQuarter(Date.UTC(2024, 7, 1), 'UTC', settings)).toBe('2024-Q3');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Quarter partition keys and retention windows.
+ * Quarters follow the local calendar of the configured time zone, so a
+ * quarter starts at local midnight on January 1, April 1, July 1 and October 1.
+ */
+
+import { DAY_MS } from '../time/index.js';
+import { getTimezoneOffsetMs } from '../clocks/index.js';
+import type { RetentionSettings } from '../config/index.js';
+import type {
+  QuarterKey,
+  QuarterOfYear,
+  QuarterParts,
+  QuarterSelection,
+  QuarterSpan,
+} from './types.js';
+
+/**
+ * Builds the key of a quarter.
+ *
+ * @throws Error if the year is not a four-digit integer or the quarter is not 1–4
+ */
+export function createQuarterKey(year: number, quarter: number): QuarterKey {
+  if (!Number.isInteger(year) || year < 1000 || year > 9999) {
+    throw new Error(`Quarter year must be a four-digit integer, got ${year}`);
+  }
+  if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+    throw new Error(`Quarter must be an integer in [1, 4], got ${quarter}`);
+  }
+  return `${year}-Q${quarter}` as QuarterKey;
+}
+
+/**
+ * Splits a quarter key into year and quarter.
+ *
+ * @throws Error if the key is not formatted `YYYY-Qn`
+ */
+export function parseQuarterKey(key: string): QuarterParts {
+  const match = /^(\d{4})-Q([1-4])$/.exec(key);
+  if (match === null) {
+    throw new Error(`Invalid quarter key: ${key}`);
+  }
+  return { year: Number(match[1]), quarter: Number(match[2]) as QuarterOfYear };
+}
+
+/**
+ * Returns the key of the quarter `count` quarters after `key` (before, if negative).
+ */
+export function offsetQuarterKey(key: QuarterKey, count: number): QuarterKey {
+  const { year, quarter } = parseQuarterKey(key);
+  const index = year * 4 + (quarter - 1) + count;
+  return createQuarterKey(Math.floor(index / 4), (index % 4) + 1);
+}
+
+/**
+ * Returns the quarter containing `tsMs` on the local calendar of `timezone`.
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param timezone - IANA time zone name
+ */
+export function quarterKeyAt(tsMs: number, timezone: string): QuarterKey {
+  if (!Number.isFinite(tsMs)) {
+    throw new Error(`Invalid timestamp: ${tsMs}`);
+  }
+  const local = new Date(tsMs + getTimezoneOffsetMs(tsMs, timezone));
+  return createQuarterKey(local.getUTCFullYear(), Math.floor(local.getUTCMonth() / 3) + 1);
+}
+
+/**
+ * Returns the first instant of a quarter: local midnight on its first day.
+ * If that midnight is skipped by a DST transition, the first instant after
+ * the transition is returned.
+ *
+ * @param key - Quarter key
+ * @param timezone - IANA time zone name
+ */
+export function quarterStartMs(key: QuarterKey, timezone: string): number {
+  const { year, quarter } = parseQuarterKey(key);
+  const wallMs = Date.UTC(year, (quarter - 1) * 3, 1);
+  // The offset at the guess is almost always the offset at the answer; a
+  // second pass corrects for a transition between the two.
+  const guessMs = wallMs - getTimezoneOffsetMs(wallMs, timezone);
+  const startMs = wallMs - getTimezoneOffsetMs(guessMs, timezone);
+  return quarterKeyAt(startMs, timezone) === key ? startMs : guessMs;
+}
+
+/**
+ * Splits `[t0Ms, t1Ms)` at quarter boundaries. An empty interval yields no spans.
+ *
+ * @param t0Ms - Interval start (inclusive)
+ * @param t1Ms - Interval end (exclusive)
+ * @param timezone - IANA time zone name
+ * @throws Error if the bounds are not finite or `t1Ms < t0Ms`
+ */
+export function splitIntervalByQuarter(
+  t0Ms: number,
+  t1Ms: number,
+  timezone: string
+): QuarterSpan[] {
+  if (!Number.isFinite(t0Ms) || !Number.isFinite(t1Ms) || t1Ms < t0Ms) {
+    throw new Error(`Invalid interval [${t0Ms}, ${t1Ms})`);
+  }
+  const spans: QuarterSpan[] = [];
+  let start = t0Ms;
+  while (start < t1Ms) {
+    const quarterKey = quarterKeyAt(start, timezone);
+    const end = Math.min(quarterStartMs(offsetQuarterKey(quarterKey, 1), timezone), t1Ms);
+    spans.push({ quarterKey, t0Ms: start, t1Ms: end });
+    start = end;
+  }
+  return spans;
+}
+
+/**
+ * Returns whether a quarter matches a selection (see QuarterSelection).
+ */
+export function matchesQuarterSelection(key: QuarterKey, selection: QuarterSelection): boolean {
+  if (selection.quarterKeys !== undefined && !selection.quarterKeys.includes(key)) {
+    return false;
+  }
+  if (
+    selection.quartersOfYear !== undefined &&
+    !selection.quartersOfYear.includes(parseQuarterKey(key).quarter)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the oldest quarter still retained at `tsMs`; data of earlier
+ * quarters is due for retirement.
+ *
+ * The current quarter counts towards `retainedQuarters`, so with 4 the
+ * rollover into a new quarter retires the same quarter of the previous year.
+ * The rollover takes effect `rolloverDelayDays` after the new quarter starts.
+ *
+ * @param tsMs - Unix timestamp in milliseconds
+ * @param timezone - IANA time zone name
+ * @param settings - Retention settings
+ */
+export function oldestRetainedQuarter(
+  tsMs: number,
+  timezone: string,
+  settings: RetentionSettings
+): QuarterKey {
+  const effectiveMs = tsMs - settings.rolloverDelayDays * DAY_MS;
+  return offsetQuarterKey(quarterKeyAt(effectiveMs, timezone), 1 - settings.retainedQuarters);
+}
+
+/**
+ * Returns whether data of quarter `key` is retained at `tsMs`.
+ */
+export function isQuarterRetained(
+  key: QuarterKey,
+  tsMs: number,
+  timezone: string,
+  settings: RetentionSettings
+): boolean {
+  return key >= oldestRetainedQuarter(tsMs, timezone, settings);
+}
@@ -0,0 +1,51 @@
+/**
+ * Seasonal retention types.
+ * Aggregates are partitioned by calendar quarter (Q1 = January–March, …,
+ * Q4 = October–December, in the configured local time zone) so that old
+ * seasons can be retired and queries can read any subset of quarters.
+ */
+
+/**
+ * Quarter of the year (1–4).
+ */
+export type QuarterOfYear = 1 | 2 | 3 | 4;
+
+/**
+ * Branded type for quarter partition keys, formatted `YYYY-Qn` (e.g. `2024-Q1`).
+ * Keys sort chronologically as plain strings.
+ */
+export type QuarterKey = string & { readonly __brand: 'QuarterKey' };
+
+/**
+ * Parsed form of a QuarterKey.
+ */
+export interface QuarterParts {
+  readonly year: number;
+  readonly quarter: QuarterOfYear;
+}
+
+/**
+ * Part of a real-time interval that falls within one quarter.
+ */
+export interface QuarterSpan {
+  readonly quarterKey: QuarterKey;
+  /**
+   * Inclusive start timestamp of the part.
+   */
+  readonly t0Ms: number;
+  /**
+   * Exclusive end timestamp of the part.
+   */
+  readonly t1Ms: number;
+}
+
+/**
+ * Subset of quarters to read. Every criterion that is present must match;
+ * an empty selection matches every quarter.
+ * - `quarterKeys`: specific quarters (e.g. compare `2024-Q1` with `2024-Q3`)
+ * - `quartersOfYear`: seasons across all retained years (e.g. `[1]` for winter)
+ */
+export interface QuarterSelection {
+  readonly quarterKeys?: readonly QuarterKey[];
+  readonly quartersOfYear?: readonly QuarterOfYear[];
+}
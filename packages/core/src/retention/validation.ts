@@ -0,0 +1,31 @@
+/**
+ * Zod validation schemas for seasonal retention types.
+ */
+
+import { z } from 'zod';
+import type { QuarterKey, QuarterOfYear, QuarterSelection } from './types.js';
+
+/**
+ * Schema for QuarterKey (`YYYY-Qn`).
+ */
+export const quarterKeySchema = z
+  .string()
+  .regex(/^\d{4}-Q[1-4]$/, 'Expected YYYY-Qn') as unknown as z.ZodType<QuarterKey>;
+
+/**
+ * Schema for QuarterOfYear (integer in [1, 4]).
+ */
+export const quarterOfYearSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(4)
+  .transform((val) => val as QuarterOfYear);
+
+/**
+ * Schema for QuarterSelection.
+ */
+export const quarterSelectionSchema = z.object({
+  quarterKeys: z.array(quarterKeySchema).optional(),
+  quartersOfYear: z.array(quarterOfYearSchema).optional(),
+}) as unknown as z.ZodType<QuarterSelection>;
@@ -0,0 +1,173 @@
+/**
+ * Tests for time-of-week bucket indexing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUCKETS_PER_DAY,
+  BUCKETS_PER_WEEK,
+  BUCKET_MS,
+  WEEK_MS,
+  createBucketId,
+  isBucketId,
+  toBucketId,
+  bucketToTimeOfWeek,
+  formatBucketLabel,
+  bucketAtWeekPosition,
+  cyclicWeekDistanceMs,
+  bucketCenterWeekMs,
+  cyclicBucketDistance,
+  cyclicBucketOffset,
+  offsetBucket,
+  bucketNeighborhood,
+  timeOfDayIndex,
+  foldTimeOfDay,
+} from './buckets.js';
+
+describe('bucket constants', () => {
+  it('has 288 buckets per day and 2016 per week', () => {
+    expect(BUCKETS_PER_DAY).toBe(288);
+    expect(BUCKETS_PER_WEEK).toBe(2016);
+  });
+});
+
+describe('createBucketId', () => {
+  it('accepts integers in [0, 2015]', () => {
+    expect(createBucketId(0)).toBe(0);
+    expect(createBucketId(2015)).toBe(2015);
+  });
+
+  it('rejects out-of-range and non-integer values', () => {
+    expect(() => createBucketId(-1)).toThrow();
+    expect(() => createBucketId(2016)).toThrow();
+    expect(() => createBucketId(1.5)).toThrow();
+    expect(isBucketId(2016)).toBe(false);
+  });
+});
+
+describe('toBucketId', () => {
+  it('maps Monday 00:00 to bucket 0', () => {
+    expect(toBucketId(0, 0, 0)).toBe(0);
+  });
+
+  it('maps Sunday 23:55 to bucket 2015', () => {
+    expect(toBucketId(6, 23, 55)).toBe(2015);
+  });
+
+  it('maps times inside a bucket to the containing bucket', () => {
+    expect(toBucketId(0, 18, 0)).toBe(216);
+    expect(toBucketId(0, 18, 4)).toBe(216);
+    expect(toBucketId(0, 18, 5)).toBe(217);
+    expect(toBucketId(1, 0, 0)).toBe(288);
+  });
+
+  it('rejects invalid components', () => {
+    expect(() => toBucketId(7 as any, 0, 0)).toThrow();
+    expect(() => toBucketId(0, 24, 0)).toThrow();
+    expect(() => toBucketId(0, 0, 60)).toThrow();
+  });
+});
+
+describe('bucketToTimeOfWeek', () => {
+  it('round-trips every bucket through toBucketId', () => {
+    for (let id = 0; id < BUCKETS_PER_WEEK; id++) {
+      const { weekday, startMinute } = bucketToTimeOfWeek(createBucketId(id));
+      expect(toBucketId(weekday, Math.floor(startMinute / 60), startMinute % 60)).toBe(id);
+    }
+  });
+
+  it('returns minute ranges within the day', () => {
+    expect(bucketToTimeOfWeek(createBucketId(2015))).toEqual({
+      weekday: 6,
+      startMinute: 1435,
+      endMinute: 1440,
+    });
+  });
+});
+
+describe('formatBucketLabel', () => {
+  it('formats labels like the MANUAL', () => {
+    expect(formatBucketLabel(createBucketId(0))).toBe('Monday 00:00–00:05');
+    expect(formatBucketLabel(toBucketId(0, 18, 0))).toBe('Monday 18:00–18:05');
+    expect(formatBucketLabel(createBucketId(2015))).toBe('Sunday 23:55–24:00');
+  });
+});
+
+describe('bucketAtWeekPosition', () => {
+  it('maps continuous positions to buckets', () => {
+    expect(bucketAtWeekPosition(0)).toBe(0);
+    expect(bucketAtWeekPosition(BUCKET_MS - 1)).toBe(0);
+    expect(bucketAtWeekPosition(BUCKET_MS)).toBe(1);
+  });
+
+  it('wraps positions outside the week', () => {
+    expect(bucketAtWeekPosition(-1)).toBe(2015);
+    expect(bucketAtWeekPosition(WEEK_MS)).toBe(0);
+  });
+});
+
+describe('cyclic arithmetic', () => {
+  const sundayEnd = createBucketId(2015);
+  const mondayStart = createBucketId(0);
+
+  it('treats Sunday end as adjacent to Monday start', () => {
+    expect(cyclicBucketDistance(sundayEnd, mondayStart)).toBe(1);
+    expect(cyclicBucketDistance(mondayStart, sundayEnd)).toBe(1);
+  });
+
+  it('measures distance along the shorter direction', () => {
+    expect(cyclicBucketDistance(createBucketId(10), createBucketId(20))).toBe(10);
+    expect(cyclicBucketDistance(createBucketId(0), createBucketId(1008))).toBe(1008);
+    expect(cyclicBucketDistance(createBucketId(5), createBucketId(5))).toBe(0);
+  });
+
+  it('computes signed offsets across the week boundary', () => {
+    expect(cyclicBucketOffset(sundayEnd, mondayStart)).toBe(1);
+    expect(cyclicBucketOffset(mondayStart, sundayEnd)).toBe(-1);
+  });
+
+  it('offsets buckets with wrap in both directions', () => {
+    expect(offsetBucket(sundayEnd, 1)).toBe(0);
+    expect(offsetBucket(mondayStart, -1)).toBe(2015);
+    expect(offsetBucket(mondayStart, BUCKETS_PER_WEEK * 3 + 2)).toBe(2);
+    expect(() => offsetBucket(mondayStart, 0.5)).toThrow();
+  });
+
+  it('returns wrapped neighborhoods in time order', () => {
+    expect(bucketNeighborhood(mondayStart, 2)).toEqual([2014, 2015, 0, 1, 2]);
+    expect(bucketNeighborhood(createBucketId(100), 0)).toEqual([100]);
+  });
+
+  it('measures continuous positions across the week boundary', () => {
+    expect(cyclicWeekDistanceMs(WEEK_MS - 1000, 500)).toBe(1500);
+    expect(cyclicWeekDistanceMs(0, WEEK_MS / 2)).toBe(WEEK_MS / 2);
+    expect(cyclicWeekDistanceMs(bucketCenterWeekMs(sundayEnd), 0)).toBe(BUCKET_MS / 2);
+  });
+
+  it('caps neighborhoods at the whole week without duplicates', () => {
+    const all = bucketNeighborhood(mondayStart, 5000);
+    expect(all).toHaveLength(BUCKETS_PER_WEEK);
+    expect(new Set(all).size).toBe(BUCKETS_PER_WEEK);
+  });
+});
+
+describe('time-of-day fold', () => {
+  it('maps buckets to their position within the day', () => {
+    expect(timeOfDayIndex(createBucketId(0))).toBe(0);
+    expect(timeOfDayIndex(toBucketId(3, 18, 0))).toBe(216);
+  });
+
+  it('sums the 7 weekday buckets for each time of day', () => {
+    const week = Array.from({ length: BUCKETS_PER_WEEK }, (_, i) =>
+      Math.floor(i / BUCKETS_PER_DAY) + 1
+    );
+    const day = foldTimeOfDay(week);
+    expect(day).toHaveLength(BUCKETS_PER_DAY);
+    // 1 + 2 + ... + 7
+    expect(day.every((v) => v === 28)).toBe(true);
+  });
+
+  it('rejects series of the wrong length', () => {
+    expect(() => foldTimeOfDay([1, 2, 3])).toThrow();
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Time-of-week bucket indexing.
+ * Clock-agnostic 5-minute bucket grid shared by all five clocks (2016 buckets/week).
+ */
+
+/**
+ * Length of a single bucket in minutes.
+ */
+export const BUCKET_MINUTES = 5;
+
+/**
+ * Length of a single bucket in milliseconds (of clock time).
+ */
+export const BUCKET_MS = BUCKET_MINUTES * 60 * 1000;
+
+/**
+ * Number of buckets per hour (60 / 5).
+ */
+export const BUCKETS_PER_HOUR = 60 / BUCKET_MINUTES;
+
+/**
+ * Number of buckets per day (24 hours × 12 buckets/hour).
+ */
+export const BUCKETS_PER_DAY = 24 * BUCKETS_PER_HOUR;
+
+/**
+ * Number of days per week.
+ */
+export const DAYS_PER_WEEK = 7;
+
+/**
+ * Number of buckets per week (7 days × 288 buckets/day).
+ */
+export const BUCKETS_PER_WEEK = DAYS_PER_WEEK * BUCKETS_PER_DAY;
+
+/**
+ * Length of a day in milliseconds (of clock time).
+ */
+export const DAY_MS = BUCKETS_PER_DAY * BUCKET_MS;
+
+/**
+ * Length of a week in milliseconds (of clock time).
+ */
+export const WEEK_MS = DAYS_PER_WEEK * DAY_MS;
+
+/**
+ * Branded type for time-of-week bucket identifiers.
+ * Integer in [0, 2015]; bucket 0 is Monday 00:00–00:05, bucket 2015 is Sunday 23:55–24:00.
+ */
+export type BucketId = number & { readonly __brand: 'BucketId' };
+
+/**
+ * Day of week, Monday-based (0 = Monday, 6 = Sunday).
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * English weekday names indexed by Weekday.
+ */
+export const WEEKDAY_NAMES = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+] as const;
+
+/**
+ * Position of a bucket within the week.
+ * Minutes are minutes into the day; `endMinute` is exclusive (and may be 1440).
+ */
+export interface BucketTimeOfWeek {
+  readonly weekday: Weekday;
+  readonly startMinute: number;
+  readonly endMinute: number;
+}
+
+/**
+ * Type guard to check if a value is a valid BucketId.
+ */
+export function isBucketId(value: number): value is BucketId {
+  return Number.isInteger(value) && value >= 0 && value < BUCKETS_PER_WEEK;
+}
+
+/**
+ * Creates a BucketId from a number, throwing if not an integer in [0, 2015].
+ */
+export function createBucketId(value: number): BucketId {
+  if (!isBucketId(value)) {
+    throw new Error(
+      `BucketId must be an integer in [0, ${BUCKETS_PER_WEEK - 1}], got ${value}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Converts (weekday, hour, minute) to the bucket containing that time.
+ * Minutes that are not on a bucket boundary fall into the containing bucket
+ * (e.g. Monday 18:03 → Monday 18:00–18:05).
+ *
+ * @param weekday - Day of week (0 = Monday, 6 = Sunday)
+ * @param hour - Hour of day in [0, 23]
+ * @param minute - Minute of hour in [0, 59]
+ * @returns Bucket id in [0, 2015]
+ */
+export function toBucketId(weekday: Weekday, hour: number, minute: number): BucketId {
+  if (!Number.isInteger(weekday) || weekday < 0 || weekday >= DAYS_PER_WEEK) {
+    throw new Error(`Invalid weekday: ${weekday}`);
+  }
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error(`Invalid hour: ${hour}`);
+  }
+  if (!Number.isInteger(minute) || minute < 0 || minute > 59) {
+    throw new Error(`Invalid minute: ${minute}`);
+  }
+  const minuteOfDay = hour * 60 + minute;
+  return createBucketId(
+    weekday * BUCKETS_PER_DAY + Math.floor(minuteOfDay / BUCKET_MINUTES)
+  );
+}
+
+/**
+ * Converts a bucket id back to its weekday and minute range within the day.
+ */
+export function bucketToTimeOfWeek(bucketId: BucketId): BucketTimeOfWeek {
+  const id = createBucketId(bucketId);
+  const weekday = Math.floor(id / BUCKETS_PER_DAY) as Weekday;
+  const startMinute = (id % BUCKETS_PER_DAY) * BUCKET_MINUTES;
+  return {
+    weekday,
+    startMinute,
+    endMinute: startMinute + BUCKET_MINUTES,
+  };
+}
+
+/**
+ * Formats a bucket as a human-readable label, e.g. "Monday 18:00–18:05".
+ * The last bucket of each day ends at "24:00".
+ */
+export function formatBucketLabel(bucketId: BucketId): string {
+  const { weekday, startMinute, endMinute } = bucketToTimeOfWeek(bucketId);
+  return `${WEEKDAY_NAMES[weekday]} ${formatMinuteOfDay(startMinute)}–${formatMinuteOfDay(endMinute)}`;
+}
+
+/**
+ * Returns the bucket containing a continuous time-of-week position.
+ * Positions outside [0, WEEK_MS) wrap cyclically.
+ *
+ * @param weekMs - Milliseconds since Monday 00:00 of the clock's week
+ */
+export function bucketAtWeekPosition(weekMs: number): BucketId {
+  return createBucketId(Math.floor(wrapWeekMs(weekMs) / BUCKET_MS) % BUCKETS_PER_WEEK);
+}
+
+/**
+ * Wraps a time-of-week position into [0, WEEK_MS).
+ */
+export function wrapWeekMs(weekMs: number): number {
+  const wrapped = weekMs % WEEK_MS;
+  return wrapped < 0 ? wrapped + WEEK_MS : wrapped;
+}
+
+/**
+ * Cyclic distance in milliseconds between two time-of-week positions, along
+ * the shorter direction around the week.
+ *
+ * @returns Distance in [0, WEEK_MS / 2]
+ */
+export function cyclicWeekDistanceMs(a: number, b: number): number {
+  const diff = wrapWeekMs(a - b);
+  return Math.min(diff, WEEK_MS - diff);
+}
+
+/**
+ * Time-of-week position of a bucket's midpoint.
+ */
+export function bucketCenterWeekMs(bucketId: BucketId): number {
+  return createBucketId(bucketId) * BUCKET_MS + BUCKET_MS / 2;
+}
+
+/**
+ * Cyclic distance between two buckets (number of bucket steps along the
+ * shorter direction). Sunday 23:55 and Monday 00:00 are at distance 1.
+ *
+ * @returns Distance in [0, 1008]
+ */
+export function cyclicBucketDistance(a: BucketId, b: BucketId): number {
+  const diff = Math.abs(createBucketId(a) - createBucketId(b));
+  return Math.min(diff, BUCKETS_PER_WEEK - diff);
+}
+
+/**
+ * Signed cyclic offset from `from` to `to` along the shorter direction.
+ * Positive means `to` is later in the week (wrapping Sunday → Monday).
+ *
+ * @returns Offset in (-1008, 1008]
+ */
+export function cyclicBucketOffset(from: BucketId, to: BucketId): number {
+  const forward = mod(createBucketId(to) - createBucketId(from), BUCKETS_PER_WEEK);
+  return forward > BUCKETS_PER_WEEK / 2 ? forward - BUCKETS_PER_WEEK : forward;
+}
+
+/**
+ * Moves a bucket by an integer number of steps, wrapping around the week.
+ *
+ * @param bucketId - Starting bucket
+ * @param steps - Integer number of buckets to move (may be negative)
+ */
+export function offsetBucket(bucketId: BucketId, steps: number): BucketId {
+  if (!Number.isInteger(steps)) {
+    throw new Error(`Bucket offset must be an integer, got ${steps}`);
+  }
+  return createBucketId(mod(createBucketId(bucketId) + steps, BUCKETS_PER_WEEK));
+}
+
+/**
+ * Returns the buckets within `radius` steps of `center`, in time order,
+ * wrapping across the week boundary. Each bucket appears at most once, so a
+ * radius of 1008 or more returns the whole week.
+ *
+ * @param center - Center bucket
+ * @param radius - Non-negative integer radius in buckets
+ */
+export function bucketNeighborhood(center: BucketId, radius: number): BucketId[] {
+  if (!Number.isInteger(radius) || radius < 0) {
+    throw new Error(`Neighborhood radius must be a non-negative integer, got ${radius}`);
+  }
+  const span = Math.min(2 * radius + 1, BUCKETS_PER_WEEK);
+  const start = offsetBucket(center, -Math.min(radius, Math.floor((BUCKETS_PER_WEEK - 1) / 2)));
+  const result: BucketId[] = [];
+  for (let i = 0; i < span; i++) {
+    result.push(offsetBucket(start, i));
+  }
+  return result;
+}
+
+/**
+ * Returns the time-of-day bucket index (0..287) for a time-of-week bucket.
+ */
+export function timeOfDayIndex(bucketId: BucketId): number {
+  return createBucketId(bucketId) % BUCKETS_PER_DAY;
+}
+
+/**
+ * Derives the time-of-day view from a time-of-week series.
+ * For each of the 288 time-of-day positions, sums the 7 corresponding
+ * time-of-week buckets (one from each day of the week).
+ *
+ * @param weekValues - Per-bucket values indexed by BucketId (length 2016)
+ * @returns Per-time-of-day values (length 288)
+ */
+export function foldTimeOfDay(weekValues: readonly number[]): number[] {
+  if (weekValues.length !== BUCKETS_PER_WEEK) {
+    throw new Error(
+      `Time-of-week series must have ${BUCKETS_PER_WEEK} elements, got ${weekValues.length}`
+    );
+  }
+  const result = new Array<number>(BUCKETS_PER_DAY).fill(0);
+  for (let i = 0; i < BUCKETS_PER_WEEK; i++) {
+    result[i % BUCKETS_PER_DAY] += weekValues[i];
+  }
+  return result;
+}
+
+/**
+ * Formats minutes into the day as HH:MM (1440 formats as "24:00").
+ */
+function formatMinuteOfDay(minuteOfDay: number): string {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Non-negative modulo.
+ */
+function mod(value: number, modulus: number): number {
+  const result = value % modulus;
+  return result < 0 ? result + modulus : result;
+}
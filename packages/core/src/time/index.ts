@@ -0,0 +1,42 @@
+/**
+ * Time module public exports.
+ * Clock-agnostic time-of-week bucket indexing and cyclic helpers.
+ */
+
+// Types
+export type { BucketId, Weekday, BucketTimeOfWeek } from './buckets.js';
+
+// Constants
+export {
+  BUCKET_MINUTES,
+  BUCKET_MS,
+  BUCKETS_PER_HOUR,
+  BUCKETS_PER_DAY,
+  DAYS_PER_WEEK,
+  BUCKETS_PER_WEEK,
+  DAY_MS,
+  WEEK_MS,
+  WEEKDAY_NAMES,
+} from './buckets.js';
+
+// Bucket indexing and cyclic arithmetic
+export {
+  isBucketId,
+  createBucketId,
+  toBucketId,
+  bucketToTimeOfWeek,
+  formatBucketLabel,
+  bucketAtWeekPosition,
+  wrapWeekMs,
+  cyclicWeekDistanceMs,
+  bucketCenterWeekMs,
+  cyclicBucketDistance,
+  cyclicBucketOffset,
+  offsetBucket,
+  bucketNeighborhood,
+  timeOfDayIndex,
+  foldTimeOfDay,
+} from './buckets.js';
+
+// Validation schemas
+export { bucketIdSchema, weekdaySchema } from './validation.js';
@@ -0,0 +1,35 @@
+/**
+ * Tests for time-of-week validation schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bucketIdSchema, weekdaySchema } from './validation.js';
+
+describe('bucketIdSchema', () => {
+  it('accepts integers in [0, 2015]', () => {
+    expect(bucketIdSchema.parse(0)).toBe(0);
+    expect(bucketIdSchema.parse(2015)).toBe(2015);
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(() => bucketIdSchema.parse(-1)).toThrow();
+    expect(() => bucketIdSchema.parse(2016)).toThrow();
+  });
+
+  it('rejects non-integers', () => {
+    expect(() => bucketIdSchema.parse(1.5)).toThrow();
+    expect(() => bucketIdSchema.parse('1')).toThrow();
+  });
+});
+
+describe('weekdaySchema', () => {
+  it('accepts 0 (Monday) through 6 (Sunday)', () => {
+    expect(weekdaySchema.parse(0)).toBe(0);
+    expect(weekdaySchema.parse(6)).toBe(6);
+  });
+
+  it('rejects values outside [0, 6]', () => {
+    expect(() => weekdaySchema.parse(7)).toThrow();
+    expect(() => weekdaySchema.parse(-1)).toThrow();
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Zod validation schemas for time-of-week bucket types.
+ */
+
+import { z } from 'zod';
+import type { Weekday } from './buckets.js';
+import { BUCKETS_PER_WEEK, DAYS_PER_WEEK, createBucketId } from './buckets.js';
+
+/**
+ * Schema for BucketId (integer in [0, 2015]).
+ */
+export const bucketIdSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(BUCKETS_PER_WEEK - 1)
+  .transform((val) => createBucketId(val));
+
+/**
+ * Schema for Weekday (integer in [0, 6], 0 = Monday).
+ */
+export const weekdaySchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(DAYS_PER_WEEK - 1)
+  .transform((val) => val as Weekday);
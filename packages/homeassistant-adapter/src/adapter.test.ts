@@ -0,0 +1,201 @@
+/**
+ * Tests for the adapter against a local mock of the Home Assistant WebSocket
+ * API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { SetControlValueRequest } from '@core';
+import { startHomeAssistantAdapter, type HomeAssistantAdapter } from './adapter.js';
+import { connectHomeAssistant, type HassConnection } from './connection.js';
+import type { HassContext, HassEntityState } from './types.js';
+import { adapterConfigSchema } from './validation.js';
+
+const TOKEN = 'secret';
+
+const userContext: HassContext = { id: 'c1', user_id: 'user-1', parent_id: null };
+const automationContext: HassContext = { id: 'c2', user_id: null, parent_id: 'c0' };
+
+const scene: HassEntityState = {
+  entity_id: 'input_select.scene',
+  state: 'Off',
+  attributes: { options: ['Off', 'Cozy', 'Bright'] },
+  context: userContext,
+};
+const lamp: HassEntityState = {
+  entity_id: 'light.lamp',
+  state: 'off',
+  attributes: {},
+  context: userContext,
+};
+
+/**
+ * Mock Home Assistant: authenticates with `TOKEN`, answers `get_states` and
+ * `subscribe_events`, and pushes state changes to subscribers.
+ */
+class MockHomeAssistant {
+  readonly server = new WebSocketServer({ port: 0 });
+  private readonly subscriptions: { socket: WebSocket; id: number }[] = [];
+
+  constructor(private readonly states: HassEntityState[]) {
+    this.server.on('connection', (socket) => {
+      socket.send(JSON.stringify({ type: 'auth_required' }));
+      socket.on('message', (data) => this.handle(socket, JSON.parse(data.toString())));
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}/api/websocket`;
+  }
+
+  changeState(oldState: HassEntityState, newState: HassEntityState) {
+    for (const { socket, id } of this.subscriptions) {
+      const data = { entity_id: newState.entity_id, old_state: oldState, new_state: newState };
+      socket.send(
+        JSON.stringify({ id, type: 'event', event: { event_type: 'state_changed', data } })
+      );
+    }
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: WebSocket, message: { type: string; id?: number; access_token?: string }) {
+    const reply = (result: unknown) =>
+      socket.send(JSON.stringify({ id: message.id, type: 'result', success: true, result }));
+    switch (message.type) {
+      case 'auth':
+        socket.send(
+          JSON.stringify({ type: message.access_token === TOKEN ? 'auth_ok' : 'auth_invalid' })
+        );
+        break;
+      case 'get_states':
+        reply(this.states);
+        break;
+      case 'subscribe_events':
+        this.subscriptions.push({ socket, id: message.id! });
+        reply(null);
+        break;
+    }
+  }
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('startHomeAssistantAdapter', () => {
+  let homeAssistant: MockHomeAssistant;
+  let connection: HassConnection;
+  let adapter: HomeAssistantAdapter;
+  const requests: SetControlValueRequest[] = [];
+  const errors: string[] = [];
+
+  beforeEach(async () => {
+    homeAssistant = new MockHomeAssistant([scene, lamp]);
+    await once(homeAssistant.server, 'listening');
+    connection = await connectHomeAssistant(homeAssistant.url, TOKEN);
+    requests.length = 0;
+    errors.length = 0;
+    adapter = await startHomeAssistantAdapter({
+      config: adapterConfigSchema.parse({
+        entities: [
+          { entityId: 'input_select.scene', controlId: 'scene' },
+          { entityId: 'light.lamp', controlId: 'lamp' },
+          { entityId: 'light.missing', controlId: 'missing' },
+        ],
+      }),
+      backend: {
+        setControlValue: async (request) => {
+          requests.push(request);
+        },
+      },
+      connection,
+      onError: (message) => errors.push(message),
+    });
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+    await connection.close();
+    await homeAssistant.close();
+  });
+
+  it('derives definitions of the mapped entities', () => {
+    expect(Object.fromEntries(adapter.definitions)).toEqual({
+      scene: { kind: 'radiobutton', numStates: 3, labels: ['Off', 'Cozy', 'Bright'] },
+      lamp: { kind: 'slider' },
+    });
+    expect(errors).toEqual(['Entity light.missing does not exist']);
+  });
+
+  it('forwards changes with the initiator from their context', async () => {
+    homeAssistant.changeState(scene, { ...scene, state: 'Cozy' });
+    homeAssistant.changeState(lamp, {
+      ...lamp,
+      state: 'on',
+      attributes: { brightness: 255 },
+      context: automationContext,
+    });
+    await waitFor(() => requests.length === 2);
+    expect(requests).toEqual([
+      { kind: 'radiobutton', controlId: 'scene', newState: 1, initiator: 'user', isCommitted: true },
+      { kind: 'slider', controlId: 'lamp', newValue01: 1, initiator: 'model', isCommitted: true },
+    ]);
+  });
+
+  it('ignores attribute-only changes and changed options', async () => {
+    const on = { ...lamp, state: 'on', attributes: { brightness: 128 } };
+    homeAssistant.changeState(on, { ...on, attributes: { brightness: 128, color_temp: 300 } });
+    homeAssistant.changeState(scene, {
+      ...scene,
+      state: 'Movie',
+      attributes: { options: ['Off', 'Cozy', 'Bright', 'Movie'] },
+    });
+    await waitFor(() => errors.length === 2);
+    expect(errors[1]).toMatch(/input_select.scene: its options changed/);
+    expect(requests).toEqual([]);
+  });
+});
+
+describe('connectHomeAssistant', () => {
+  it('rejects an invalid access token', async () => {
+    const homeAssistant = new MockHomeAssistant([]);
+    await once(homeAssistant.server, 'listening');
+    await expect(connectHomeAssistant(homeAssistant.url, 'wrong')).rejects.toThrow(
+      /rejected the access token/
+    );
+    await homeAssistant.close();
+  });
+
+  it('settles `closed` when Home Assistant goes away', async () => {
+    const homeAssistant = new MockHomeAssistant([]);
+    await once(homeAssistant.server, 'listening');
+    const connection = await connectHomeAssistant(homeAssistant.url, TOKEN);
+    for (const socket of homeAssistant.server.clients) {
+      socket.terminate();
+    }
+    await connection.closed;
+    await expect(connection.getStates()).rejects.toThrow();
+    await homeAssistant.close();
+  });
+
+  it('ignores malformed messages', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const homeAssistant = new MockHomeAssistant([scene]);
+    homeAssistant.server.on('connection', (socket) => socket.send('not json'));
+    await once(homeAssistant.server, 'listening');
+    const connection = await connectHomeAssistant(homeAssistant.url, TOKEN);
+    expect(await connection.getStates()).toEqual([scene]);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/malformed/));
+    warn.mockRestore();
+    await connection.close();
+    await homeAssistant.close();
+  });
+});
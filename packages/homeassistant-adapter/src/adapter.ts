@@ -0,0 +1,141 @@
+/**
+ * The Home Assistant adapter: forwards state changes of mapped entities as
+ * committed `setControlValue` requests, with the initiator taken from the
+ * change's context.
+ */
+
+import type { ControlId, SimpleControlDefinition } from '@core';
+import type { HassConnection } from './connection.js';
+import { contextInitiator, deriveControlDefinition, entityStateRequest } from './mapping.js';
+import type {
+  AdapterConfig,
+  ControlBackend,
+  EntityMapping,
+  HassEntityState,
+  HassStateChangedEvent,
+} from './types.js';
+
+/**
+ * Options for `startHomeAssistantAdapter`.
+ */
+export interface AdapterOptions {
+  readonly config: AdapterConfig;
+  readonly backend: ControlBackend;
+  /**
+   * Authenticated connection. The adapter does not close it.
+   */
+  readonly connection: HassConnection;
+  /**
+   * Receives entities that cannot be mapped and failed requests.
+   * Default: `console.warn`.
+   */
+  readonly onError?: (message: string) => void;
+}
+
+/**
+ * A running adapter.
+ */
+export interface HomeAssistantAdapter {
+  /**
+   * Definition derived for each mapped control whose entity exists, e.g. to
+   * create the controls.
+   */
+  readonly definitions: ReadonlyMap<ControlId, SimpleControlDefinition>;
+  /**
+   * Stops forwarding, after the requests already received have been sent.
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Derives the definitions of the mapped entities and starts forwarding their
+ * changes. Current states are not forwarded; only changes from now on are.
+ * Changes that only touch attributes the control does not use (e.g. a
+ * light's color) are ignored, as is an entity whose options changed, since
+ * its states no longer line up with the control's history.
+ */
+export async function startHomeAssistantAdapter({
+  config,
+  backend,
+  connection,
+  onError = (message) => console.warn(message),
+}: AdapterOptions): Promise<HomeAssistantAdapter> {
+  const mappings = new Map<string, EntityMapping>(
+    config.entities.map((mapping) => [mapping.entityId, mapping])
+  );
+  const definitions = new Map<ControlId, SimpleControlDefinition>();
+  const states = new Map(
+    (await connection.getStates()).map((entity) => [entity.entity_id, entity])
+  );
+  for (const { entityId, controlId } of config.entities) {
+    const entity = states.get(entityId);
+    if (entity === undefined) {
+      onError(`Entity ${entityId} does not exist`);
+      continue;
+    }
+    try {
+      definitions.set(controlId, deriveControlDefinition(entity));
+    } catch (error) {
+      onError(`Cannot map ${entityId}: ${errorMessage(error)}`);
+    }
+  }
+
+  let stopped = false;
+  let pending: Promise<unknown> = Promise.resolve();
+  const onStateChanged = ({ entity_id, old_state, new_state }: HassStateChangedEvent) => {
+    const mapping = mappings.get(entity_id);
+    const definition = mapping === undefined ? undefined : definitions.get(mapping.controlId);
+    if (stopped || mapping === undefined || definition === undefined || new_state === null) {
+      return;
+    }
+    if (old_state !== null && sameValue(old_state, new_state)) {
+      return;
+    }
+    let request;
+    try {
+      if (optionsChanged(definition, new_state)) {
+        throw new Error('its options changed; remap the control before forwarding again');
+      }
+      const initiator = contextInitiator(new_state.context, config.unattributedInitiator);
+      request = entityStateRequest(definition, mapping.controlId, new_state, initiator);
+      if (request === undefined) {
+        return;
+      }
+    } catch (error) {
+      onError(`Ignoring change of ${entity_id}: ${errorMessage(error)}`);
+      return;
+    }
+    pending = pending
+      .then(() => backend.setControlValue(request))
+      .catch((error) => onError(`Setting ${mapping.controlId} failed: ${errorMessage(error)}`));
+  };
+  await connection.subscribeStateChanged(onStateChanged);
+
+  return {
+    definitions,
+    async stop() {
+      stopped = true;
+      await pending;
+    },
+  };
+}
+
+/**
+ * Whether two states of an entity carry the same control value: the same
+ * state and, for lights, the same brightness.
+ */
+function sameValue(a: HassEntityState, b: HassEntityState): boolean {
+  return a.state === b.state && a.attributes.brightness === b.attributes.brightness;
+}
+
+function optionsChanged(definition: SimpleControlDefinition, entity: HassEntityState): boolean {
+  if (definition.kind !== 'radiobutton') {
+    return false;
+  }
+  const derived = deriveControlDefinition(entity);
+  return JSON.stringify(derived) !== JSON.stringify(definition);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,127 @@
+/**
+ * Minimal client for the Home Assistant WebSocket API: authentication,
+ * commands with results, and event subscriptions.
+ */
+
+import WebSocket from 'ws';
+import type { HassEntityState, HassStateChangedEvent } from './types.js';
+
+/**
+ * An authenticated connection to Home Assistant.
+ */
+export interface HassConnection {
+  /**
+   * Current state of every entity.
+   */
+  getStates(): Promise<HassEntityState[]>;
+  /**
+   * Calls `onEvent` for every `state_changed` event from now on.
+   */
+  subscribeStateChanged(onEvent: (event: HassStateChangedEvent) => void): Promise<void>;
+  /**
+   * Settles once the connection has closed, by `close()` or because Home
+   * Assistant went away (e.g. on a restart). Subscriptions end with it.
+   */
+  readonly closed: Promise<void>;
+  close(): Promise<void>;
+}
+
+interface PendingCommand {
+  readonly resolve: (result: unknown) => void;
+  readonly reject: (error: Error) => void;
+}
+
+/**
+ * Connects and authenticates with a long-lived access token.
+ *
+ * @param url - WebSocket API URL, e.g. `ws://homeassistant.local:8123/api/websocket`
+ * @throws Error if the connection fails or the token is rejected
+ */
+export function connectHomeAssistant(url: string, accessToken: string): Promise<HassConnection> {
+  const socket = new WebSocket(url);
+  const pending = new Map<number, PendingCommand>();
+  const eventHandlers = new Map<number, (event: unknown) => void>();
+  const closed = new Promise<void>((resolve) => socket.once('close', () => resolve()));
+  let nextId = 1;
+
+  const send = (message: object): Promise<unknown> => {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      if (socket.readyState !== WebSocket.OPEN) {
+        reject(new Error('Home Assistant connection closed'));
+        return;
+      }
+      pending.set(id, { resolve, reject });
+      socket.send(JSON.stringify({ id, ...message }));
+    });
+  };
+
+  const connection: HassConnection = {
+    getStates: async () => (await send({ type: 'get_states' })) as HassEntityState[],
+    subscribeStateChanged: async (onEvent) => {
+      // Events carry the id of the command that subscribed, which `send` is
+      // about to assign
+      const id = nextId;
+      eventHandlers.set(id, (event) => onEvent((event as { data: HassStateChangedEvent }).data));
+      try {
+        await send({ type: 'subscribe_events', event_type: 'state_changed' });
+      } catch (error) {
+        eventHandlers.delete(id);
+        throw error;
+      }
+    },
+    closed,
+    close: async () => {
+      if (socket.readyState !== WebSocket.CLOSED) {
+        socket.close();
+        await closed;
+      }
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.on('error', reject);
+    socket.on('close', () => {
+      const error = new Error('Home Assistant connection closed');
+      reject(error);
+      for (const command of pending.values()) {
+        command.reject(error);
+      }
+      pending.clear();
+    });
+    socket.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        console.warn(`Ignoring a malformed Home Assistant message: ${data.toString()}`);
+        return;
+      }
+      switch (message.type) {
+        case 'auth_required':
+          socket.send(JSON.stringify({ type: 'auth', access_token: accessToken }));
+          break;
+        case 'auth_ok':
+          resolve(connection);
+          break;
+        case 'auth_invalid':
+          reject(new Error(`Home Assistant rejected the access token: ${message.message}`));
+          socket.close();
+          break;
+        case 'result': {
+          const command = pending.get(message.id);
+          pending.delete(message.id);
+          if (message.success) {
+            command?.resolve(message.result);
+          } else {
+            command?.reject(new Error(`Home Assistant command failed: ${message.error?.message}`));
+          }
+          break;
+        }
+        case 'event':
+          eventHandlers.get(message.id)?.(message.event);
+          break;
+      }
+    });
+  });
+}
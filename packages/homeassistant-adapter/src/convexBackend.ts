@@ -0,0 +1,16 @@
+/**
+ * ControlBackend implementation against a Convex deployment.
+ */
+
+import type { ConvexClient } from 'convex/browser';
+import { api } from '../../../convex/_generated/api.js';
+import type { ControlBackend } from './types.js';
+
+/**
+ * Creates a backend on a Convex client.
+ */
+export function createConvexBackend(client: ConvexClient): ControlBackend {
+  return {
+    setControlValue: (request) => client.mutation(api.controls.setControlValue, request),
+  };
+}
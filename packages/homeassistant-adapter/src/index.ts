@@ -0,0 +1,33 @@
+/**
+ * Home Assistant adapter public exports.
+ */
+
+// Types
+export type {
+  HassContext,
+  HassEntityState,
+  HassStateChangedEvent,
+  EntityMapping,
+  AdapterConfig,
+  ControlBackend,
+} from './types.js';
+
+// Entity mapping
+export {
+  entityDomain,
+  deriveControlDefinition,
+  contextInitiator,
+  entityStateRequest,
+} from './mapping.js';
+
+// Connection
+export type { HassConnection } from './connection.js';
+export { connectHomeAssistant } from './connection.js';
+
+// Adapter
+export type { AdapterOptions, HomeAssistantAdapter } from './adapter.js';
+export { startHomeAssistantAdapter } from './adapter.js';
+export { createConvexBackend } from './convexBackend.js';
+
+// Validation schemas
+export { entityMappingSchema, adapterConfigSchema } from './validation.js';
@@ -0,0 +1,87 @@
+/**
+ * Adapter process entry point.
+ *
+ * Environment:
+ * - `CONVEX_URL`: Convex deployment URL (e.g. http://127.0.0.1:3210)
+ * - `HA_URL`: Home Assistant WebSocket API URL
+ *   (default ws://homeassistant.local:8123/api/websocket)
+ * - `HA_TOKEN`: Home Assistant long-lived access token
+ * - `HA_ADAPTER_CONFIG`: path to a JSON `AdapterConfig`
+ */
+
+import { readFile } from 'node:fs/promises';
+import { ConvexClient } from 'convex/browser';
+import { startHomeAssistantAdapter, type HomeAssistantAdapter } from './adapter.js';
+import { connectHomeAssistant, type HassConnection } from './connection.js';
+import { createConvexBackend } from './convexBackend.js';
+import { adapterConfigSchema } from './validation.js';
+
+const { CONVEX_URL, HA_TOKEN, HA_ADAPTER_CONFIG } = process.env;
+if (CONVEX_URL === undefined || HA_TOKEN === undefined || HA_ADAPTER_CONFIG === undefined) {
+  throw new Error('CONVEX_URL, HA_TOKEN and HA_ADAPTER_CONFIG must be set');
+}
+const config = adapterConfigSchema.parse(JSON.parse(await readFile(HA_ADAPTER_CONFIG, 'utf8')));
+
+/**
+ * Delay before reconnecting after Home Assistant went away or could not be
+ * reached, doubled after each failed attempt up to `MAX_RECONNECT_DELAY_MS`.
+ */
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+const url = process.env.HA_URL ?? 'ws://homeassistant.local:8123/api/websocket';
+const convex = new ConvexClient(CONVEX_URL);
+const backend = createConvexBackend(convex);
+
+let stopping = false;
+let running: { connection: HassConnection; adapter: HomeAssistantAdapter } | undefined;
+let wake = () => {};
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, async () => {
+    stopping = true;
+    wake();
+    await running?.adapter.stop();
+    await running?.connection.close();
+    await convex.close();
+  });
+}
+
+// Reconnects and resubscribes whenever the connection closes, e.g. while
+// Home Assistant restarts. Changes made while disconnected are not forwarded.
+let delayMs = MIN_RECONNECT_DELAY_MS;
+while (!stopping) {
+  let connection: HassConnection | undefined;
+  try {
+    connection = await connectHomeAssistant(url, HA_TOKEN);
+    const adapter = await startHomeAssistantAdapter({ config, backend, connection });
+    running = { connection, adapter };
+    delayMs = MIN_RECONNECT_DELAY_MS;
+    if (stopping) {
+      // Stopped while connecting, so the signal handler did not see this connection
+      await adapter.stop();
+      await connection.close();
+      break;
+    }
+    await connection.closed;
+    running = undefined;
+    await adapter.stop();
+  } catch (error) {
+    await connection?.close();
+    console.warn(
+      `Home Assistant connection failed: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (stopping) {
+    break;
+  }
+  console.warn(`Reconnecting to Home Assistant in ${delayMs / 1000} s`);
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, delayMs);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+  delayMs = Math.min(2 * delayMs, MAX_RECONNECT_DELAY_MS);
+}
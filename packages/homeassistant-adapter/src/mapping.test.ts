@@ -0,0 +1,104 @@
+/**
+ * Tests for mapping Home Assistant entities onto controls.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ControlId } from '@core';
+import { contextInitiator, deriveControlDefinition, entityStateRequest } from './mapping.js';
+import type { HassEntityState } from './types.js';
+
+const controlId = 'control-1' as ControlId;
+
+function entity(
+  entityId: string,
+  state: string,
+  attributes: Record<string, unknown> = {}
+): HassEntityState {
+  return {
+    entity_id: entityId,
+    state,
+    attributes,
+    context: { id: 'ctx', user_id: null, parent_id: null },
+  };
+}
+
+const scene = entity('input_select.scene', 'Cozy', { options: ['Off', 'Cozy', 'Bright'] });
+
+describe('deriveControlDefinition', () => {
+  it('maps selects onto radiobuttons labelled with their options', () => {
+    expect(deriveControlDefinition(scene)).toEqual({
+      kind: 'radiobutton',
+      numStates: 3,
+      labels: ['Off', 'Cozy', 'Bright'],
+    });
+    expect(deriveControlDefinition(entity('select.mode', 'a', { options: ['a', 'b'] }))).toEqual({
+      kind: 'radiobutton',
+      numStates: 2,
+      labels: ['a', 'b'],
+    });
+  });
+
+  it('maps lights and numbers onto sliders', () => {
+    expect(deriveControlDefinition(entity('light.kitchen', 'off'))).toEqual({ kind: 'slider' });
+    expect(deriveControlDefinition(entity('input_number.target', '20'))).toEqual({
+      kind: 'slider',
+    });
+  });
+
+  it('rejects unsupported domains and unusable options', () => {
+    expect(() => deriveControlDefinition(entity('switch.fan', 'on'))).toThrow(
+      /Unsupported entity domain: switch/
+    );
+    expect(() => deriveControlDefinition(entity('select.mode', 'a', { options: ['a'] }))).toThrow();
+    expect(() => deriveControlDefinition(entity('select.mode', 'a'))).toThrow(/no list of options/);
+  });
+});
+
+describe('contextInitiator', () => {
+  it('tells users from automations', () => {
+    expect(contextInitiator({ id: 'c', user_id: 'u', parent_id: null }, 'model')).toBe('user');
+    expect(contextInitiator({ id: 'c', user_id: null, parent_id: 'p' }, 'user')).toBe('model');
+    expect(contextInitiator({ id: 'c', user_id: null, parent_id: null }, 'model')).toBe('model');
+  });
+});
+
+describe('entityStateRequest', () => {
+  it('selects the option state', () => {
+    expect(entityStateRequest(deriveControlDefinition(scene), controlId, scene, 'user')).toEqual({
+      kind: 'radiobutton',
+      controlId,
+      newState: 1,
+      initiator: 'user',
+      isCommitted: true,
+    });
+  });
+
+  it('scales light brightness and number ranges onto 0–1', () => {
+    const slider = { kind: 'slider' } as const;
+    const value = (state: HassEntityState) => {
+      const request = entityStateRequest(slider, controlId, state, 'user');
+      return request?.kind === 'slider' ? request.newValue01 : undefined;
+    };
+    expect(value(entity('light.kitchen', 'on', { brightness: 51 }))).toBeCloseTo(0.2);
+    expect(value(entity('light.kitchen', 'on'))).toBe(1);
+    expect(value(entity('light.kitchen', 'off'))).toBe(0);
+    expect(value(entity('input_number.target', '21', { min: 16, max: 26 }))).toBeCloseTo(0.5);
+  });
+
+  it('carries the time Home Assistant reports for the change', () => {
+    const changed = { ...scene, last_updated: '2024-01-01T18:00:00.000+00:00' };
+    expect(
+      entityStateRequest(deriveControlDefinition(scene), controlId, changed, 'user')
+    ).toMatchObject({ tsMs: Date.UTC(2024, 0, 1, 18) });
+  });
+
+  it('skips entities without a value and rejects unknown options', () => {
+    const definition = deriveControlDefinition(scene);
+    expect(
+      entityStateRequest(definition, controlId, { ...scene, state: 'unavailable' }, 'user')
+    ).toBeUndefined();
+    expect(() =>
+      entityStateRequest(definition, controlId, { ...scene, state: 'Movie' }, 'user')
+    ).toThrow(/unknown option "Movie"/);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Mapping of Home Assistant entities onto controls.
+ *
+ * - `input_select` and `select` entities become radiobuttons whose labels are
+ *   the entity's options, in order.
+ * - `light` entities become sliders on their brightness (0–255; off is 0,
+ *   on without a brightness is full).
+ * - `input_number` and `number` entities become sliders spanning the entity's
+ *   `min`..`max` range.
+ */
+
+import {
+  buildStateRequest,
+  radiobuttonDefinitionSchema,
+  sliderValue01Schema,
+  type ControlId,
+  type Initiator,
+  type SetControlValueRequest,
+  type SimpleControlDefinition,
+} from '@core';
+import type { HassContext, HassEntityState } from './types.js';
+
+/**
+ * Full-scale Home Assistant light brightness.
+ */
+const MAX_BRIGHTNESS = 255;
+
+/**
+ * States Home Assistant reports for entities without a current value.
+ */
+const NO_VALUE_STATES = new Set(['unavailable', 'unknown']);
+
+/**
+ * Domain of an entity id (`light.kitchen` → `light`).
+ */
+export function entityDomain(entityId: string): string {
+  return entityId.slice(0, entityId.indexOf('.'));
+}
+
+/**
+ * Derives the control definition an entity maps to.
+ *
+ * @throws Error if the entity's domain is not supported or its options do not
+ *   make a valid radiobutton
+ */
+export function deriveControlDefinition(entity: HassEntityState): SimpleControlDefinition {
+  const domain = entityDomain(entity.entity_id);
+  switch (domain) {
+    case 'input_select':
+    case 'select': {
+      const options = entity.attributes.options;
+      if (!Array.isArray(options) || !options.every((option) => typeof option === 'string')) {
+        throw new Error(`Entity ${entity.entity_id} has no list of options`);
+      }
+      return radiobuttonDefinitionSchema.parse({
+        kind: 'radiobutton',
+        numStates: options.length,
+        labels: options,
+      });
+    }
+    case 'light':
+    case 'input_number':
+    case 'number':
+      return { kind: 'slider' };
+    default:
+      throw new Error(`Unsupported entity domain: ${domain}`);
+  }
+}
+
+/**
+ * Who caused a state change, from its context: a user if Home Assistant
+ * recorded one, a model if an automation or script did (it has a parent
+ * context), and `unattributed` otherwise (e.g. a device operated by hand).
+ */
+export function contextInitiator(context: HassContext, unattributed: Initiator): Initiator {
+  if (context.user_id !== null) {
+    return 'user';
+  }
+  if (context.parent_id !== null) {
+    return 'model';
+  }
+  return unattributed;
+}
+
+/**
+ * Builds the committed request that sets a control to an entity's state, or
+ * returns `undefined` if the entity currently has no value. The request
+ * carries the time Home Assistant reports for the change, if any.
+ *
+ * @throws Error if the state does not fit the definition (e.g. an option that
+ *   was added since the definition was derived)
+ */
+export function entityStateRequest(
+  definition: SimpleControlDefinition,
+  controlId: ControlId,
+  entity: HassEntityState,
+  initiator: Initiator
+): SetControlValueRequest | undefined {
+  if (NO_VALUE_STATES.has(entity.state)) {
+    return undefined;
+  }
+  const timing = entity.last_updated === undefined ? {} : { tsMs: Date.parse(entity.last_updated) };
+  if (definition.kind === 'radiobutton') {
+    const state = definition.labels.indexOf(entity.state);
+    if (state < 0) {
+      throw new Error(`Entity ${entity.entity_id} is in unknown option "${entity.state}"`);
+    }
+    return { ...buildStateRequest(definition, controlId, state, initiator, true), ...timing };
+  }
+  return {
+    kind: 'slider',
+    controlId,
+    newValue01: sliderValue01Schema.parse(entityValue01(entity)),
+    initiator,
+    isCommitted: true,
+    ...timing,
+  };
+}
+
+/**
+ * Position of a light's brightness or a number entity's value in its range.
+ */
+function entityValue01(entity: HassEntityState): number {
+  if (entityDomain(entity.entity_id) === 'light') {
+    if (entity.state === 'off') {
+      return 0;
+    }
+    const brightness = entity.attributes.brightness;
+    return typeof brightness === 'number' ? brightness / MAX_BRIGHTNESS : 1;
+  }
+  const value = Number(entity.state);
+  const { min, max } = entity.attributes;
+  if (
+    !Number.isFinite(value) ||
+    typeof min !== 'number' ||
+    typeof max !== 'number' ||
+    !(min < max)
+  ) {
+    throw new Error(`Entity ${entity.entity_id} has no value in a min..max range`);
+  }
+  return Math.min(1, Math.max(0, (value - min) / (max - min)));
+}
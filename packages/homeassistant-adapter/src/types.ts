@@ -0,0 +1,67 @@
+/**
+ * Home Assistant adapter types.
+ */
+
+import type { ControlId, Initiator, SetControlValueRequest } from '@core';
+
+/**
+ * Context Home Assistant attaches to every state change. `user_id` is set
+ * when a user caused the change (UI, app, API); `parent_id` when an
+ * automation or script did.
+ */
+export interface HassContext {
+  readonly id: string;
+  readonly user_id: string | null;
+  readonly parent_id: string | null;
+}
+
+/**
+ * An entity state as Home Assistant reports it.
+ */
+export interface HassEntityState {
+  readonly entity_id: string;
+  readonly state: string;
+  readonly attributes: Readonly<Record<string, unknown>>;
+  /**
+   * When the state or its attributes last changed (ISO 8601).
+   */
+  readonly last_updated?: string;
+  readonly context: HassContext;
+}
+
+/**
+ * Data of a `state_changed` event. `new_state` is null when the entity was
+ * removed.
+ */
+export interface HassStateChangedEvent {
+  readonly entity_id: string;
+  readonly old_state: HassEntityState | null;
+  readonly new_state: HassEntityState | null;
+}
+
+/**
+ * Maps one Home Assistant entity onto a control.
+ */
+export interface EntityMapping {
+  readonly entityId: string;
+  readonly controlId: ControlId;
+}
+
+/**
+ * Adapter configuration.
+ */
+export interface AdapterConfig {
+  readonly entities: readonly EntityMapping[];
+  /**
+   * Initiator of changes that carry neither a user nor a parent context,
+   * such as a wall switch operated by hand. Default: `'user'`.
+   */
+  readonly unattributedInitiator: Initiator;
+}
+
+/**
+ * The system the adapter forwards changes to.
+ */
+export interface ControlBackend {
+  setControlValue(request: SetControlValueRequest): Promise<unknown>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Zod validation schemas for the adapter configuration.
+ */
+
+import { z } from 'zod';
+import { controlIdSchema, initiatorSchema } from '@core';
+import type { AdapterConfig, EntityMapping } from './types.js';
+
+/**
+ * Schema for EntityMapping. Entity ids have the form `<domain>.<object_id>`.
+ */
+export const entityMappingSchema = z.object({
+  entityId: z.string().regex(/^[a-z0-9_]+\.[a-z0-9_]+$/, 'expected <domain>.<object_id>'),
+  controlId: controlIdSchema,
+}) as unknown as z.ZodType<EntityMapping>;
+
+/**
+ * Schema for AdapterConfig. Each entity and each control may be mapped once.
+ */
+export const adapterConfigSchema = z.object({
+  entities: z
+    .array(entityMappingSchema)
+    .refine(
+      (entities) => new Set(entities.map((entity) => entity.entityId)).size === entities.length,
+      'entities must be mapped at most once'
+    )
+    .refine(
+      (entities) => new Set(entities.map((entity) => entity.controlId)).size === entities.length,
+      'controls must be mapped at most once'
+    ),
+  unattributedInitiator: initiatorSchema.default('user'),
+}) as unknown as z.ZodType<AdapterConfig, z.ZodTypeDef, unknown>;
@@ -0,0 +1,153 @@
+/**
+ * Tests for the MQTT bridge against a local aedes broker.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { once } from 'node:events';
+import Aedes from 'aedes';
+import mqtt, { type MqttClient } from 'mqtt';
+import type { ControlId, ControlRuntime, SetControlValueRequest } from '@core';
+import { startBridge, type Bridge } from './bridge.js';
+import type { ControlBackend, ControlState } from './types.js';
+import { bridgeConfigSchema } from './validation.js';
+
+const scene = 'scene' as ControlId;
+
+function sceneState(currentDiscreteState: number, lastUpdatedAtMs: number): ControlState {
+  const runtime: ControlRuntime = {
+    controlId: scene,
+    kind: 'radiobutton',
+    activeModelId: 'manual' as ControlRuntime['activeModelId'],
+    currentDiscreteState,
+    lastUpdatedAtMs,
+    lastCommittedAtMs: lastUpdatedAtMs,
+    lastCommittedDiscreteState: currentDiscreteState,
+  };
+  return {
+    controlId: scene,
+    definition: { kind: 'radiobutton', numStates: 3, labels: ['Off', 'Cozy', 'Bright'] },
+    runtime,
+  };
+}
+
+/**
+ * In-memory backend: records requests, and lets the test push state lists.
+ */
+class FakeBackend implements ControlBackend {
+  readonly requests: SetControlValueRequest[] = [];
+  private listener: ((states: readonly ControlState[]) => void) | undefined;
+
+  async setControlValue(request: SetControlValueRequest) {
+    this.requests.push(request);
+  }
+
+  subscribeControlStates(onStates: (states: readonly ControlState[]) => void) {
+    this.listener = onStates;
+    return () => {
+      this.listener = undefined;
+    };
+  }
+
+  emit(states: readonly ControlState[]) {
+    this.listener?.(states);
+  }
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+/**
+ * Gives the bridge's topic subscriptions time to reach the broker.
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+describe('startBridge', () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let bridgeClient: MqttClient;
+  let testClient: MqttClient;
+  let backend: FakeBackend;
+  let bridge: Bridge;
+  const errors: string[] = [];
+
+  beforeEach(async () => {
+    broker = new Aedes();
+    server = createServer(broker.handle);
+    server.listen(0);
+    await once(server, 'listening');
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    bridgeClient = await mqtt.connectAsync(url);
+    testClient = await mqtt.connectAsync(url);
+    backend = new FakeBackend();
+    errors.length = 0;
+    bridge = startBridge({
+      config: bridgeConfigSchema.parse({}),
+      backend,
+      client: bridgeClient,
+      onError: (message) => errors.push(message),
+    });
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+    await bridgeClient.endAsync();
+    await testClient.endAsync();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('publishes each state change retained on the state topic', async () => {
+    const received: unknown[] = [];
+    testClient.on('message', (_topic, payload) => received.push(JSON.parse(payload.toString())));
+    await testClient.subscribeAsync('home/controls/scene/state');
+
+    backend.emit([sceneState(1, 1000)]);
+    backend.emit([sceneState(1, 1000)]);
+    backend.emit([sceneState(2, 2000)]);
+    await waitFor(() => received.length === 2);
+    expect(received).toMatchObject([
+      { state: 1, label: 'Cozy', updatedAtMs: 1000 },
+      { state: 2, label: 'Bright', updatedAtMs: 2000 },
+    ]);
+
+    // A late subscriber gets the latest state from the broker
+    const late = await mqtt.connectAsync(url);
+    const retained: unknown[] = [];
+    late.on('message', (_topic, payload) => retained.push(JSON.parse(payload.toString())));
+    await late.subscribeAsync('home/controls/scene/state');
+    await waitFor(() => retained.length === 1);
+    expect(retained[0]).toMatchObject({ state: 2 });
+    await late.endAsync();
+  });
+
+  it('translates set payloads into requests, in order', async () => {
+    backend.emit([sceneState(0, 1000)]);
+    await settle();
+
+    await testClient.publishAsync('home/controls/scene/set', '{"state":"Cozy","committed":false}');
+    await testClient.publishAsync('home/controls/scene/set', '{"state":"Bright"}');
+    await waitFor(() => backend.requests.length === 2);
+    expect(backend.requests).toEqual([
+      { kind: 'radiobutton', controlId: scene, newState: 1, initiator: 'user', isCommitted: false },
+      { kind: 'radiobutton', controlId: scene, newState: 2, initiator: 'user', isCommitted: true },
+    ]);
+  });
+
+  it('reports payloads that do not fit the control', async () => {
+    backend.emit([sceneState(0, 1000)]);
+    await settle();
+
+    await testClient.publishAsync('home/controls/scene/set', '{"state":"Movie"}');
+    await waitFor(() => errors.length === 1);
+    expect(errors[0]).toMatch(/Unknown state label/);
+    expect(backend.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * The bridge between MQTT and the control system.
+ *
+ * Payloads received on a control's set topic become `setControlValue`
+ * requests; every runtime state change, whichever client caused it, is
+ * published (retained) on the control's state topic. Node-RED flows thus
+ * drive controls exactly like the dashboard does and see every change.
+ */
+
+import type { MqttClient } from 'mqtt';
+import type { ControlId } from '@core';
+import { formatStatePayload, parseSetPayload, resolveTopicMapping } from './payload.js';
+import type { BridgeConfig, ControlBackend, ControlState } from './types.js';
+
+/**
+ * Options for `startBridge`.
+ */
+export interface BridgeOptions {
+  readonly config: BridgeConfig;
+  readonly backend: ControlBackend;
+  /**
+   * Connected (or connecting) MQTT client. The bridge does not end it.
+   */
+  readonly client: MqttClient;
+  /**
+   * Receives payloads that could not be translated and failed requests.
+   * Default: `console.warn`.
+   */
+  readonly onError?: (message: string) => void;
+}
+
+/**
+ * A running bridge.
+ */
+export interface Bridge {
+  /**
+   * Unsubscribes from the backend and the set topics, after the requests
+   * already received have been sent.
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Starts bridging every control the backend reports. Controls added later
+ * are picked up as they appear.
+ *
+ * Requests are sent one at a time in the order their messages arrived, so a
+ * stream of uncommitted slider updates followed by the committed one is
+ * applied in order.
+ */
+export function startBridge({
+  config,
+  backend,
+  client,
+  onError = (message) => console.warn(message),
+}: BridgeOptions): Bridge {
+  const controls = new Map<ControlId, ControlState>();
+  const controlsBySetTopic = new Map<string, ControlId>();
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const onMessage = (topic: string, payload: Buffer) => {
+    const controlId = controlsBySetTopic.get(topic);
+    const control = controlId === undefined ? undefined : controls.get(controlId);
+    if (controlId === undefined || control === undefined) {
+      return;
+    }
+    let request;
+    try {
+      request = parseSetPayload(
+        control.definition,
+        controlId,
+        payload.toString(),
+        resolveTopicMapping(config, controlId)
+      );
+    } catch (error) {
+      onError(`Ignoring payload on ${topic}: ${errorMessage(error)}`);
+      return;
+    }
+    pending = pending
+      .then(() => backend.setControlValue(request))
+      .catch((error) => onError(`Setting ${controlId} failed: ${errorMessage(error)}`));
+  };
+  client.on('message', onMessage);
+
+  const unsubscribe = backend.subscribeControlStates((states) => {
+    for (const state of states) {
+      const mapping = resolveTopicMapping(config, state.controlId);
+      const previous = controls.get(state.controlId);
+      controls.set(state.controlId, state);
+      if (previous === undefined) {
+        controlsBySetTopic.set(mapping.setTopic, state.controlId);
+        client.subscribe(mapping.setTopic, { qos: 1 });
+      } else if (previous.runtime.lastUpdatedAtMs === state.runtime.lastUpdatedAtMs) {
+        continue;
+      }
+      client.publish(mapping.stateTopic, formatStatePayload(state, mapping), {
+        qos: 1,
+        retain: true,
+      });
+    }
+  });
+
+  return {
+    async stop() {
+      unsubscribe();
+      client.removeListener('message', onMessage);
+      const topics = [...controlsBySetTopic.keys()];
+      if (topics.length > 0) {
+        await client.unsubscribeAsync(topics);
+      }
+      await pending;
+    },
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,25 @@
+/**
+ * ControlBackend implementation against a Convex deployment.
+ */
+
+import { ConvexClient } from 'convex/browser';
+import { api } from '../../../convex/_generated/api.js';
+import type { ControlBackend } from './types.js';
+
+/**
+ * Creates a backend on a Convex client. Runtime state changes arrive through
+ * Convex query subscriptions, so the bridge sees every client's changes
+ * without polling.
+ */
+export function createConvexBackend(
+  client: ConvexClient,
+  onError: (message: string) => void = (message) => console.warn(message)
+): ControlBackend {
+  return {
+    setControlValue: (request) => client.mutation(api.controls.setControlValue, request),
+    subscribeControlStates: (onStates) =>
+      client.onUpdate(api.controls.listControlStates, {}, onStates, (error) =>
+        onError(`Control state subscription failed: ${error.message}`)
+      ),
+  };
+}
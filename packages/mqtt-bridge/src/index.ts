@@ -0,0 +1,28 @@
+/**
+ * MQTT bridge public exports.
+ */
+
+// Types
+export type {
+  PayloadFormat,
+  ControlTopicMapping,
+  BridgeConfig,
+  ResolvedTopicMapping,
+  ControlState,
+  ControlBackend,
+} from './types.js';
+
+// Payload translation
+export { resolveTopicMapping, parseSetPayload, formatStatePayload } from './payload.js';
+
+// Bridge
+export type { BridgeOptions, Bridge } from './bridge.js';
+export { startBridge } from './bridge.js';
+export { createConvexBackend } from './convexBackend.js';
+
+// Validation schemas
+export {
+  payloadFormatSchema,
+  controlTopicMappingSchema,
+  bridgeConfigSchema,
+} from './validation.js';
@@ -0,0 +1,36 @@
+/**
+ * Bridge process entry point.
+ *
+ * Environment:
+ * - `CONVEX_URL`: Convex deployment URL (e.g. http://127.0.0.1:3210)
+ * - `MQTT_URL`: broker URL (default mqtt://localhost:1883)
+ * - `BRIDGE_CONFIG`: path to a JSON `BridgeConfig` (optional; defaults apply)
+ */
+
+import { readFile } from 'node:fs/promises';
+import { ConvexClient } from 'convex/browser';
+import mqtt from 'mqtt';
+import { startBridge } from './bridge.js';
+import { createConvexBackend } from './convexBackend.js';
+import { bridgeConfigSchema } from './validation.js';
+
+const convexUrl = process.env.CONVEX_URL;
+if (convexUrl === undefined) {
+  throw new Error('CONVEX_URL is not set');
+}
+const configPath = process.env.BRIDGE_CONFIG;
+const config = bridgeConfigSchema.parse(
+  configPath === undefined ? {} : JSON.parse(await readFile(configPath, 'utf8'))
+);
+
+const convex = new ConvexClient(convexUrl);
+const client = mqtt.connect(process.env.MQTT_URL ?? 'mqtt://localhost:1883');
+const bridge = startBridge({ config, backend: createConvexBackend(convex), client });
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, async () => {
+    await bridge.stop();
+    await client.endAsync();
+    await convex.close();
+  });
+}
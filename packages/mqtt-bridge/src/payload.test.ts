@@ -0,0 +1,128 @@
+/**
+ * Tests for MQTT payload translation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ControlDefinition, ControlId, ControlRuntime, SliderValue01 } from '@core';
+import { formatStatePayload, parseSetPayload, resolveTopicMapping } from './payload.js';
+import { bridgeConfigSchema } from './validation.js';
+
+const scene = 'scene' as ControlId;
+const lamp = 'lamp' as ControlId;
+
+const sceneDefinition: ControlDefinition = {
+  kind: 'radiobutton',
+  numStates: 3,
+  labels: ['Off', 'Cozy', 'Bright'],
+};
+const lampDefinition: ControlDefinition = { kind: 'slider' };
+
+const config = bridgeConfigSchema.parse({
+  controls: { lamp: { format: 'raw', sliderScale: 100, initiator: 'model' } },
+});
+
+describe('resolveTopicMapping', () => {
+  it('fills in the bridge defaults', () => {
+    expect(resolveTopicMapping(config, scene)).toEqual({
+      setTopic: 'home/controls/scene/set',
+      stateTopic: 'home/controls/scene/state',
+      format: 'json',
+      initiator: 'user',
+      isCommitted: true,
+      sliderScale: 1,
+    });
+    expect(resolveTopicMapping(config, lamp)).toMatchObject({ format: 'raw', sliderScale: 100 });
+  });
+
+  it('rejects a set topic equal to the state topic', () => {
+    expect(() =>
+      bridgeConfigSchema.parse({ controls: { lamp: { setTopic: 'a', stateTopic: 'a' } } })
+    ).toThrow(/must differ/);
+  });
+});
+
+describe('parseSetPayload', () => {
+  const sceneMapping = resolveTopicMapping(config, scene);
+  const lampMapping = resolveTopicMapping(config, lamp);
+
+  it('accepts JSON states by label or index', () => {
+    const request = {
+      kind: 'radiobutton',
+      controlId: scene,
+      newState: 1,
+      initiator: 'user',
+      isCommitted: true,
+    };
+    expect(parseSetPayload(sceneDefinition, scene, '{"state":"Cozy"}', sceneMapping)).toEqual(
+      request
+    );
+    expect(parseSetPayload(sceneDefinition, scene, '{"state":1}', sceneMapping)).toEqual(request);
+  });
+
+  it('lets JSON payloads override the initiator and commit flag', () => {
+    expect(
+      parseSetPayload(
+        sceneDefinition,
+        scene,
+        '{"state":2,"initiator":"model","committed":false}',
+        sceneMapping
+      )
+    ).toMatchObject({ newState: 2, initiator: 'model', isCommitted: false });
+  });
+
+  it('scales raw slider values', () => {
+    expect(parseSetPayload(lampDefinition, lamp, '40', lampMapping)).toEqual({
+      kind: 'slider',
+      controlId: lamp,
+      newValue01: 0.4,
+      initiator: 'model',
+      isCommitted: true,
+    });
+    expect(() => parseSetPayload(lampDefinition, lamp, '140', lampMapping)).toThrow();
+    expect(() => parseSetPayload(lampDefinition, lamp, 'on', lampMapping)).toThrow(
+      /not a number/
+    );
+  });
+
+  it('rejects unknown labels, bad JSON and values that do not fit the control', () => {
+    expect(() => parseSetPayload(sceneDefinition, scene, '{"state":"Movie"}', sceneMapping)).toThrow(
+      /Unknown state label/
+    );
+    expect(() => parseSetPayload(sceneDefinition, scene, '{state}', sceneMapping)).toThrow(
+      /not valid JSON/
+    );
+    expect(() => parseSetPayload(sceneDefinition, scene, '{"state":3}', sceneMapping)).toThrow();
+    expect(() => parseSetPayload(sceneDefinition, scene, '{"value01":0.5}', sceneMapping)).toThrow(
+      /only accepted for sliders/
+    );
+  });
+});
+
+describe('formatStatePayload', () => {
+  const runtime: ControlRuntime = {
+    controlId: lamp,
+    kind: 'slider',
+    activeModelId: 'manual' as ControlRuntime['activeModelId'],
+    currentDiscreteState: 3,
+    currentValue01: 0.6 as SliderValue01,
+    lastUpdatedAtMs: 1000,
+    lastCommittedAtMs: 1000,
+    lastCommittedDiscreteState: 3,
+  };
+
+  it('encodes raw slider state on the mapping scale', () => {
+    const state = { controlId: lamp, definition: lampDefinition, runtime };
+    expect(formatStatePayload(state, resolveTopicMapping(config, lamp))).toBe('60');
+  });
+
+  it('encodes JSON state with its label', () => {
+    const state = { controlId: lamp, definition: lampDefinition, runtime };
+    expect(JSON.parse(formatStatePayload(state, resolveTopicMapping(config, scene)))).toEqual({
+      state: 3,
+      label: 'State 3',
+      value01: 0.6,
+      activeModelId: 'manual',
+      updatedAtMs: 1000,
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Translation between MQTT payloads and control values.
+ */
+
+import { z } from 'zod';
+import {
+  buildStateRequest,
+  getStateLabels,
+  initiatorSchema,
+  sliderValue01Schema,
+  type ControlDefinition,
+  type ControlId,
+  type DiscreteState,
+  type SetControlValueRequest,
+} from '@core';
+import type { BridgeConfig, ControlState, ResolvedTopicMapping } from './types.js';
+
+/**
+ * Returns a control's topic mapping with the bridge defaults filled in.
+ */
+export function resolveTopicMapping(
+  config: BridgeConfig,
+  controlId: ControlId
+): ResolvedTopicMapping {
+  const mapping = config.controls[controlId] ?? {};
+  return {
+    setTopic: mapping.setTopic ?? `${config.topicPrefix}/${controlId}/set`,
+    stateTopic: mapping.stateTopic ?? `${config.topicPrefix}/${controlId}/state`,
+    format: mapping.format ?? config.format,
+    initiator: mapping.initiator ?? 'user',
+    isCommitted: mapping.isCommitted ?? true,
+    sliderScale: mapping.sliderScale ?? 1,
+  };
+}
+
+/**
+ * JSON set payload. `state` (a label or index) works for every control kind;
+ * sliders may give `value01` instead. `initiator` and `committed` override the
+ * control's mapping.
+ */
+const jsonSetPayloadSchema = z
+  .object({
+    state: z.union([z.number().int().min(0), z.string().min(1)]).optional(),
+    value01: sliderValue01Schema.optional(),
+    initiator: initiatorSchema.optional(),
+    committed: z.boolean().optional(),
+  })
+  .refine(
+    (payload) => (payload.state === undefined) !== (payload.value01 === undefined),
+    'exactly one of state and value01 is required'
+  );
+
+/**
+ * Translates a payload received on a control's set topic into a request.
+ *
+ * @throws Error if the payload is malformed or does not fit the control
+ */
+export function parseSetPayload(
+  definition: ControlDefinition,
+  controlId: ControlId,
+  payload: string,
+  mapping: ResolvedTopicMapping
+): SetControlValueRequest {
+  if (mapping.format === 'raw') {
+    const text = payload.trim();
+    if (definition.kind === 'slider') {
+      const value = Number(text);
+      if (text === '' || !Number.isFinite(value)) {
+        throw new Error(`Slider payload is not a number: "${text}"`);
+      }
+      return {
+        kind: 'slider',
+        controlId,
+        newValue01: sliderValue01Schema.parse(value / mapping.sliderScale),
+        initiator: mapping.initiator,
+        isCommitted: mapping.isCommitted,
+      };
+    }
+    return buildStateRequest(
+      definition,
+      controlId,
+      parseState(definition, /^\d+$/.test(text) ? Number(text) : text),
+      mapping.initiator,
+      mapping.isCommitted
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(payload);
+  } catch {
+    throw new Error(`Payload is not valid JSON: "${payload}"`);
+  }
+  const parsed = jsonSetPayloadSchema.parse(json);
+  const initiator = parsed.initiator ?? mapping.initiator;
+  const isCommitted = parsed.committed ?? mapping.isCommitted;
+  if (parsed.value01 !== undefined) {
+    if (definition.kind !== 'slider') {
+      throw new Error(`value01 is only accepted for sliders, not ${definition.kind} controls`);
+    }
+    return { kind: 'slider', controlId, newValue01: parsed.value01, initiator, isCommitted };
+  }
+  if (parsed.state === undefined) {
+    // Unreachable past the schema's refinement; narrows the type
+    throw new Error('Payload needs exactly one of state and value01');
+  }
+  const state = parseState(definition, parsed.state);
+  return buildStateRequest(definition, controlId, state, initiator, isCommitted);
+}
+
+/**
+ * Resolves a state given by label or index.
+ */
+function parseState(definition: ControlDefinition, state: number | string): DiscreteState {
+  if (typeof state === 'number') {
+    return state;
+  }
+  const index = getStateLabels(definition).indexOf(state);
+  if (index < 0) {
+    throw new Error(`Unknown state label: "${state}"`);
+  }
+  return index;
+}
+
+/**
+ * Encodes a control's runtime state for its state topic.
+ */
+export function formatStatePayload(
+  { definition, runtime }: ControlState,
+  mapping: ResolvedTopicMapping
+): string {
+  const label = getStateLabels(definition)[runtime.currentDiscreteState];
+  if (mapping.format === 'raw') {
+    return runtime.currentValue01 === undefined
+      ? label
+      : String(runtime.currentValue01 * mapping.sliderScale);
+  }
+  return JSON.stringify({
+    state: runtime.currentDiscreteState,
+    label,
+    value01: runtime.currentValue01,
+    dimensions: runtime.currentDimensions,
+    activeModelId: runtime.activeModelId,
+    updatedAtMs: runtime.lastUpdatedAtMs,
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * MQTT bridge types.
+ */
+
+import type {
+  ControlDefinition,
+  ControlId,
+  ControlRuntime,
+  Initiator,
+  SetControlValueRequest,
+} from '@core';
+
+/**
+ * Payload encoding on a control's topics.
+ *
+ * - json: objects such as `{ "state": "Cozy", "committed": false }` in and
+ *   `{ "state": 2, "label": "Cozy", ... }` out
+ * - raw: a bare label or state index for discrete controls, a bare number
+ *   (scaled by `sliderScale`) for sliders; convenient for Node-RED nodes that
+ *   send plain values
+ */
+export type PayloadFormat = 'json' | 'raw';
+
+/**
+ * Topic and payload mapping of one control. Every field falls back to the
+ * bridge-wide default.
+ */
+export interface ControlTopicMapping {
+  /**
+   * Topic the bridge subscribes to for value changes.
+   * Default: `<topicPrefix>/<controlId>/set`.
+   */
+  readonly setTopic?: string;
+  /**
+   * Topic the bridge publishes runtime state to (retained).
+   * Default: `<topicPrefix>/<controlId>/state`.
+   */
+  readonly stateTopic?: string;
+  readonly format?: PayloadFormat;
+  /**
+   * Initiator of changes received on the set topic, unless a JSON payload
+   * names one. Default: `'user'`.
+   */
+  readonly initiator?: Initiator;
+  /**
+   * Whether changes received on the set topic are committed, unless a JSON
+   * payload says otherwise. Default: `true`.
+   */
+  readonly isCommitted?: boolean;
+  /**
+   * Full-scale raw slider value, e.g. 100 for percent or 255 for brightness.
+   * Default: 1.
+   */
+  readonly sliderScale?: number;
+}
+
+/**
+ * Bridge configuration. Every control is bridged; `controls` overrides the
+ * mapping of individual controls.
+ */
+export interface BridgeConfig {
+  readonly topicPrefix: string;
+  readonly format: PayloadFormat;
+  readonly controls: Readonly<Record<string, ControlTopicMapping>>;
+}
+
+/**
+ * A control's mapping with every default filled in.
+ */
+export type ResolvedTopicMapping = Required<ControlTopicMapping>;
+
+/**
+ * A control as the bridge sees it.
+ */
+export interface ControlState {
+  readonly controlId: ControlId;
+  readonly definition: ControlDefinition;
+  readonly runtime: ControlRuntime;
+}
+
+/**
+ * The system the bridge talks to. `convexBackend.ts` implements it against
+ * the Convex deployment.
+ */
+export interface ControlBackend {
+  setControlValue(request: SetControlValueRequest): Promise<unknown>;
+  /**
+   * Calls `onStates` with the full list of controls now and whenever any of
+   * them changes.
+   *
+   * @returns Function that ends the subscription
+   */
+  subscribeControlStates(onStates: (states: readonly ControlState[]) => void): () => void;
+}
@@ -0,0 +1,48 @@
+/**
+ * Zod validation schemas for the bridge configuration.
+ */
+
+import { z } from 'zod';
+import { initiatorSchema } from '@core';
+import type { BridgeConfig, ControlTopicMapping } from './types.js';
+
+/**
+ * Schema for PayloadFormat.
+ */
+export const payloadFormatSchema = z.enum(['json', 'raw']);
+
+/**
+ * Topics the bridge publishes or subscribes to must not contain MQTT
+ * wildcards.
+ */
+const topicSchema = z
+  .string()
+  .min(1)
+  .refine((topic) => !/[#+]/.test(topic), 'topics must not contain wildcards');
+
+/**
+ * Schema for ControlTopicMapping. The set and state topics must differ, or
+ * every published state would be read back as a new change.
+ */
+export const controlTopicMappingSchema = z
+  .object({
+    setTopic: topicSchema.optional(),
+    stateTopic: topicSchema.optional(),
+    format: payloadFormatSchema.optional(),
+    initiator: initiatorSchema.optional(),
+    isCommitted: z.boolean().optional(),
+    sliderScale: z.number().positive().optional(),
+  })
+  .refine(
+    (mapping) => mapping.setTopic === undefined || mapping.setTopic !== mapping.stateTopic,
+    { message: 'setTopic and stateTopic must differ', path: ['stateTopic'] }
+  ) as unknown as z.ZodType<ControlTopicMapping>;
+
+/**
+ * Schema for BridgeConfig, with defaults for omitted fields.
+ */
+export const bridgeConfigSchema = z.object({
+  topicPrefix: topicSchema.default('home/controls'),
+  format: payloadFormatSchema.default('json'),
+  controls: z.record(controlTopicMappingSchema).default({}),
+}) as unknown as z.ZodType<BridgeConfig, z.ZodTypeDef, unknown>;
@@ -5,7 +5,7 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
-    include: ['packages/**/*.test.ts', 'packages/**/*.spec.ts'],
+    include: ['packages/**/*.test.ts', 'packages/**/*.spec.ts', 'apps/**/*.test.ts'],
   },
   resolve: {
     alias: {